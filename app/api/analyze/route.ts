@@ -1,70 +1,42 @@
 import { NextResponse } from "next/server";
-import { runAnalysis, type FinancialPeriod, type ScenarioAssumptions } from "@/lib/analysis";
+import { CohortNotFoundError, getCohort } from "@/lib/benchmark-store";
+import { runAnalysisPipeline } from "@/lib/pipeline";
+import { defaultRiskRules } from "@/lib/risk-rules";
+import { normalizeAnalysisRequest } from "@/lib/validation";
+import { WorkspaceNotFoundError, getWorkspace } from "@/lib/workspaces";
 
-const sanitizeNumber = (value: unknown) => {
-  if (typeof value === "number" && Number.isFinite(value)) return value;
-  if (typeof value === "string") {
-    const parsed = parseFloat(value);
-    if (Number.isFinite(parsed)) return parsed;
-  }
-  return 0;
-};
-
-const normalizePeriods = (raw: unknown): FinancialPeriod[] => {
-  if (!Array.isArray(raw)) return [];
-  return raw
-    .map((row) => {
-      if (typeof row !== "object" || row === null) return null;
-      const { label } = row as Partial<FinancialPeriod>;
-      return {
-        label: typeof label === "string" && label.trim().length ? label : "Period",
-        revenue: sanitizeNumber((row as Record<string, unknown>).revenue),
-        cogs: sanitizeNumber((row as Record<string, unknown>).cogs),
-        operatingExpenses: sanitizeNumber((row as Record<string, unknown>).operatingExpenses),
-        netIncome: sanitizeNumber((row as Record<string, unknown>).netIncome),
-        assets: sanitizeNumber((row as Record<string, unknown>).assets),
-        liabilities: sanitizeNumber((row as Record<string, unknown>).liabilities),
-        cash: sanitizeNumber((row as Record<string, unknown>).cash),
-        freeCashFlow: sanitizeNumber((row as Record<string, unknown>).freeCashFlow)
-      } satisfies FinancialPeriod;
-    })
-    .filter(Boolean) as FinancialPeriod[];
-};
-
-const normalizeAssumptions = (raw: unknown): ScenarioAssumptions => {
-  if (!raw || typeof raw !== "object") {
-    return {
-      revenueGrowth: 0,
-      marginShift: 0,
-      efficiencyGain: 0,
-      cashConversion: 0
-    } satisfies ScenarioAssumptions;
-  }
+export const runtime = "nodejs";
 
-  const source = raw as Record<string, unknown>;
-
-  return {
-    revenueGrowth: sanitizeNumber(source.revenueGrowth),
-    marginShift: sanitizeNumber(source.marginShift),
-    efficiencyGain: sanitizeNumber(source.efficiencyGain),
-    cashConversion: sanitizeNumber(source.cashConversion)
-  } satisfies ScenarioAssumptions;
-};
+// Intentionally unauthenticated: this is the analyzer UI's own same-origin endpoint and it only
+// runs the engine over the posted data and the saved rules or cohorts it names. Integrations should call the
+// keyed, rate-limited /api/v1/analyze instead; put this route behind the deployment's own
+// access control if the app itself is exposed publicly.
 
 export async function POST(request: Request) {
   try {
-    const body = await request.json();
-    const periods = normalizePeriods(body.periods);
-    const assumptions = normalizeAssumptions(body.assumptions);
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Request body must be a JSON object." }, { status: 400 });
+    }
 
-    if (!periods.length) {
-      return NextResponse.json({ error: "No financial periods supplied." }, { status: 400 });
+    const normalized = normalizeAnalysisRequest(body);
+    if (normalized.errors.length) {
+      return NextResponse.json({ error: "Payload failed validation.", issues: normalized.errors }, { status: 422 });
     }
 
-    const analysis = runAnalysis(periods, assumptions);
+    const rules =
+      normalized.riskRules ??
+      (typeof body.workspaceId === "string" ? (await getWorkspace(body.workspaceId)).riskRules : undefined) ??
+      defaultRiskRules;
 
-    return NextResponse.json({ data: analysis });
+    const { benchmark } = normalized;
+    const cohort = benchmark?.cohort ?? (benchmark?.cohortId ? await getCohort(benchmark.cohortId) : null);
+
+    return NextResponse.json(runAnalysisPipeline(normalized, rules, cohort));
   } catch (error) {
+    if (error instanceof WorkspaceNotFoundError || error instanceof CohortNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
     console.error("Analysis error", error);
     return NextResponse.json({ error: "Unable to evaluate financials." }, { status: 500 });
   }
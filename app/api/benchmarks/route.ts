@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { listCohorts, saveCohortFile } from "@/lib/benchmark-store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const { cohorts, issues } = await listCohorts();
+    return NextResponse.json({ data: cohorts, warnings: issues });
+  } catch (error) {
+    console.error("Benchmark list error", error);
+    return NextResponse.json({ error: "Unable to load benchmark cohorts." }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Request body must be a JSON object." }, { status: 400 });
+    }
+
+    const fileName = typeof body.fileName === "string" ? body.fileName.trim() : "";
+    if (!fileName || typeof body.content !== "string") {
+      return NextResponse.json({ error: "fileName and content are required." }, { status: 400 });
+    }
+
+    const { cohorts, issues } = await saveCohortFile(fileName, body.content);
+    if (issues.length) {
+      return NextResponse.json({ error: "Benchmark file failed validation.", issues }, { status: 422 });
+    }
+
+    return NextResponse.json({ data: cohorts }, { status: 201 });
+  } catch (error) {
+    console.error("Benchmark upload error", error);
+    return NextResponse.json({ error: "Unable to save benchmark file." }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { CohortNotFoundError, getCohort } from "@/lib/benchmark-store";
+import { preparePeriods, runAnalysisPipeline } from "@/lib/pipeline";
+import { buildReport, renderMarkdown, renderWorkbook, reportFileName, reportFormats, type ReportFormat } from "@/lib/report";
+import { renderPdf } from "@/lib/report-pdf";
+import { defaultRiskRules } from "@/lib/risk-rules";
+import { normalizeAnalysisRequest } from "@/lib/validation";
+import { WorkspaceNotFoundError, getWorkspace } from "@/lib/workspaces";
+
+const contentTypes: Record<ReportFormat, string> = {
+  pdf: "application/pdf",
+  markdown: "text/markdown; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+};
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Request body must be a JSON object." }, { status: 400 });
+    }
+
+    const format = body.format as ReportFormat;
+    if (!reportFormats.includes(format)) {
+      return NextResponse.json({ error: `format must be one of ${reportFormats.join(", ")}.` }, { status: 400 });
+    }
+
+    const normalized = normalizeAnalysisRequest(body);
+    if (normalized.errors.length) {
+      return NextResponse.json({ error: "Payload failed validation.", issues: normalized.errors }, { status: 422 });
+    }
+
+    // The report is built from the same pipeline the analyzer shows, so exclusions, rules and
+    // valuation inputs carry through.
+    const rules =
+      normalized.riskRules ??
+      (typeof body.workspaceId === "string" ? (await getWorkspace(body.workspaceId)).riskRules : undefined) ??
+      defaultRiskRules;
+
+    const { benchmark } = normalized;
+    const cohort = benchmark?.cohort ?? (benchmark?.cohortId ? await getCohort(benchmark.cohortId) : null);
+    const result = runAnalysisPipeline(normalized, rules, cohort);
+
+    const report = buildReport({
+      title: typeof body.title === "string" ? body.title : undefined,
+      periods: preparePeriods(normalized).periods,
+      units: result.currency.to,
+      scenarios: normalized.scenarios,
+      planId: result.planId,
+      analysis: result.data,
+      scenarioResults: result.scenarios,
+      signals: result.signals,
+      valuation: result.valuation
+    });
+
+    const content = format === "pdf" ? renderPdf(report) : format === "xlsx" ? renderWorkbook(report) : renderMarkdown(report);
+
+    return new NextResponse(content, {
+      headers: {
+        "Content-Type": contentTypes[format],
+        "Content-Disposition": `attachment; filename="${reportFileName(report, format)}"`,
+        "Cache-Control": "no-store"
+      }
+    });
+  } catch (error) {
+    if (error instanceof WorkspaceNotFoundError || error instanceof CohortNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error("Export error", error);
+    return NextResponse.json({ error: "Unable to generate report." }, { status: 500 });
+  }
+}
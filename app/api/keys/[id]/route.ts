@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin-auth";
+import { ApiKeyNotFoundError, revokeApiKey } from "@/lib/api-keys";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Context = { params: { id: string } };
+
+export async function DELETE(request: Request, { params }: Context) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+  try {
+    return NextResponse.json({ data: await revokeApiKey(params.id) });
+  } catch (error) {
+    if (error instanceof ApiKeyNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error("API key revoke error", error);
+    return NextResponse.json({ error: "Unable to revoke API key." }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin-auth";
+import { DEFAULT_RATE_LIMIT, MAX_RATE_LIMIT, createApiKey, listApiKeys } from "@/lib/api-keys";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+  try {
+    return NextResponse.json({ data: await listApiKeys() });
+  } catch (error) {
+    console.error("API key list error", error);
+    return NextResponse.json({ error: "Unable to list API keys." }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Request body must be a JSON object." }, { status: 400 });
+    }
+
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name) {
+      return NextResponse.json({ error: "API key name is required." }, { status: 400 });
+    }
+
+    const rateLimit = body.rateLimit === undefined ? DEFAULT_RATE_LIMIT : Number(body.rateLimit);
+    if (!Number.isInteger(rateLimit) || rateLimit < 1 || rateLimit > MAX_RATE_LIMIT) {
+      return NextResponse.json(
+        { error: `rateLimit must be a whole number of requests per minute between 1 and ${MAX_RATE_LIMIT}.` },
+        { status: 400 }
+      );
+    }
+
+    const { key, summary } = await createApiKey({ name, rateLimit });
+    return NextResponse.json({ data: summary, key }, { status: 201 });
+  } catch (error) {
+    console.error("API key create error", error);
+    return NextResponse.json({ error: "Unable to create API key." }, { status: 500 });
+  }
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { CohortNotFoundError, getCohort } from "@/lib/benchmark-store";
+import { narrativeProviders, resolveNarrativeProvider, streamNarrative, type NarrativeEvent } from "@/lib/narrative";
+import { runAnalysisPipeline } from "@/lib/pipeline";
+import { defaultRiskRules } from "@/lib/risk-rules";
+import { normalizeAnalysisRequest } from "@/lib/validation";
+import { WorkspaceNotFoundError, getWorkspace } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const providers = narrativeProviders();
+  return NextResponse.json({
+    data: providers.map(({ id, label }) => ({ id, label })),
+    defaultProvider: resolveNarrativeProvider(undefined).id
+  });
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Request body must be a JSON object." }, { status: 400 });
+    }
+
+    const normalized = normalizeAnalysisRequest(body);
+    if (normalized.errors.length) {
+      return NextResponse.json({ error: "Payload failed validation.", issues: normalized.errors }, { status: 422 });
+    }
+
+    // Grounded against the same pipeline output the analyzer shows, rule signals included.
+    const rules =
+      normalized.riskRules ??
+      (typeof body.workspaceId === "string" ? (await getWorkspace(body.workspaceId)).riskRules : undefined) ??
+      defaultRiskRules;
+
+    const { benchmark } = normalized;
+    const cohort = benchmark?.cohort ?? (benchmark?.cohortId ? await getCohort(benchmark.cohortId) : null);
+    const result = runAnalysisPipeline(normalized, rules, cohort);
+
+    const provider = resolveNarrativeProvider(typeof body.provider === "string" ? body.provider : undefined);
+    const { metrics, healthScores, narrative } = result.data;
+    const riskSignals = result.signals.map((signal) => signal.message);
+    const encoder = new TextEncoder();
+    const send = (controller: ReadableStreamDefaultController<Uint8Array>, event: NarrativeEvent) =>
+      controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          for await (const event of streamNarrative(provider, { metrics, healthScores, riskSignals, narrative }, request.signal)) {
+            send(controller, event);
+          }
+          controller.close();
+        } catch (error) {
+          if (request.signal.aborted) {
+            controller.error(error);
+            return;
+          }
+          console.error("Narrative stream error", error);
+          send(controller, { type: "error", message: "Unable to generate narrative." });
+          controller.close();
+        }
+      }
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "application/x-ndjson; charset=utf-8",
+        "Cache-Control": "no-store"
+      }
+    });
+  } catch (error) {
+    if (error instanceof WorkspaceNotFoundError || error instanceof CohortNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error("Narrative error", error);
+    return NextResponse.json({ error: "Unable to generate narrative." }, { status: 500 });
+  }
+}
@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import { CohortNotFoundError, getCohort } from "@/lib/benchmark-store";
+import type { BenchmarkCohort } from "@/lib/benchmarks";
+import { runAnalysisPipeline } from "@/lib/pipeline";
+import {
+  aggregatePortfolio,
+  normalizePortfolioEntries,
+  summarizeCompany,
+  type PortfolioEntry,
+  type PortfolioResult
+} from "@/lib/portfolio";
+import { defaultRiskRules } from "@/lib/risk-rules";
+import { normalizeAnalysisRequest } from "@/lib/validation";
+import { WorkspaceNotFoundError, getWorkspace } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const analyzeEntry = async (
+  entry: PortfolioEntry,
+  cohorts: Map<string, Promise<BenchmarkCohort>>
+): Promise<PortfolioResult> => {
+  const identity = { id: entry.id, name: entry.name, workspaceId: entry.workspaceId };
+  try {
+    const workspace = entry.workspaceId ? await getWorkspace(entry.workspaceId) : null;
+    const latest = workspace?.versions[workspace.versions.length - 1];
+    const body =
+      latest && entry.body.periods === undefined
+        ? {
+            ...entry.body,
+            periods: latest.periods,
+            scenarios: latest.scenarios,
+            planId: latest.planId,
+            units: latest.units,
+            adjustments: latest.adjustments
+          }
+        : entry.body;
+    identity.name = identity.name || workspace?.company || workspace?.name || entry.id;
+
+    const normalized = normalizeAnalysisRequest(body);
+    if (normalized.errors.length) {
+      return { ...identity, status: "invalid", error: "Payload failed validation.", issues: normalized.errors };
+    }
+
+    const { benchmark } = normalized;
+    let cohort = benchmark?.cohort ?? null;
+    if (!cohort && benchmark?.cohortId) {
+      if (!cohorts.has(benchmark.cohortId)) cohorts.set(benchmark.cohortId, getCohort(benchmark.cohortId));
+      cohort = (await cohorts.get(benchmark.cohortId)) ?? null;
+    }
+
+    const rules = normalized.riskRules ?? workspace?.riskRules ?? defaultRiskRules;
+    return summarizeCompany(identity, normalized, runAnalysisPipeline(normalized, rules, cohort));
+  } catch (error) {
+    if (error instanceof WorkspaceNotFoundError || error instanceof CohortNotFoundError) {
+      return { ...identity, status: "invalid", error: error.message, issues: [] };
+    }
+    throw error;
+  }
+};
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Request body must be a JSON object." }, { status: 400 });
+    }
+
+    const entries = normalizePortfolioEntries(body.companies, {
+      riskRules: body.riskRules,
+      benchmark: body.benchmark,
+      reporting: body.reporting
+    });
+    if (entries.issues.length) {
+      return NextResponse.json({ error: "Payload failed validation.", issues: entries.issues }, { status: 422 });
+    }
+
+    const cohorts = new Map<string, Promise<BenchmarkCohort>>();
+    const companies: PortfolioResult[] = [];
+    for (const entry of entries.value) companies.push(await analyzeEntry(entry, cohorts));
+
+    return NextResponse.json({ data: companies, aggregates: aggregatePortfolio(companies) });
+  } catch (error) {
+    console.error("Portfolio analysis error", error);
+    return NextResponse.json({ error: "Unable to evaluate portfolio." }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { ApiError } from "@/lib/api-errors";
+import { withApiKey } from "@/lib/api-v1";
+import { getCohort } from "@/lib/benchmark-store";
+import { runAnalysisPipeline } from "@/lib/pipeline";
+import { defaultRiskRules } from "@/lib/risk-rules";
+import { normalizeAnalysisRequest } from "@/lib/validation";
+import { getWorkspace } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export const POST = withApiKey(async (body) => {
+  const normalized = normalizeAnalysisRequest(body);
+  if (normalized.errors.length) throw new ApiError("validation_failed", "Payload failed validation.", normalized.errors);
+
+  const rules =
+    normalized.riskRules ??
+    (typeof body.workspaceId === "string" ? (await getWorkspace(body.workspaceId)).riskRules : undefined) ??
+    defaultRiskRules;
+
+  const { benchmark } = normalized;
+  const cohort = benchmark?.cohort ?? (benchmark?.cohortId ? await getCohort(benchmark.cohortId) : null);
+
+  return runAnalysisPipeline(normalized, rules, cohort);
+});
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { buildOpenApiDocument } from "@/lib/openapi";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  try {
+    return NextResponse.json(buildOpenApiDocument());
+  } catch (error) {
+    console.error("OpenAPI error", error);
+    return NextResponse.json({ error: "Unable to build the API document." }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin-auth";
+import { normalizeWatchInput } from "@/lib/validation";
+import { WatchNotFoundError, deleteWatch, getWatch, redactWatch, updateWatch } from "@/lib/watchlists";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Context = { params: { id: string } };
+
+const notFound = (error: unknown) =>
+  error instanceof WatchNotFoundError ? NextResponse.json({ error: error.message }, { status: 404 }) : null;
+
+export async function GET(request: Request, { params }: Context) {
+  const denied = requireAdmin(request, "Watchlist management");
+  if (denied) return denied;
+  try {
+    return NextResponse.json({ data: redactWatch(await getWatch(params.id)) });
+  } catch (error) {
+    const response = notFound(error);
+    if (response) return response;
+    console.error("Watch read error", error);
+    return NextResponse.json({ error: "Unable to load watch." }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: Request, { params }: Context) {
+  const denied = requireAdmin(request, "Watchlist management");
+  if (denied) return denied;
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Request body must be a JSON object." }, { status: 400 });
+    }
+
+    const { value, issues } = normalizeWatchInput(body);
+    if (issues.length) {
+      return NextResponse.json({ error: "Payload failed validation.", issues }, { status: 422 });
+    }
+    const { watch, secrets } = await updateWatch(params.id, value);
+    return NextResponse.json({ data: redactWatch(watch), secrets });
+  } catch (error) {
+    const response = notFound(error);
+    if (response) return response;
+    console.error("Watch update error", error);
+    return NextResponse.json({ error: "Unable to update watch." }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: Context) {
+  const denied = requireAdmin(request, "Watchlist management");
+  if (denied) return denied;
+  try {
+    await deleteWatch(params.id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    const response = notFound(error);
+    if (response) return response;
+    console.error("Watch delete error", error);
+    return NextResponse.json({ error: "Unable to delete watch." }, { status: 500 });
+  }
+}
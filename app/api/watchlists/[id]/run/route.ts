@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin-auth";
+import { WatchNotFoundError, deliverPending, redactWatch, runWatch } from "@/lib/watchlists";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Context = { params: { id: string } };
+
+export async function POST(request: Request, { params }: Context) {
+  const denied = requireAdmin(request, "Watchlist management");
+  if (denied) return denied;
+  try {
+    await runWatch(params.id, "manual");
+    return NextResponse.json({ data: redactWatch(await deliverPending(params.id)) });
+  } catch (error) {
+    if (error instanceof WatchNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error("Watch run error", error);
+    return NextResponse.json({ error: "Unable to run watch." }, { status: 500 });
+  }
+}
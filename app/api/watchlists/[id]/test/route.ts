@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin-auth";
+import { WatchNotFoundError, deliverPending, getWatch, queueTestDelivery, redactWatch } from "@/lib/watchlists";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Context = { params: { id: string } };
+
+export async function POST(request: Request, { params }: Context) {
+  const denied = requireAdmin(request, "Watchlist management");
+  if (denied) return denied;
+  try {
+    if (!(await getWatch(params.id)).webhooks.length) {
+      return NextResponse.json({ error: "Add a webhook URL before sending a test delivery." }, { status: 400 });
+    }
+    await queueTestDelivery(params.id);
+    return NextResponse.json({ data: redactWatch(await deliverPending(params.id)) });
+  } catch (error) {
+    if (error instanceof WatchNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error("Watch test delivery error", error);
+    return NextResponse.json({ error: "Unable to send test delivery." }, { status: 500 });
+  }
+}
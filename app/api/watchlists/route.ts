@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin-auth";
+import { defaultWatchConditions } from "@/lib/watch-conditions";
+import { startWatchScheduler } from "@/lib/watch-scheduler";
+import { normalizeWatchInput } from "@/lib/validation";
+import { createWatch, deliverPending, issuedSecrets, listWatches, redactWatch, runWatch } from "@/lib/watchlists";
+import { WorkspaceNotFoundError } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  startWatchScheduler();
+  const denied = requireAdmin(request, "Watchlist management");
+  if (denied) return denied;
+  try {
+    const workspaceId = new URL(request.url).searchParams.get("workspaceId") ?? undefined;
+    return NextResponse.json({ data: (await listWatches(workspaceId)).map(redactWatch) });
+  } catch (error) {
+    console.error("Watchlist list error", error);
+    return NextResponse.json({ error: "Unable to list watches." }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  startWatchScheduler();
+  const denied = requireAdmin(request, "Watchlist management");
+  if (denied) return denied;
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Request body must be a JSON object." }, { status: 400 });
+    }
+
+    const workspaceId = typeof body.workspaceId === "string" ? body.workspaceId : "";
+    if (!workspaceId) {
+      return NextResponse.json({ error: "workspaceId is required." }, { status: 400 });
+    }
+
+    const { value, issues } = normalizeWatchInput(body);
+    if (issues.length) {
+      return NextResponse.json({ error: "Payload failed validation.", issues }, { status: 422 });
+    }
+
+    // The first run sets the baseline later runs are compared against.
+    const watch = await createWatch(workspaceId, { conditions: defaultWatchConditions, ...value });
+    await runWatch(watch.id, "manual");
+    return NextResponse.json(
+      { data: redactWatch(await deliverPending(watch.id)), secrets: issuedSecrets([], watch.webhooks) },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof WorkspaceNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error("Watchlist create error", error);
+    return NextResponse.json({ error: "Unable to create watch." }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { getWatch } from "@/lib/watchlists";
+import { SIGNATURE_HEADER, verifySignature } from "@/lib/webhooks";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Receipt = {
+  receivedAt: string;
+  deliveryId: string | null;
+  event: string | null;
+  watchId: string | null;
+  verified: boolean;
+  respondedWith: number;
+  body: unknown;
+};
+
+const MAX_RECEIPTS = 50;
+
+const receipts: Receipt[] = [];
+
+// Local receiver for trying webhooks without an external endpoint. It checks the signature
+// against the secrets of the watch named in the payload; `?status=500` simulates a failing
+// receiver so retries can be observed in the delivery log.
+export async function POST(request: Request) {
+  const raw = await request.text();
+  let body: Record<string, unknown> | null = null;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    body = null;
+  }
+
+  const reference = body?.watch as { id?: unknown } | undefined;
+  const watchId = typeof reference?.id === "string" ? reference.id : null;
+  const watch = watchId ? await getWatch(watchId).catch(() => null) : null;
+  const signature = request.headers.get(SIGNATURE_HEADER);
+  const verified = Boolean(watch?.webhooks.some((webhook) => verifySignature(webhook.secret, raw, signature)));
+  const requested = Number(new URL(request.url).searchParams.get("status"));
+  const status = !verified ? 401 : Number.isInteger(requested) && requested >= 200 && requested < 600 ? requested : 200;
+
+  receipts.unshift({
+    receivedAt: new Date().toISOString(),
+    deliveryId: request.headers.get("x-aurora-delivery"),
+    event: request.headers.get("x-aurora-event"),
+    watchId,
+    verified,
+    respondedWith: status,
+    body
+  });
+  receipts.splice(MAX_RECEIPTS);
+
+  return NextResponse.json(verified ? { received: true } : { error: "Signature verification failed." }, { status });
+}
+
+export async function GET() {
+  return NextResponse.json({ data: receipts });
+}
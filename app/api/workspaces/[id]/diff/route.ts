@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { diffVersions } from "@/lib/workspace-diff";
+import { WorkspaceNotFoundError, findVersion, getWorkspace } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Context = { params: { id: string } };
+
+const parseVersion = (value: string | null) => (value === null || value === "latest" ? "latest" : Number(value));
+
+export async function GET(request: Request, { params }: Context) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const workspace = await getWorkspace(params.id);
+    const to = findVersion(workspace, parseVersion(searchParams.get("to")));
+    const from = searchParams.get("from")
+      ? findVersion(workspace, parseVersion(searchParams.get("from")))
+      : to && workspace.versions[workspace.versions.indexOf(to) - 1];
+
+    if (!from || !to) {
+      return NextResponse.json({ error: "Both versions must exist to compute a diff." }, { status: 404 });
+    }
+
+    return NextResponse.json({ data: diffVersions(from, to) });
+  } catch (error) {
+    if (error instanceof WorkspaceNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error("Workspace diff error", error);
+    return NextResponse.json({ error: "Unable to diff versions." }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { WorkspaceNotFoundError, deleteWorkspace, getWorkspace, updateWorkspaceDetails } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Context = { params: { id: string } };
+
+const notFound = (error: unknown) =>
+  error instanceof WorkspaceNotFoundError ? NextResponse.json({ error: error.message }, { status: 404 }) : null;
+
+export async function GET(_request: Request, { params }: Context) {
+  try {
+    return NextResponse.json({ data: await getWorkspace(params.id) });
+  } catch (error) {
+    const response = notFound(error);
+    if (response) return response;
+    console.error("Workspace read error", error);
+    return NextResponse.json({ error: "Unable to load workspace." }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: Request, { params }: Context) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const details = {
+      name: typeof body.name === "string" && body.name.trim() ? body.name.trim() : undefined,
+      company: typeof body.company === "string" ? body.company.trim() : undefined
+    };
+    return NextResponse.json({ data: await updateWorkspaceDetails(params.id, details) });
+  } catch (error) {
+    const response = notFound(error);
+    if (response) return response;
+    console.error("Workspace update error", error);
+    return NextResponse.json({ error: "Unable to update workspace." }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: Context) {
+  try {
+    await deleteWorkspace(params.id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    const response = notFound(error);
+    if (response) return response;
+    console.error("Workspace delete error", error);
+    return NextResponse.json({ error: "Unable to delete workspace." }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { defaultRiskRules } from "@/lib/risk-rules";
+import { normalizeRiskRules } from "@/lib/validation";
+import { runWorkspaceWatches } from "@/lib/watchlists";
+import { WorkspaceNotFoundError, getWorkspace, updateWorkspaceRules } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Context = { params: { id: string } };
+
+const notFound = (error: unknown) =>
+  error instanceof WorkspaceNotFoundError ? NextResponse.json({ error: error.message }, { status: 404 }) : null;
+
+export async function GET(_request: Request, { params }: Context) {
+  try {
+    const workspace = await getWorkspace(params.id);
+    return NextResponse.json({ data: workspace.riskRules ?? defaultRiskRules });
+  } catch (error) {
+    const response = notFound(error);
+    if (response) return response;
+    console.error("Risk rules read error", error);
+    return NextResponse.json({ error: "Unable to load risk rules." }, { status: 500 });
+  }
+}
+
+export async function PUT(request: Request, { params }: Context) {
+  try {
+    const body = await request.json().catch(() => null);
+    const { value, issues } = normalizeRiskRules(Array.isArray(body) ? body : body?.rules);
+    if (issues.length) {
+      return NextResponse.json({ error: "Rule set failed validation.", issues }, { status: 422 });
+    }
+    const rules = await updateWorkspaceRules(params.id, value);
+    void runWorkspaceWatches(params.id).catch((error) => console.error("Watch re-run error", error));
+    return NextResponse.json({ data: rules });
+  } catch (error) {
+    const response = notFound(error);
+    if (response) return response;
+    console.error("Risk rules update error", error);
+    return NextResponse.json({ error: "Unable to save risk rules." }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { runAnalysisPipeline } from "@/lib/pipeline";
+import { defaultRiskRules } from "@/lib/risk-rules";
+import { normalizeAnalysisRequest } from "@/lib/validation";
+import { runWorkspaceWatches } from "@/lib/watchlists";
+import { WorkspaceNotFoundError, appendVersion, getWorkspace } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Context = { params: { id: string } };
+
+export async function GET(_request: Request, { params }: Context) {
+  try {
+    const workspace = await getWorkspace(params.id);
+    return NextResponse.json({
+      data: workspace.versions.map(({ version, createdAt, note, analysis }) => ({
+        version,
+        createdAt,
+        note,
+        overall: analysis.healthScores.overall
+      }))
+    });
+  } catch (error) {
+    if (error instanceof WorkspaceNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error("Workspace versions error", error);
+    return NextResponse.json({ error: "Unable to list versions." }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request, { params }: Context) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Request body must be a JSON object." }, { status: 400 });
+    }
+
+    const normalized = normalizeAnalysisRequest(body);
+    if (normalized.errors.length) {
+      return NextResponse.json({ error: "Payload failed validation.", issues: normalized.errors }, { status: 422 });
+    }
+
+    // Same rules the workspace's watches evaluate, so saved signals line up with alerts.
+    const rules = normalized.riskRules ?? (await getWorkspace(params.id)).riskRules ?? defaultRiskRules;
+    const { periods, scenarios, planId, units, adjustments } = normalized;
+    const result = runAnalysisPipeline(normalized, rules);
+    const version = await appendVersion(
+      params.id,
+      { periods, scenarios, planId, units, adjustments },
+      result.data,
+      result.signals,
+      typeof body.note === "string" ? body.note : ""
+    );
+    void runWorkspaceWatches(params.id).catch((error) => console.error("Watch re-run error", error));
+
+    return NextResponse.json({ data: version }, { status: 201 });
+  } catch (error) {
+    if (error instanceof WorkspaceNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error("Workspace save error", error);
+    return NextResponse.json({ error: "Unable to save version." }, { status: 500 });
+  }
+}
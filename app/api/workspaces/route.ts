@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { runAnalysisPipeline } from "@/lib/pipeline";
+import { defaultRiskRules } from "@/lib/risk-rules";
+import { normalizeAnalysisRequest } from "@/lib/validation";
+import { createWorkspace, listWorkspaces } from "@/lib/workspaces";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ data: await listWorkspaces() });
+  } catch (error) {
+    console.error("Workspace list error", error);
+    return NextResponse.json({ error: "Unable to list workspaces." }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Request body must be a JSON object." }, { status: 400 });
+    }
+
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name) {
+      return NextResponse.json({ error: "Workspace name is required." }, { status: 400 });
+    }
+
+    const normalized = normalizeAnalysisRequest(body);
+    if (normalized.errors.length) {
+      return NextResponse.json({ error: "Payload failed validation.", issues: normalized.errors }, { status: 422 });
+    }
+
+    const { periods, scenarios, planId, units, adjustments } = normalized;
+    const result = runAnalysisPipeline(normalized, normalized.riskRules ?? defaultRiskRules);
+    const workspace = await createWorkspace({
+      name,
+      company: typeof body.company === "string" ? body.company.trim() : "",
+      snapshot: { periods, scenarios, planId, units, adjustments },
+      analysis: result.data,
+      signals: result.signals,
+      note: typeof body.note === "string" ? body.note : undefined
+    });
+
+    return NextResponse.json({ data: workspace }, { status: 201 });
+  } catch (error) {
+    console.error("Workspace create error", error);
+    return NextResponse.json({ error: "Unable to create workspace." }, { status: 500 });
+  }
+}
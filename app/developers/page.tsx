@@ -0,0 +1,9 @@
+import ApiKeysView from "@/components/ApiKeysView";
+
+export default function DevelopersPage() {
+  return (
+    <main>
+      <ApiKeysView />
+    </main>
+  );
+}
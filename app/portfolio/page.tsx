@@ -0,0 +1,9 @@
+import PortfolioView from "@/components/PortfolioView";
+
+export default function PortfolioPage() {
+  return (
+    <main>
+      <PortfolioView />
+    </main>
+  );
+}
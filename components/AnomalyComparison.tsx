@@ -0,0 +1,83 @@
+"use client";
+
+import type { AnalysisPayload } from "@/lib/analysis";
+import type { AnomalyAdjustments } from "@/lib/anomalies";
+import { formatMetric, humanizeKey } from "@/lib/report";
+import { ScaleIcon } from "@heroicons/react/24/outline";
+
+const comparedMetrics = ["cagr", "netMargin", "burnMultiple", "grossMargin"] as const;
+
+function Row({ label, reported, adjusted, format }: { label: string; reported: number; adjusted: number; format: (value: number) => string }) {
+  const delta = adjusted - reported;
+  return (
+    <tr className="border-t border-white/5">
+      <td className="py-1.5 pr-3 text-slate-400">{label}</td>
+      <td className="py-1.5 text-right text-slate-300">{format(reported)}</td>
+      <td className="py-1.5 text-right font-semibold text-white">{format(adjusted)}</td>
+      <td className={`py-1.5 text-right ${Math.abs(delta) < 1e-9 ? "text-slate-500" : delta > 0 ? "text-emerald-300" : "text-rose-300"}`}>
+        {Math.abs(delta) < 1e-9 ? "—" : `${delta > 0 ? "+" : "-"}${format(Math.abs(delta))}`}
+      </td>
+    </tr>
+  );
+}
+
+export default function AnomalyComparison({
+  reported,
+  adjusted,
+  adjustments
+}: {
+  reported: AnalysisPayload;
+  adjusted: AnalysisPayload;
+  adjustments: AnomalyAdjustments;
+}) {
+  const excluded = Object.keys(adjustments).filter((label) => adjustments[label] === "exclude");
+  const normalized = Object.keys(adjustments).filter((label) => adjustments[label] === "normalize");
+
+  return (
+    <div className="mt-6 rounded-2xl border border-violet-400/20 bg-slate-950/70 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="flex items-center gap-2 text-sm font-semibold uppercase tracking-wide text-slate-400">
+          <ScaleIcon className="h-4 w-4 text-violet-300" /> As reported vs adjusted
+        </h3>
+        <p className="text-xs text-slate-500">
+          {[
+            excluded.length ? `Excluded ${excluded.join(", ")}` : null,
+            normalized.length ? `Normalized ${normalized.join(", ")}` : null
+          ]
+            .filter(Boolean)
+            .join(" · ")}
+        </p>
+      </div>
+      <table className="mt-3 w-full text-xs">
+        <thead className="uppercase tracking-wide text-slate-500">
+          <tr>
+            <th className="pb-1 text-left font-medium">Metric</th>
+            <th className="pb-1 text-right font-medium">As reported</th>
+            <th className="pb-1 text-right font-medium">Adjusted</th>
+            <th className="pb-1 text-right font-medium">Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          {(Object.keys(adjusted.healthScores) as (keyof AnalysisPayload["healthScores"])[]).map((key) => (
+            <Row
+              key={key}
+              label={`${humanizeKey(key)} score`}
+              reported={reported.healthScores[key]}
+              adjusted={adjusted.healthScores[key]}
+              format={(value) => value.toFixed(0)}
+            />
+          ))}
+          {comparedMetrics.map((key) => (
+            <Row
+              key={key}
+              label={humanizeKey(key)}
+              reported={reported.metrics[key]}
+              adjusted={adjusted.metrics[key]}
+              format={(value) => formatMetric(key, value)}
+            />
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
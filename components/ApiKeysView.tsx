@@ -0,0 +1,201 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import type { ApiKeySummary } from "@/lib/api-keys";
+import { ArrowLeftIcon, ClipboardDocumentIcon, KeyIcon, PlusIcon, TrashIcon } from "@heroicons/react/24/outline";
+
+export const ADMIN_TOKEN_KEY = "aurora.adminToken";
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString("en-US") : "Never");
+
+export default function ApiKeysView() {
+  const [keys, setKeys] = useState<ApiKeySummary[]>([]);
+  const [name, setName] = useState("");
+  const [rateLimit, setRateLimit] = useState(60);
+  const [created, setCreated] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [adminToken, setAdminToken] = useState("");
+
+  const adminHeaders = useCallback(() => ({ Authorization: `Bearer ${adminToken}` }), [adminToken]);
+
+  const load = useCallback(async () => {
+    if (!adminToken) return;
+    const response = await fetch("/api/keys", { headers: adminHeaders() });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(body.error ?? "Unable to list API keys.");
+    setKeys(body.data ?? []);
+  }, [adminToken, adminHeaders]);
+
+  useEffect(() => {
+    setAdminToken(window.sessionStorage.getItem(ADMIN_TOKEN_KEY) ?? "");
+  }, []);
+
+  useEffect(() => {
+    setMessage(null);
+    load().catch((err) => setMessage(err instanceof Error ? err.message : "Unable to list API keys."));
+  }, [load]);
+
+  const create = async () => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const response = await fetch("/api/keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...adminHeaders() },
+        body: JSON.stringify({ name, rateLimit })
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(body.error ?? "Unable to create API key.");
+      setCreated(body.key);
+      setName("");
+      await load();
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "Unable to create API key.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const revoke = async (key: ApiKeySummary) => {
+    if (!window.confirm(`Revoke "${key.name}"? Pipelines using it will start receiving invalid_api_key.`)) return;
+    try {
+      const response = await fetch(`/api/keys/${key.id}`, { method: "DELETE", headers: adminHeaders() });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(body.error ?? "Unable to revoke API key.");
+      await load();
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "Unable to revoke API key.");
+    }
+  };
+
+  return (
+    <div className="mx-auto flex w-full max-w-4xl flex-col gap-8 px-6 pb-24 pt-10">
+      <nav className="-mb-4 text-sm">
+        <Link href="/" className="inline-flex items-center gap-1.5 font-semibold text-brand-200 transition hover:text-brand-100">
+          <ArrowLeftIcon className="h-4 w-4" /> Back to analyzer
+        </Link>
+      </nav>
+
+      <header className="space-y-2">
+        <h1 className="flex items-center gap-2 text-3xl font-semibold text-white">
+          <KeyIcon className="h-7 w-7 text-brand-300" /> API keys
+        </h1>
+        <p className="max-w-2xl text-sm text-slate-400">
+          Keys authenticate calls to <code className="text-slate-300">/api/v1</code>. Send one as{" "}
+          <code className="text-slate-300">Authorization: Bearer &lt;key&gt;</code>. The full contract is in the{" "}
+          <a href="/api/v1/openapi" className="text-brand-200 underline-offset-2 hover:underline">
+            OpenAPI document
+          </a>
+          . Creating, listing and revoking keys requires the admin token configured on the server.
+        </p>
+      </header>
+
+      <section className="flex flex-wrap items-end gap-3 rounded-3xl border border-white/10 bg-slate-900/60 p-6 text-xs text-slate-300">
+        <label className="space-y-1">
+          <span className="block uppercase tracking-wide text-slate-400">Admin token</span>
+          <input
+            type="password"
+            value={adminToken}
+            onChange={(event) => {
+              setAdminToken(event.target.value);
+              window.sessionStorage.setItem(ADMIN_TOKEN_KEY, event.target.value);
+            }}
+            placeholder="AURORA_ADMIN_TOKEN"
+            autoComplete="off"
+            className="w-56 rounded-lg border border-white/10 bg-slate-950/60 px-3 py-1.5 text-sm text-white"
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="block uppercase tracking-wide text-slate-400">Name</span>
+          <input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="Nightly pipeline"
+            className="w-56 rounded-lg border border-white/10 bg-slate-950/60 px-3 py-1.5 text-sm text-white"
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="block uppercase tracking-wide text-slate-400">Requests / minute</span>
+          <input
+            type="number"
+            min={1}
+            value={rateLimit}
+            onChange={(event) => setRateLimit(Math.max(1, Math.round(Number(event.target.value) || 1)))}
+            className="w-28 rounded-lg border border-white/10 bg-slate-950/60 px-3 py-1.5 text-sm text-white"
+          />
+        </label>
+        <button
+          onClick={() => void create()}
+          disabled={busy || !name.trim() || !adminToken}
+          className="inline-flex items-center gap-2 rounded-full bg-gradient-to-r from-brand-500 to-brand-400 px-4 py-2 text-sm font-semibold text-white shadow-lg shadow-brand-900/30 transition hover:from-brand-400 hover:to-brand-300 disabled:opacity-50"
+        >
+          <PlusIcon className="h-4 w-4" /> Create key
+        </button>
+      </section>
+
+      {created ? (
+        <div className="rounded-2xl border border-emerald-400/30 bg-emerald-500/10 p-4 text-sm text-emerald-100">
+          <p className="font-semibold">Copy this key now; it will not be shown again.</p>
+          <div className="mt-2 flex items-center gap-2">
+            <code className="break-all rounded-lg bg-slate-950/70 px-3 py-1.5 text-xs text-white">{created}</code>
+            <button
+              onClick={() => void navigator.clipboard?.writeText(created)}
+              className="rounded-full p-1.5 text-emerald-200 transition hover:bg-white/10"
+              aria-label="Copy key"
+            >
+              <ClipboardDocumentIcon className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {message ? <p className="text-sm text-rose-300">{message}</p> : null}
+
+      <div className="overflow-x-auto rounded-3xl border border-white/10 bg-slate-900/60 p-6">
+        {keys.length ? (
+          <table className="w-full text-left text-sm text-slate-300">
+            <thead className="text-xs uppercase tracking-wide text-slate-500">
+              <tr>
+                <th className="py-2 font-medium">Name</th>
+                <th className="py-2 font-medium">Key</th>
+                <th className="py-2 text-right font-medium">Limit / min</th>
+                <th className="py-2 font-medium">Created</th>
+                <th className="py-2 font-medium">Last used</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {keys.map((key) => (
+                <tr key={key.id} className={`border-t border-white/5 ${key.revokedAt ? "text-slate-500" : ""}`}>
+                  <td className="py-2 font-semibold text-slate-100">{key.name}</td>
+                  <td className="py-2 font-mono text-xs">{key.preview}</td>
+                  <td className="py-2 text-right">{key.rateLimit}</td>
+                  <td className="py-2 text-xs">{formatDate(key.createdAt)}</td>
+                  <td className="py-2 text-xs">{formatDate(key.lastUsedAt)}</td>
+                  <td className="py-2 text-right">
+                    {key.revokedAt ? (
+                      <span className="text-xs uppercase tracking-wide text-rose-300">Revoked</span>
+                    ) : (
+                      <button
+                        onClick={() => void revoke(key)}
+                        className="inline-flex items-center gap-1 rounded-full px-2 py-1 text-xs text-rose-300 transition hover:bg-rose-500/10"
+                      >
+                        <TrashIcon className="h-3.5 w-3.5" /> Revoke
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-sm text-slate-500">
+            {adminToken ? "No API keys yet." : "Enter the server's admin token to manage API keys."}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { BenchmarkCohort, BenchmarkResult, CohortBand } from "@/lib/benchmarks";
+import { formatMetric, humanizeKey } from "@/lib/report";
+import { ArrowUpTrayIcon, UserGroupIcon } from "@heroicons/react/24/outline";
+
+const bandStyles: Record<CohortBand, string> = {
+  "top decile": "bg-emerald-500/20 text-emerald-200",
+  "top quartile": "bg-emerald-500/10 text-emerald-200",
+  "above median": "bg-sky-500/10 text-sky-200",
+  "below median": "bg-slate-500/20 text-slate-300",
+  "bottom quartile": "bg-amber-500/15 text-amber-200",
+  "bottom decile": "bg-rose-500/20 text-rose-200"
+};
+
+const formatRankValue = (key: string, value: number) => {
+  const [group, name = key] = key.split(".");
+  return group === "healthScores" ? value.toFixed(0) : formatMetric(name, value);
+};
+
+export default function BenchmarkPanel({
+  cohort,
+  result,
+  onSelect
+}: {
+  cohort: BenchmarkCohort | null;
+  result: BenchmarkResult | null;
+  onSelect: (cohort: BenchmarkCohort | null) => void;
+}) {
+  const [cohorts, setCohorts] = useState<BenchmarkCohort[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadCohorts = useCallback(async () => {
+    const response = await fetch("/api/benchmarks");
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(body.error ?? "Unable to load benchmark cohorts.");
+    setCohorts(body.data ?? []);
+    if (body.warnings?.length) setMessage(body.warnings.join(" "));
+    return (body.data ?? []) as BenchmarkCohort[];
+  }, []);
+
+  useEffect(() => {
+    loadCohorts().catch((err) => setMessage(err instanceof Error ? err.message : "Unable to load benchmark cohorts."));
+  }, [loadCohorts]);
+
+  const industries = useMemo(() => Array.from(new Set(cohorts.map((entry) => entry.industry))), [cohorts]);
+
+  const upload = async (file: File) => {
+    setMessage(null);
+    try {
+      const response = await fetch("/api/benchmarks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fileName: file.name, content: await file.text() })
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error([body.error, ...(body.issues ?? [])].filter(Boolean).join(" "));
+
+      const imported = (body.data ?? []) as BenchmarkCohort[];
+      const refreshed = await loadCohorts();
+      const first = refreshed.find((entry) => entry.id === imported[0]?.id);
+      if (first) onSelect(first);
+      setMessage(`Imported ${imported.length} cohort${imported.length === 1 ? "" : "s"} from ${file.name}.`);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "Unable to import benchmark file.");
+    }
+  };
+
+  const ranks = Object.values(result?.ranks ?? {}).filter((rank) => rank.key.startsWith("metrics."));
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-slate-900/60 p-6 shadow-lg shadow-brand-900/30">
+      <header className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+            <UserGroupIcon className="h-5 w-5 text-brand-300" /> Peer Benchmarks
+          </h2>
+          <p className="text-sm text-slate-400">
+            Percentile rank of each metric within an industry, stage and revenue band cohort. Higher is better.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <select
+            value={cohort?.id ?? ""}
+            onChange={(event) => onSelect(cohorts.find((entry) => entry.id === event.target.value) ?? null)}
+            className="rounded-lg border border-white/10 bg-slate-900 px-2 py-1.5 text-sm text-slate-100"
+          >
+            <option value="">No cohort</option>
+            {industries.map((industry) => (
+              <optgroup key={industry} label={industry}>
+                {cohorts
+                  .filter((entry) => entry.industry === industry)
+                  .map((entry) => (
+                    <option key={entry.id} value={entry.id}>
+                      {entry.stage} · {entry.revenueBand}
+                      {entry.source === "bundled" ? "" : " (imported)"}
+                    </option>
+                  ))}
+              </optgroup>
+            ))}
+          </select>
+          <label className="inline-flex cursor-pointer items-center gap-1.5 rounded-full border border-brand-400/30 px-3 py-1.5 font-semibold text-brand-200 transition hover:border-brand-300 hover:text-brand-100">
+            <ArrowUpTrayIcon className="h-4 w-4" /> CSV / JSON
+            <input
+              type="file"
+              accept=".csv,.json"
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) void upload(file);
+                event.target.value = "";
+              }}
+            />
+          </label>
+        </div>
+      </header>
+
+      {message ? <p className="mt-3 text-xs text-slate-400">{message}</p> : null}
+
+      {result && ranks.length ? (
+        <table className="mt-5 w-full text-left text-sm text-slate-300">
+          <thead className="text-xs uppercase tracking-wide text-slate-500">
+            <tr>
+              <th className="py-2 font-medium">Metric</th>
+              <th className="py-2 text-right font-medium">Value</th>
+              <th className="py-2 text-right font-medium">Cohort median</th>
+              <th className="w-2/5 py-2 pl-6 font-medium">Percentile</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ranks.map((rank) => (
+              <tr key={rank.key} className="border-t border-white/5">
+                <td className="py-2">{humanizeKey(rank.key.replace(/^metrics\./, ""))}</td>
+                <td className="py-2 text-right font-semibold text-slate-100">{formatRankValue(rank.key, rank.value)}</td>
+                <td className="py-2 text-right text-slate-400">{formatRankValue(rank.key, rank.median)}</td>
+                <td className="py-2 pl-6">
+                  <div className="flex items-center gap-3">
+                    <div className="relative h-2 flex-1 rounded-full bg-slate-800">
+                      <div className="absolute inset-y-0 left-1/2 w-px bg-slate-500" />
+                      <div
+                        className="h-2 rounded-full bg-gradient-to-r from-brand-500 to-brand-300"
+                        style={{ width: `${rank.percentile}%` }}
+                      />
+                    </div>
+                    <span className="w-8 text-right text-xs text-slate-200">{rank.percentile.toFixed(0)}</span>
+                    <span className={`whitespace-nowrap rounded-full px-2 py-0.5 text-[10px] uppercase ${bandStyles[rank.band]}`}>
+                      {rank.band}
+                    </span>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : cohort ? null : (
+        <p className="mt-5 text-sm text-slate-500">Choose a cohort to rank this company against its peers.</p>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,83 @@
 "use client";
 
-import { useEffect, useMemo, useState, useTransition } from "react";
+import Link from "next/link";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { defaultAssumptions, defaultPeriods } from "@/lib/sample-data";
-import type { AnalysisPayload, FinancialPeriod, ScenarioAssumptions } from "@/lib/analysis";
-import { ArrowPathIcon, PlusIcon } from "@heroicons/react/24/outline";
+import type { FinancialPeriod, ScenarioAssumptions } from "@/lib/analysis";
+import {
+  AnalysisValidationError,
+  createAnalysisScheduler,
+  type AnalysisScheduler,
+  type EngineMode
+} from "@/lib/analysis-client";
+import { anomalyKindLabels, type AnomalyAdjustments, type AnomalyTreatment, type PeriodAnomaly } from "@/lib/anomalies";
+import type { BenchmarkCohort, BenchmarkResult } from "@/lib/benchmarks";
+import { commonCurrencies, defaultDatasetUnits, unitScales, type DatasetUnits, type UnitScale } from "@/lib/currency";
+import type { AnalysisTrace } from "@/lib/explain";
+import { createHistory, recordHistory, redoHistory, undoHistory, type History } from "@/lib/history";
+import {
+  createFormatters,
+  DEFAULT_LOCALE,
+  LOCALE_STORAGE_KEY,
+  matchLocale,
+  supportedLocales,
+  type NumberFormatters
+} from "@/lib/number-format";
+import {
+  emptyPeriod,
+  granularities,
+  lineItemSections,
+  periodFields,
+  type DatedPeriod,
+  type LineItemField,
+  type LineItemSection,
+  type PeriodGranularity
+} from "@/lib/period-fields";
+import { defaultProjectionOptions, resolveTimeline, type ProjectionOptions } from "@/lib/periodicity";
+import { preparePeriods, type AnalysisResponse, type ForecastedPayload } from "@/lib/pipeline";
+import { buildDefaultScenarios, createScenarioId, type NamedScenario } from "@/lib/scenarios";
+import { defaultRiskRules, type RiskRule } from "@/lib/risk-rules";
+import { defaultRunwayOptions, type RunwayOptions } from "@/lib/runway";
+import { decodeShareState, encodeShareState, readShareToken, shareUrl } from "@/lib/share-state";
+import type { AssumptionDistribution } from "@/lib/simulation";
+import { statementMeasures, type DerivedStatement, type MeasureFormat } from "@/lib/statements";
+import type { ValidationIssue } from "@/lib/validation";
+import { defaultValuationInputs, type ValuationInputs, type ValuationResult } from "@/lib/valuation";
+import type { Workspace, WorkspaceSnapshot } from "@/lib/workspaces";
+import AnomalyComparison from "@/components/AnomalyComparison";
+import BenchmarkPanel from "@/components/BenchmarkPanel";
+import ForwardOutlook from "@/components/ForwardOutlook";
+import MetricTracePanel from "@/components/MetricTracePanel";
+import NarrativePanel from "@/components/NarrativePanel";
+import NumberInput from "@/components/NumberInput";
+import ReportExport from "@/components/ReportExport";
+import RunwayPanel from "@/components/RunwayPanel";
+import ScenarioBuilder from "@/components/ScenarioBuilder";
+import SeasonalOutlook from "@/components/SeasonalOutlook";
+import SignalPanel from "@/components/SignalPanel";
+import SimulationPanel from "@/components/SimulationPanel";
+import StatementImporter, { type ImportMode } from "@/components/StatementImporter";
+import ValuationPanel from "@/components/ValuationPanel";
+import WatchlistPanel from "@/components/WatchlistPanel";
+import WorkspacePanel from "@/components/WorkspacePanel";
+import {
+  ArrowLeftIcon,
+  ArrowPathIcon,
+  ArrowUpTrayIcon,
+  ArrowUturnLeftIcon,
+  ArrowUturnRightIcon,
+  Bars3Icon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  DocumentDuplicateIcon,
+  EyeIcon,
+  EyeSlashIcon,
+  KeyIcon,
+  LinkIcon,
+  PlusIcon,
+  Squares2X2Icon,
+  TrashIcon
+} from "@heroicons/react/24/outline";
 import { motion } from "framer-motion";
 import {
   Area,
@@ -15,52 +89,157 @@ import {
   YAxis
 } from "recharts";
 
-const numberFormatter = new Intl.NumberFormat("en-US", {
-  notation: "compact",
-  maximumFractionDigits: 1
-});
-
-const percentFormatter = new Intl.NumberFormat("en-US", {
-  style: "percent",
-  maximumFractionDigits: 1
-});
-
 type AnalyzerState = {
-  data: FinancialPeriod[];
-  assumptions: ScenarioAssumptions;
+  data: DatedPeriod[];
+  // Stable id per row of `data`, in the same order; anomaly adjustments are keyed by it.
+  rowIds: string[];
+  units: DatasetUnits;
+  scenarios: NamedScenario[];
+  planId: string;
+  valuation: ValuationInputs;
+  projection: ProjectionOptions;
+  runway: RunwayOptions;
+  adjustments: AnomalyAdjustments;
+  riskRules: RiskRule[];
+  benchmark: BenchmarkCohort | null;
 };
 
+const createRowId = () => `row-${createScenarioId()}`;
+
 const initialState: AnalyzerState = {
   data: defaultPeriods,
-  assumptions: defaultAssumptions
+  rowIds: defaultPeriods.map((_, index) => `row-${index + 1}`),
+  units: defaultDatasetUnits,
+  scenarios: buildDefaultScenarios(defaultAssumptions),
+  planId: "base",
+  valuation: defaultValuationInputs,
+  projection: defaultProjectionOptions,
+  runway: defaultRunwayOptions,
+  adjustments: {},
+  riskRules: defaultRiskRules,
+  benchmark: null
 };
 
-const emptyPeriod = (): FinancialPeriod => ({
-  label: "",
-  revenue: 0,
-  cogs: 0,
-  operatingExpenses: 0,
-  netIncome: 0,
-  assets: 0,
-  liabilities: 0,
-  cash: 0,
-  freeCashFlow: 0
-});
+const ENGINE_MODE_KEY = "aurora.engineMode";
 
-async function fetchAnalysis(state: AnalyzerState): Promise<AnalysisPayload> {
-  const response = await fetch("/api/analyze", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ periods: state.data, assumptions: state.assumptions })
-  });
+const engineModes: { mode: EngineMode; label: string }[] = [
+  { mode: "server", label: "Server" },
+  { mode: "worker", label: "In-browser" }
+];
+
+// Saved snapshots, the API and older share links key adjustments by period label.
+const rowAdjustments = (periods: DatedPeriod[], rowIds: string[], adjustments: AnomalyAdjustments = {}): AnomalyAdjustments =>
+  Object.fromEntries(
+    periods.flatMap((period, index) => (adjustments[period.label] ? [[rowIds[index], adjustments[period.label]]] : []))
+  );
+
+// The reverse: a label is only adjusted when every row carrying it has the same treatment, since
+// the request cannot tell rows with a repeated label apart (validation already warns about those).
+const labelAdjustments = ({ data, rowIds, adjustments }: AnalyzerState): AnomalyAdjustments => {
+  const byLabel = new Map<string, (AnomalyTreatment | undefined)[]>();
+  data.forEach((period, index) => byLabel.set(period.label, [...(byLabel.get(period.label) ?? []), adjustments[rowIds[index]]]));
+  return Object.fromEntries(
+    Array.from(byLabel).flatMap(([label, [first, ...rest]]) =>
+      first && rest.every((treatment) => treatment === first) ? [[label, first]] : []
+    )
+  );
+};
+
+const snapshotState = (snapshot: WorkspaceSnapshot): Partial<AnalyzerState> => {
+  const rowIds = snapshot.periods.map(createRowId);
+  return {
+    data: snapshot.periods,
+    rowIds,
+    units: snapshot.units ?? defaultDatasetUnits,
+    scenarios: snapshot.scenarios,
+    planId: snapshot.planId,
+    adjustments: rowAdjustments(snapshot.periods, rowIds, snapshot.adjustments)
+  };
+};
+
+const analysisRequestBody = (state: AnalyzerState) => ({
+  periods: state.data,
+  units: state.units,
+  scenarios: state.scenarios,
+  planId: state.planId,
+  valuation: state.valuation,
+  projection: state.projection,
+  runway: state.runway,
+  adjustments: labelAdjustments(state),
+  riskRules: state.riskRules,
+  benchmark: state.benchmark
+});
 
-  if (!response.ok) {
-    const body = await response.json().catch(() => ({}));
-    throw new Error(body.error ?? "Unable to analyze dataset.");
+// Share links are untrusted input: keep only known keys and let validation report anything else.
+const restoreSharedState = (raw: unknown): AnalyzerState => {
+  const source = raw && typeof raw === "object" ? (raw as Partial<AnalyzerState>) : {};
+  if (!Array.isArray(source.data) || !Array.isArray(source.scenarios)) {
+    throw new Error("This share link does not contain an analysis.");
   }
+  const restored = Object.fromEntries(
+    (Object.keys(initialState) as (keyof AnalyzerState)[]).map((key) => [key, source[key] ?? initialState[key]])
+  ) as AnalyzerState;
+  const rowIds = source.rowIds;
+  if (Array.isArray(rowIds) && rowIds.length === restored.data.length && rowIds.every((id) => typeof id === "string")) {
+    return restored;
+  }
+  // Links made before rows had ids keyed adjustments by label.
+  const fresh = restored.data.map(createRowId);
+  return { ...restored, rowIds: fresh, adjustments: rowAdjustments(restored.data, fresh, restored.adjustments) };
+};
+
+const copyLabel = (label: string, taken: string[]) => {
+  let candidate = `${label} copy`;
+  for (let suffix = 2; taken.includes(candidate); suffix += 1) candidate = `${label} copy ${suffix}`;
+  return candidate;
+};
+
+const rowActionClass = "rounded p-1 transition hover:bg-white/10 hover:text-slate-200 disabled:opacity-30 disabled:hover:bg-transparent";
+
+const cellKey = (periodIndex: number, field: string) => `${periodIndex}:${field}`;
+
+type TableSection = LineItemSection["id"] | "derived";
 
-  const payload = await response.json();
-  return payload.data as AnalysisPayload;
+const formatMeasure = (value: number | null, format: MeasureFormat, formatters: NumberFormatters) => {
+  if (value === null) return "—";
+  if (format === "currency") return formatters.amount(value);
+  if (format === "days") return `${value.toFixed(0)}d`;
+  if (format === "multiple") return `${value.toFixed(1)}x`;
+  return value.toFixed(2);
+};
+
+const issueInputClass = (issues: ValidationIssue[] | undefined) => {
+  if (issues?.some((issue) => issue.severity === "error")) return "border-rose-400/70 focus:border-rose-300 focus:ring-rose-300";
+  if (issues?.length) return "border-amber-400/60 focus:border-amber-300 focus:ring-amber-300";
+  return "border-white/10 focus:border-brand-300 focus:ring-brand-300";
+};
+
+const anomalyTreatments: { value: AnomalyTreatment | null; label: string }[] = [
+  { value: null, label: "Keep" },
+  { value: "normalize", label: "Normalize" },
+  { value: "exclude", label: "Exclude" }
+];
+
+function CellAnomaly({ anomaly }: { anomaly: PeriodAnomaly | undefined }) {
+  if (!anomaly) return null;
+  return (
+    <p className="mt-1 max-w-[8rem] text-[11px] leading-tight text-violet-200" title={anomaly.message}>
+      <span className="font-semibold">{anomalyKindLabels[anomaly.kind]}.</span> {anomaly.message}
+    </p>
+  );
+}
+
+function CellIssues({ issues }: { issues: ValidationIssue[] | undefined }) {
+  if (!issues?.length) return null;
+  return (
+    <ul className="mt-1 max-w-[8rem] space-y-0.5 text-[11px] leading-tight">
+      {issues.map((issue) => (
+        <li key={issue.code} className={issue.severity === "error" ? "text-rose-300" : "text-amber-200"}>
+          {issue.message}
+        </li>
+      ))}
+    </ul>
+  );
 }
 
 const insightVariants = {
@@ -68,81 +247,468 @@ const insightVariants = {
   visible: { opacity: 1, y: 0 }
 };
 
-function MetricChip({ label, value }: { label: string; value: string }) {
+function MetricChip({ label, value, onClick }: { label: string; value: string; onClick?: () => void }) {
   return (
-    <span className="inline-flex items-center gap-2 rounded-full bg-slate-900/70 px-4 py-2 text-sm text-slate-300 shadow-sm ring-1 ring-white/5">
+    <button
+      onClick={onClick}
+      disabled={!onClick}
+      className="inline-flex items-center gap-2 rounded-full bg-slate-900/70 px-4 py-2 text-sm text-slate-300 shadow-sm ring-1 ring-white/5 transition enabled:hover:ring-brand-400/40"
+    >
       <span className="text-xs uppercase tracking-wide text-brand-300/80">{label}</span>
       <span className="font-semibold text-slate-100">{value}</span>
-    </span>
+    </button>
   );
 }
 
-export default function FinancialAnalyzer() {
-  const [state, setState] = useState<AnalyzerState>(initialState);
-  const [result, setResult] = useState<AnalysisPayload | null>(null);
+export default function FinancialAnalyzer({
+  initialSnapshot,
+  initialWorkspaceId,
+  onBack
+}: {
+  initialSnapshot?: WorkspaceSnapshot;
+  initialWorkspaceId?: string | null;
+  onBack?: () => void;
+} = {}) {
+  const [history, setHistory] = useState<History<AnalyzerState>>(() =>
+    createHistory(
+      initialSnapshot ? { ...initialState, ...snapshotState(initialSnapshot) } : initialState
+    )
+  );
+  const state = history.present;
+  const [result, setResult] = useState<ForecastedPayload | null>(null);
+  const [outlook, setOutlook] = useState<Pick<AnalysisResponse, "scenarios" | "variances"> | null>(null);
+  const [valuation, setValuation] = useState<ValuationResult | null>(null);
+  const [seasonal, setSeasonal] = useState<Pick<AnalysisResponse, "rollups" | "projection">>({
+    rollups: null,
+    projection: null
+  });
+  const [statements, setStatements] = useState<DerivedStatement[]>([]);
+  const [runway, setRunway] = useState<AnalysisResponse["runway"]>(null);
+  const [anomalies, setAnomalies] = useState<AnalysisResponse["anomalies"] | null>(null);
+  const [openSections, setOpenSections] = useState<TableSection[]>([]);
+  const [trace, setTrace] = useState<AnalysisTrace>({});
+  const [benchmark, setBenchmark] = useState<BenchmarkResult | null>(null);
+  const [traceKey, setTraceKey] = useState<string | null>(null);
+  const [signals, setSignals] = useState<Pick<AnalysisResponse, "signals" | "riskContext">>({ signals: [], riskContext: {} });
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [activeScenarioId, setActiveScenarioId] = useState(state.planId);
   const [error, setError] = useState<string | null>(null);
-  const [isPending, startTransition] = useTransition();
-
-  const refresh = (nextState: AnalyzerState) => {
-    startTransition(async () => {
-      try {
-        setError(null);
-        const analysis = await fetchAnalysis(nextState);
-        setResult(analysis);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : "Unable to run analysis.");
-      }
-    });
+  const [issues, setIssues] = useState<ValidationIssue[]>([]);
+  const [importText, setImportText] = useState<string | null>(null);
+  const [isPending, setIsPending] = useState(false);
+  const [engineMode, setEngineMode] = useState<EngineMode>("server");
+  const [locale, setLocale] = useState(DEFAULT_LOCALE);
+  const [shareStatus, setShareStatus] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const schedulerRef = useRef<AnalysisScheduler | null>(null);
+  const immediateRef = useRef(true);
+  const restoringRef = useRef(false);
+
+  const applyResponse = (analysis: AnalysisResponse) => {
+    setError(null);
+    setResult(analysis.data);
+    setTrace(analysis.trace);
+    setBenchmark(analysis.benchmark);
+    setOutlook({ scenarios: analysis.scenarios, variances: analysis.variances });
+    setValuation(analysis.valuation);
+    setSeasonal({ rollups: analysis.rollups, projection: analysis.projection });
+    setStatements(analysis.statements);
+    setRunway(analysis.runway);
+    setAnomalies(analysis.anomalies);
+    setSignals({ signals: analysis.signals, riskContext: analysis.riskContext });
+    setIssues(analysis.warnings);
+  };
+
+  const applyError = (err: unknown) => {
+    if (err instanceof AnalysisValidationError) {
+      setIssues(err.issues);
+      const general = err.issues.filter((issue) => issue.scope !== "period");
+      setError(general.length ? general.map((issue) => issue.message).join(" ") : null);
+      return;
+    }
+    setIssues([]);
+    setError(err instanceof Error ? err.message : "Unable to run analysis.");
+  };
+
+  const refresh = (nextState: AnalyzerState, immediate = false) => {
+    schedulerRef.current?.schedule(analysisRequestBody(nextState), immediate);
+  };
+
+  const setState = (update: (prev: AnalyzerState) => AnalyzerState) => {
+    const at = Date.now();
+    setHistory((prev) => recordHistory(prev, update(prev.present), at));
+  };
+
+  const stepHistory = (step: <T>(history: History<T>) => History<T>) => {
+    immediateRef.current = true;
+    setHistory(step);
   };
 
   useEffect(() => {
-    refresh(state);
+    const scheduler = createAnalysisScheduler({
+      onResponse: applyResponse,
+      onError: applyError,
+      onPendingChange: setIsPending
+    });
+    const storedMode = window.localStorage.getItem(ENGINE_MODE_KEY);
+    if (storedMode === "worker") {
+      scheduler.setMode(storedMode);
+      setEngineMode(storedMode);
+    }
+    setLocale(window.localStorage.getItem(LOCALE_STORAGE_KEY) ?? matchLocale(window.navigator.languages));
+    schedulerRef.current = scheduler;
+    const token = initialSnapshot ? null : readShareToken(window.location.hash);
+    if (token) {
+      restoringRef.current = true;
+      decodeShareState(token)
+        .then(restoreSharedState)
+        .then((shared) => {
+          restoringRef.current = false;
+          immediateRef.current = true;
+          setHistory(createHistory(shared));
+          setActiveScenarioId(shared.planId);
+        })
+        .catch((err: unknown) => {
+          restoringRef.current = false;
+          setShareStatus(err instanceof Error ? err.message : "Unable to open this share link.");
+          refresh(state, true);
+        });
+    }
+    return () => {
+      scheduler.dispose();
+      schedulerRef.current = null;
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const updatePeriod = (index: number, key: keyof FinancialPeriod, value: string) => {
+  // Analysis runs from committed state rather than inside updaters, which React may call twice.
+  useEffect(() => {
+    if (restoringRef.current) return;
+    refresh(state, immediateRef.current);
+    immediateRef.current = false;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [state]);
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.altKey) return;
+      if ((event.target as HTMLElement | null)?.closest("textarea, [contenteditable='true']")) return;
+      const key = event.key.toLowerCase();
+      if (key !== "z" && key !== "y") return;
+      event.preventDefault();
+      // Cell inputs hold a draft while focused; blurring lets them show the restored value.
+      (document.activeElement as HTMLElement | null)?.blur();
+      stepHistory(key === "y" || event.shiftKey ? redoHistory : undoHistory);
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const openTrace = (key: string) => (trace[key] ? () => setTraceKey(key) : undefined);
+
+  const changeEngineMode = (mode: EngineMode) => {
+    setEngineMode(mode);
+    window.localStorage.setItem(ENGINE_MODE_KEY, mode);
+    schedulerRef.current?.setMode(mode);
+    refresh(state, true);
+  };
+
+  const changeLocale = (next: string) => {
+    setLocale(next);
+    window.localStorage.setItem(LOCALE_STORAGE_KEY, next);
+  };
+
+  const updateUnits = (patch: Partial<DatasetUnits>) => {
+    setState((prev) => ({ ...prev, units: { ...prev.units, ...patch } }));
+  };
+
+  const updatePeriod = (index: number, key: keyof FinancialPeriod, value: number | null) => {
     setState((prev) => {
       const updated = [...prev.data];
-      const parsed = Number(value.replace(/[^\d.-]/g, ""));
-      updated[index] = { ...updated[index], [key]: Number.isFinite(parsed) ? parsed : 0 } as FinancialPeriod;
-      const nextState = { ...prev, data: updated };
-      refresh(nextState);
-      return nextState;
+      updated[index] = { ...updated[index], [key]: value ?? 0 } as FinancialPeriod;
+      return { ...prev, data: updated };
     });
   };
 
+  const updateLineItem = (index: number, key: LineItemField, value: number | null) => {
+    setState((prev) => {
+      const updated = [...prev.data];
+      const period = { ...updated[index] };
+      if (value !== null) period[key] = value;
+      else delete period[key];
+      updated[index] = period;
+      return { ...prev, data: updated };
+    });
+  };
+
+  const toggleSection = (section: TableSection) =>
+    setOpenSections((prev) => (prev.includes(section) ? prev.filter((entry) => entry !== section) : [...prev, section]));
+
   const updateLabel = (index: number, value: string) => {
     setState((prev) => {
       const updated = [...prev.data];
       updated[index] = { ...updated[index], label: value };
-      const nextState = { ...prev, data: updated };
-      refresh(nextState);
-      return nextState;
+      return { ...prev, data: updated };
     });
   };
 
+  const updateTiming = (index: number, key: "startDate" | "endDate", value: string) => {
+    setState((prev) => {
+      const updated = [...prev.data];
+      updated[index] = { ...updated[index], [key]: value || undefined };
+      return { ...prev, data: updated };
+    });
+  };
+
+  const applyGranularity = (granularity: PeriodGranularity) => {
+    setState((prev) => {
+      const { periods } = resolveTimeline(
+        prev.data.map((period) => {
+          const next = { ...period, granularity };
+          delete next.endDate;
+          return next;
+        })
+      );
+      return { ...prev, data: periods } satisfies AnalyzerState;
+    });
+  };
+
+  const updateProjection = (projection: ProjectionOptions) => {
+    setState((prev) => ({ ...prev, projection } satisfies AnalyzerState));
+  };
+
+  const updateScenarios = (update: (prev: AnalyzerState) => Pick<AnalyzerState, "scenarios" | "planId">) => {
+    setState((prev) => ({ ...prev, ...update(prev) } satisfies AnalyzerState));
+  };
+
+  // The selected id can outlive its scenario (say, after undoing "add scenario"), so edits fall
+  // back to the same scenario the builder shows.
+  const resolveActiveId = (scenarios: NamedScenario[]) =>
+    scenarios.some((scenario) => scenario.id === activeScenarioId) ? activeScenarioId : scenarios[0]?.id;
+
   const updateAssumption = (key: keyof ScenarioAssumptions, value: number) => {
+    updateScenarios((prev) => ({
+      planId: prev.planId,
+      scenarios: prev.scenarios.map((scenario) =>
+        scenario.id === resolveActiveId(prev.scenarios) ? { ...scenario, assumptions: { ...scenario.assumptions, [key]: value } } : scenario
+      )
+    }));
+  };
+
+  const replaceAssumptions = (assumptions: ScenarioAssumptions) => {
+    updateScenarios((prev) => ({
+      planId: prev.planId,
+      scenarios: prev.scenarios.map((scenario) =>
+        scenario.id === resolveActiveId(prev.scenarios) ? { ...scenario, assumptions } : scenario
+      )
+    }));
+  };
+
+  const updateDistribution = (key: keyof ScenarioAssumptions, distribution: AssumptionDistribution | undefined) => {
+    updateScenarios((prev) => ({
+      planId: prev.planId,
+      scenarios: prev.scenarios.map((scenario) => {
+        if (scenario.id !== resolveActiveId(prev.scenarios)) return scenario;
+        const distributions = { ...scenario.distributions };
+        if (distribution) distributions[key] = distribution;
+        else delete distributions[key];
+        return { ...scenario, distributions };
+      })
+    }));
+  };
+
+  const renameScenario = (id: string, name: string) => {
+    updateScenarios((prev) => ({
+      planId: prev.planId,
+      scenarios: prev.scenarios.map((scenario) => (scenario.id === id ? { ...scenario, name } : scenario))
+    }));
+  };
+
+  const addScenario = () => {
+    const id = createScenarioId();
+    updateScenarios((prev) => ({
+      planId: prev.planId,
+      scenarios: [
+        ...prev.scenarios,
+        { id, name: `Scenario ${prev.scenarios.length + 1}`, assumptions: { ...defaultAssumptions } }
+      ]
+    }));
+    setActiveScenarioId(id);
+  };
+
+  const duplicateScenario = (id: string) => {
+    const copyId = createScenarioId();
+    updateScenarios((prev) => {
+      const source = prev.scenarios.find((scenario) => scenario.id === id);
+      if (!source) return prev;
+      return {
+        planId: prev.planId,
+        scenarios: [...prev.scenarios, { ...source, id: copyId, name: `${source.name} copy`, assumptions: { ...source.assumptions } }]
+      };
+    });
+    setActiveScenarioId(copyId);
+  };
+
+  const deleteScenario = (id: string) => {
+    const remaining = state.scenarios.filter((scenario) => scenario.id !== id);
+    if (!remaining.length) return;
+    updateScenarios((prev) => ({
+      scenarios: prev.scenarios.filter((scenario) => scenario.id !== id),
+      planId: prev.planId === id ? remaining[0].id : prev.planId
+    }));
+    setActiveScenarioId(remaining[0].id);
+  };
+
+  const setPlanScenario = (id: string) => {
+    updateScenarios((prev) => ({ scenarios: prev.scenarios, planId: id }));
+  };
+
+  const updateValuation = (inputs: ValuationInputs) => {
+    setState((prev) => ({ ...prev, valuation: inputs } satisfies AnalyzerState));
+  };
+
+  const updateRunway = (options: RunwayOptions) => {
+    setState((prev) => ({ ...prev, runway: options } satisfies AnalyzerState));
+  };
+
+  const updateAdjustment = (rowId: string, treatment: AnomalyTreatment | null) => {
     setState((prev) => {
-      const nextState = {
-        data: prev.data,
-        assumptions: { ...prev.assumptions, [key]: value }
-      } satisfies AnalyzerState;
-      refresh(nextState);
-      return nextState;
+      const adjustments = { ...prev.adjustments };
+      if (treatment) adjustments[rowId] = treatment;
+      else delete adjustments[rowId];
+      return { ...prev, adjustments } satisfies AnalyzerState;
     });
   };
 
+  const updateRiskRules = (riskRules: RiskRule[]) => {
+    setState((prev) => ({ ...prev, riskRules } satisfies AnalyzerState));
+  };
+
+  const selectCohort = (cohort: BenchmarkCohort | null) => {
+    immediateRef.current = true;
+    setState((prev) => ({ ...prev, benchmark: cohort } satisfies AnalyzerState));
+  };
+
+  const activateWorkspace = (workspace: Workspace | null) => {
+    setWorkspaceId(workspace?.id ?? null);
+    if (workspace?.riskRules) updateRiskRules(workspace.riskRules);
+  };
+
   const addPeriod = () => {
     setState((prev) => {
-      const nextState = {
+      return {
+        ...prev,
         data: [...prev.data, emptyPeriod()],
-        assumptions: prev.assumptions
+        rowIds: [...prev.rowIds, createRowId()]
+      } satisfies AnalyzerState;
+    });
+  };
+
+  const deletePeriod = (index: number) => {
+    setState((prev) => {
+      if (prev.data.length <= 1) return prev;
+      const adjustments = { ...prev.adjustments };
+      delete adjustments[prev.rowIds[index]];
+      return {
+        ...prev,
+        data: prev.data.filter((_, position) => position !== index),
+        rowIds: prev.rowIds.filter((_, position) => position !== index),
+        adjustments
       } satisfies AnalyzerState;
-      refresh(nextState);
-      return nextState;
     });
   };
 
+  const duplicatePeriod = (index: number) => {
+    setState((prev) => {
+      const data = [...prev.data];
+      const rowIds = [...prev.rowIds];
+      const source = data[index];
+      data.splice(index + 1, 0, { ...source, label: copyLabel(source.label, data.map((period) => period.label)) });
+      rowIds.splice(index + 1, 0, createRowId());
+      return { ...prev, data, rowIds } satisfies AnalyzerState;
+    });
+  };
+
+  const movePeriod = (from: number, to: number) => {
+    setState((prev) => {
+      if (from === to) return prev;
+      const data = [...prev.data];
+      const rowIds = [...prev.rowIds];
+      const [moved] = data.splice(from, 1);
+      const [movedId] = rowIds.splice(from, 1);
+      data.splice(to, 0, moved);
+      rowIds.splice(to, 0, movedId);
+      return { ...prev, data, rowIds } satisfies AnalyzerState;
+    });
+  };
+
+  const toggleExcluded = (rowId: string) =>
+    updateAdjustment(rowId, state.adjustments[rowId] === "exclude" ? null : "exclude");
+
+  const shareState = async () => {
+    try {
+      const url = shareUrl(window.location.origin, await encodeShareState(state));
+      await navigator.clipboard.writeText(url);
+      setShareStatus("Share link copied.");
+    } catch {
+      setShareStatus("Unable to copy a share link.");
+    }
+    window.setTimeout(() => setShareStatus(null), 4000);
+  };
+
+  const importPeriods = (periods: FinancialPeriod[], mode: ImportMode) => {
+    setImportText(null);
+    setState((prev) => {
+      return {
+        ...prev,
+        data: mode === "append" ? [...prev.data, ...periods] : periods,
+        rowIds: [...(mode === "append" ? prev.rowIds : []), ...periods.map(createRowId)],
+        adjustments: mode === "append" ? prev.adjustments : {}
+      } satisfies AnalyzerState;
+    });
+  };
+
+  const loadSnapshot = (snapshot: WorkspaceSnapshot) => {
+    setState((prev) => {
+      return { ...prev, ...snapshotState(snapshot) } satisfies AnalyzerState;
+    });
+    setActiveScenarioId(snapshot.planId);
+  };
+
+  const handleTablePaste = (event: React.ClipboardEvent<HTMLDivElement>) => {
+    const text = event.clipboardData.getData("text/plain");
+    if (!/[\t\n]/.test(text.trim())) return;
+    event.preventDefault();
+    setImportText(text);
+  };
+
+  const activeScenario = state.scenarios.find((scenario) => scenario.id === activeScenarioId) ?? state.scenarios[0];
+
+  const cellIssues = useMemo(() => {
+    const grouped = new Map<string, ValidationIssue[]>();
+    for (const issue of issues) {
+      if (issue.periodIndex === undefined) continue;
+      const key = cellKey(issue.periodIndex, issue.field ?? "label");
+      grouped.set(key, [...(grouped.get(key) ?? []), issue]);
+    }
+    return grouped;
+  }, [issues]);
+
+  const formatters = useMemo(() => createFormatters(locale, state.units), [locale, state.units]);
+
+  // Goal seek and simulations run on the periods the analysis ran on, not the raw grid.
+  const analyzedPeriods = useMemo(
+    () => preparePeriods({ ...analysisRequestBody(state), reporting: null }).periods,
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [state.data, state.rowIds, state.units, state.adjustments]
+  );
+
+  const anomalyCells = useMemo(
+    () => new Map((anomalies?.flags ?? []).map((anomaly) => [cellKey(anomaly.periodIndex, anomaly.field), anomaly])),
+    [anomalies]
+  );
+
   const revenueSeries = useMemo(
     () =>
       state.data.map((period) => ({
@@ -154,8 +720,68 @@ export default function FinancialAnalyzer() {
     [state.data]
   );
 
+  const visibleLineItems = lineItemSections
+    .filter((section) => openSections.includes(section.id))
+    .flatMap((section) => section.fields);
+  const showDerived = openSections.includes("derived");
+
   return (
     <div className="mx-auto flex w-full max-w-6xl flex-col gap-10 px-6 pb-24 pt-10">
+      <nav className="-mb-6 flex flex-wrap items-center justify-end gap-5 text-sm">
+        {shareStatus ? <span className="text-xs text-slate-400">{shareStatus}</span> : null}
+        <div className="inline-flex items-center gap-3">
+          <button
+            onClick={() => stepHistory(undoHistory)}
+            disabled={!history.past.length}
+            title="Undo (Ctrl+Z)"
+            className="inline-flex items-center gap-1.5 font-semibold text-slate-400 transition enabled:hover:text-slate-200 disabled:opacity-40"
+          >
+            <ArrowUturnLeftIcon className="h-4 w-4" /> Undo
+          </button>
+          <button
+            onClick={() => stepHistory(redoHistory)}
+            disabled={!history.future.length}
+            title="Redo (Ctrl+Shift+Z)"
+            className="inline-flex items-center gap-1.5 font-semibold text-slate-400 transition enabled:hover:text-slate-200 disabled:opacity-40"
+          >
+            <ArrowUturnRightIcon className="h-4 w-4" /> Redo
+          </button>
+        </div>
+        <button
+          onClick={() => void shareState()}
+          className="inline-flex items-center gap-1.5 font-semibold text-slate-400 transition hover:text-slate-200"
+        >
+          <LinkIcon className="h-4 w-4" /> Share link
+        </button>
+        {onBack ? null : (
+          <Link href="/developers" className="inline-flex items-center gap-1.5 font-semibold text-slate-400 transition hover:text-slate-200">
+            <KeyIcon className="h-4 w-4" /> API keys
+          </Link>
+        )}
+        {onBack ? (
+          <button onClick={onBack} className="inline-flex items-center gap-1.5 font-semibold text-brand-200 transition hover:text-brand-100">
+            <ArrowLeftIcon className="h-4 w-4" /> Back to portfolio
+          </button>
+        ) : (
+          <Link href="/portfolio" className="inline-flex items-center gap-1.5 font-semibold text-brand-200 transition hover:text-brand-100">
+            <Squares2X2Icon className="h-4 w-4" /> Portfolio view
+          </Link>
+        )}
+      </nav>
+
+      <WorkspacePanel
+        snapshot={{
+          periods: state.data,
+          units: state.units,
+          scenarios: state.scenarios,
+          planId: state.planId,
+          adjustments: labelAdjustments(state)
+        }}
+        onLoad={loadSnapshot}
+        onActiveChange={activateWorkspace}
+        initialWorkspaceId={initialWorkspaceId}
+      />
+
       <section className="grid gap-8 lg:grid-cols-[2fr,1.2fr]">
         <div className="space-y-6 rounded-3xl border border-white/10 bg-slate-900/40 p-8 shadow-2xl shadow-brand-900/30 backdrop-blur-xl">
           <header className="space-y-3">
@@ -171,20 +797,28 @@ export default function FinancialAnalyzer() {
             </p>
           </header>
           <div className="flex flex-wrap gap-3">
-            <MetricChip label="Overall Score" value={result ? `${result.healthScores.overall.toFixed(0)}` : "--"} />
+            <MetricChip
+              label="Overall Score"
+              value={result ? `${result.healthScores.overall.toFixed(0)}` : "--"}
+              onClick={openTrace("healthScores.overall")}
+            />
             <MetricChip
               label="Revenue CAGR"
-              value={result ? percentFormatter.format(result.metrics.cagr) : "--"}
+              value={result ? formatters.percent(result.metrics.cagr) : "--"}
+              onClick={openTrace("metrics.cagr")}
             />
             <MetricChip
               label="Net Margin"
-              value={result ? percentFormatter.format(result.metrics.netMargin) : "--"}
+              value={result ? formatters.percent(result.metrics.netMargin) : "--"}
+              onClick={openTrace("metrics.netMargin")}
             />
             <MetricChip
               label="Burn Multiple"
               value={result ? result.metrics.burnMultiple.toFixed(1) : "--"}
+              onClick={openTrace("metrics.burnMultiple")}
             />
           </div>
+          <ReportExport request={analysisRequestBody(state)} />
         </div>
 
         <motion.div
@@ -197,90 +831,78 @@ export default function FinancialAnalyzer() {
             <div>
               <h2 className="text-lg font-semibold text-white">Scenario Builder</h2>
               <p className="text-sm text-slate-400">
-                Adjust operating assumptions to model a 3-year trajectory. Aurora recalibrates forecasts instantly.
+                Build named cases, mark one as the plan, and model each 3-year trajectory side by side.
               </p>
             </div>
 
-            <div className="space-y-4">
-              {(
-                [
-                  { key: "revenueGrowth", label: "Revenue Growth Delta" },
-                  { key: "marginShift", label: "Net Margin Shift" },
-                  { key: "efficiencyGain", label: "Operating Efficiency" },
-                  { key: "cashConversion", label: "Cash Conversion" }
-                ] as const
-              ).map(({ key, label }) => (
-                <label key={key} className="block space-y-2">
-                  <div className="flex items-center justify-between text-xs uppercase tracking-wide text-slate-400">
-                    <span>{label}</span>
-                    <span>{state.assumptions[key].toFixed(1)}%</span>
-                  </div>
-                  <input
-                    type="range"
-                    min={key === "marginShift" ? -10 : -20}
-                    max={key === "revenueGrowth" ? 20 : 15}
-                    step={0.5}
-                    value={state.assumptions[key]}
-                    onChange={(event) => updateAssumption(key, Number(event.target.value))}
-                    className="h-1 w-full cursor-pointer appearance-none rounded-full bg-slate-700 accent-brand-400"
-                  />
-                </label>
-              ))}
-            </div>
+            <ScenarioBuilder
+              periods={analyzedPeriods}
+              scenarios={state.scenarios}
+              activeId={activeScenario.id}
+              planId={state.planId}
+              onSelect={setActiveScenarioId}
+              onRename={renameScenario}
+              onAssumptionChange={updateAssumption}
+              onAssumptionsReplace={replaceAssumptions}
+              onDistributionChange={updateDistribution}
+              onAdd={addScenario}
+              onDuplicate={duplicateScenario}
+              onDelete={deleteScenario}
+              onSetPlan={setPlanScenario}
+            />
 
             <button
-              onClick={() => refresh(state)}
+              onClick={() => refresh(state, true)}
               className="inline-flex items-center justify-center gap-2 rounded-full bg-gradient-to-r from-brand-500 to-brand-400 px-5 py-2 text-sm font-semibold text-white shadow-lg shadow-brand-900/30 transition hover:from-brand-400 hover:to-brand-300"
             >
               <ArrowPathIcon className={`h-4 w-4 ${isPending ? "animate-spin" : ""}`} />
               Re-run Analysis
             </button>
+            <div className="flex items-center gap-2 text-[11px]">
+              <span className="uppercase tracking-wide text-slate-400">Engine</span>
+              {engineModes.map(({ mode, label }) => (
+                <button
+                  key={mode}
+                  onClick={() => changeEngineMode(mode)}
+                  className={`rounded-full px-2.5 py-1 font-semibold ring-1 transition ${
+                    engineMode === mode ? "bg-brand-500/20 text-white ring-brand-400/50" : "text-slate-400 ring-white/10 hover:text-slate-200"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
             {error ? <p className="text-sm text-rose-300">{error}</p> : null}
           </div>
 
-          {result ? (
-            <div className="rounded-2xl border border-white/5 bg-slate-950/80 p-5">
-              <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-400">Forward Outlook</h3>
-              <div className="mt-3 h-40">
-                <ResponsiveContainer>
-                  <AreaChart data={result.scenario}>
-                    <defs>
-                      <linearGradient id="revenueGradient" x1="0" y1="0" x2="0" y2="1">
-                        <stop offset="5%" stopColor="#38bdf8" stopOpacity={0.8} />
-                        <stop offset="95%" stopColor="#38bdf8" stopOpacity={0} />
-                      </linearGradient>
-                    </defs>
-                    <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
-                    <XAxis dataKey="year" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} />
-                    <YAxis stroke="#94a3b8" fontSize={12} tickFormatter={(value) => `$${numberFormatter.format(value)}`} />
-                    <Tooltip
-                      contentStyle={{
-                        backgroundColor: "#020617",
-                        borderRadius: 12,
-                        border: "1px solid rgba(148, 163, 184, 0.25)",
-                        color: "#e2e8f0"
-                      }}
-                      formatter={(value: number) => [`$${numberFormatter.format(value)}`, ""]}
-                    />
-                    <Area type="monotone" dataKey="revenue" stroke="#38bdf8" fill="url(#revenueGradient)" />
-                  </AreaChart>
-                </ResponsiveContainer>
-              </div>
-              <dl className="mt-4 grid grid-cols-3 gap-3 text-xs text-slate-300">
-                {result.scenario.map((period) => (
-                  <div key={period.year} className="space-y-1 rounded-xl border border-white/5 bg-white/5 p-3">
-                    <dt className="font-semibold text-brand-200">{period.year}</dt>
-                    <dd>Rev {numberFormatter.format(period.revenue)}</dd>
-                    <dd>NI {numberFormatter.format(period.netIncome)}</dd>
-                    <dd>FCF {numberFormatter.format(period.freeCashFlow)}</dd>
-                  </div>
-                ))}
-              </dl>
-            </div>
+          {outlook ? (
+            <ForwardOutlook
+              scenarios={outlook.scenarios}
+              variances={outlook.variances}
+              planId={state.planId}
+              periods={state.data}
+              forecast={result?.forecast ?? null}
+            />
           ) : null}
         </motion.div>
       </section>
 
+      {result && activeScenario ? <SimulationPanel periods={analyzedPeriods} scenario={activeScenario} /> : null}
+
+      {result ? (
+        <SeasonalOutlook
+          periods={state.data}
+          rollups={seasonal.rollups}
+          projection={seasonal.projection}
+          options={state.projection}
+          onOptionsChange={updateProjection}
+        />
+      ) : null}
+
+      {result ? <RunwayPanel options={state.runway} result={runway} onChange={updateRunway} /> : null}
+
+      {result ? <ValuationPanel inputs={state.valuation} result={valuation} onChange={updateValuation} /> : null}
+
       <section className="grid gap-8 lg:grid-cols-[1.15fr,0.85fr]">
         <div className="rounded-3xl border border-white/10 bg-slate-900/40 p-6 shadow-lg shadow-brand-900/20">
           <header className="flex items-center justify-between">
@@ -288,19 +910,116 @@ export default function FinancialAnalyzer() {
               <h2 className="text-lg font-semibold text-white">Financial Periods</h2>
               <p className="text-sm text-slate-400">Edit trailing actuals or paste exported statements.</p>
             </div>
-            <button
-              onClick={addPeriod}
-              className="inline-flex items-center gap-2 rounded-full border border-brand-400/30 px-3 py-1.5 text-xs font-semibold text-brand-200 transition hover:border-brand-300 hover:text-brand-100"
-            >
-              <PlusIcon className="h-4 w-4" /> Add Period
-            </button>
+            <div className="flex items-center gap-2">
+              <select
+                value={state.data[0]?.granularity ?? ""}
+                onChange={(event) => applyGranularity(event.target.value as PeriodGranularity)}
+                title="Period granularity"
+                className="rounded-full border border-brand-400/30 bg-slate-900 px-3 py-1.5 text-xs font-semibold text-brand-200"
+              >
+                <option value="" disabled>
+                  Granularity
+                </option>
+                {granularities.map((granularity) => (
+                  <option key={granularity} value={granularity}>
+                    {granularity === "month" ? "Monthly" : granularity === "quarter" ? "Quarterly" : "Annual"}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => setImportText("")}
+                className="inline-flex items-center gap-2 rounded-full border border-brand-400/30 px-3 py-1.5 text-xs font-semibold text-brand-200 transition hover:border-brand-300 hover:text-brand-100"
+              >
+                <ArrowUpTrayIcon className="h-4 w-4" /> Import
+              </button>
+              <button
+                onClick={addPeriod}
+                className="inline-flex items-center gap-2 rounded-full border border-brand-400/30 px-3 py-1.5 text-xs font-semibold text-brand-200 transition hover:border-brand-300 hover:text-brand-100"
+              >
+                <PlusIcon className="h-4 w-4" /> Add Period
+              </button>
+            </div>
           </header>
 
-          <div className="mt-6 overflow-x-auto">
+          <div className="mt-4 flex flex-wrap items-center gap-2 text-xs">
+            <span className="uppercase tracking-wide text-slate-400">Figures in</span>
+            <select
+              value={state.units.currency}
+              onChange={(event) => updateUnits({ currency: event.target.value })}
+              title="Dataset currency"
+              className="rounded-full border border-white/10 bg-slate-900 px-2.5 py-1 font-semibold text-slate-200"
+            >
+              {(commonCurrencies.includes(state.units.currency) ? commonCurrencies : [state.units.currency, ...commonCurrencies]).map(
+                (currency) => (
+                  <option key={currency} value={currency}>
+                    {currency}
+                  </option>
+                )
+              )}
+            </select>
+            <select
+              value={state.units.scale}
+              onChange={(event) => updateUnits({ scale: event.target.value as UnitScale })}
+              title="Dataset scale"
+              className="rounded-full border border-white/10 bg-slate-900 px-2.5 py-1 font-semibold text-slate-200"
+            >
+              {(Object.keys(unitScales) as UnitScale[]).map((scale) => (
+                <option key={scale} value={scale}>
+                  {unitScales[scale].label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={locale}
+              onChange={(event) => changeLocale(event.target.value)}
+              title="Number format"
+              className="rounded-full border border-white/10 bg-slate-900 px-2.5 py-1 font-semibold text-slate-200"
+            >
+              {supportedLocales.map((option) => (
+                <option key={option.locale} value={option.locale}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="mt-3 flex flex-wrap gap-2 text-xs">
+            {[
+              ...lineItemSections.map((section) => ({
+                id: section.id as TableSection,
+                label: section.label,
+                filled: state.data.filter((period) => section.fields.some(({ key }) => period[key] !== undefined)).length
+              })),
+              { id: "derived" as TableSection, label: "Derived ratios", filled: null }
+            ].map((section) => (
+              <button
+                key={section.id}
+                onClick={() => toggleSection(section.id)}
+                aria-expanded={openSections.includes(section.id)}
+                className={`inline-flex items-center gap-1 rounded-full border px-3 py-1 font-semibold transition ${
+                  openSections.includes(section.id)
+                    ? "border-brand-300/60 bg-brand-500/10 text-brand-100"
+                    : "border-white/10 text-slate-400 hover:border-brand-300/40 hover:text-slate-200"
+                }`}
+              >
+                {openSections.includes(section.id) ? <ChevronDownIcon className="h-3 w-3" /> : <ChevronRightIcon className="h-3 w-3" />}
+                {section.label}
+                {section.filled ? <span className="text-slate-500">· {section.filled}</span> : null}
+              </button>
+            ))}
+          </div>
+
+          <div className="mt-4 overflow-x-auto" onPaste={handleTablePaste}>
             <table className="min-w-full table-fixed text-sm text-slate-200">
               <thead>
                 <tr className="border-b border-white/10 text-xs uppercase tracking-wide text-slate-400">
-                  {["Label", "Revenue", "COGS", "OpEx", "Net Income", "Assets", "Liabilities", "Cash", "Free Cash Flow"].map((column) => (
+                  {[
+                    "Label",
+                    "Start",
+                    "End",
+                    ...[...periodFields, ...visibleLineItems].map(({ label }) => label),
+                    ...(showDerived ? statementMeasures.map(({ label }) => label) : [])
+                  ].map((column) => (
                     <th key={column} className="px-3 pb-3 text-left">
                       {column}
                     </th>
@@ -309,41 +1028,152 @@ export default function FinancialAnalyzer() {
               </thead>
               <tbody className="divide-y divide-white/5">
                 {state.data.map((period, index) => (
-                  <tr key={`${period.label}-${index}`} className="transition hover:bg-white/5">
-                    <td className="px-3 py-2">
+                  <tr
+                    key={state.rowIds[index]}
+                    onDragOver={(event) => {
+                      if (dragIndex !== null) event.preventDefault();
+                    }}
+                    onDrop={(event) => {
+                      event.preventDefault();
+                      if (dragIndex !== null) movePeriod(dragIndex, index);
+                      setDragIndex(null);
+                    }}
+                    className={`transition hover:bg-white/5 ${state.adjustments[state.rowIds[index]] === "exclude" ? "opacity-50" : ""} ${
+                      dragIndex === index ? "bg-brand-500/10" : ""
+                    }`}
+                  >
+                    <td className="px-3 py-2 align-top">
                       <input
                         value={period.label}
                         onChange={(event) => updateLabel(index, event.target.value)}
                         placeholder="FY2024"
-                        className="w-28 rounded-lg border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white focus:border-brand-300 focus:outline-none focus:ring-1 focus:ring-brand-300"
+                        aria-invalid={cellIssues.has(cellKey(index, "label"))}
+                        className={`w-28 rounded-lg border bg-slate-950/60 px-3 py-2 text-sm text-white focus:outline-none focus:ring-1 ${issueInputClass(
+                          cellIssues.get(cellKey(index, "label"))
+                        )}`}
                       />
+                      <CellIssues issues={cellIssues.get(cellKey(index, "label"))} />
+                      <div className="mt-1 flex items-center gap-0.5 text-slate-500">
+                        <span
+                          draggable
+                          onDragStart={(event) => {
+                            event.dataTransfer.effectAllowed = "move";
+                            event.dataTransfer.setData("text/plain", String(index));
+                            const row = event.currentTarget.closest("tr");
+                            if (row) event.dataTransfer.setDragImage(row, 0, 0);
+                            setDragIndex(index);
+                          }}
+                          onDragEnd={() => setDragIndex(null)}
+                          title="Drag to reorder"
+                          className="cursor-grab rounded p-1 hover:bg-white/10 hover:text-slate-200 active:cursor-grabbing"
+                        >
+                          <Bars3Icon className="h-3.5 w-3.5" />
+                        </span>
+                        <button onClick={() => duplicatePeriod(index)} title="Duplicate period" className={rowActionClass}>
+                          <DocumentDuplicateIcon className="h-3.5 w-3.5" />
+                        </button>
+                        <button
+                          onClick={() => toggleExcluded(state.rowIds[index])}
+                          title={state.adjustments[state.rowIds[index]] === "exclude" ? "Include in analysis" : "Exclude from analysis"}
+                          className={rowActionClass}
+                        >
+                          {state.adjustments[state.rowIds[index]] === "exclude" ? (
+                            <EyeIcon className="h-3.5 w-3.5" />
+                          ) : (
+                            <EyeSlashIcon className="h-3.5 w-3.5" />
+                          )}
+                        </button>
+                        <button
+                          onClick={() => deletePeriod(index)}
+                          disabled={state.data.length <= 1}
+                          title="Delete period"
+                          className={rowActionClass}
+                        >
+                          <TrashIcon className="h-3.5 w-3.5" />
+                        </button>
+                      </div>
+                      {anomalies?.flags.some((anomaly) => anomaly.periodIndex === index) || state.adjustments[state.rowIds[index]] ? (
+                        <div className="mt-1 inline-flex rounded-full bg-slate-900/80 p-0.5 text-[10px] ring-1 ring-violet-400/30">
+                          {anomalyTreatments.map((option) => (
+                            <button
+                              key={option.label}
+                              onClick={() => updateAdjustment(state.rowIds[index], option.value)}
+                              className={`rounded-full px-1.5 py-0.5 font-semibold transition ${
+                                (state.adjustments[state.rowIds[index]] ?? null) === option.value
+                                  ? "bg-violet-500/30 text-white"
+                                  : "text-slate-400 hover:text-slate-200"
+                              }`}
+                            >
+                              {option.label}
+                            </button>
+                          ))}
+                        </div>
+                      ) : null}
                     </td>
-                    {(
-                      [
-                        "revenue",
-                        "cogs",
-                        "operatingExpenses",
-                        "netIncome",
-                        "assets",
-                        "liabilities",
-                        "cash",
-                        "freeCashFlow"
-                      ] as (keyof FinancialPeriod)[]
-                    ).map((key) => (
-                      <td key={key} className="px-3 py-2">
+                    {(["startDate", "endDate"] as const).map((key) => (
+                      <td key={key} className="px-3 py-2 align-top">
                         <input
-                          inputMode="decimal"
-                          value={period[key].toString()}
-                          onChange={(event) => updatePeriod(index, key, event.target.value)}
-                          className="w-32 rounded-lg border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white focus:border-brand-300 focus:outline-none focus:ring-1 focus:ring-brand-300"
+                          type="date"
+                          value={period[key] ?? ""}
+                          onChange={(event) => updateTiming(index, key, event.target.value)}
+                          aria-invalid={cellIssues.has(cellKey(index, key))}
+                          className={`w-36 rounded-lg border bg-slate-950/60 px-3 py-2 text-sm text-white focus:outline-none focus:ring-1 ${issueInputClass(
+                            cellIssues.get(cellKey(index, key))
+                          )}`}
+                        />
+                        <CellIssues issues={cellIssues.get(cellKey(index, key))} />
+                      </td>
+                    ))}
+                    {periodFields.map(({ key }) => (
+                      <td key={key} className="px-3 py-2 align-top">
+                        <NumberInput
+                          value={period[key]}
+                          locale={locale}
+                          format={formatters.plain}
+                          onChange={(value) => updatePeriod(index, key, value)}
+                          invalid={cellIssues.has(cellKey(index, key))}
+                          className={`w-32 rounded-lg border bg-slate-950/60 px-3 py-2 text-sm text-white focus:outline-none focus:ring-1 ${
+                            !cellIssues.has(cellKey(index, key)) && anomalyCells.has(cellKey(index, key))
+                              ? "border-violet-400/60 focus:border-violet-300 focus:ring-violet-300"
+                              : issueInputClass(cellIssues.get(cellKey(index, key)))
+                          }`}
                         />
+                        <CellIssues issues={cellIssues.get(cellKey(index, key))} />
+                        <CellAnomaly anomaly={anomalyCells.get(cellKey(index, key))} />
                       </td>
                     ))}
+                    {visibleLineItems.map(({ key }) => (
+                      <td key={key} className="px-3 py-2 align-top">
+                        <NumberInput
+                          value={period[key]}
+                          locale={locale}
+                          format={formatters.plain}
+                          onChange={(value) => updateLineItem(index, key, value)}
+                          placeholder="—"
+                          invalid={cellIssues.has(cellKey(index, key))}
+                          className={`w-32 rounded-lg border bg-slate-950/60 px-3 py-2 text-sm text-white focus:outline-none focus:ring-1 ${issueInputClass(
+                            cellIssues.get(cellKey(index, key))
+                          )}`}
+                        />
+                        <CellIssues issues={cellIssues.get(cellKey(index, key))} />
+                      </td>
+                    ))}
+                    {showDerived
+                      ? statementMeasures.map(({ key, format }) => (
+                          <td key={key} className="whitespace-nowrap px-3 py-2 align-top text-slate-300">
+                            {formatMeasure(statements[index]?.values[key] ?? null, format, formatters)}
+                          </td>
+                        ))
+                      : null}
                   </tr>
                 ))}
               </tbody>
             </table>
           </div>
+
+          {result && anomalies?.reported ? (
+            <AnomalyComparison reported={anomalies.reported} adjusted={result} adjustments={anomalies.adjustments} />
+          ) : null}
         </div>
 
         <div className="flex flex-col gap-6">
@@ -365,7 +1195,7 @@ export default function FinancialAnalyzer() {
                   </defs>
                   <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
                   <XAxis dataKey="label" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} />
-                  <YAxis stroke="#94a3b8" fontSize={12} tickFormatter={(value) => `$${numberFormatter.format(value)}`} />
+                  <YAxis stroke="#94a3b8" fontSize={12} tickFormatter={formatters.amount} />
                   <Tooltip
                     contentStyle={{
                       backgroundColor: "#020617",
@@ -374,7 +1204,7 @@ export default function FinancialAnalyzer() {
                       color: "#e2e8f0"
                     }}
                     formatter={(value: number, key: string) => [
-                      `$${numberFormatter.format(value)}`,
+                      formatters.amount(value),
                       key === "netIncome" ? "Net Income" : key === "freeCashFlow" ? "Free Cash Flow" : "Revenue"
                     ]}
                   />
@@ -387,67 +1217,59 @@ export default function FinancialAnalyzer() {
           </div>
 
           {result ? (
-            <div className="rounded-3xl border border-white/10 bg-slate-900/60 p-6 shadow-xl shadow-brand-900/20">
-              <h2 className="text-lg font-semibold text-white">Signal Detection</h2>
-              <p className="text-sm text-slate-400">
-                Aurora aggregates heuristics across liquidity, leverage, and efficiency to surface watchouts.
-              </p>
-              <ul className="mt-4 space-y-3 text-sm text-slate-300">
-                {result.riskSignals.length ? (
-                  result.riskSignals.map((signal, index) => (
-                    <motion.li
-                      key={signal}
-                      variants={insightVariants}
-                      initial="hidden"
-                      animate="visible"
-                      transition={{ delay: index * 0.05 }}
-                      className="rounded-2xl border border-rose-500/20 bg-rose-500/5 px-4 py-3 text-rose-200"
-                    >
-                      {signal}
-                    </motion.li>
-                  ))
-                ) : (
-                  <li className="rounded-xl border border-emerald-500/30 bg-emerald-500/10 px-4 py-3 text-emerald-200">
-                    No acute risks detected. Maintain continuous monitoring cadence.
-                  </li>
-                )}
-              </ul>
-            </div>
+            <SignalPanel
+              signals={signals.signals}
+              riskContext={signals.riskContext}
+              rules={state.riskRules}
+              issues={issues.filter((issue) => issue.scope === "rules")}
+              workspaceId={workspaceId}
+              onRulesChange={updateRiskRules}
+            />
           ) : null}
+
+          <WatchlistPanel workspaceId={workspaceId} metrics={Object.keys(signals.riskContext)} />
         </div>
       </section>
 
       {result ? (
         <section className="space-y-8 rounded-3xl border border-white/10 bg-slate-900/40 p-8 shadow-2xl shadow-brand-900/30">
           <div className="grid gap-6 lg:grid-cols-[1.1fr,0.9fr]">
-            <motion.div
-              initial="hidden"
-              animate="visible"
-              variants={insightVariants}
-              className="rounded-3xl border border-brand-400/20 bg-brand-500/5 p-6"
-            >
-              <h2 className="text-lg font-semibold text-brand-100">Strategic Narrative</h2>
-              <p className="mt-3 text-sm leading-relaxed text-brand-50/90">{result.narrative}</p>
-            </motion.div>
+            <NarrativePanel
+              analysis={result}
+              request={analysisRequestBody(state)}
+            />
 
             <div className="grid gap-4">
               {Object.entries(result.healthScores).map(([key, value]) => (
-                <div key={key} className="rounded-2xl border border-white/5 bg-slate-950/70 p-4">
+                <button
+                  key={key}
+                  onClick={openTrace(`healthScores.${key}`)}
+                  className="rounded-2xl border border-white/5 bg-slate-950/70 p-4 text-left transition hover:border-brand-400/30"
+                >
                   <div className="flex items-center justify-between text-sm text-slate-300">
                     <span className="uppercase tracking-wide text-slate-400">{key}</span>
                     <span className="text-2xl font-semibold text-white">{value.toFixed(0)}</span>
                   </div>
-                  <div className="mt-3 h-2 rounded-full bg-slate-800">
+                  <div className="relative mt-3 h-2 rounded-full bg-slate-800">
                     <div
                       className="h-2 rounded-full bg-gradient-to-r from-brand-500 to-brand-300"
                       style={{ width: `${value}%` }}
                     />
+                    {benchmark?.ranks[`healthScores.${key}`] ? (
+                      <div
+                        title={`${benchmark.cohort.name} median`}
+                        className="absolute -inset-y-1 w-0.5 rounded bg-amber-300"
+                        style={{ left: `${benchmark.ranks[`healthScores.${key}`].median}%` }}
+                      />
+                    ) : null}
                   </div>
-                </div>
+                </button>
               ))}
             </div>
           </div>
 
+          <BenchmarkPanel cohort={state.benchmark} result={benchmark} onSelect={selectCohort} />
+
           <div className="grid gap-6 md:grid-cols-3">
             {result.recommendations.map((section, index) => (
               <motion.div
@@ -474,6 +1296,17 @@ export default function FinancialAnalyzer() {
           </div>
         </section>
       ) : null}
+
+      {traceKey && trace[traceKey] ? <MetricTracePanel trace={trace[traceKey]} onClose={() => setTraceKey(null)} /> : null}
+
+      {importText !== null ? (
+        <StatementImporter
+          initialText={importText}
+          locale={locale}
+          onImport={importPeriods}
+          onClose={() => setImportText(null)}
+        />
+      ) : null}
     </div>
   );
 }
@@ -0,0 +1,252 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { FinancialPeriod } from "@/lib/analysis";
+import { forecastMethodLabels, type StatisticalForecast } from "@/lib/forecast";
+import { scenarioMetrics, type ScenarioResult, type ScenarioVariance } from "@/lib/scenarios";
+import { scenarioPalette } from "@/components/ScenarioBuilder";
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from "recharts";
+
+const numberFormatter = new Intl.NumberFormat("en-US", {
+  notation: "compact",
+  maximumFractionDigits: 1
+});
+
+const metricLabels: Record<(typeof scenarioMetrics)[number], string> = {
+  revenue: "Revenue",
+  netIncome: "Net Income",
+  freeCashFlow: "FCF"
+};
+
+type OutlookMode = "scenarios" | "statistical";
+
+const tooltipStyle = {
+  backgroundColor: "#020617",
+  borderRadius: 12,
+  border: "1px solid rgba(148, 163, 184, 0.25)",
+  color: "#e2e8f0"
+};
+
+const bandLabels: Record<string, string> = {
+  actual: "Actual",
+  forecast: "Forecast",
+  band80: "80% band",
+  band95: "95% band"
+};
+
+const currency = (value: number) => `$${numberFormatter.format(value)}`;
+
+function Delta({ value, base }: { value: number; base: number }) {
+  if (value === 0) return <span className="text-slate-500">—</span>;
+  const percent = base !== 0 ? ` (${((value / Math.abs(base)) * 100).toFixed(1)}%)` : "";
+  return (
+    <span className={value > 0 ? "text-emerald-300" : "text-rose-300"}>
+      {value > 0 ? "+" : ""}
+      {numberFormatter.format(value)}
+      {percent}
+    </span>
+  );
+}
+
+export default function ForwardOutlook({
+  scenarios,
+  variances,
+  planId,
+  periods,
+  forecast
+}: {
+  scenarios: ScenarioResult[];
+  variances: ScenarioVariance[];
+  planId: string;
+  periods: FinancialPeriod[];
+  forecast: StatisticalForecast | null;
+}) {
+  const [metric, setMetric] = useState<(typeof scenarioMetrics)[number]>("revenue");
+  const [mode, setMode] = useState<OutlookMode>("scenarios");
+  const statistical = mode === "statistical" && forecast ? forecast.metrics[metric] : null;
+
+  const chartData = useMemo(() => {
+    const years = scenarios[0]?.trajectory.map((point) => point.year) ?? [];
+    return years.map((year, index) => ({
+      year,
+      ...Object.fromEntries(scenarios.map((scenario) => [scenario.id, scenario.trajectory[index]?.[metric] ?? 0]))
+    }));
+  }, [scenarios, metric]);
+
+  const forecastData = useMemo(() => {
+    if (!statistical) return [];
+    const history = periods.map((period, index) => ({
+      label: period.label,
+      actual: period[metric],
+      ...(index === periods.length - 1 ? { forecast: period[metric] } : {})
+    }));
+    return [
+      ...history,
+      ...statistical.points.map((point) => ({
+        label: point.label,
+        forecast: point.value,
+        band80: [point.lower80, point.upper80],
+        band95: [point.lower95, point.upper95]
+      }))
+    ];
+  }, [statistical, periods, metric]);
+
+  const plan = variances.find((variance) => variance.id === planId);
+
+  return (
+    <div className="rounded-2xl border border-white/5 bg-slate-950/80 p-5">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-400">Forward Outlook</h3>
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          <div className="inline-flex rounded-full bg-slate-900/80 p-0.5 text-[11px] ring-1 ring-white/10">
+            {(
+              [
+                { key: "scenarios", label: "Scenarios" },
+                { key: "statistical", label: "Statistical" }
+              ] as const
+            ).map((option) => (
+              <button
+                key={option.key}
+                onClick={() => setMode(option.key)}
+                disabled={option.key === "statistical" && !forecast}
+                title={option.key === "statistical" && !forecast ? "Needs at least four historical periods" : undefined}
+                className={`rounded-full px-2.5 py-1 font-semibold transition disabled:cursor-not-allowed disabled:opacity-40 ${
+                  mode === option.key ? "bg-brand-500/30 text-white" : "text-slate-400 hover:text-slate-200"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div className="inline-flex rounded-full bg-slate-900/80 p-0.5 text-[11px] ring-1 ring-white/10">
+            {scenarioMetrics.map((key) => (
+              <button
+                key={key}
+                onClick={() => setMetric(key)}
+                className={`rounded-full px-2.5 py-1 font-semibold transition ${
+                  metric === key ? "bg-brand-500/30 text-white" : "text-slate-400 hover:text-slate-200"
+                }`}
+              >
+                {metricLabels[key]}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+      {statistical ? (
+        <>
+          <div className="mt-3 h-44">
+            <ResponsiveContainer>
+              <ComposedChart data={forecastData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
+                <XAxis dataKey="label" stroke="#94a3b8" fontSize={11} tickLine={false} axisLine={false} />
+                <YAxis stroke="#94a3b8" fontSize={12} tickFormatter={(value) => currency(value)} />
+                <Tooltip
+                  contentStyle={tooltipStyle}
+                  formatter={(value: number | number[], key: string) => [
+                    Array.isArray(value) ? `${currency(value[0])} – ${currency(value[1])}` : currency(value),
+                    bandLabels[key] ?? key
+                  ]}
+                />
+                <Area type="monotone" dataKey="band95" stroke="none" fill="#38bdf8" fillOpacity={0.12} />
+                <Area type="monotone" dataKey="band80" stroke="none" fill="#38bdf8" fillOpacity={0.22} />
+                <Line type="monotone" dataKey="actual" stroke="#e2e8f0" strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="forecast" stroke="#38bdf8" strokeWidth={2} strokeDasharray="4 3" dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="mt-3 space-y-1 text-xs text-slate-400">
+            <p>
+              <span className="font-semibold text-brand-200">{forecastMethodLabels[statistical.method]}</span> · backtest
+              error {(statistical.backtestError * 100).toFixed(1)}% WAPE over the last {statistical.holdout}{" "}
+              {statistical.holdout === 1 ? "period" : "periods"} · shaded bands are 80% and 95% intervals
+            </p>
+            <p className="text-slate-500">
+              {statistical.candidates
+                .map((candidate) => `${forecastMethodLabels[candidate.method]} ${(candidate.wape * 100).toFixed(1)}%`)
+                .join(" · ")}
+            </p>
+          </div>
+        </>
+      ) : (
+        <div className="mt-3 h-44">
+          <ResponsiveContainer>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
+              <XAxis dataKey="year" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} />
+              <YAxis stroke="#94a3b8" fontSize={12} tickFormatter={(value) => `$${numberFormatter.format(value)}`} />
+              <Tooltip
+                contentStyle={tooltipStyle}
+                formatter={(value: number, key: string) => [
+                  `$${numberFormatter.format(value)}`,
+                  scenarios.find((scenario) => scenario.id === key)?.name ?? key
+                ]}
+              />
+              <Legend
+                formatter={(key: string) => scenarios.find((scenario) => scenario.id === key)?.name ?? key}
+                wrapperStyle={{ fontSize: 11 }}
+              />
+              {scenarios.map((scenario, index) => (
+                <Line
+                  key={scenario.id}
+                  type="monotone"
+                  dataKey={scenario.id}
+                  stroke={scenarioPalette[index % scenarioPalette.length]}
+                  strokeWidth={scenario.id === planId ? 3 : 1.5}
+                  strokeDasharray={scenario.id === planId ? undefined : "4 3"}
+                  dot={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {plan && !statistical ? (
+        <div className="mt-4 overflow-x-auto">
+          <table className="min-w-full text-xs text-slate-300">
+            <thead>
+              <tr className="border-b border-white/10 uppercase tracking-wide text-slate-500">
+                <th className="py-2 pr-3 text-left">{plan.year} vs plan</th>
+                {scenarioMetrics.map((key) => (
+                  <th key={key} className="px-2 py-2 text-right">
+                    {metricLabels[key]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {variances.map((variance) => (
+                <tr key={variance.id}>
+                  <td className="py-2 pr-3 font-semibold text-brand-200">
+                    {variance.name}
+                    {variance.id === planId ? <span className="ml-1 text-amber-300">(plan)</span> : null}
+                  </td>
+                  {scenarioMetrics.map((key) => (
+                    <td key={key} className="px-2 py-2 text-right">
+                      <div className="text-slate-100">{numberFormatter.format(variance[key])}</div>
+                      {variance.id === planId ? null : (
+                        <Delta value={variance[`${key}Delta`]} base={plan[key]} />
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+    </div>
+  );
+}
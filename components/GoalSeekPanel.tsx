@@ -0,0 +1,157 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { runAnalysis, type FinancialPeriod, type ScenarioAssumptions } from "@/lib/analysis";
+import { readTarget, solveForTarget, type GoalSeekResult, type GoalTarget } from "@/lib/goal-seek";
+import { scenarioMetrics } from "@/lib/scenarios";
+
+const metricLabels: Record<(typeof scenarioMetrics)[number], string> = {
+  revenue: "Revenue",
+  netIncome: "Net Income",
+  freeCashFlow: "Free Cash Flow"
+};
+
+const valueFormatter = new Intl.NumberFormat("en-US", { maximumFractionDigits: 3 });
+
+type TargetOption = { id: string; label: string; group: string; target: GoalTarget };
+
+type AssumptionControl = { key: keyof ScenarioAssumptions; label: string; min: number; max: number };
+
+export default function GoalSeekPanel({
+  periods,
+  assumptions,
+  controls,
+  onApply
+}: {
+  periods: FinancialPeriod[];
+  assumptions: ScenarioAssumptions;
+  controls: AssumptionControl[];
+  onApply: (assumptions: ScenarioAssumptions) => void;
+}) {
+  const [targetId, setTargetId] = useState("scenario:freeCashFlow:-1");
+  const [value, setValue] = useState("0");
+  const [vary, setVary] = useState<(keyof ScenarioAssumptions)[]>(["revenueGrowth"]);
+  const [result, setResult] = useState<GoalSeekResult | null>(null);
+
+  const current = useMemo(() => (periods.length ? runAnalysis(periods, assumptions) : null), [periods, assumptions]);
+
+  const options = useMemo<TargetOption[]>(() => {
+    if (!current) return [];
+    const years = current.scenario.map((year, index) => ({ year, index: index === current.scenario.length - 1 ? -1 : index }));
+    return [
+      ...years.flatMap(({ year, index }) =>
+        scenarioMetrics.map((metric) => ({
+          id: `scenario:${metric}:${index}`,
+          label: `${metricLabels[metric]} · ${year.year}`,
+          group: "Scenario years",
+          target: { kind: "scenario" as const, metric, yearIndex: index }
+        }))
+      ),
+      ...Object.keys(current.healthScores).map((key) => ({
+        id: `healthScore:${key}`,
+        label: key,
+        group: "Health scores",
+        target: { kind: "healthScore" as const, key }
+      })),
+      ...Object.keys(current.metrics).map((key) => ({
+        id: `metric:${key}`,
+        label: key,
+        group: "Metrics",
+        target: { kind: "metric" as const, key }
+      }))
+    ];
+  }, [current]);
+
+  const selected = options.find((option) => option.id === targetId) ?? options[0];
+  const currentValue = current && selected ? readTarget(current, selected.target) : null;
+  const groups = Array.from(new Set(options.map((option) => option.group)));
+
+  const toggle = (key: keyof ScenarioAssumptions) =>
+    setVary((prev) => (prev.includes(key) ? prev.filter((entry) => entry !== key) : [...prev, key]));
+
+  const solve = () => {
+    const target = Number(value);
+    if (!selected || !Number.isFinite(target)) return;
+    const outcome = solveForTarget(periods, assumptions, {
+      target: selected.target,
+      value: target,
+      vary,
+      bounds: Object.fromEntries(controls.map(({ key, min, max }) => [key, [min, max]]))
+    });
+    setResult(outcome);
+    if (outcome.status === "solved") onApply(outcome.assumptions);
+  };
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-brand-400/20 bg-brand-500/5 p-4 text-xs text-slate-300">
+      <div className="grid gap-3 sm:grid-cols-[1.4fr,1fr]">
+        <label className="space-y-1">
+          <span className="block uppercase tracking-wide text-slate-400">Target</span>
+          <select
+            value={selected?.id ?? ""}
+            onChange={(event) => {
+              setTargetId(event.target.value);
+              setResult(null);
+            }}
+            className="w-full rounded-lg border border-white/10 bg-slate-900 px-2 py-1.5 text-sm text-slate-100"
+          >
+            {groups.map((group) => (
+              <optgroup key={group} label={group}>
+                {options
+                  .filter((option) => option.group === group)
+                  .map((option) => (
+                    <option key={option.id} value={option.id}>
+                      {option.label}
+                    </option>
+                  ))}
+              </optgroup>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="block uppercase tracking-wide text-slate-400">Value</span>
+          <input
+            inputMode="decimal"
+            value={value}
+            onChange={(event) => setValue(event.target.value)}
+            className="w-full rounded-lg border border-white/10 bg-slate-950/60 px-3 py-1.5 text-sm text-white"
+          />
+        </label>
+      </div>
+      {currentValue !== null ? (
+        <p className="text-[11px] text-slate-500">Currently {valueFormatter.format(currentValue)}</p>
+      ) : null}
+
+      <div className="flex flex-wrap gap-2">
+        {controls.map(({ key, label }) => (
+          <label
+            key={key}
+            className={`inline-flex cursor-pointer items-center gap-1.5 rounded-full px-2.5 py-1 ring-1 transition ${
+              vary.includes(key) ? "bg-brand-500/20 text-white ring-brand-400/50" : "text-slate-400 ring-white/10"
+            }`}
+          >
+            <input type="checkbox" checked={vary.includes(key)} onChange={() => toggle(key)} className="sr-only" />
+            {label}
+          </label>
+        ))}
+      </div>
+
+      <button
+        onClick={solve}
+        disabled={!vary.length || !selected}
+        className="inline-flex items-center justify-center rounded-full bg-gradient-to-r from-brand-500 to-brand-400 px-4 py-1.5 text-xs font-semibold text-white shadow-lg shadow-brand-900/30 transition hover:from-brand-400 hover:to-brand-300 disabled:opacity-40"
+      >
+        Solve
+      </button>
+
+      {result?.status === "solved" ? (
+        <p className="text-emerald-200">
+          Solved: {result.shift >= 0 ? "+" : ""}
+          {result.shift.toFixed(2)} pts on the selected assumptions reaches {valueFormatter.format(result.achieved)}. Sliders
+          updated.
+        </p>
+      ) : null}
+      {result?.status === "infeasible" ? <p className="text-rose-300">{result.reason}</p> : null}
+    </div>
+  );
+}
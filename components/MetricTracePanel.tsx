@@ -0,0 +1,111 @@
+"use client";
+
+import type { MetricTrace } from "@/lib/explain";
+import { CheckBadgeIcon, ExclamationTriangleIcon, XMarkIcon } from "@heroicons/react/24/outline";
+
+const valueFormatter = new Intl.NumberFormat("en-US", { maximumFractionDigits: 4 });
+
+const inputFormatter = new Intl.NumberFormat("en-US", { maximumFractionDigits: 2 });
+
+export default function MetricTracePanel({ trace, onClose }: { trace: MetricTrace; onClose: () => void }) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 p-6 backdrop-blur" onClick={onClose}>
+      <div
+        onClick={(event) => event.stopPropagation()}
+        className="flex max-h-full w-full max-w-2xl flex-col gap-5 overflow-y-auto rounded-3xl border border-white/10 bg-slate-900 p-6 shadow-2xl shadow-brand-900/40 scrollbar-thin"
+      >
+        <header className="flex items-start justify-between gap-4">
+          <div>
+            <p className="text-xs uppercase tracking-wide text-brand-300/80">{trace.key}</p>
+            <h2 className="text-lg font-semibold text-white">
+              {trace.label} · <span className="text-brand-100">{valueFormatter.format(trace.value)}</span>
+            </h2>
+          </div>
+          <button onClick={onClose} className="rounded-full p-1 text-slate-400 transition hover:text-white">
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </header>
+
+        <section className="space-y-2">
+          <h3 className="text-xs uppercase tracking-wide text-slate-400">Formula</h3>
+          <p className="rounded-xl bg-slate-950/70 px-4 py-3 font-mono text-xs text-slate-100">{trace.formula}</p>
+        </section>
+
+        {trace.inputs.length ? (
+          <section className="space-y-2">
+            <h3 className="text-xs uppercase tracking-wide text-slate-400">Inputs</h3>
+            <table className="w-full text-left text-xs text-slate-300">
+              <thead className="text-slate-500">
+                <tr>
+                  <th className="py-1 font-medium">Term</th>
+                  <th className="py-1 font-medium">Period</th>
+                  <th className="py-1 text-right font-medium">Value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {trace.inputs.map((entry) => (
+                  <tr key={entry.name} className="border-t border-white/5">
+                    <td className="py-1.5 font-mono">{entry.name}</td>
+                    <td className="py-1.5">{entry.period ?? "--"}</td>
+                    <td className="py-1.5 text-right font-semibold text-slate-100">{inputFormatter.format(entry.value)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        ) : null}
+
+        {trace.steps.length ? (
+          <section className="space-y-2">
+            <h3 className="text-xs uppercase tracking-wide text-slate-400">
+              {trace.kind === "healthScore" ? "Driving metrics" : "Intermediate values"}
+            </h3>
+            <ul className="space-y-1 text-xs text-slate-300">
+              {trace.steps.map((step) => (
+                <li key={step.label} className="flex justify-between rounded-lg bg-slate-950/60 px-3 py-1.5">
+                  <span>{step.label}</span>
+                  <span className="font-semibold text-slate-100">{valueFormatter.format(step.value)}</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        ) : null}
+
+        {trace.weights.length ? (
+          <section className="space-y-2">
+            <h3 className="text-xs uppercase tracking-wide text-slate-400">Weights</h3>
+            <ul className="space-y-2 text-xs text-slate-300">
+              {trace.weights.map((entry) => (
+                <li key={entry.key} className="space-y-1">
+                  <div className="flex justify-between">
+                    <span className="uppercase tracking-wide">{entry.key}</span>
+                    <span>
+                      {inputFormatter.format(entry.value)} × {inputFormatter.format(entry.weight * 100)}% ={" "}
+                      <span className="font-semibold text-slate-100">{inputFormatter.format(entry.contribution)}</span>
+                    </span>
+                  </div>
+                  <div className="h-1.5 rounded-full bg-slate-800">
+                    <div className="h-1.5 rounded-full bg-brand-400" style={{ width: `${entry.weight * 100}%` }} />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </section>
+        ) : null}
+
+        {trace.reconciled === true ? (
+          <p className="inline-flex items-center gap-1.5 text-xs text-emerald-300">
+            <CheckBadgeIcon className="h-4 w-4" /> Recomputing from the inputs reproduces the reported value.
+          </p>
+        ) : null}
+        {trace.reconciled === false && trace.recomputed !== null ? (
+          <p className="inline-flex items-start gap-1.5 text-xs text-amber-200">
+            <ExclamationTriangleIcon className="h-4 w-4 shrink-0" />
+            This trace recomputes {valueFormatter.format(trace.recomputed)}; the engine reported{" "}
+            {valueFormatter.format(trace.value)}, so its calculation differs from the formula shown.
+          </p>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { AnalysisPayload } from "@/lib/analysis";
+import type { GroundingReport, NarrativeEvent } from "@/lib/narrative";
+import { CheckBadgeIcon, ExclamationTriangleIcon } from "@heroicons/react/24/outline";
+import { motion } from "framer-motion";
+
+const NARRATIVE_DEBOUNCE_MS = 400;
+
+type ProviderOption = { id: string; label: string };
+
+type NarrativeStatus =
+  | { state: "streaming" }
+  | { state: "grounded"; grounding: GroundingReport }
+  | { state: "rejected"; grounding: GroundingReport; fallback: boolean }
+  | { state: "error"; message: string };
+
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<NarrativeEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split("\n");
+    buffer = done ? "" : lines.pop() ?? "";
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line) as NarrativeEvent;
+    }
+    if (done) return;
+  }
+}
+
+export default function NarrativePanel({ analysis, request }: { analysis: AnalysisPayload; request: Record<string, unknown> }) {
+  const [providers, setProviders] = useState<ProviderOption[]>([]);
+  const [provider, setProvider] = useState<string | null>(null);
+  const [text, setText] = useState(analysis.narrative);
+  const [status, setStatus] = useState<NarrativeStatus>({ state: "streaming" });
+  const requestRef = useRef(request);
+  requestRef.current = request;
+  // Streamed text has not been grounding-checked until the done event arrives.
+  const unverified = Boolean(text) && (status.state === "streaming" || status.state === "error");
+
+  useEffect(() => {
+    fetch("/api/narrative")
+      .then((response) => response.json())
+      .then((body) => {
+        setProviders(body.data ?? []);
+        setProvider((current) => current ?? body.defaultProvider ?? null);
+      })
+      .catch(() => setProviders([]));
+  }, []);
+
+  useEffect(() => {
+    if (!provider) return;
+    const controller = new AbortController();
+
+    const run = async () => {
+      setText("");
+      setStatus({ state: "streaming" });
+      const response = await fetch("/api/narrative", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...requestRef.current, provider }),
+        signal: controller.signal
+      });
+      if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error ?? "Unable to generate narrative.");
+      }
+
+      for await (const event of readEvents(response.body)) {
+        if (event.type === "delta") setText((current) => current + event.text);
+        if (event.type === "done") setStatus({ state: "grounded", grounding: event.grounding });
+        if (event.type === "error") setStatus({ state: "error", message: event.message });
+        if (event.type === "rejected") {
+          setText(event.fallback ?? "");
+          setStatus({ state: "rejected", grounding: event.grounding, fallback: event.fallback !== null });
+        }
+      }
+    };
+
+    const timer = setTimeout(() => {
+      run().catch((err) => {
+        if (controller.signal.aborted) return;
+        setStatus({ state: "error", message: err instanceof Error ? err.message : "Unable to generate narrative." });
+      });
+    }, NARRATIVE_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [analysis, provider]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 16 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="rounded-3xl border border-brand-400/20 bg-brand-500/5 p-6"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold text-brand-100">Strategic Narrative</h2>
+        {providers.length > 1 ? (
+          <select
+            value={provider ?? ""}
+            onChange={(event) => setProvider(event.target.value)}
+            className="rounded-lg border border-white/10 bg-slate-900 px-2 py-1 text-xs text-slate-100"
+          >
+            {providers.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        ) : null}
+      </div>
+
+      <p className={`mt-3 text-sm leading-relaxed ${unverified ? "text-brand-50/60" : "text-brand-50/90"}`}>
+        {text}
+        {status.state === "streaming" ? <span className="ml-0.5 inline-block h-4 w-1.5 animate-pulse bg-brand-200/70 align-middle" /> : null}
+      </p>
+
+      <div className="mt-4 text-[11px]">
+        {unverified ? (
+          <p className="inline-flex items-center gap-1.5 text-slate-400">
+            <ExclamationTriangleIcon className="h-4 w-4" />
+            Unverified: figures are checked against the computed payload once the narrative is complete.
+          </p>
+        ) : null}
+        {status.state === "grounded" ? (
+          <p className="inline-flex items-center gap-1.5 text-emerald-300">
+            <CheckBadgeIcon className="h-4 w-4" />
+            {status.grounding.figures.length
+              ? `All ${status.grounding.figures.length} figures match the computed payload.`
+              : "No figures quoted."}
+          </p>
+        ) : null}
+        {status.state === "rejected" ? (
+          <p className="inline-flex items-start gap-1.5 text-amber-200">
+            <ExclamationTriangleIcon className="h-4 w-4 shrink-0" />
+            Narrative rejected: {status.grounding.unsupported.join(", ")} not found in the computed payload.
+            {status.fallback ? " Showing the template narrative instead." : ""}
+          </p>
+        ) : null}
+        {status.state === "error" ? <p className="text-rose-300">{status.message}</p> : null}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { useState } from "react";
+import { parseLocaleNumber } from "@/lib/number-format";
+
+// Shows the locale-formatted value at rest and keeps the raw draft while focused, so typing
+// "1.234,5" in de-DE is not reformatted mid-keystroke.
+export default function NumberInput({
+  value,
+  locale,
+  format,
+  onChange,
+  placeholder,
+  invalid,
+  className
+}: {
+  value: number | undefined;
+  locale: string;
+  format: (value: number) => string;
+  onChange: (value: number | null) => void;
+  placeholder?: string;
+  invalid?: boolean;
+  className?: string;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  return (
+    <input
+      inputMode="decimal"
+      value={draft ?? (value === undefined ? "" : format(value))}
+      onFocus={() => setDraft(value === undefined ? "" : format(value))}
+      onChange={(event) => {
+        setDraft(event.target.value);
+        onChange(parseLocaleNumber(event.target.value, locale));
+      }}
+      onBlur={() => setDraft(null)}
+      placeholder={placeholder}
+      aria-invalid={invalid}
+      className={className}
+    />
+  );
+}
@@ -0,0 +1,415 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { commonCurrencies, unitScales, type DatasetUnits, type ReportingOptions, type UnitScale } from "@/lib/currency";
+import { DEFAULT_LOCALE, LOCALE_STORAGE_KEY, createFormatters, parseLocaleNumber } from "@/lib/number-format";
+import {
+  portfolioColumns,
+  portfolioValue,
+  rankPortfolio,
+  type PortfolioAggregates,
+  type PortfolioCompany,
+  type PortfolioResult,
+  type PortfolioSortKey
+} from "@/lib/portfolio";
+import { formatMetric } from "@/lib/report";
+import { riskSeverities, type RiskSeverity } from "@/lib/risk-rules";
+import type { WorkspaceSummary } from "@/lib/workspaces";
+import FinancialAnalyzer from "@/components/FinancialAnalyzer";
+import {
+  ArrowDownIcon,
+  ArrowPathIcon,
+  ArrowUpIcon,
+  ArrowUpTrayIcon,
+  BriefcaseIcon,
+  PlusIcon,
+  TrashIcon
+} from "@heroicons/react/24/outline";
+
+const severityBadge: Record<RiskSeverity, string> = {
+  critical: "bg-rose-500/20 text-rose-200",
+  warning: "bg-amber-500/20 text-amber-200",
+  info: "bg-sky-500/20 text-sky-200"
+};
+
+const formatColumn = (key: PortfolioSortKey, value: number) =>
+  key === "overall" || key === "signals" ? value.toFixed(0) : formatMetric(key, value);
+
+const defaultReportingUnits: DatasetUnits = { currency: "USD", scale: "millions" };
+
+const inputClass = "rounded-lg border border-white/10 bg-slate-950/60 px-2 py-1 text-xs text-white";
+
+const portfolioFromFile = (content: string): { companies: unknown[]; reporting?: ReportingOptions } => {
+  const parsed = JSON.parse(content);
+  if (Array.isArray(parsed)) return { companies: parsed };
+  if (parsed && Array.isArray(parsed.companies)) return { companies: parsed.companies, reporting: parsed.reporting ?? undefined };
+  throw new Error("Portfolio files must be a JSON array of companies or an object with a companies array.");
+};
+
+export default function PortfolioView() {
+  const [results, setResults] = useState<PortfolioResult[]>([]);
+  const [aggregates, setAggregates] = useState<PortfolioAggregates | null>(null);
+  const [sortKey, setSortKey] = useState<PortfolioSortKey>("overall");
+  const [descending, setDescending] = useState(true);
+  const [selected, setSelected] = useState<PortfolioCompany | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [companies, setCompanies] = useState<unknown[]>([]);
+  const [reporting, setReporting] = useState<ReportingOptions | null>(null);
+  const [target, setTarget] = useState<DatasetUnits>(defaultReportingUnits);
+  const [rateDrafts, setRateDrafts] = useState<{ currency: string; rate: string }[]>([]);
+  const [locale, setLocale] = useState(DEFAULT_LOCALE);
+
+  useEffect(() => {
+    setLocale(window.localStorage.getItem(LOCALE_STORAGE_KEY) ?? DEFAULT_LOCALE);
+  }, []);
+
+  const analyze = useCallback(async (nextCompanies: unknown[], nextReporting: ReportingOptions | null) => {
+    setBusy(true);
+    setMessage(null);
+    setCompanies(nextCompanies);
+    try {
+      const response = await fetch("/api/portfolio", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ companies: nextCompanies, reporting: nextReporting ?? undefined })
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        const issues = (body.issues ?? []) as { message: string }[];
+        throw new Error([body.error, ...issues.map((issue) => issue.message)].filter(Boolean).join(" "));
+      }
+      setResults(body.data ?? []);
+      setAggregates(body.aggregates ?? null);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "Unable to evaluate portfolio.");
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const loadWorkspaces = useCallback(async () => {
+    const response = await fetch("/api/workspaces");
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(body.error ?? "Unable to list workspaces.");
+    const workspaces = (body.data ?? []) as WorkspaceSummary[];
+    if (!workspaces.length) {
+      setMessage("No saved workspaces yet. Upload a portfolio file to rank companies.");
+      return;
+    }
+    await analyze(
+      workspaces.map((workspace) => ({ workspaceId: workspace.id, name: workspace.company || workspace.name })),
+      reporting
+    );
+  }, [analyze, reporting]);
+
+  useEffect(() => {
+    loadWorkspaces().catch((err) => setMessage(err instanceof Error ? err.message : "Unable to list workspaces."));
+    // Only the initial load; later reporting changes are applied explicitly.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Every dataset currency seen so far gets a rate row, so missing quotes are easy to spot.
+  useEffect(() => {
+    const seen = results.flatMap((result) => (result.status === "ok" ? [result.currency.from.currency] : []));
+    setRateDrafts((current) => {
+      const known = new Set(current.map((entry) => entry.currency));
+      const added = Array.from(new Set(seen)).filter((code) => !known.has(code) && code !== target.currency);
+      return added.length ? [...current, ...added.map((currency) => ({ currency, rate: "" }))] : current;
+    });
+  }, [results, target.currency]);
+
+  const adoptReporting = (next: ReportingOptions) => {
+    setReporting(next);
+    setTarget({ currency: next.currency, scale: next.scale });
+    setRateDrafts(Object.entries(next.rates).map(([currency, rate]) => ({ currency, rate: `${rate}` })));
+  };
+
+  const updateRate = (index: number, patch: Partial<{ currency: string; rate: string }>) =>
+    setRateDrafts((current) => current.map((entry, position) => (position === index ? { ...entry, ...patch } : entry)));
+
+  const applyReporting = (enabled: boolean) => {
+    const next = enabled
+      ? {
+          ...target,
+          rates: Object.fromEntries(
+            rateDrafts.flatMap(({ currency, rate }) => {
+              const parsed = parseLocaleNumber(rate, locale);
+              return currency.trim() && parsed !== null ? [[currency.trim().toUpperCase(), parsed]] : [];
+            })
+          )
+        }
+      : null;
+    setReporting(next);
+    void analyze(companies, next);
+  };
+
+  const upload = async (file: File) => {
+    try {
+      const portfolio = portfolioFromFile(await file.text());
+      if (portfolio.reporting) adoptReporting(portfolio.reporting);
+      await analyze(portfolio.companies, portfolio.reporting ?? reporting);
+    } catch (err) {
+      setMessage(err instanceof SyntaxError ? `${file.name} is not valid JSON.` : err instanceof Error ? err.message : "Unable to read file.");
+    }
+  };
+
+  const ranked = useMemo(() => rankPortfolio(results, sortKey, descending), [results, sortKey, descending]);
+
+  const sortBy = (key: PortfolioSortKey) => {
+    if (key === sortKey) {
+      setDescending((prev) => !prev);
+      return;
+    }
+    setSortKey(key);
+    setDescending(portfolioColumns.find((column) => column.key === key)?.higherIsBetter ?? true);
+  };
+
+  if (selected) {
+    return (
+      <FinancialAnalyzer
+        key={selected.id}
+        initialSnapshot={selected.snapshot}
+        initialWorkspaceId={selected.workspaceId}
+        onBack={() => setSelected(null)}
+      />
+    );
+  }
+
+  const summaryCards = aggregates
+    ? [
+        { label: "Companies analyzed", value: `${aggregates.analyzedCount} / ${aggregates.companyCount}` },
+        { label: "Median overall score", value: aggregates.stats.overall ? aggregates.stats.overall.median.toFixed(0) : "--" },
+        { label: "Median CAGR", value: aggregates.stats.cagr ? formatMetric("cagr", aggregates.stats.cagr.median) : "--" },
+        {
+          label: "Median burn multiple",
+          value: aggregates.stats.burnMultiple ? formatMetric("burnMultiple", aggregates.stats.burnMultiple.median) : "--"
+        },
+        {
+          label: "Latest-period revenue",
+          value:
+            aggregates.latestRevenue !== null && aggregates.units
+              ? createFormatters(locale, aggregates.units).amount(aggregates.latestRevenue)
+              : "Mixed currencies"
+        },
+        { label: "With critical signals", value: `${aggregates.companiesWithCritical}` }
+      ]
+    : [];
+
+  return (
+    <div className="mx-auto flex w-full max-w-6xl flex-col gap-8 px-6 pb-24 pt-10">
+      <header className="flex flex-wrap items-end justify-between gap-4">
+        <div className="space-y-2">
+          <h1 className="flex items-center gap-2 text-3xl font-semibold text-white">
+            <BriefcaseIcon className="h-7 w-7 text-brand-300" /> Portfolio
+          </h1>
+          <p className="max-w-2xl text-sm text-slate-400">
+            Rank every company by health, growth, efficiency and risk. Select a row to open the full analysis.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <button
+            onClick={() => void loadWorkspaces().catch((err) => setMessage(err instanceof Error ? err.message : "Unable to list workspaces."))}
+            disabled={busy}
+            className="inline-flex items-center gap-1.5 rounded-full border border-white/10 px-3 py-1.5 font-semibold text-slate-200 transition hover:border-brand-300 disabled:opacity-50"
+          >
+            <ArrowPathIcon className={`h-4 w-4 ${busy ? "animate-spin" : ""}`} /> Saved workspaces
+          </button>
+          <label className="inline-flex cursor-pointer items-center gap-1.5 rounded-full border border-brand-400/30 px-3 py-1.5 font-semibold text-brand-200 transition hover:border-brand-300 hover:text-brand-100">
+            <ArrowUpTrayIcon className="h-4 w-4" /> Portfolio JSON
+            <input
+              type="file"
+              accept=".json"
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) void upload(file);
+                event.target.value = "";
+              }}
+            />
+          </label>
+        </div>
+      </header>
+
+      <section className="flex flex-wrap items-start gap-6 rounded-3xl border border-white/10 bg-slate-900/60 p-5 text-xs text-slate-300">
+        <div className="space-y-2">
+          <p className="uppercase tracking-wide text-slate-400">Reporting currency</p>
+          <div className="flex items-center gap-2">
+            <select
+              value={target.currency}
+              onChange={(event) => setTarget((current) => ({ ...current, currency: event.target.value }))}
+              className={inputClass}
+            >
+              {commonCurrencies.map((code) => (
+                <option key={code} value={code}>
+                  {code}
+                </option>
+              ))}
+            </select>
+            <select
+              value={target.scale}
+              onChange={(event) => setTarget((current) => ({ ...current, scale: event.target.value as UnitScale }))}
+              className={inputClass}
+            >
+              {Object.entries(unitScales).map(([scale, { label }]) => (
+                <option key={scale} value={scale}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <p className="max-w-[16rem] text-[11px] text-slate-500">
+            {reporting
+              ? `Companies are converted to ${reporting.currency} (${unitScales[reporting.scale].label.toLowerCase()}) before analysis.`
+              : "Companies are analyzed in their own currency. Convert to total revenue across currencies."}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <p className="uppercase tracking-wide text-slate-400">FX rates · {target.currency} per unit</p>
+          {rateDrafts.map((entry, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                value={entry.currency}
+                onChange={(event) => updateRate(index, { currency: event.target.value.toUpperCase() })}
+                maxLength={3}
+                placeholder="EUR"
+                className={`${inputClass} w-16 font-mono`}
+              />
+              <input
+                inputMode="decimal"
+                value={entry.rate}
+                onChange={(event) => updateRate(index, { rate: event.target.value })}
+                placeholder="1.08"
+                className={`${inputClass} w-24`}
+              />
+              <button
+                onClick={() => setRateDrafts((current) => current.filter((_, position) => position !== index))}
+                className="rounded-full p-1 text-slate-500 transition hover:text-rose-300"
+                aria-label="Remove rate"
+              >
+                <TrashIcon className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setRateDrafts((current) => [...current, { currency: "", rate: "" }])}
+            className="inline-flex items-center gap-1 font-semibold text-brand-200 hover:text-brand-100"
+          >
+            <PlusIcon className="h-3.5 w-3.5" /> Add rate
+          </button>
+        </div>
+
+        <div className="ml-auto flex flex-wrap gap-2 font-semibold">
+          {reporting ? (
+            <button
+              onClick={() => applyReporting(false)}
+              disabled={busy}
+              className="rounded-full px-3 py-1.5 text-slate-200 ring-1 ring-white/10 transition hover:bg-white/5 disabled:opacity-50"
+            >
+              Native currencies
+            </button>
+          ) : null}
+          <button
+            onClick={() => applyReporting(true)}
+            disabled={busy || !companies.length}
+            className="rounded-full bg-brand-500/80 px-3 py-1.5 text-white transition hover:bg-brand-400 disabled:opacity-50"
+          >
+            Convert to {target.currency}
+          </button>
+        </div>
+      </section>
+
+      {message ? <p className="text-sm text-slate-400">{message}</p> : null}
+
+      {aggregates ? (
+        <section className="grid gap-4 sm:grid-cols-3 lg:grid-cols-6">
+          {summaryCards.map((card) => (
+            <div key={card.label} className="rounded-2xl border border-white/10 bg-slate-900/60 p-4">
+              <p className="text-xs uppercase tracking-wide text-slate-500">{card.label}</p>
+              <p className="mt-2 text-xl font-semibold text-white">{card.value}</p>
+            </div>
+          ))}
+        </section>
+      ) : null}
+
+      {ranked.length ? (
+        <div className="overflow-x-auto rounded-3xl border border-white/10 bg-slate-900/60 p-6 shadow-lg shadow-brand-900/30">
+          <table className="w-full text-left text-sm text-slate-300">
+            <thead className="text-xs uppercase tracking-wide text-slate-500">
+              <tr>
+                <th className="py-2 pr-3 font-medium">#</th>
+                <th className="py-2 font-medium">Company</th>
+                {portfolioColumns.map((column) => (
+                  <th key={column.key} className="py-2 text-right font-medium">
+                    <button
+                      onClick={() => sortBy(column.key)}
+                      className={`inline-flex items-center gap-1 uppercase tracking-wide transition hover:text-slate-200 ${
+                        sortKey === column.key ? "text-brand-200" : ""
+                      }`}
+                    >
+                      {column.label}
+                      {sortKey === column.key ? (
+                        descending ? <ArrowDownIcon className="h-3 w-3" /> : <ArrowUpIcon className="h-3 w-3" />
+                      ) : null}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {ranked.map((company, index) =>
+                company.status === "ok" ? (
+                  <tr
+                    key={company.id}
+                    onClick={() => setSelected(company)}
+                    className="cursor-pointer border-t border-white/5 transition hover:bg-white/5"
+                  >
+                    <td className="py-2 pr-3 text-slate-500">{index + 1}</td>
+                    <td className="py-2 font-semibold text-slate-100">
+                      {company.name}
+                      {company.currency.from.currency !== company.currency.to.currency ? (
+                        <span className="ml-2 font-mono text-[10px] font-normal text-slate-500">
+                          {company.currency.from.currency} → {company.currency.to.currency} @ {company.currency.rate}
+                        </span>
+                      ) : null}
+                    </td>
+                    {portfolioColumns.map((column) =>
+                      column.key === "signals" ? (
+                        <td key={column.key} className="py-2 text-right">
+                          <span className="inline-flex justify-end gap-1">
+                            {riskSeverities.map((severity) => {
+                              const count = company.signals.filter((signal) => signal.severity === severity).length;
+                              return count ? (
+                                <span key={severity} className={`rounded-full px-2 py-0.5 text-[10px] uppercase ${severityBadge[severity]}`}>
+                                  {count} {severity}
+                                </span>
+                              ) : null;
+                            })}
+                            {company.signals.length ? null : <span className="text-slate-500">0</span>}
+                          </span>
+                        </td>
+                      ) : (
+                        <td key={column.key} className="py-2 text-right text-slate-100">
+                          {formatColumn(column.key, portfolioValue(company, column.key))}
+                        </td>
+                      )
+                    )}
+                  </tr>
+                ) : (
+                  <tr key={company.id} className="border-t border-white/5 text-slate-500">
+                    <td className="py-2 pr-3">–</td>
+                    <td className="py-2">{company.name}</td>
+                    <td colSpan={portfolioColumns.length} className="py-2 text-right text-xs text-rose-300">
+                      {[company.error, ...company.issues.map((issue) => issue.message)].join(" ")}
+                    </td>
+                  </tr>
+                )
+              )}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { useState } from "react";
+import type { ReportFormat } from "@/lib/report";
+import { ArrowDownTrayIcon } from "@heroicons/react/24/outline";
+
+const formats: { format: ReportFormat; label: string }[] = [
+  { format: "pdf", label: "PDF" },
+  { format: "markdown", label: "Markdown" },
+  { format: "xlsx", label: "XLSX" }
+];
+
+const fileNameFrom = (disposition: string | null, fallback: string) =>
+  disposition?.match(/filename="([^"]+)"/)?.[1] ?? fallback;
+
+// `request` is the body the analyzer posts to /api/analyze, so the report matches what is on screen.
+export default function ReportExport({ request, title }: { request: Record<string, unknown>; title?: string }) {
+  const [pending, setPending] = useState<ReportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const download = async (format: ReportFormat) => {
+    setPending(format);
+    setError(null);
+    try {
+      const response = await fetch("/api/export", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...request, format, title })
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error ?? "Unable to export report.");
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileNameFrom(response.headers.get("Content-Disposition"), `report.${format}`);
+      link.click();
+      // Revoking synchronously can cancel the download before the browser has read the blob.
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to export report.");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-xs uppercase tracking-wide text-slate-400">Board report</span>
+      {formats.map(({ format, label }) => (
+        <button
+          key={format}
+          onClick={() => download(format)}
+          disabled={pending !== null}
+          className="inline-flex items-center gap-2 rounded-full border border-brand-400/30 px-3 py-1.5 text-xs font-semibold text-brand-200 transition hover:border-brand-300 hover:text-brand-100 disabled:opacity-50"
+        >
+          <ArrowDownTrayIcon className={`h-4 w-4 ${pending === format ? "animate-bounce" : ""}`} /> {label}
+        </button>
+      ))}
+      {error ? <p className="w-full text-xs text-rose-300">{error}</p> : null}
+    </div>
+  );
+}
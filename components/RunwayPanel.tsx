@@ -0,0 +1,205 @@
+"use client";
+
+import { useMemo } from "react";
+import type { RunwayOptions, RunwayResult } from "@/lib/runway";
+import { FireIcon } from "@heroicons/react/24/outline";
+import { Bar, CartesianGrid, ComposedChart, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+const numberFormatter = new Intl.NumberFormat("en-US", {
+  notation: "compact",
+  maximumFractionDigits: 1
+});
+
+const currency = (value: number) => `${value < 0 ? "-" : ""}$${numberFormatter.format(Math.abs(value))}`;
+
+const tooltipStyle = {
+  backgroundColor: "#020617",
+  borderRadius: 12,
+  border: "1px solid rgba(148, 163, 184, 0.25)",
+  color: "#e2e8f0"
+};
+
+const seriesLabels: Record<string, string> = {
+  decline: "Burn",
+  growth: "Cash generated",
+  financing: "Financing",
+  closing: "Closing cash"
+};
+
+const monthsLabel = (months: number | null, horizon: number) => (months === null ? `> ${horizon} mo` : `${months.toFixed(1)} mo`);
+
+function Stat({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="rounded-2xl border border-white/5 bg-slate-950/70 px-4 py-3">
+      <p className="text-[11px] uppercase tracking-wide text-slate-400">{label}</p>
+      <p className="mt-1 text-lg font-semibold text-white">{value}</p>
+      {detail ? <p className="text-[11px] text-slate-500">{detail}</p> : null}
+    </div>
+  );
+}
+
+export default function RunwayPanel({
+  options,
+  result,
+  onChange
+}: {
+  options: RunwayOptions;
+  result: RunwayResult | null;
+  onChange: (options: RunwayOptions) => void;
+}) {
+  const projection = result?.financed ?? result?.base ?? null;
+
+  const chartData = useMemo(
+    () =>
+      projection?.months.map((month) => {
+        const floor = Math.max(0, Math.min(month.opening, month.closing));
+        const step = Math.max(0, Math.max(month.opening, month.closing) - floor);
+        return {
+          label: month.label,
+          floor,
+          decline: month.financing === 0 && month.closing < month.opening ? step : 0,
+          growth: month.financing === 0 && month.closing >= month.opening ? step : 0,
+          financing: month.financing > 0 ? step : 0,
+          closing: month.closing
+        };
+      }) ?? [],
+    [projection]
+  );
+
+  const raiseByLabel = projection?.months.find((month) => month.startDate === result?.base.raiseByDate)?.label;
+
+  const updateNumber = (key: "bufferMonths" | "alertMonths" | "horizonMonths", value: string) => {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0) return;
+    onChange({ ...options, [key]: key === "horizonMonths" ? Math.max(1, Math.min(120, Math.round(parsed))) : parsed });
+  };
+
+  const updateFinancing = (key: "amount" | "month", value: string) => {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0) return;
+    const current = options.financing ?? { amount: 0, month: 6 };
+    const financing = { ...current, [key]: key === "month" ? Math.max(1, Math.round(parsed)) : parsed };
+    onChange({ ...options, financing: financing.amount > 0 ? financing : null });
+  };
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-slate-900/60 p-6 shadow-lg shadow-brand-900/30">
+      <header className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+            <FireIcon className="h-5 w-5 text-brand-300" /> Cash Runway
+          </h2>
+          <p className="text-sm text-slate-400">
+            Month-by-month cash from the latest balance, recent burn trend and the plan scenario&apos;s assumptions.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-3 text-xs text-slate-300">
+          {(
+            [
+              { key: "bufferMonths", label: "Buffer (months)" },
+              { key: "alertMonths", label: "Alert below (months)" },
+              { key: "horizonMonths", label: "Horizon (months)" }
+            ] as const
+          ).map((field) => (
+            <label key={field.key} className="space-y-1">
+              <span className="block uppercase tracking-wide text-slate-400">{field.label}</span>
+              <input
+                type="number"
+                min={0}
+                value={options[field.key]}
+                onChange={(event) => updateNumber(field.key, event.target.value)}
+                className="w-24 rounded-lg border border-white/10 bg-slate-950/60 px-3 py-1.5 text-sm text-white"
+              />
+            </label>
+          ))}
+          <label className="space-y-1">
+            <span className="block uppercase tracking-wide text-slate-400">Raise amount</span>
+            <input
+              type="number"
+              min={0}
+              step={100000}
+              value={options.financing?.amount ?? 0}
+              onChange={(event) => updateFinancing("amount", event.target.value)}
+              className="w-32 rounded-lg border border-white/10 bg-slate-950/60 px-3 py-1.5 text-sm text-white"
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="block uppercase tracking-wide text-slate-400">In month</span>
+            <input
+              type="number"
+              min={1}
+              max={options.horizonMonths}
+              value={options.financing?.month ?? 6}
+              onChange={(event) => updateFinancing("month", event.target.value)}
+              className="w-20 rounded-lg border border-white/10 bg-slate-950/60 px-3 py-1.5 text-sm text-white"
+            />
+          </label>
+        </div>
+      </header>
+
+      {result ? (
+        <>
+          <div className="mt-5 grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+            <Stat
+              label="Runway"
+              value={monthsLabel(result.base.runwayMonths, options.horizonMonths)}
+              detail={result.monthlyBurn > 0 ? `${currency(result.monthlyBurn)} / month burn` : "Cash generative"}
+            />
+            <Stat label="Zero-cash date" value={result.base.zeroCashDate ?? "--"} />
+            <Stat
+              label="Raise by"
+              value={result.base.raiseByDate ?? "--"}
+              detail={`${options.bufferMonths}-month buffer · ${currency(result.bufferAmount)}`}
+            />
+            <Stat
+              label="Burn trend"
+              value={`${result.burnTrend >= 0 ? "+" : "-"}${currency(Math.abs(result.burnTrend))}`}
+              detail="change in monthly cash flow per month"
+            />
+            <Stat
+              label="With financing"
+              value={result.financed ? monthsLabel(result.financed.runwayMonths, options.horizonMonths) : "--"}
+              detail={
+                result.extensionMonths !== null
+                  ? `+${result.extensionMonths.toFixed(1)} months from ${currency(options.financing?.amount ?? 0)}`
+                  : !result.financed
+                    ? "Add a raise to model it"
+                    : result.base.runwayMonths === null
+                      ? "Runway already beyond the horizon"
+                      : `Lasts past the ${options.horizonMonths}-month horizon with ${currency(options.financing?.amount ?? 0)}`
+              }
+            />
+          </div>
+
+          <div className="mt-6 h-64">
+            <ResponsiveContainer>
+              <ComposedChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
+                <XAxis dataKey="label" stroke="#94a3b8" fontSize={11} tickLine={false} axisLine={false} />
+                <YAxis stroke="#94a3b8" fontSize={12} tickFormatter={(value) => currency(value)} />
+                <Tooltip
+                  contentStyle={tooltipStyle}
+                  formatter={(value: number, key: string) => [currency(value), seriesLabels[key] ?? key]}
+                />
+                <Bar dataKey="floor" stackId="waterfall" fill="transparent" tooltipType="none" />
+                <Bar dataKey="decline" stackId="waterfall" fill="#f43f5e" fillOpacity={0.7} />
+                <Bar dataKey="growth" stackId="waterfall" fill="#34d399" fillOpacity={0.7} />
+                <Bar dataKey="financing" stackId="waterfall" fill="#818cf8" fillOpacity={0.8} />
+                <Line type="monotone" dataKey="closing" stroke="#e2e8f0" strokeWidth={1.5} dot={false} />
+                {result.bufferAmount > 0 ? (
+                  <ReferenceLine
+                    y={result.bufferAmount}
+                    stroke="#fbbf24"
+                    strokeDasharray="4 4"
+                    label={{ value: "Buffer", fill: "#fbbf24", fontSize: 11 }}
+                  />
+                ) : null}
+                {raiseByLabel ? <ReferenceLine x={raiseByLabel} stroke="#fbbf24" strokeDasharray="4 4" /> : null}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+"use client";
+
+import { useState } from "react";
+import type { FinancialPeriod, ScenarioAssumptions } from "@/lib/analysis";
+import { defaultAssumptionBounds } from "@/lib/goal-seek";
+import type { NamedScenario } from "@/lib/scenarios";
+import type { AssumptionDistribution } from "@/lib/simulation";
+import GoalSeekPanel from "@/components/GoalSeekPanel";
+import { DocumentDuplicateIcon, PlusIcon, StarIcon, TrashIcon, ViewfinderCircleIcon } from "@heroicons/react/24/outline";
+import { StarIcon as StarSolidIcon } from "@heroicons/react/24/solid";
+
+export const assumptionControls = (
+  [
+    { key: "revenueGrowth", label: "Revenue Growth Delta" },
+    { key: "marginShift", label: "Net Margin Shift" },
+    { key: "efficiencyGain", label: "Operating Efficiency" },
+    { key: "cashConversion", label: "Cash Conversion" }
+  ] as const
+).map((control) => ({
+  ...control,
+  min: defaultAssumptionBounds[control.key][0],
+  max: defaultAssumptionBounds[control.key][1]
+}));
+
+export const scenarioPalette = ["#38bdf8", "#34d399", "#f87171", "#facc15", "#a78bfa", "#fb923c"];
+
+const distributionParams: Record<AssumptionDistribution["kind"], { key: string; label: string }[]> = {
+  normal: [
+    { key: "mean", label: "Mean" },
+    { key: "stdDev", label: "σ" }
+  ],
+  triangular: [
+    { key: "min", label: "Min" },
+    { key: "mode", label: "Mode" },
+    { key: "max", label: "Max" }
+  ],
+  uniform: [
+    { key: "min", label: "Min" },
+    { key: "max", label: "Max" }
+  ]
+};
+
+const defaultDistribution = (kind: AssumptionDistribution["kind"], value: number): AssumptionDistribution => {
+  if (kind === "normal") return { kind, mean: value, stdDev: 2.5 };
+  if (kind === "uniform") return { kind, min: value - 5, max: value + 5 };
+  return { kind, min: value - 5, mode: value, max: value + 5 };
+};
+
+function DistributionEditor({
+  distribution,
+  onChange
+}: {
+  distribution: AssumptionDistribution;
+  onChange: (distribution: AssumptionDistribution) => void;
+}) {
+  const values = distribution as unknown as Record<string, number>;
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-xl border border-white/5 bg-slate-950/60 px-3 py-2 text-[11px] text-slate-400">
+      <select
+        value={distribution.kind}
+        onChange={(event) => {
+          const kind = event.target.value as AssumptionDistribution["kind"];
+          const center =
+            distribution.kind === "normal"
+              ? distribution.mean
+              : distribution.kind === "triangular"
+                ? distribution.mode
+                : (distribution.min + distribution.max) / 2;
+          onChange(defaultDistribution(kind, center));
+        }}
+        className="rounded-md border border-white/10 bg-slate-900 px-1.5 py-0.5 text-slate-100"
+      >
+        <option value="normal">Normal</option>
+        <option value="triangular">Triangular</option>
+        <option value="uniform">Uniform</option>
+      </select>
+      {distributionParams[distribution.kind].map(({ key, label }) => (
+        <label key={key} className="inline-flex items-center gap-1">
+          {label}
+          <input
+            type="number"
+            step={0.5}
+            value={values[key]}
+            onChange={(event) =>
+              onChange({ ...distribution, [key]: Number(event.target.value) || 0 } as AssumptionDistribution)
+            }
+            className="w-14 rounded-md border border-white/10 bg-slate-900 px-1.5 py-0.5 text-slate-100"
+          />
+        </label>
+      ))}
+    </div>
+  );
+}
+
+export default function ScenarioBuilder({
+  periods,
+  scenarios,
+  activeId,
+  planId,
+  onSelect,
+  onRename,
+  onAssumptionChange,
+  onAssumptionsReplace,
+  onDistributionChange,
+  onAdd,
+  onDuplicate,
+  onDelete,
+  onSetPlan
+}: {
+  periods: FinancialPeriod[];
+  scenarios: NamedScenario[];
+  activeId: string;
+  planId: string;
+  onSelect: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onAssumptionChange: (key: keyof ScenarioAssumptions, value: number) => void;
+  onAssumptionsReplace: (assumptions: ScenarioAssumptions) => void;
+  onDistributionChange: (key: keyof ScenarioAssumptions, distribution: AssumptionDistribution | undefined) => void;
+  onAdd: () => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onSetPlan: (id: string) => void;
+}) {
+  const active = scenarios.find((scenario) => scenario.id === activeId) ?? scenarios[0];
+  const [solving, setSolving] = useState(false);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {scenarios.map((scenario, index) => (
+          <button
+            key={scenario.id}
+            onClick={() => onSelect(scenario.id)}
+            className={`inline-flex items-center gap-2 rounded-full px-3 py-1 text-xs font-semibold ring-1 transition ${
+              scenario.id === active?.id
+                ? "bg-brand-500/20 text-white ring-brand-400/50"
+                : "text-slate-400 ring-white/10 hover:text-slate-200"
+            }`}
+          >
+            <span className="h-2 w-2 rounded-full" style={{ backgroundColor: scenarioPalette[index % scenarioPalette.length] }} />
+            {scenario.name || "Untitled"}
+            {scenario.id === planId ? <StarSolidIcon className="h-3 w-3 text-amber-300" /> : null}
+          </button>
+        ))}
+        <button
+          onClick={onAdd}
+          className="inline-flex items-center gap-1 rounded-full px-2 py-1 text-xs text-brand-200 ring-1 ring-brand-400/30 transition hover:text-brand-100"
+        >
+          <PlusIcon className="h-3.5 w-3.5" /> New
+        </button>
+      </div>
+
+      {active ? (
+        <>
+          <div className="flex items-center gap-2">
+            <input
+              value={active.name}
+              onChange={(event) => onRename(active.id, event.target.value)}
+              placeholder="Scenario name"
+              className="min-w-0 flex-1 rounded-lg border border-white/10 bg-slate-950/60 px-3 py-1.5 text-sm text-white focus:border-brand-300 focus:outline-none focus:ring-1 focus:ring-brand-300"
+            />
+            <button
+              title={active.id === planId ? "This scenario is the plan" : "Mark as plan"}
+              onClick={() => onSetPlan(active.id)}
+              className="rounded-full p-1.5 text-slate-400 transition hover:text-amber-300"
+            >
+              {active.id === planId ? (
+                <StarSolidIcon className="h-4 w-4 text-amber-300" />
+              ) : (
+                <StarIcon className="h-4 w-4" />
+              )}
+            </button>
+            <button
+              title="Solve for a target"
+              onClick={() => setSolving((prev) => !prev)}
+              className={`rounded-full p-1.5 transition ${solving ? "text-brand-200" : "text-slate-400 hover:text-white"}`}
+            >
+              <ViewfinderCircleIcon className="h-4 w-4" />
+            </button>
+            <button
+              title="Duplicate scenario"
+              onClick={() => onDuplicate(active.id)}
+              className="rounded-full p-1.5 text-slate-400 transition hover:text-white"
+            >
+              <DocumentDuplicateIcon className="h-4 w-4" />
+            </button>
+            <button
+              title="Delete scenario"
+              disabled={scenarios.length <= 1}
+              onClick={() => onDelete(active.id)}
+              className="rounded-full p-1.5 text-slate-400 transition hover:text-rose-300 disabled:cursor-not-allowed disabled:opacity-30"
+            >
+              <TrashIcon className="h-4 w-4" />
+            </button>
+          </div>
+
+          {solving ? (
+            <GoalSeekPanel
+              periods={periods}
+              assumptions={active.assumptions}
+              controls={assumptionControls}
+              onApply={onAssumptionsReplace}
+            />
+          ) : null}
+
+          <div className="space-y-4">
+            {assumptionControls.map(({ key, label, min, max }) => {
+              const distribution = active.distributions?.[key];
+              return (
+                <div key={key} className="space-y-2">
+                  <label className="block space-y-2">
+                    <div className="flex items-center justify-between text-xs uppercase tracking-wide text-slate-400">
+                      <span>{label}</span>
+                      <span className="flex items-center gap-2">
+                        {active.assumptions[key].toFixed(1)}%
+                        <button
+                          type="button"
+                          title={distribution ? "Use a point value" : "Model as a distribution"}
+                          onClick={(event) => {
+                            event.preventDefault();
+                            onDistributionChange(
+                              key,
+                              distribution ? undefined : defaultDistribution("triangular", active.assumptions[key])
+                            );
+                          }}
+                          className={`rounded px-1 font-mono normal-case transition ${
+                            distribution ? "bg-brand-500/30 text-white" : "text-slate-500 hover:text-slate-200"
+                          }`}
+                        >
+                          ±
+                        </button>
+                      </span>
+                    </div>
+                    <input
+                      type="range"
+                      min={min}
+                      max={max}
+                      step={0.5}
+                      value={active.assumptions[key]}
+                      onChange={(event) => onAssumptionChange(key, Number(event.target.value))}
+                      className="h-1 w-full cursor-pointer appearance-none rounded-full bg-slate-700 accent-brand-400"
+                    />
+                  </label>
+                  {distribution ? (
+                    <DistributionEditor
+                      distribution={distribution}
+                      onChange={(next) => onDistributionChange(key, next)}
+                    />
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import { useMemo } from "react";
+import { granularities, type DatedPeriod, type PeriodGranularity } from "@/lib/period-fields";
+import type { FlowGrowth, PeriodRollups, ProjectionOptions, SeasonalProjection } from "@/lib/periodicity";
+import { CalendarDaysIcon } from "@heroicons/react/24/outline";
+import { Bar, CartesianGrid, ComposedChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+const numberFormatter = new Intl.NumberFormat("en-US", {
+  notation: "compact",
+  maximumFractionDigits: 1
+});
+
+const percentFormatter = new Intl.NumberFormat("en-US", {
+  style: "percent",
+  maximumFractionDigits: 1,
+  signDisplay: "exceptZero"
+});
+
+const tooltipStyle = {
+  backgroundColor: "#020617",
+  borderRadius: 12,
+  border: "1px solid rgba(148, 163, 184, 0.25)",
+  color: "#e2e8f0"
+};
+
+const granularityLabels: Record<PeriodGranularity, string> = {
+  month: "Monthly",
+  quarter: "Quarterly",
+  year: "Annual"
+};
+
+const growthLabel = (growth: FlowGrowth | null) =>
+  growth?.revenue !== null && growth?.revenue !== undefined ? percentFormatter.format(growth.revenue) : "--";
+
+function Rollup({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="rounded-2xl border border-white/5 bg-slate-950/70 px-4 py-3">
+      <p className="text-[11px] uppercase tracking-wide text-slate-400">{label}</p>
+      <p className="mt-1 text-lg font-semibold text-white">{value}</p>
+      {detail ? <p className="text-[11px] text-slate-500">{detail}</p> : null}
+    </div>
+  );
+}
+
+export default function SeasonalOutlook({
+  periods,
+  rollups,
+  projection,
+  options,
+  onOptionsChange
+}: {
+  periods: DatedPeriod[];
+  rollups: PeriodRollups | null;
+  projection: SeasonalProjection | null;
+  options: ProjectionOptions;
+  onOptionsChange: (options: ProjectionOptions) => void;
+}) {
+  const chartData = useMemo(() => {
+    const history =
+      projection?.frequency === projection?.granularity
+        ? periods.map((period) => ({ label: period.label || "Period", actual: period.revenue }))
+        : [];
+    return [
+      ...history,
+      ...(projection?.points.map((point) => ({
+        label: point.partial ? `${point.label}*` : point.label,
+        projected: point.revenue,
+        netIncome: point.netIncome
+      })) ?? [])
+    ];
+  }, [periods, projection]);
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-slate-900/60 p-6 shadow-lg shadow-brand-900/30">
+      <header className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+            <CalendarDaysIcon className="h-5 w-5 text-brand-300" /> Seasonal Outlook
+          </h2>
+          <p className="text-sm text-slate-400">
+            {rollups ? `${granularityLabels[rollups.granularity]} history` : "History"} rolled up to trailing twelve months
+            and projected with its observed seasonality.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-3 text-xs text-slate-300">
+          <label className="space-y-1">
+            <span className="block uppercase tracking-wide text-slate-400">Horizon (months)</span>
+            <input
+              type="number"
+              min={1}
+              max={120}
+              value={options.horizonMonths}
+              onChange={(event) =>
+                onOptionsChange({ ...options, horizonMonths: Math.max(1, Math.min(120, Math.round(Number(event.target.value) || 1))) })
+              }
+              className="w-24 rounded-lg border border-white/10 bg-slate-950/60 px-3 py-1.5 text-sm text-white"
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="block uppercase tracking-wide text-slate-400">Frequency</span>
+            <select
+              value={options.frequency}
+              onChange={(event) => onOptionsChange({ ...options, frequency: event.target.value as PeriodGranularity })}
+              className="rounded-lg border border-white/10 bg-slate-900 px-2 py-1.5 text-sm text-slate-100"
+            >
+              {granularities.map((granularity) => (
+                <option key={granularity} value={granularity}>
+                  {granularityLabels[granularity]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </header>
+
+      {rollups ? (
+        <div className="mt-5 grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+          <Rollup
+            label="TTM Revenue"
+            value={`$${numberFormatter.format(rollups.ttm.revenue)}`}
+            detail={rollups.ttm.complete ? `through ${rollups.latest}` : `${rollups.ttm.periods} periods only`}
+          />
+          <Rollup label="TTM Net Income" value={`$${numberFormatter.format(rollups.ttm.netIncome)}`} />
+          <Rollup label="TTM Net Margin" value={percentFormatter.format(rollups.ttm.netMargin)} />
+          <Rollup
+            label="QoQ Revenue"
+            value={growthLabel(rollups.qoq)}
+            detail={rollups.granularity === "month" ? "last 3 months vs prior 3" : undefined}
+          />
+          <Rollup label="YoY Revenue" value={growthLabel(rollups.yoy)} />
+        </div>
+      ) : null}
+
+      {projection ? (
+        <>
+          <div className="mt-6 h-60">
+            <ResponsiveContainer>
+              <ComposedChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
+                <XAxis dataKey="label" stroke="#94a3b8" fontSize={11} tickLine={false} axisLine={false} />
+                <YAxis stroke="#94a3b8" fontSize={12} tickFormatter={(value) => `$${numberFormatter.format(value)}`} />
+                <Tooltip
+                  contentStyle={tooltipStyle}
+                  formatter={(value: number, key: string) => [
+                    `$${numberFormatter.format(value)}`,
+                    key === "actual" ? "Revenue (actual)" : key === "projected" ? "Revenue (projected)" : "Net Income"
+                  ]}
+                />
+                <Bar dataKey="actual" fill="#1d4ed8" fillOpacity={0.6} radius={[4, 4, 0, 0]} />
+                <Bar dataKey="projected" fill="#38bdf8" fillOpacity={0.45} radius={[4, 4, 0, 0]} />
+                <Line type="monotone" dataKey="netIncome" stroke="#34d399" strokeWidth={2} dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="mt-2 text-[11px] text-slate-500">
+            Growth {percentFormatter.format(projection.annualGrowth)} / yr · seasonal index{" "}
+            {projection.seasonality.map((value) => value.toFixed(2)).join(" · ")}
+            {projection.points.some((point) => point.partial) ? " · * partial period" : ""}
+          </p>
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { riskSeverities, type RiskRule, type RiskSeverity, type RiskSignal } from "@/lib/risk-rules";
+import type { ValidationIssue } from "@/lib/validation";
+import { AdjustmentsHorizontalIcon, BookmarkIcon } from "@heroicons/react/24/outline";
+import { motion } from "framer-motion";
+
+const severityStyles: Record<RiskSeverity, string> = {
+  critical: "border-rose-500/30 bg-rose-500/10 text-rose-200",
+  warning: "border-amber-500/30 bg-amber-500/5 text-amber-100",
+  info: "border-sky-500/20 bg-sky-500/5 text-sky-100"
+};
+
+const severityBadge: Record<RiskSeverity, string> = {
+  critical: "bg-rose-500/20 text-rose-200",
+  warning: "bg-amber-500/20 text-amber-200",
+  info: "bg-sky-500/20 text-sky-200"
+};
+
+const numberFormatter = new Intl.NumberFormat("en-US", { maximumFractionDigits: 3 });
+
+export default function SignalPanel({
+  signals,
+  riskContext,
+  rules,
+  issues,
+  workspaceId,
+  onRulesChange
+}: {
+  signals: RiskSignal[];
+  riskContext: Record<string, number>;
+  rules: RiskRule[];
+  issues: ValidationIssue[];
+  workspaceId: string | null;
+  onRulesChange: (rules: RiskRule[]) => void;
+}) {
+  const [filter, setFilter] = useState<RiskSeverity | "all">("all");
+  const [reversed, setReversed] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(() => JSON.stringify(rules, null, 2));
+  const [editorError, setEditorError] = useState<string | null>(null);
+  const [saveState, setSaveState] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(JSON.stringify(rules, null, 2));
+  }, [rules]);
+
+  const counts = useMemo(
+    () =>
+      Object.fromEntries(riskSeverities.map((severity) => [severity, signals.filter((signal) => signal.severity === severity).length])),
+    [signals]
+  );
+
+  const visible = useMemo(() => {
+    const filtered = filter === "all" ? signals : signals.filter((signal) => signal.severity === filter);
+    return reversed ? [...filtered].reverse() : filtered;
+  }, [signals, filter, reversed]);
+
+  const apply = () => {
+    try {
+      const parsed = JSON.parse(draft);
+      if (!Array.isArray(parsed)) throw new Error("Rule set must be a JSON array.");
+      setEditorError(null);
+      onRulesChange(parsed);
+    } catch (err) {
+      setEditorError(err instanceof Error ? err.message : "Invalid JSON.");
+    }
+  };
+
+  const save = async () => {
+    if (!workspaceId) return;
+    setSaveState("Saving…");
+    const response = await fetch(`/api/workspaces/${workspaceId}/rules`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ rules })
+    });
+    const body = await response.json().catch(() => ({}));
+    setSaveState(response.ok ? "Saved to workspace." : body.error ?? "Unable to save risk rules.");
+  };
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-slate-900/60 p-6 shadow-xl shadow-brand-900/20">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Signal Detection</h2>
+          <p className="text-sm text-slate-400">
+            Engine heuristics plus {rules.filter((rule) => rule.enabled !== false).length} configurable rules across
+            liquidity, leverage, and efficiency.
+          </p>
+        </div>
+        <button
+          title="Edit rules"
+          onClick={() => setEditing((value) => !value)}
+          className={`rounded-full p-1.5 transition ${editing ? "text-brand-200" : "text-slate-400 hover:text-white"}`}
+        >
+          <AdjustmentsHorizontalIcon className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2 text-[11px]">
+        {(["all", ...riskSeverities] as const).map((severity) => (
+          <button
+            key={severity}
+            onClick={() => setFilter(severity)}
+            className={`rounded-full px-2.5 py-1 font-semibold uppercase tracking-wide ring-1 transition ${
+              filter === severity ? "bg-brand-500/20 text-white ring-brand-400/50" : "text-slate-400 ring-white/10 hover:text-slate-200"
+            }`}
+          >
+            {severity} {severity === "all" ? signals.length : counts[severity]}
+          </button>
+        ))}
+        <button onClick={() => setReversed((value) => !value)} className="ml-auto text-slate-400 hover:text-slate-200">
+          {reversed ? "Least severe first" : "Most severe first"}
+        </button>
+      </div>
+
+      <ul className="mt-4 space-y-3 text-sm">
+        {visible.length ? (
+          visible.map((signal, index) => (
+            <motion.li
+              key={`${signal.ruleId}-${index}`}
+              initial={{ opacity: 0, y: 12 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.05 }}
+              className={`rounded-2xl border px-4 py-3 ${severityStyles[signal.severity]}`}
+            >
+              <div className="flex items-center gap-2 text-[10px] uppercase tracking-wide">
+                <span className={`rounded-full px-2 py-0.5 font-semibold ${severityBadge[signal.severity]}`}>{signal.severity}</span>
+                <span className="text-slate-400">{signal.source === "builtin" ? "engine" : signal.ruleId}</span>
+              </div>
+              <p className="mt-1">{signal.message}</p>
+              {signal.observed !== null && signal.threshold !== null ? (
+                <p className="mt-1 text-[11px] text-slate-400">
+                  {signal.metric} = {numberFormatter.format(signal.observed)} · threshold {numberFormatter.format(signal.threshold)}
+                </p>
+              ) : null}
+            </motion.li>
+          ))
+        ) : (
+          <li className="rounded-xl border border-emerald-500/30 bg-emerald-500/10 px-4 py-3 text-emerald-200">
+            {signals.length ? "No signals at this severity." : "No acute risks detected. Maintain continuous monitoring cadence."}
+          </li>
+        )}
+      </ul>
+
+      {editing ? (
+        <div className="mt-5 space-y-3 text-xs">
+          <textarea
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            spellCheck={false}
+            rows={12}
+            className="w-full rounded-xl border border-white/10 bg-slate-950/70 p-3 font-mono text-[11px] text-slate-100 focus:border-brand-300 focus:outline-none"
+          />
+          <p className="text-slate-500">
+            Each rule: <code>id</code>, <code>metric</code>, <code>comparator</code> (lt, lte, gt, gte, eq, neq),{" "}
+            <code>threshold</code>, <code>severity</code> (critical, warning, info), <code>message</code> with{" "}
+            <code>{"{{value}}"}</code> and <code>{"{{threshold}}"}</code>. Metrics:{" "}
+            {Object.keys(riskContext).join(", ")}.
+          </p>
+          {editorError ? <p className="text-rose-300">{editorError}</p> : null}
+          {issues.map((issue, index) => (
+            <p key={`${issue.code}-${index}`} className={issue.severity === "error" ? "text-rose-300" : "text-amber-200"}>
+              {issue.message}
+            </p>
+          ))}
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={apply}
+              className="rounded-full bg-gradient-to-r from-brand-500 to-brand-400 px-4 py-1.5 font-semibold text-white shadow-lg shadow-brand-900/30 transition hover:from-brand-400 hover:to-brand-300"
+            >
+              Apply Rules
+            </button>
+            {workspaceId ? (
+              <button
+                onClick={save}
+                className="inline-flex items-center gap-1.5 rounded-full border border-brand-400/30 px-3 py-1.5 font-semibold text-brand-200 transition hover:border-brand-300"
+              >
+                <BookmarkIcon className="h-4 w-4" /> Save to Workspace
+              </button>
+            ) : null}
+            {saveState ? <span className="text-slate-400">{saveState}</span> : null}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+"use client";
+
+import { useMemo, useState, useTransition } from "react";
+import type { FinancialPeriod } from "@/lib/analysis";
+import { scenarioMetrics, type NamedScenario } from "@/lib/scenarios";
+import {
+  DEFAULT_ITERATIONS,
+  DEFAULT_SEED,
+  runSimulation,
+  runTornado,
+  type SimulationResult,
+  type TornadoResult
+} from "@/lib/simulation";
+import { assumptionControls } from "@/components/ScenarioBuilder";
+import { BeakerIcon } from "@heroicons/react/24/outline";
+import {
+  Area,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from "recharts";
+
+const numberFormatter = new Intl.NumberFormat("en-US", {
+  notation: "compact",
+  maximumFractionDigits: 1
+});
+
+const tooltipStyle = {
+  backgroundColor: "#020617",
+  borderRadius: 12,
+  border: "1px solid rgba(148, 163, 184, 0.25)",
+  color: "#e2e8f0"
+};
+
+const metricLabels: Record<(typeof scenarioMetrics)[number], string> = {
+  revenue: "Revenue",
+  netIncome: "Net Income",
+  freeCashFlow: "FCF"
+};
+
+const assumptionLabels = Object.fromEntries(assumptionControls.map(({ key, label }) => [key, label]));
+
+export default function SimulationPanel({ periods, scenario }: { periods: FinancialPeriod[]; scenario: NamedScenario }) {
+  const [iterations, setIterations] = useState(DEFAULT_ITERATIONS);
+  const [seed, setSeed] = useState(DEFAULT_SEED);
+  const [metric, setMetric] = useState<(typeof scenarioMetrics)[number]>("netIncome");
+  const [tornadoMetric, setTornadoMetric] = useState<"netIncome" | "freeCashFlow">("netIncome");
+  const [simulation, setSimulation] = useState<SimulationResult | null>(null);
+  const [tornado, setTornado] = useState<TornadoResult | null>(null);
+  const [isRunning, startTransition] = useTransition();
+
+  const distributions = scenario.distributions ?? {};
+  const hasDistributions = Object.keys(distributions).length > 0;
+
+  const run = () => {
+    startTransition(() => {
+      setSimulation(
+        hasDistributions ? runSimulation(periods, scenario.assumptions, distributions, { iterations, seed }) : null
+      );
+      setTornado(runTornado(periods, scenario.assumptions, distributions));
+    });
+  };
+
+  const bandData = useMemo(
+    () =>
+      simulation?.bands.map((band) => ({
+        year: band.year,
+        range: [band[metric].p10, band[metric].p90],
+        p50: band[metric].p50
+      })) ?? [],
+    [simulation, metric]
+  );
+
+  const tornadoData = useMemo(
+    () =>
+      tornado?.bars.map((bar) => ({
+        label: assumptionLabels[bar.key] ?? bar.key,
+        low: bar[tornadoMetric].low - tornado.base[tornadoMetric],
+        high: bar[tornadoMetric].high - tornado.base[tornadoMetric]
+      })) ?? [],
+    [tornado, tornadoMetric]
+  );
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-slate-900/60 p-6 shadow-lg shadow-brand-900/30">
+      <header className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Uncertainty Lab</h2>
+          <p className="text-sm text-slate-400">
+            Monte Carlo bands and sensitivity ranking for <span className="text-brand-200">{scenario.name}</span>. Runs
+            entirely in your browser.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-3 text-xs text-slate-300">
+          <label className="space-y-1">
+            <span className="block uppercase tracking-wide text-slate-400">Iterations</span>
+            <input
+              type="number"
+              min={100}
+              max={20000}
+              step={100}
+              value={iterations}
+              onChange={(event) => setIterations(Math.max(100, Math.min(20000, Number(event.target.value) || 0)))}
+              className="w-24 rounded-lg border border-white/10 bg-slate-950/60 px-3 py-1.5 text-sm text-white"
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="block uppercase tracking-wide text-slate-400">Seed</span>
+            <input
+              type="number"
+              value={seed}
+              onChange={(event) => setSeed(Math.trunc(Number(event.target.value) || 0))}
+              className="w-24 rounded-lg border border-white/10 bg-slate-950/60 px-3 py-1.5 text-sm text-white"
+            />
+          </label>
+          <button
+            onClick={run}
+            className="inline-flex items-center gap-2 rounded-full bg-gradient-to-r from-brand-500 to-brand-400 px-4 py-2 text-sm font-semibold text-white shadow-lg shadow-brand-900/30 transition hover:from-brand-400 hover:to-brand-300"
+          >
+            <BeakerIcon className={`h-4 w-4 ${isRunning ? "animate-pulse" : ""}`} /> Run Simulation
+          </button>
+        </div>
+      </header>
+
+      {!hasDistributions ? (
+        <p className="mt-4 text-xs text-slate-500">
+          Give one or more assumptions a distribution in the Scenario Builder to enable P10/P50/P90 bands. The tornado
+          chart uses a ±5 point swing for point-value assumptions.
+        </p>
+      ) : null}
+
+      <div className="mt-6 grid gap-6 lg:grid-cols-2">
+        {simulation ? (
+          <div className="rounded-2xl border border-white/5 bg-slate-950/70 p-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-400">P10 / P50 / P90</h3>
+              <select
+                value={metric}
+                onChange={(event) => setMetric(event.target.value as (typeof scenarioMetrics)[number])}
+                className="rounded-lg border border-white/10 bg-slate-900 px-2 py-1 text-xs text-slate-100"
+              >
+                {scenarioMetrics.map((key) => (
+                  <option key={key} value={key}>
+                    {metricLabels[key]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="mt-3 h-52">
+              <ResponsiveContainer>
+                <ComposedChart data={bandData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
+                  <XAxis dataKey="year" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} />
+                  <YAxis stroke="#94a3b8" fontSize={12} tickFormatter={(value) => `$${numberFormatter.format(value)}`} />
+                  <Tooltip
+                    contentStyle={tooltipStyle}
+                    formatter={(value: number | number[], key: string) =>
+                      Array.isArray(value)
+                        ? [`$${numberFormatter.format(value[0])} – $${numberFormatter.format(value[1])}`, "P10–P90"]
+                        : [`$${numberFormatter.format(value)}`, key === "p50" ? "P50" : key]
+                    }
+                  />
+                  <Area type="monotone" dataKey="range" stroke="none" fill="#38bdf8" fillOpacity={0.2} />
+                  <Line type="monotone" dataKey="p50" stroke="#38bdf8" strokeWidth={2} dot={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+            <p className="mt-2 text-[11px] text-slate-500">
+              {simulation.iterations.toLocaleString("en-US")} runs · seed {simulation.seed}
+            </p>
+          </div>
+        ) : null}
+
+        {tornado ? (
+          <div className="rounded-2xl border border-white/5 bg-slate-950/70 p-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-400">Final-Year Sensitivity</h3>
+              <div className="inline-flex rounded-full bg-slate-900/80 p-0.5 text-[11px] ring-1 ring-white/10">
+                {(["netIncome", "freeCashFlow"] as const).map((key) => (
+                  <button
+                    key={key}
+                    onClick={() => setTornadoMetric(key)}
+                    className={`rounded-full px-2.5 py-1 font-semibold transition ${
+                      tornadoMetric === key ? "bg-brand-500/30 text-white" : "text-slate-400 hover:text-slate-200"
+                    }`}
+                  >
+                    {metricLabels[key]}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="mt-3 h-52">
+              <ResponsiveContainer>
+                <BarChart data={tornadoData} layout="vertical" stackOffset="sign">
+                  <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" horizontal={false} />
+                  <XAxis
+                    type="number"
+                    stroke="#94a3b8"
+                    fontSize={12}
+                    tickFormatter={(value) => `$${numberFormatter.format(value)}`}
+                  />
+                  <YAxis type="category" dataKey="label" stroke="#94a3b8" fontSize={11} width={130} />
+                  <Tooltip
+                    contentStyle={tooltipStyle}
+                    formatter={(value: number, key: string) => [
+                      `${value >= 0 ? "+" : ""}$${numberFormatter.format(value)}`,
+                      key === "low" ? "Low case" : "High case"
+                    ]}
+                  />
+                  <ReferenceLine x={0} stroke="#64748b" />
+                  <Bar dataKey="low" stackId="swing" fill="#f87171" />
+                  <Bar dataKey="high" stackId="swing" fill="#34d399" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <p className="mt-2 text-[11px] text-slate-500">
+              Change vs. base of ${numberFormatter.format(tornado.base[tornadoMetric])}, ranked by combined NI and FCF swing.
+            </p>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
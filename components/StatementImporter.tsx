@@ -0,0 +1,255 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { FinancialPeriod } from "@/lib/analysis";
+import { DEFAULT_LOCALE, supportedLocales } from "@/lib/number-format";
+import { lineItemFields, periodFields } from "@/lib/period-fields";
+import {
+  applyImportMapping,
+  buildImportPreview,
+  detectOrientation,
+  parseDelimited,
+  resolveImportSources,
+  type ImportOrientation,
+  type ImportTarget
+} from "@/lib/statement-import";
+import { readWorkbook } from "@/lib/xlsx-reader";
+import { ArrowUpTrayIcon, XMarkIcon } from "@heroicons/react/24/outline";
+
+export type ImportMode = "replace" | "append";
+
+const targetOptions: { value: ImportTarget; label: string }[] = [
+  { value: "label", label: "Period label" },
+  ...[...periodFields, ...lineItemFields].map(({ key, label }) => ({ value: key, label }))
+];
+
+export default function StatementImporter({
+  initialText = "",
+  locale = DEFAULT_LOCALE,
+  onImport,
+  onClose
+}: {
+  initialText?: string;
+  locale?: string;
+  onImport: (periods: FinancialPeriod[], mode: ImportMode) => void;
+  onClose: () => void;
+}) {
+  const [grid, setGrid] = useState<string[][]>(() => (initialText ? parseDelimited(initialText) : []));
+  const [text, setText] = useState(initialText);
+  const [orientation, setOrientation] = useState<ImportOrientation>(() =>
+    initialText ? detectOrientation(parseDelimited(initialText)) : "rows"
+  );
+  const [overrides, setOverrides] = useState<Record<number, ImportTarget | null>>({});
+  const [mode, setMode] = useState<ImportMode>("replace");
+  const [error, setError] = useState<string | null>(null);
+  // Workbook cells arrive as plain machine numbers, so only pasted or CSV text follows the locale.
+  const [fromWorkbook, setFromWorkbook] = useState(false);
+  const parseLocale = fromWorkbook ? DEFAULT_LOCALE : locale;
+  const numberFormatter = useMemo(
+    () => new Intl.NumberFormat(locale, { notation: "compact", maximumFractionDigits: 1 }),
+    [locale]
+  );
+
+  const preview = useMemo(() => buildImportPreview(grid, orientation), [grid, orientation]);
+  const mapping = useMemo(
+    () => preview.mapping.map((target, index) => (index in overrides ? overrides[index] : target)),
+    [preview, overrides]
+  );
+  const periods = useMemo(() => applyImportMapping(preview, mapping, parseLocale), [preview, mapping, parseLocale]);
+  const duplicates = useMemo(() => resolveImportSources(preview, mapping).duplicates, [preview, mapping]);
+
+  const loadGrid = (next: string[][]) => {
+    setGrid(next);
+    setOrientation(detectOrientation(next));
+    setOverrides({});
+    setError(next.length ? null : "No rows found in the supplied statement.");
+  };
+
+  const handleText = (value: string) => {
+    setText(value);
+    setFromWorkbook(false);
+    loadGrid(parseDelimited(value));
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      if (/\.xlsx$/i.test(file.name)) {
+        setText("");
+        setFromWorkbook(true);
+        loadGrid(await readWorkbook(await file.arrayBuffer()));
+      } else {
+        handleText(await file.text());
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to read the selected file.");
+    }
+  };
+
+  const changeOrientation = (next: ImportOrientation) => {
+    setOrientation(next);
+    setOverrides({});
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 p-6 backdrop-blur">
+      <div className="flex max-h-full w-full max-w-5xl flex-col gap-5 overflow-y-auto rounded-3xl border border-white/10 bg-slate-900 p-6 shadow-2xl shadow-brand-900/40 scrollbar-thin">
+        <header className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-white">Import Statements</h2>
+            <p className="text-sm text-slate-400">
+              Drop a CSV or XLSX export, or paste cells copied from a spreadsheet. Review the mapping before applying.
+            </p>
+          </div>
+          <button onClick={onClose} className="rounded-full p-1 text-slate-400 transition hover:text-white">
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </header>
+
+        <div className="grid gap-4 md:grid-cols-[1fr,auto]">
+          <textarea
+            value={text}
+            onChange={(event) => handleText(event.target.value)}
+            placeholder={"Period\tTotal Revenue\tCost of Sales\tSG&A\nFY2023\t4,200,000\t1,680,000\t1,900,000"}
+            rows={5}
+            className="w-full rounded-2xl border border-white/10 bg-slate-950/60 px-4 py-3 font-mono text-xs text-slate-200 focus:border-brand-300 focus:outline-none focus:ring-1 focus:ring-brand-300"
+          />
+          <div className="flex flex-col gap-3 text-xs text-slate-300">
+            <label className="inline-flex cursor-pointer items-center justify-center gap-2 rounded-full border border-brand-400/30 px-4 py-2 font-semibold text-brand-200 transition hover:border-brand-300 hover:text-brand-100">
+              <ArrowUpTrayIcon className="h-4 w-4" /> Choose File
+              <input
+                type="file"
+                accept=".csv,.tsv,.txt,.xlsx"
+                className="hidden"
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  if (file) void handleFile(file);
+                  event.target.value = "";
+                }}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="block uppercase tracking-wide text-slate-400">Layout</span>
+              <select
+                value={orientation}
+                onChange={(event) => changeOrientation(event.target.value as ImportOrientation)}
+                className="w-full rounded-lg border border-white/10 bg-slate-950/60 px-3 py-2 text-slate-100"
+              >
+                <option value="rows">Periods as rows</option>
+                <option value="columns">Periods as columns</option>
+              </select>
+            </label>
+            <p className="max-w-[12rem] text-[11px] text-slate-500">
+              Numbers read as {supportedLocales.find((entry) => entry.locale === parseLocale)?.label ?? parseLocale} (
+              {new Intl.NumberFormat(parseLocale).format(1234.5)}). Negatives in parentheses and k/m/bn suffixes are understood.
+            </p>
+          </div>
+        </div>
+
+        {error ? <p className="text-sm text-rose-300">{error}</p> : null}
+
+        {preview.series.length ? (
+          <div className="grid gap-5 lg:grid-cols-[0.9fr,1.1fr]">
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-400">Column Mapping</h3>
+              {duplicates.length ? (
+                <ul className="space-y-1 text-xs text-amber-200">
+                  {duplicates.map((duplicate) => (
+                    <li key={duplicate.target}>
+                      {targetOptions.find((option) => option.value === duplicate.target)?.label}: using &ldquo;{duplicate.kept}
+                      &rdquo;, ignoring {duplicate.ignored.map((header) => `“${header}”`).join(", ")}.
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+              <ul className="max-h-80 space-y-2 overflow-y-auto pr-1 scrollbar-thin">
+                {preview.series.map((entry, index) => (
+                  <li
+                    key={`${entry.header}-${index}`}
+                    className="flex items-center justify-between gap-3 rounded-xl border border-white/5 bg-slate-950/60 px-3 py-2"
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate text-sm text-slate-100">{entry.header || `Column ${index + 1}`}</p>
+                      <p className="truncate text-xs text-slate-500">{entry.values.slice(0, 3).join(" · ")}</p>
+                    </div>
+                    <select
+                      value={mapping[index] ?? ""}
+                      onChange={(event) =>
+                        setOverrides((prev) => ({
+                          ...prev,
+                          [index]: (event.target.value || null) as ImportTarget | null
+                        }))
+                      }
+                      className="rounded-lg border border-white/10 bg-slate-900 px-2 py-1 text-xs text-slate-100"
+                    >
+                      <option value="">Ignore</option>
+                      {targetOptions.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-400">
+                Preview · {periods.length} {periods.length === 1 ? "period" : "periods"}
+              </h3>
+              <div className="max-h-80 overflow-auto rounded-xl border border-white/5 scrollbar-thin">
+                <table className="min-w-full text-xs text-slate-200">
+                  <thead>
+                    <tr className="border-b border-white/10 uppercase tracking-wide text-slate-400">
+                      <th className="px-3 py-2 text-left">Label</th>
+                      {periodFields.map(({ key, label }) => (
+                        <th key={key} className="px-3 py-2 text-right">
+                          {label}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/5">
+                    {periods.map((period, index) => (
+                      <tr key={`${period.label}-${index}`}>
+                        <td className="px-3 py-2 font-semibold text-brand-200">{period.label || "—"}</td>
+                        {periodFields.map(({ key }) => (
+                          <td key={key} className="px-3 py-2 text-right">
+                            {numberFormatter.format(period[key])}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        ) : null}
+
+        <footer className="flex flex-wrap items-center justify-between gap-3">
+          <div className="inline-flex rounded-full bg-slate-950/60 p-1 text-xs ring-1 ring-white/10">
+            {(["replace", "append"] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                className={`rounded-full px-3 py-1 font-semibold capitalize transition ${
+                  mode === option ? "bg-brand-500/30 text-white" : "text-slate-400 hover:text-slate-200"
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <button
+            disabled={!periods.length}
+            onClick={() => onImport(periods, mode)}
+            className="inline-flex items-center justify-center gap-2 rounded-full bg-gradient-to-r from-brand-500 to-brand-400 px-5 py-2 text-sm font-semibold text-white shadow-lg shadow-brand-900/30 transition hover:from-brand-400 hover:to-brand-300 disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            Import {periods.length || ""} {periods.length === 1 ? "Period" : "Periods"}
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import type { TerminalMethod, ValuationInputs, ValuationResult, ValuationSummary } from "@/lib/valuation";
+import { ScaleIcon } from "@heroicons/react/24/outline";
+
+const numberFormatter = new Intl.NumberFormat("en-US", {
+  notation: "compact",
+  maximumFractionDigits: 1
+});
+
+const percentFormatter = new Intl.NumberFormat("en-US", {
+  style: "percent",
+  maximumFractionDigits: 1
+});
+
+const currency = (value: number) => `${value < 0 ? "-" : ""}$${numberFormatter.format(Math.abs(value))}`;
+
+const perShare = (value: number) => `${value < 0 ? "-" : ""}$${Math.abs(value).toFixed(2)}`;
+
+const fields: { key: keyof Omit<ValuationInputs, "method">; label: string; step: number; method?: TerminalMethod }[] = [
+  { key: "wacc", label: "WACC %", step: 0.25 },
+  { key: "terminalGrowth", label: "Terminal Growth %", step: 0.25, method: "perpetuity" },
+  { key: "exitMultiple", label: "Exit Multiple (× FCF)", step: 0.5, method: "multiple" },
+  { key: "netDebt", label: "Net Debt", step: 100000 },
+  { key: "sharesOutstanding", label: "Shares Outstanding", step: 100000 }
+];
+
+const gridValue = (cell: ValuationSummary | null) => {
+  if (!cell) return "n/a";
+  return cell.perShareValue !== null ? perShare(cell.perShareValue) : currency(cell.equityValue);
+};
+
+function Stat({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="rounded-2xl border border-white/5 bg-slate-950/70 p-4">
+      <p className="text-xs uppercase tracking-wide text-slate-400">{label}</p>
+      <p className="mt-1 text-2xl font-semibold text-white">{value}</p>
+      {detail ? <p className="mt-1 text-[11px] text-slate-500">{detail}</p> : null}
+    </div>
+  );
+}
+
+export default function ValuationPanel({
+  inputs,
+  result,
+  onChange
+}: {
+  inputs: ValuationInputs;
+  result: ValuationResult | null;
+  onChange: (inputs: ValuationInputs) => void;
+}) {
+  const update = (key: keyof ValuationInputs, value: string) => {
+    const parsed = Number(value);
+    if (Number.isFinite(parsed)) onChange({ ...inputs, [key]: parsed });
+  };
+
+  const baseWacc = result?.sensitivity.waccs.indexOf(inputs.wacc) ?? -1;
+  const baseGrowth = result?.sensitivity.terminalGrowths.indexOf(inputs.terminalGrowth) ?? -1;
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-slate-900/60 p-6 shadow-lg shadow-brand-900/30">
+      <header className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+            <ScaleIcon className="h-5 w-5 text-brand-300" /> Valuation
+          </h2>
+          <p className="text-sm text-slate-400">Discounted cash flow on the plan scenario&apos;s free cash flow projection.</p>
+        </div>
+        <div className="inline-flex rounded-full bg-slate-900/80 p-0.5 text-[11px] ring-1 ring-white/10">
+          {(["perpetuity", "multiple"] as const).map((method) => (
+            <button
+              key={method}
+              onClick={() => onChange({ ...inputs, method })}
+              className={`rounded-full px-2.5 py-1 font-semibold transition ${
+                inputs.method === method ? "bg-brand-500/30 text-white" : "text-slate-400 hover:text-slate-200"
+              }`}
+            >
+              {method === "perpetuity" ? "Gordon Growth" : "Exit Multiple"}
+            </button>
+          ))}
+        </div>
+      </header>
+
+      <div className="mt-5 flex flex-wrap gap-3 text-xs text-slate-300">
+        {fields
+          .filter((field) => !field.method || field.method === inputs.method)
+          .map((field) => (
+            <label key={field.key} className="space-y-1">
+              <span className="block uppercase tracking-wide text-slate-400">{field.label}</span>
+              <input
+                type="number"
+                step={field.step}
+                value={inputs[field.key]}
+                onChange={(event) => update(field.key, event.target.value)}
+                className="w-36 rounded-lg border border-white/10 bg-slate-950/60 px-3 py-1.5 text-sm text-white"
+              />
+            </label>
+          ))}
+      </div>
+
+      {result ? (
+        <div className="mt-6 grid gap-6 lg:grid-cols-[1fr,1.2fr]">
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-1 xl:grid-cols-2">
+            <Stat
+              label="Enterprise Value"
+              value={currency(result.enterpriseValue)}
+              detail={`${percentFormatter.format(result.terminalShare)} from terminal value`}
+            />
+            <Stat label="Equity Value" value={currency(result.equityValue)} detail={`Net debt ${currency(inputs.netDebt)}`} />
+            <Stat
+              label="Per Share"
+              value={result.perShareValue !== null ? perShare(result.perShareValue) : "--"}
+              detail={`${numberFormatter.format(inputs.sharesOutstanding)} shares`}
+            />
+            <Stat
+              label={inputs.method === "perpetuity" ? "Implied Exit Multiple" : "Implied Terminal Growth"}
+              value={
+                inputs.method === "perpetuity"
+                  ? result.impliedExitMultiple !== null
+                    ? `${result.impliedExitMultiple.toFixed(1)}x`
+                    : "--"
+                  : result.impliedTerminalGrowth !== null
+                    ? `${result.impliedTerminalGrowth.toFixed(1)}%`
+                    : "--"
+              }
+              detail={`PV of forecast FCF ${currency(result.presentValueOfCashFlows)}`}
+            />
+          </div>
+
+          <div className="rounded-2xl border border-white/5 bg-slate-950/70 p-4">
+            <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-400">
+              {result.perShareValue !== null ? "Per-Share Value" : "Equity Value"} · WACC × Terminal Growth
+            </h3>
+            <div className="mt-3 overflow-x-auto">
+              <table className="min-w-full text-xs text-slate-200">
+                <thead>
+                  <tr className="text-slate-400">
+                    <th className="px-2 py-1 text-left">WACC \ g</th>
+                    {result.sensitivity.terminalGrowths.map((growth) => (
+                      <th key={growth} className="px-2 py-1 text-right">
+                        {growth.toFixed(2)}%
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.sensitivity.cells.map((row, rowIndex) => (
+                    <tr key={result.sensitivity.waccs[rowIndex]} className="border-t border-white/5">
+                      <th className="px-2 py-1 text-left font-medium text-slate-400">
+                        {result.sensitivity.waccs[rowIndex].toFixed(2)}%
+                      </th>
+                      {row.map((cell, columnIndex) => (
+                        <td
+                          key={columnIndex}
+                          className={`px-2 py-1 text-right ${
+                            rowIndex === baseWacc && columnIndex === baseGrowth
+                              ? "rounded-md bg-brand-500/30 font-semibold text-white"
+                              : cell
+                                ? ""
+                                : "text-slate-600"
+                          }`}
+                        >
+                          {gridValue(cell)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="mt-2 text-[11px] text-slate-500">Grid uses a perpetuity terminal value; n/a where WACC ≤ growth.</p>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
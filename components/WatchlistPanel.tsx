@@ -0,0 +1,477 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ADMIN_TOKEN_KEY } from "@/components/ApiKeysView";
+import { riskComparators, riskSeverities, type RiskComparator, type RiskSeverity } from "@/lib/risk-rules";
+import type { ValidationIssue } from "@/lib/validation";
+import {
+  MAX_CADENCE_MINUTES,
+  MIN_CADENCE_MINUTES,
+  defaultWatchConditions,
+  describeCondition,
+  watchConditionKinds,
+  type WatchCondition,
+  type WatchConditionKind
+} from "@/lib/watch-conditions";
+import type { IssuedSecret, PublicWatch } from "@/lib/watchlists";
+import type { DeliveryStatus } from "@/lib/webhooks";
+import { ArrowPathIcon, BellAlertIcon, ClipboardDocumentIcon, PaperAirplaneIcon, PlusIcon, TrashIcon } from "@heroicons/react/24/outline";
+
+type WebhookDraft = { id: string | null; url: string; secret?: string };
+
+const deliveryBadge: Record<DeliveryStatus, string> = {
+  pending: "bg-amber-500/20 text-amber-200",
+  delivered: "bg-emerald-500/20 text-emerald-200",
+  failed: "bg-rose-500/20 text-rose-200"
+};
+
+const inputClass = "rounded-lg border border-white/10 bg-slate-950/60 px-2 py-1 text-xs text-white";
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString("en-US") : "—");
+
+const blankCondition = (kind: WatchConditionKind, index: number): WatchCondition => {
+  const id = `condition-${Date.now().toString(36)}-${index}`;
+  if (kind === "drop") return { id, kind, metric: "healthScores.overall", amount: 10 };
+  if (kind === "threshold") return { id, kind, metric: "metrics.netMargin", comparator: "lt", threshold: 0 };
+  return { id, kind, severity: "critical" };
+};
+
+export default function WatchlistPanel({ workspaceId, metrics }: { workspaceId: string | null; metrics: string[] }) {
+  const [watch, setWatch] = useState<PublicWatch | null>(null);
+  const [conditions, setConditions] = useState<WatchCondition[]>(defaultWatchConditions);
+  const [webhooks, setWebhooks] = useState<WebhookDraft[]>([]);
+  const [cadence, setCadence] = useState<number | null>(60);
+  const [enabled, setEnabled] = useState(true);
+  const [issues, setIssues] = useState<ValidationIssue[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [adminToken, setAdminToken] = useState("");
+
+  // Secrets only come back in the response that issued them, so they are shown until the next load.
+  const adopt = useCallback((next: PublicWatch | null, secrets: IssuedSecret[] = []) => {
+    setWatch(next);
+    setConditions(next?.conditions ?? defaultWatchConditions);
+    setWebhooks(
+      (next?.webhooks ?? []).map((webhook) => ({
+        ...webhook,
+        secret: secrets.find((entry) => entry.webhookId === webhook.id)?.secret
+      }))
+    );
+    setCadence(next ? next.cadenceMinutes : 60);
+    setEnabled(next?.enabled ?? true);
+    setIssues([]);
+  }, []);
+
+  const load = useCallback(async () => {
+    if (!workspaceId || !adminToken) return adopt(null);
+    const response = await fetch(`/api/watchlists?workspaceId=${encodeURIComponent(workspaceId)}`, {
+      headers: { Authorization: `Bearer ${adminToken}` }
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(body.error ?? "Unable to load watchlist.");
+    adopt(body.data?.[0] ?? null);
+  }, [workspaceId, adminToken, adopt]);
+
+  useEffect(() => {
+    setAdminToken(window.sessionStorage.getItem(ADMIN_TOKEN_KEY) ?? "");
+  }, []);
+
+  useEffect(() => {
+    setMessage(null);
+    load().catch((err) => setMessage(err instanceof Error ? err.message : "Unable to load watchlist."));
+  }, [load]);
+
+  const request = async (url: string, init: RequestInit, fallback: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${adminToken}` }
+      });
+      const body = response.status === 204 ? {} : await response.json().catch(() => ({}));
+      setIssues(body.issues ?? []);
+      if (!response.ok) throw new Error(body.error ?? fallback);
+      return { data: body.data as PublicWatch | undefined, secrets: (body.secrets ?? []) as IssuedSecret[] };
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : fallback);
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const draft = () => ({
+    conditions,
+    webhooks: webhooks.filter((webhook) => webhook.url.trim()).map(({ id, url }) => ({ id, url })),
+    cadenceMinutes: cadence,
+    enabled
+  });
+
+  const create = async () => {
+    const result = await request(
+      "/api/watchlists",
+      { method: "POST", body: JSON.stringify({ workspaceId, ...draft() }) },
+      "Unable to create watch."
+    );
+    if (result?.data) adopt(result.data, result.secrets);
+  };
+
+  const save = async () => {
+    if (!watch) return;
+    const result = await request(
+      `/api/watchlists/${watch.id}`,
+      { method: "PATCH", body: JSON.stringify(draft()) },
+      "Unable to save watch."
+    );
+    if (result?.data) {
+      adopt(result.data, result.secrets);
+      setMessage("Watch saved.");
+    }
+  };
+
+  const action = async (path: "run" | "test") => {
+    if (!watch) return;
+    const result = await request(`/api/watchlists/${watch.id}/${path}`, { method: "POST" }, "Request failed.");
+    if (result?.data) setWatch(result.data);
+  };
+
+  const remove = async () => {
+    if (!watch || !window.confirm(`Stop watching "${watch.name}"? Its delivery log is removed too.`)) return;
+    if (await request(`/api/watchlists/${watch.id}`, { method: "DELETE" }, "Unable to delete watch.")) adopt(null);
+  };
+
+  const updateCondition = (index: number, patch: Partial<WatchCondition>) =>
+    setConditions((current) =>
+      current.map((condition, position) => (position === index ? ({ ...condition, ...patch } as WatchCondition) : condition))
+    );
+
+  const changeKind = (index: number, kind: WatchConditionKind) =>
+    setConditions((current) =>
+      current.map((condition, position) => (position === index ? { ...blankCondition(kind, index), id: condition.id } : condition))
+    );
+
+  if (!workspaceId) {
+    return (
+      <div className="rounded-3xl border border-white/10 bg-slate-900/60 p-6 text-sm text-slate-400 shadow-xl shadow-brand-900/20">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+          <BellAlertIcon className="h-5 w-5 text-brand-300" /> Watchlist
+        </h2>
+        <p className="mt-2">Save this dataset as a workspace to watch it for alerts.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 rounded-3xl border border-white/10 bg-slate-900/60 p-6 shadow-xl shadow-brand-900/20">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+            <BellAlertIcon className="h-5 w-5 text-brand-300" /> Watchlist
+          </h2>
+          <p className="text-sm text-slate-400">
+            Re-runs the analysis when this workspace changes and on a schedule, and posts signed webhooks when a condition fires.
+          </p>
+        </div>
+        {watch ? (
+          <button
+            title="Refresh delivery log"
+            onClick={() => void load()}
+            className="rounded-full p-1.5 text-slate-400 transition hover:text-white"
+          >
+            <ArrowPathIcon className="h-5 w-5" />
+          </button>
+        ) : null}
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-slate-400">
+        Admin token
+        <input
+          type="password"
+          value={adminToken}
+          onChange={(event) => {
+            setAdminToken(event.target.value);
+            window.sessionStorage.setItem(ADMIN_TOKEN_KEY, event.target.value);
+          }}
+          placeholder="AURORA_ADMIN_TOKEN"
+          autoComplete="off"
+          className={`${inputClass} w-48`}
+        />
+        {adminToken ? null : <span>Managing watches requires the admin token configured on the server.</span>}
+      </label>
+
+      <div className="space-y-2">
+        <p className="text-xs uppercase tracking-wide text-slate-400">Alert when</p>
+        {conditions.map((condition, index) => (
+          <div key={condition.id} className="flex flex-wrap items-center gap-2 text-xs">
+            <select
+              value={condition.kind}
+              onChange={(event) => changeKind(index, event.target.value as WatchConditionKind)}
+              className={inputClass}
+            >
+              {watchConditionKinds.map(({ kind, label }) => (
+                <option key={kind} value={kind}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            {condition.kind === "newSignal" ? (
+              <select
+                value={condition.severity}
+                onChange={(event) => updateCondition(index, { severity: event.target.value as RiskSeverity })}
+                className={inputClass}
+              >
+                {riskSeverities.map((severity) => (
+                  <option key={severity} value={severity}>
+                    {severity === "critical" ? "critical" : `${severity} or higher`}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                list="watch-metrics"
+                value={condition.metric}
+                onChange={(event) => updateCondition(index, { metric: event.target.value })}
+                className={`${inputClass} w-48`}
+              />
+            )}
+            {condition.kind === "drop" ? (
+              <input
+                type="number"
+                min={0}
+                value={condition.amount}
+                onChange={(event) => updateCondition(index, { amount: Number(event.target.value) })}
+                className={`${inputClass} w-20`}
+              />
+            ) : null}
+            {condition.kind === "threshold" ? (
+              <>
+                <select
+                  value={condition.comparator}
+                  onChange={(event) => updateCondition(index, { comparator: event.target.value as RiskComparator })}
+                  className={inputClass}
+                >
+                  {Object.entries(riskComparators).map(([comparator, { symbol }]) => (
+                    <option key={comparator} value={comparator}>
+                      {symbol}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  step="any"
+                  value={condition.threshold}
+                  onChange={(event) => updateCondition(index, { threshold: Number(event.target.value) })}
+                  className={`${inputClass} w-20`}
+                />
+              </>
+            ) : null}
+            <button
+              onClick={() => setConditions((current) => current.filter((_, position) => position !== index))}
+              className="rounded-full p-1 text-slate-500 transition hover:text-rose-300"
+              aria-label="Remove condition"
+            >
+              <TrashIcon className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        ))}
+        <datalist id="watch-metrics">
+          {metrics.map((metric) => (
+            <option key={metric} value={metric} />
+          ))}
+        </datalist>
+        <button
+          onClick={() => setConditions((current) => [...current, blankCondition("threshold", current.length)])}
+          className="inline-flex items-center gap-1 text-xs font-semibold text-brand-200 hover:text-brand-100"
+        >
+          <PlusIcon className="h-3.5 w-3.5" /> Add condition
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs uppercase tracking-wide text-slate-400">Webhooks</p>
+        {webhooks.map((webhook, index) => (
+          <div key={webhook.id ?? `new-${index}`} className="space-y-1 text-xs">
+            <div className="flex items-center gap-2">
+              <input
+                value={webhook.url}
+                placeholder="https://example.com/hooks/aurora"
+                onChange={(event) =>
+                  setWebhooks((current) => current.map((entry, position) => (position === index ? { ...entry, url: event.target.value } : entry)))
+                }
+                className={`${inputClass} flex-1`}
+              />
+              <button
+                onClick={() => setWebhooks((current) => current.filter((_, position) => position !== index))}
+                className="rounded-full p-1 text-slate-500 transition hover:text-rose-300"
+                aria-label="Remove webhook"
+              >
+                <TrashIcon className="h-3.5 w-3.5" />
+              </button>
+            </div>
+            {webhook.secret ? (
+              <p className="flex items-center gap-1 text-[11px] text-slate-500">
+                Signing secret, shown once <code className="text-slate-300">{webhook.secret}</code>
+                <button
+                  onClick={() => void navigator.clipboard?.writeText(webhook.secret ?? "")}
+                  className="rounded-full p-0.5 hover:text-slate-200"
+                  aria-label="Copy secret"
+                >
+                  <ClipboardDocumentIcon className="h-3.5 w-3.5" />
+                </button>
+              </p>
+            ) : null}
+          </div>
+        ))}
+        <div className="flex flex-wrap gap-3 text-xs font-semibold">
+          <button
+            onClick={() => setWebhooks((current) => [...current, { id: null, url: "" }])}
+            className="inline-flex items-center gap-1 text-brand-200 hover:text-brand-100"
+          >
+            <PlusIcon className="h-3.5 w-3.5" /> Add webhook
+          </button>
+          <button
+            onClick={() => setWebhooks((current) => [...current, { id: null, url: `${window.location.origin}/api/webhooks/receiver` }])}
+            title="Local addresses are refused unless the server sets AURORA_ALLOW_PRIVATE_WEBHOOKS=1."
+            className="text-slate-400 hover:text-slate-200"
+          >
+            Use local test receiver
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-slate-300">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={cadence !== null} onChange={(event) => setCadence(event.target.checked ? 60 : null)} />
+          Also every
+          <input
+            type="number"
+            min={MIN_CADENCE_MINUTES}
+            max={MAX_CADENCE_MINUTES}
+            disabled={cadence === null}
+            value={cadence ?? 60}
+            onChange={(event) => setCadence(Math.round(Number(event.target.value) || MIN_CADENCE_MINUTES))}
+            className={`${inputClass} w-20 disabled:opacity-40`}
+          />
+          minutes
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={enabled} onChange={(event) => setEnabled(event.target.checked)} /> Enabled
+        </label>
+      </div>
+
+      {issues.length ? (
+        <ul className="space-y-1 text-xs text-rose-300">
+          {issues.map((issue, index) => (
+            <li key={index}>{issue.message}</li>
+          ))}
+        </ul>
+      ) : null}
+
+      <div className="flex flex-wrap items-center gap-2 text-xs font-semibold">
+        {watch ? (
+          <>
+            <button
+              onClick={() => void save()}
+              disabled={busy}
+              className="rounded-full bg-brand-500/80 px-3 py-1.5 text-white transition hover:bg-brand-400 disabled:opacity-50"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => void action("run")}
+              disabled={busy}
+              className="rounded-full px-3 py-1.5 text-slate-200 ring-1 ring-white/10 transition hover:bg-white/5 disabled:opacity-50"
+            >
+              Run now
+            </button>
+            <button
+              onClick={() => void action("test")}
+              disabled={busy || !watch.webhooks.length}
+              className="inline-flex items-center gap-1 rounded-full px-3 py-1.5 text-slate-200 ring-1 ring-white/10 transition hover:bg-white/5 disabled:opacity-50"
+            >
+              <PaperAirplaneIcon className="h-3.5 w-3.5" /> Send test
+            </button>
+            <button
+              onClick={() => void remove()}
+              disabled={busy}
+              className="ml-auto text-rose-300 hover:text-rose-200 disabled:opacity-50"
+            >
+              Stop watching
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={() => void create()}
+            disabled={busy || !adminToken}
+            className="inline-flex items-center gap-1 rounded-full bg-brand-500/80 px-3 py-1.5 text-white transition hover:bg-brand-400 disabled:opacity-50"
+          >
+            <BellAlertIcon className="h-3.5 w-3.5" /> Watch this workspace
+          </button>
+        )}
+      </div>
+
+      {message ? <p className="text-xs text-slate-300">{message}</p> : null}
+
+      {watch?.lastError ? <p className="text-xs text-rose-300">Last run failed: {watch.lastError}</p> : null}
+
+      {watch?.lastRun ? (
+        <div className="space-y-2 text-xs text-slate-300">
+          <p className="text-slate-400">
+            Last run {formatDate(watch.lastRun.observation.ranAt)} ({watch.lastRun.reason}) on version {watch.lastRun.observation.version}
+            {watch.lastRun.alerts.length ? `: ${watch.lastRun.alerts.length} alert(s)` : ": no alerts"}
+          </p>
+          {watch.lastRun.alerts.length ? (
+            <ul className="space-y-1">
+              {watch.lastRun.alerts.map((alert, index) => {
+                const condition = watch.conditions.find((entry) => entry.id === alert.conditionId);
+                return (
+                  <li
+                    key={`${alert.conditionId}-${index}`}
+                    className="rounded-lg border border-amber-500/20 bg-amber-500/5 px-3 py-1.5 text-amber-100"
+                  >
+                    {condition ? <span className="text-amber-300">{describeCondition(condition)}: </span> : null}
+                    {alert.message}
+                  </li>
+                );
+              })}
+            </ul>
+          ) : null}
+        </div>
+      ) : null}
+
+      {watch?.deliveries.length ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-xs text-slate-300">
+            <thead className="uppercase tracking-wide text-slate-500">
+              <tr>
+                <th className="py-1.5 font-medium">Created</th>
+                <th className="py-1.5 font-medium">Event</th>
+                <th className="py-1.5 font-medium">Status</th>
+                <th className="py-1.5 text-right font-medium">Attempts</th>
+                <th className="py-1.5 font-medium">Response</th>
+                <th className="py-1.5 font-medium">Next retry</th>
+              </tr>
+            </thead>
+            <tbody>
+              {watch.deliveries.map((delivery) => (
+                <tr key={delivery.id} className="border-t border-white/5" title={delivery.url}>
+                  <td className="py-1.5">{formatDate(delivery.createdAt)}</td>
+                  <td className="py-1.5 font-mono">{delivery.event}</td>
+                  <td className="py-1.5">
+                    <span className={`rounded-full px-2 py-0.5 font-semibold uppercase ${deliveryBadge[delivery.status]}`}>
+                      {delivery.status}
+                    </span>
+                  </td>
+                  <td className="py-1.5 text-right">{delivery.attempts}</td>
+                  <td className="py-1.5">{delivery.error ?? (delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : "—")}</td>
+                  <td className="py-1.5">{delivery.status === "pending" ? formatDate(delivery.nextAttemptAt) : "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+    </div>
+  );
+}
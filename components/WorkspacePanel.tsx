@@ -0,0 +1,351 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { VersionDiff } from "@/lib/workspace-diff";
+import type { Workspace, WorkspaceSnapshot, WorkspaceSummary } from "@/lib/workspaces";
+import { ArrowsRightLeftIcon, BookmarkIcon, ClockIcon, FolderPlusIcon, TrashIcon } from "@heroicons/react/24/outline";
+
+const ACTIVE_WORKSPACE_KEY = "aurora.activeWorkspace";
+
+const numberFormatter = new Intl.NumberFormat("en-US", {
+  maximumFractionDigits: 2
+});
+
+async function request<T>(input: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(input, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers }
+  });
+  if (response.status === 204) return undefined as T;
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error ?? "Workspace request failed.");
+  return body.data as T;
+}
+
+function Movement({ delta }: { delta: number }) {
+  if (Math.abs(delta) < 1e-9) return <span className="text-slate-500">±0</span>;
+  return (
+    <span className={delta > 0 ? "text-emerald-300" : "text-rose-300"}>
+      {delta > 0 ? "+" : ""}
+      {numberFormatter.format(delta)}
+    </span>
+  );
+}
+
+export default function WorkspacePanel({
+  snapshot,
+  onLoad,
+  onActiveChange,
+  initialWorkspaceId
+}: {
+  snapshot: WorkspaceSnapshot;
+  onLoad: (snapshot: WorkspaceSnapshot) => void;
+  onActiveChange?: (workspace: Workspace | null) => void;
+  initialWorkspaceId?: string | null;
+}) {
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [active, setActive] = useState<Workspace | null>(null);
+  const [name, setName] = useState("");
+  const [company, setCompany] = useState("");
+  const [note, setNote] = useState("");
+  const [showHistory, setShowHistory] = useState(false);
+  const [compare, setCompare] = useState<{ from: number; to: number } | null>(null);
+  const [diff, setDiff] = useState<VersionDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Workspace request failed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const refreshList = useCallback(async () => {
+    setWorkspaces(await request<WorkspaceSummary[]>("/api/workspaces"));
+  }, []);
+
+  const open = useCallback(
+    async (id: string, version?: number) => {
+      const workspace = await request<Workspace>(`/api/workspaces/${id}`);
+      const selected = version
+        ? workspace.versions.find((entry) => entry.version === version)
+        : workspace.versions[workspace.versions.length - 1];
+      setActive(workspace);
+      setDiff(null);
+      setCompare(null);
+      window.localStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
+      if (selected) {
+        const { periods, scenarios, planId, units, adjustments } = selected;
+        onLoad({ periods, scenarios, planId, units, adjustments });
+      }
+    },
+    [onLoad]
+  );
+
+  useEffect(() => {
+    const stored = initialWorkspaceId === undefined ? window.localStorage.getItem(ACTIVE_WORKSPACE_KEY) : initialWorkspaceId;
+    void run(async () => {
+      await refreshList();
+      if (stored) await open(stored).catch(() => window.localStorage.removeItem(ACTIVE_WORKSPACE_KEY));
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    onActiveChange?.(active);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [active?.id]);
+
+  const select = (id: string) => {
+    if (id) {
+      void run(() => open(id));
+      return;
+    }
+    setActive(null);
+    setShowHistory(false);
+    window.localStorage.removeItem(ACTIVE_WORKSPACE_KEY);
+  };
+
+  const create = () =>
+    run(async () => {
+      const workspace = await request<Workspace>("/api/workspaces", {
+        method: "POST",
+        body: JSON.stringify({ ...snapshot, name, company })
+      });
+      setName("");
+      setCompany("");
+      setActive(workspace);
+      window.localStorage.setItem(ACTIVE_WORKSPACE_KEY, workspace.id);
+      await refreshList();
+    });
+
+  const saveVersion = () =>
+    run(async () => {
+      if (!active) return;
+      await request(`/api/workspaces/${active.id}/versions`, {
+        method: "POST",
+        body: JSON.stringify({ ...snapshot, note })
+      });
+      setNote("");
+      setActive(await request<Workspace>(`/api/workspaces/${active.id}`));
+      await refreshList();
+    });
+
+  const remove = () =>
+    run(async () => {
+      if (!active || !window.confirm(`Delete workspace "${active.name}" and its full history?`)) return;
+      await request(`/api/workspaces/${active.id}`, { method: "DELETE" });
+      window.localStorage.removeItem(ACTIVE_WORKSPACE_KEY);
+      setActive(null);
+      await refreshList();
+    });
+
+  const loadDiff = (next: { from: number; to: number }) =>
+    run(async () => {
+      if (!active) return;
+      setCompare(next);
+      setDiff(await request<VersionDiff>(`/api/workspaces/${active.id}/diff?from=${next.from}&to=${next.to}`));
+    });
+
+  const versions = active?.versions ?? [];
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-slate-900/60 p-5 shadow-lg shadow-brand-900/20">
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={active?.id ?? ""}
+          onChange={(event) => select(event.target.value)}
+          className="rounded-full border border-white/10 bg-slate-950/60 px-4 py-2 text-sm text-slate-100"
+        >
+          <option value="">Unsaved workspace</option>
+          {workspaces.map((workspace) => (
+            <option key={workspace.id} value={workspace.id}>
+              {workspace.company ? `${workspace.company} · ` : ""}
+              {workspace.name} (v{workspace.latestVersion})
+            </option>
+          ))}
+        </select>
+
+        {active ? (
+          <>
+            <input
+              value={note}
+              onChange={(event) => setNote(event.target.value)}
+              placeholder="Version note"
+              className="min-w-0 flex-1 rounded-full border border-white/10 bg-slate-950/60 px-4 py-2 text-sm text-white focus:border-brand-300 focus:outline-none"
+            />
+            <button
+              disabled={busy}
+              onClick={saveVersion}
+              className="inline-flex items-center gap-2 rounded-full bg-gradient-to-r from-brand-500 to-brand-400 px-4 py-2 text-sm font-semibold text-white shadow-lg shadow-brand-900/30 transition hover:from-brand-400 hover:to-brand-300 disabled:opacity-50"
+            >
+              <BookmarkIcon className="h-4 w-4" /> Save v{(versions[versions.length - 1]?.version ?? 0) + 1}
+            </button>
+            <button
+              onClick={() => setShowHistory((value) => !value)}
+              className="inline-flex items-center gap-2 rounded-full border border-brand-400/30 px-3 py-2 text-xs font-semibold text-brand-200 transition hover:border-brand-300"
+            >
+              <ClockIcon className="h-4 w-4" /> History
+            </button>
+            <button
+              title="Delete workspace"
+              onClick={remove}
+              className="rounded-full p-2 text-slate-400 transition hover:text-rose-300"
+            >
+              <TrashIcon className="h-4 w-4" />
+            </button>
+          </>
+        ) : (
+          <>
+            <input
+              value={company}
+              onChange={(event) => setCompany(event.target.value)}
+              placeholder="Company"
+              className="w-40 rounded-full border border-white/10 bg-slate-950/60 px-4 py-2 text-sm text-white focus:border-brand-300 focus:outline-none"
+            />
+            <input
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="Workspace name"
+              className="min-w-0 flex-1 rounded-full border border-white/10 bg-slate-950/60 px-4 py-2 text-sm text-white focus:border-brand-300 focus:outline-none"
+            />
+            <button
+              disabled={busy || !name.trim()}
+              onClick={create}
+              className="inline-flex items-center gap-2 rounded-full border border-brand-400/30 px-4 py-2 text-sm font-semibold text-brand-200 transition hover:border-brand-300 disabled:opacity-40"
+            >
+              <FolderPlusIcon className="h-4 w-4" /> Save Workspace
+            </button>
+          </>
+        )}
+      </div>
+
+      {error ? <p className="mt-3 text-sm text-rose-300">{error}</p> : null}
+
+      {active && showHistory ? (
+        <div className="mt-5 grid gap-5 lg:grid-cols-[0.9fr,1.1fr]">
+          <ol className="max-h-72 space-y-2 overflow-y-auto pr-1 text-sm scrollbar-thin">
+            {[...versions].reverse().map((version) => (
+              <li
+                key={version.version}
+                className="flex items-center justify-between gap-3 rounded-xl border border-white/5 bg-slate-950/60 px-3 py-2"
+              >
+                <div className="min-w-0">
+                  <p className="font-semibold text-slate-100">
+                    v{version.version}{" "}
+                    <span className="font-normal text-slate-400">
+                      · score {version.analysis.healthScores.overall.toFixed(0)}
+                    </span>
+                  </p>
+                  <p className="truncate text-xs text-slate-500">
+                    {new Date(version.createdAt).toLocaleString()} {version.note ? `— ${version.note}` : ""}
+                  </p>
+                </div>
+                <div className="flex shrink-0 items-center gap-2 text-xs">
+                  <button
+                    onClick={() => void run(() => open(active.id, version.version))}
+                    className="rounded-full px-2 py-1 text-brand-200 ring-1 ring-brand-400/30 hover:text-brand-100"
+                  >
+                    Load
+                  </button>
+                  {version.version > 1 ? (
+                    <button
+                      title={`Compare v${version.version - 1} → v${version.version}`}
+                      onClick={() => loadDiff({ from: version.version - 1, to: version.version })}
+                      className={`rounded-full p-1 transition ${
+                        compare?.to === version.version ? "text-white" : "text-slate-400 hover:text-white"
+                      }`}
+                    >
+                      <ArrowsRightLeftIcon className="h-4 w-4" />
+                    </button>
+                  ) : null}
+                </div>
+              </li>
+            ))}
+          </ol>
+
+          <div className="space-y-4 text-sm">
+            {compare ? (
+              <div className="flex items-center gap-2 text-xs text-slate-400">
+                Compare
+                {(["from", "to"] as const).map((side) => (
+                  <select
+                    key={side}
+                    value={compare[side]}
+                    onChange={(event) => loadDiff({ ...compare, [side]: Number(event.target.value) })}
+                    className="rounded-lg border border-white/10 bg-slate-900 px-2 py-1 text-slate-100"
+                  >
+                    {versions.map((version) => (
+                      <option key={version.version} value={version.version}>
+                        v{version.version}
+                      </option>
+                    ))}
+                  </select>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-slate-500">Pick a version to compare it with its predecessor.</p>
+            )}
+
+            {diff ? (
+              <>
+                <div>
+                  <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+                    Input changes ({diff.inputs.length})
+                  </h3>
+                  <ul className="mt-2 max-h-32 space-y-1 overflow-y-auto text-xs text-slate-300 scrollbar-thin">
+                    {diff.inputs.length ? (
+                      diff.inputs.map((change, index) => (
+                        <li key={`${change.kind}-${change.target}-${change.field ?? ""}-${index}`}>
+                          <span className="text-brand-200">{change.target}</span> {change.kind.split(".")[1]}
+                          {change.field ? ` ${change.field}` : ""}
+                          {change.from !== undefined ? `: ${change.from} → ${change.to}` : ""}
+                        </li>
+                      ))
+                    ) : (
+                      <li className="text-slate-500">Inputs are identical.</li>
+                    )}
+                  </ul>
+                </div>
+                <div className="grid grid-cols-2 gap-2 text-xs sm:grid-cols-3">
+                  {diff.healthScores.map((movement) => (
+                    <div key={movement.key} className="rounded-xl border border-white/5 bg-slate-950/60 px-3 py-2">
+                      <p className="uppercase tracking-wide text-slate-500">{movement.key}</p>
+                      <p className="text-slate-100">
+                        {movement.from.toFixed(0)} → {movement.to.toFixed(0)} <Movement delta={movement.delta} />
+                      </p>
+                    </div>
+                  ))}
+                </div>
+                <ul className="space-y-1 text-xs">
+                  {diff.riskSignals.added.map((signal) => (
+                    <li key={`added-${signal.ruleId}-${signal.severity}`} className="text-rose-300">
+                      + {signal.message}
+                    </li>
+                  ))}
+                  {diff.riskSignals.changed.map((signal) => (
+                    <li key={`changed-${signal.ruleId}-${signal.severity}`} className="text-amber-200" title={`Was: ${signal.from}`}>
+                      ~ {signal.to}
+                    </li>
+                  ))}
+                  {diff.riskSignals.removed.map((signal) => (
+                    <li key={`removed-${signal.ruleId}-${signal.severity}`} className="text-emerald-300">
+                      − {signal.message}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            ) : null}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { createHash, timingSafeEqual } from "crypto";
+
+export const ADMIN_TOKEN_ENV = "AURORA_ADMIN_TOKEN";
+
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+// Key and watchlist management mint credentials (API keys, webhook signing secrets), so they are
+// only reachable with the operator's AURORA_ADMIN_TOKEN and stay disabled entirely when none is
+// configured. Returns the error response to send, or null when the request may proceed.
+export const requireAdmin = (request: Request, feature = "API key management"): NextResponse | null => {
+  const expected = process.env[ADMIN_TOKEN_ENV];
+  if (!expected) {
+    return NextResponse.json(
+      { error: `${feature} is disabled. Set ${ADMIN_TOKEN_ENV} on the server to enable it.` },
+      { status: 503 }
+    );
+  }
+  const supplied = request.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  if (!supplied || !timingSafeEqual(digest(supplied), digest(expected))) {
+    return NextResponse.json(
+      { error: "A valid admin token is required." },
+      { status: 401, headers: { "WWW-Authenticate": "Bearer" } }
+    );
+  }
+  return null;
+};
@@ -0,0 +1,214 @@
+import { bundledCohorts } from "@/lib/benchmark-cohorts";
+import { runAnalysisPipeline, type AnalysisResponse } from "@/lib/pipeline";
+import { defaultRiskRules } from "@/lib/risk-rules";
+import { normalizeAnalysisRequest, type ValidationIssue } from "@/lib/validation";
+
+export type EngineMode = "server" | "worker";
+
+export type EngineRequest = { seq: number; body: unknown };
+
+export type EngineReply =
+  | { seq: number; ok: true; response: AnalysisResponse }
+  | { seq: number; ok: false; error: string; issues?: ValidationIssue[] };
+
+export type AnalysisEngine = {
+  run: (body: unknown, seq: number, signal: AbortSignal) => Promise<AnalysisResponse>;
+  dispose: () => void;
+};
+
+export type AnalysisScheduler = {
+  schedule: (body: unknown, immediate?: boolean) => void;
+  setMode: (mode: EngineMode) => void;
+  dispose: () => void;
+};
+
+export class AnalysisValidationError extends Error {
+  constructor(message: string, readonly issues: ValidationIssue[]) {
+    super(message);
+  }
+}
+
+// Slider drags against the in-browser engine only need to collapse bursts within a frame;
+// the network path waits for typing to settle.
+const debounceDelay: Record<EngineMode, number> = { server: 250, worker: 16 };
+
+const abortError = () => new DOMException("Analysis request was superseded.", "AbortError");
+
+export const requestServerAnalysis = async (body: unknown, signal?: AbortSignal): Promise<AnalysisResponse> => {
+  const response = await fetch("/api/analyze", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    if (Array.isArray(payload.issues)) {
+      throw new AnalysisValidationError(payload.error ?? "Payload failed validation.", payload.issues);
+    }
+    throw new Error(payload.error ?? "Unable to analyze dataset.");
+  }
+
+  return (await response.json()) as AnalysisResponse;
+};
+
+// What the worker runs for each request; also used on the main thread when the worker is unavailable.
+export const evaluateEngineRequest = ({ seq, body }: EngineRequest): EngineReply => {
+  try {
+    const normalized = normalizeAnalysisRequest(body);
+    if (normalized.errors.length) {
+      return { seq, ok: false, error: "Payload failed validation.", issues: normalized.errors };
+    }
+    const { benchmark } = normalized;
+    const cohort = benchmark?.cohort ?? bundledCohorts.find((entry) => entry.id === benchmark?.cohortId) ?? null;
+    return { seq, ok: true, response: runAnalysisPipeline(normalized, normalized.riskRules ?? defaultRiskRules, cohort) };
+  } catch (error) {
+    console.error("Analysis engine error", error);
+    return { seq, ok: false, error: "Unable to evaluate financials." };
+  }
+};
+
+const unwrapReply = (reply: EngineReply) => {
+  if (reply.ok) return reply.response;
+  throw reply.issues ? new AnalysisValidationError(reply.error, reply.issues) : new Error(reply.error);
+};
+
+export const createInlineEngine = (): AnalysisEngine => ({
+  run: async (body, seq, signal) => {
+    if (signal.aborted) throw abortError();
+    return unwrapReply(evaluateEngineRequest({ seq, body }));
+  },
+  dispose: () => undefined
+});
+
+export const createServerEngine = (): AnalysisEngine => ({
+  run: (body, _seq, signal) => requestServerAnalysis(body, signal),
+  dispose: () => undefined
+});
+
+export const createWorkerEngine = (): AnalysisEngine => {
+  const worker = new Worker(new URL("./analysis.worker.ts", import.meta.url));
+  const pending = new Map<
+    number,
+    { body: unknown; signal: AbortSignal; resolve: (response: AnalysisResponse) => void; reject: (error: unknown) => void }
+  >();
+  let inFlight = false;
+  let queued: EngineRequest | null = null;
+  let fallback: AnalysisEngine | null = null;
+
+  const post = (request: EngineRequest) => {
+    inFlight = true;
+    worker.postMessage(request);
+  };
+
+  worker.onmessage = ({ data }: MessageEvent<EngineReply>) => {
+    const entry = pending.get(data.seq);
+    pending.delete(data.seq);
+    if (entry) {
+      try {
+        entry.resolve(unwrapReply(data));
+      } catch (error) {
+        entry.reject(error);
+      }
+    }
+    inFlight = false;
+    if (queued) {
+      const next = queued;
+      queued = null;
+      post(next);
+    }
+  };
+
+  // A worker that fails to load or crashes never replies, so the requests waiting on it are
+  // re-run on the main thread and later requests go straight there.
+  const fail = () => {
+    if (fallback) return;
+    console.error("Analysis worker failed; running the analysis on the main thread instead.");
+    const engine = createInlineEngine();
+    fallback = engine;
+    worker.terminate();
+    const waiting = Array.from(pending, ([seq, entry]) => ({ seq, ...entry }));
+    pending.clear();
+    queued = null;
+    inFlight = false;
+    for (const { seq, body, signal, resolve, reject } of waiting) engine.run(body, seq, signal).then(resolve, reject);
+  };
+
+  worker.onerror = (event) => {
+    event.preventDefault();
+    fail();
+  };
+  worker.onmessageerror = fail;
+
+  const enqueue = (body: unknown, seq: number, signal: AbortSignal) =>
+    new Promise<AnalysisResponse>((resolve, reject) => {
+      pending.set(seq, { body, signal, resolve, reject });
+      signal.addEventListener("abort", () => {
+        if (!pending.delete(seq)) return;
+        if (queued?.seq === seq) queued = null;
+        reject(abortError());
+      });
+
+      // The engine is synchronous inside the worker, so only the newest waiting request is kept.
+      if (!inFlight) post({ seq, body });
+      else queued = { seq, body };
+    });
+
+  return {
+    run: (body, seq, signal) => (fallback ? fallback.run(body, seq, signal) : enqueue(body, seq, signal)),
+    dispose: () => {
+      worker.terminate();
+      for (const entry of pending.values()) entry.reject(abortError());
+      pending.clear();
+    }
+  };
+};
+
+export const createAnalysisScheduler = (handlers: {
+  onResponse: (response: AnalysisResponse) => void;
+  onError: (error: unknown) => void;
+  onPendingChange: (pending: boolean) => void;
+}): AnalysisScheduler => {
+  let mode: EngineMode = "server";
+  let engine = createServerEngine();
+  let seq = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let controller: AbortController | null = null;
+
+  const dispatch = async (body: unknown) => {
+    controller?.abort();
+    const current = new AbortController();
+    const requestSeq = ++seq;
+    controller = current;
+    try {
+      const response = await engine.run(body, requestSeq, current.signal);
+      if (requestSeq === seq) handlers.onResponse(response);
+    } catch (error) {
+      if (requestSeq === seq && !current.signal.aborted) handlers.onError(error);
+    } finally {
+      if (requestSeq === seq) handlers.onPendingChange(false);
+    }
+  };
+
+  return {
+    schedule: (body, immediate = false) => {
+      clearTimeout(timer);
+      handlers.onPendingChange(true);
+      timer = setTimeout(() => void dispatch(body), immediate ? 0 : debounceDelay[mode]);
+    },
+    setMode: (next) => {
+      const resolved = next === "worker" && typeof Worker === "undefined" ? "server" : next;
+      if (resolved === mode) return;
+      controller?.abort();
+      engine.dispose();
+      engine = resolved === "worker" ? createWorkerEngine() : createServerEngine();
+      mode = resolved;
+    },
+    dispose: () => {
+      clearTimeout(timer);
+      controller?.abort();
+      engine.dispose();
+    }
+  };
+};
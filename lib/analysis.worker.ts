@@ -0,0 +1,10 @@
+import { evaluateEngineRequest, type EngineReply, type EngineRequest } from "@/lib/analysis-client";
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<EngineRequest>) => void) | null;
+  postMessage: (reply: EngineReply) => void;
+};
+
+scope.onmessage = ({ data }) => {
+  scope.postMessage(evaluateEngineRequest(data));
+};
@@ -0,0 +1,206 @@
+import type { AnalysisPayload } from "@/lib/analysis";
+import { periodFields, type DatedPeriod, type PeriodField } from "@/lib/period-fields";
+
+export type AnomalyKind = "magnitude" | "swing" | "ratioBreak";
+
+export type AnomalyTreatment = "exclude" | "normalize";
+
+export type AnomalyAdjustments = Record<string, AnomalyTreatment>;
+
+export type PeriodAnomaly = {
+  periodIndex: number;
+  label: string;
+  field: PeriodField;
+  kind: AnomalyKind;
+  message: string;
+  observed: number;
+  expected: number;
+};
+
+export type AnomalyReport = {
+  flags: PeriodAnomaly[];
+  adjustments: AnomalyAdjustments;
+  reported: AnalysisPayload | null;
+};
+
+export const anomalyKindLabels: Record<AnomalyKind, string> = {
+  magnitude: "Likely unit error",
+  swing: "One-off swing",
+  ratioBreak: "Ratio break"
+};
+
+const MIN_PERIODS = 4;
+const ROBUST_Z = 3.5;
+const MIN_SWING = Math.log(1.5);
+const MIN_LOG_SPREAD = 0.1;
+const MIN_RATIO_BREAK = 0.2;
+const MIN_RATIO_SPREAD = 0.03;
+const UNIT_TOLERANCE = 0.35;
+
+const positiveFields: PeriodField[] = ["revenue", "cogs", "operatingExpenses", "assets", "liabilities", "cash"];
+
+const ratioChecks: { field: PeriodField; denominator: PeriodField; label: string }[] = [
+  { field: "cogs", denominator: "revenue", label: "COGS / revenue" },
+  { field: "operatingExpenses", denominator: "revenue", label: "OpEx / revenue" },
+  { field: "netIncome", denominator: "revenue", label: "Net margin" },
+  { field: "freeCashFlow", denominator: "revenue", label: "FCF margin" },
+  { field: "liabilities", denominator: "assets", label: "Liabilities / assets" }
+];
+
+const priority: Record<AnomalyKind, number> = { magnitude: 0, swing: 1, ratioBreak: 2 };
+
+const fieldLabel = (field: PeriodField) => periodFields.find((entry) => entry.key === field)?.label ?? field;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const deviation = (values: number[]) => {
+  const center = median(values);
+  return 1.4826 * median(values.map((value) => Math.abs(value - center)));
+};
+
+const compact = new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 });
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const magnitudeAnomalies = (periods: DatedPeriod[]): PeriodAnomaly[] =>
+  periodFields.flatMap(({ key }) =>
+    periods.flatMap((period, index) => {
+      const value = Math.abs(period[key]);
+      const others = periods.filter((_, other) => other !== index).map((entry) => Math.abs(entry[key])).filter((entry) => entry > 0);
+      if (!value || !others.length) return [];
+      const reference = median(others);
+      const exponent = Math.log10(value / reference);
+      const scale = Math.round(exponent / 3) * 3;
+      if (scale === 0 || Math.abs(scale) > 6 || Math.abs(exponent - scale) > UNIT_TOLERANCE) return [];
+      const factor = 10 ** scale;
+      const unit = Math.abs(scale) === 3 ? "thousands" : "millions";
+      return [
+        {
+          periodIndex: index,
+          label: period.label,
+          field: key,
+          kind: "magnitude",
+          message:
+            scale > 0
+              ? `${fieldLabel(key)} is about ${factor.toLocaleString("en-US")}× the other periods; it may have been entered in units instead of ${unit}.`
+              : `${fieldLabel(key)} is about 1/${(1 / factor).toLocaleString("en-US")} of the other periods; it may have been entered in ${unit}.`,
+          observed: period[key],
+          expected: period[key] / factor
+        } satisfies PeriodAnomaly
+      ];
+    })
+  );
+
+const strongestSwing = (logs: number[], skip: Set<number>) => {
+  const interior = logs.slice(1, -1).map((value, offset) => ({
+    index: offset + 1,
+    spike: value - (logs[offset] + logs[offset + 2]) / 2
+  }));
+  let strongest: { index: number; spike: number; gap: number } | null = null;
+  for (const { index, spike } of interior) {
+    if (skip.has(index)) continue;
+    const others = interior.filter((entry) => Math.abs(entry.index - index) > 1).map((entry) => entry.spike);
+    const gap = others.length ? spike - median(others) : spike;
+    const spread = others.length ? deviation(others) : 0;
+    if (Math.abs(spike) < MIN_SWING || Math.abs(gap) < ROBUST_Z * Math.max(spread, MIN_LOG_SPREAD)) continue;
+    if (!strongest || Math.abs(gap) > Math.abs(strongest.gap)) strongest = { index, spike, gap };
+  }
+  return strongest;
+};
+
+// A swing is a period that jumps away from both neighbours and comes back; steady growth, a
+// permanent step change or a regular seasonal peak is not flagged. The strongest swing is
+// smoothed out before looking again so its neighbours are not flagged as echoes.
+const swingAnomalies = (periods: DatedPeriod[], corrected: Map<string, number>): PeriodAnomaly[] =>
+  positiveFields.flatMap((key) => {
+    const values = periods.map((period, index) => corrected.get(`${index}:${key}`) ?? period[key]);
+    if (values.some((value) => value <= 0)) return [];
+    const logs = values.map(Math.log);
+    const skip = new Set(periods.flatMap((_, index) => (corrected.has(`${index}:${key}`) ? [index] : [])));
+    const anomalies: PeriodAnomaly[] = [];
+
+    for (let swing = strongestSwing(logs, skip); swing; swing = strongestSwing(logs, skip)) {
+      const period = periods[swing.index];
+      const expected = Math.exp(logs[swing.index] - swing.spike);
+      anomalies.push({
+        periodIndex: swing.index,
+        label: period.label,
+        field: key,
+        kind: "swing",
+        message: `${fieldLabel(key)} of ${compact.format(period[key])} is ${Math.abs((Math.exp(swing.spike) - 1) * 100).toFixed(0)}% ${
+          swing.spike > 0 ? "above" : "below"
+        } the ${compact.format(expected)} implied by the neighbouring periods.`,
+        observed: period[key],
+        expected
+      });
+      logs[swing.index] -= swing.spike;
+      skip.add(swing.index);
+    }
+    return anomalies;
+  });
+
+const ratioAnomalies = (periods: DatedPeriod[], skipped: Set<string>): PeriodAnomaly[] =>
+  ratioChecks.flatMap(({ field, denominator, label }) => {
+    if (periods.some((period) => period[denominator] <= 0)) return [];
+    const ratios = periods.map((period) => period[field] / period[denominator]);
+
+    return periods.flatMap((period, index) => {
+      if (skipped.has(`${index}:${denominator}`) || skipped.has(`${index}:${field}`)) return [];
+      const others = ratios.filter((_, other) => other !== index);
+      const typical = median(others);
+      const gap = ratios[index] - typical;
+      if (Math.abs(gap) < Math.max(MIN_RATIO_BREAK, ROBUST_Z * Math.max(deviation(others), MIN_RATIO_SPREAD))) return [];
+      return [
+        {
+          periodIndex: index,
+          label: period.label,
+          field,
+          kind: "ratioBreak",
+          message: `${label} of ${percent(ratios[index])} breaks from the typical ${percent(typical)} (${gap > 0 ? "+" : ""}${(
+            gap * 100
+          ).toFixed(0)} pts).`,
+          observed: period[field],
+          expected: typical * period[denominator]
+        } satisfies PeriodAnomaly
+      ];
+    });
+  });
+
+export const detectAnomalies = (periods: DatedPeriod[]): PeriodAnomaly[] => {
+  if (periods.length < MIN_PERIODS) return [];
+  const magnitude = magnitudeAnomalies(periods);
+  const corrected = new Map(magnitude.map((anomaly) => [`${anomaly.periodIndex}:${anomaly.field}`, anomaly.expected]));
+  const swings = swingAnomalies(periods, corrected);
+  const skipped = new Set([...magnitude, ...swings].map((anomaly) => `${anomaly.periodIndex}:${anomaly.field}`));
+
+  const byCell = new Map<string, PeriodAnomaly>();
+  for (const anomaly of [...magnitude, ...swings, ...ratioAnomalies(periods, skipped)]) {
+    const key = `${anomaly.periodIndex}:${anomaly.field}`;
+    const existing = byCell.get(key);
+    if (!existing || priority[anomaly.kind] < priority[existing.kind]) byCell.set(key, anomaly);
+  }
+  return [...byCell.values()].sort(
+    (a, b) =>
+      a.periodIndex - b.periodIndex ||
+      periodFields.findIndex((entry) => entry.key === a.field) - periodFields.findIndex((entry) => entry.key === b.field)
+  );
+};
+
+export const applyAdjustments = (
+  periods: DatedPeriod[],
+  anomalies: PeriodAnomaly[],
+  adjustments: AnomalyAdjustments
+): DatedPeriod[] =>
+  periods.flatMap((period, index) => {
+    const treatment = adjustments[period.label];
+    if (treatment === "exclude") return [];
+    if (treatment !== "normalize") return [period];
+    return [
+      anomalies
+        .filter((anomaly) => anomaly.periodIndex === index)
+        .reduce<DatedPeriod>((next, anomaly) => ({ ...next, [anomaly.field]: anomaly.expected }), period)
+    ];
+  });
@@ -0,0 +1,53 @@
+import type { ValidationIssue } from "@/lib/validation";
+
+export type ApiErrorCode =
+  | "invalid_json"
+  | "invalid_body"
+  | "invalid_request_id"
+  | "validation_failed"
+  | "missing_api_key"
+  | "invalid_api_key"
+  | "rate_limited"
+  | "idempotency_conflict"
+  | "workspace_not_found"
+  | "cohort_not_found"
+  | "internal_error";
+
+export type ApiErrorBody = {
+  requestId: string;
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    issues?: ValidationIssue[];
+  };
+};
+
+export const apiErrors: Record<ApiErrorCode, { status: number; description: string }> = {
+  invalid_json: { status: 400, description: "The request body is not valid JSON." },
+  invalid_body: { status: 400, description: "The request body must be a JSON object." },
+  invalid_request_id: {
+    status: 400,
+    description: "Idempotency-Key / X-Request-Id must be 1-128 letters, digits, dots, dashes, underscores or colons."
+  },
+  validation_failed: { status: 422, description: "The payload failed validation; see issues for each field." },
+  missing_api_key: { status: 401, description: "No API key was sent in the Authorization or X-API-Key header." },
+  invalid_api_key: { status: 401, description: "The API key is unknown or has been revoked." },
+  rate_limited: { status: 429, description: "The key exceeded its per-minute request limit; retry after Retry-After seconds." },
+  idempotency_conflict: {
+    status: 409,
+    description: "The request id was already used by this key with a different body."
+  },
+  workspace_not_found: { status: 404, description: "The referenced workspace does not exist." },
+  cohort_not_found: { status: 404, description: "The referenced benchmark cohort does not exist." },
+  internal_error: { status: 500, description: "The analysis failed unexpectedly. Retrying with the same request id is safe." }
+};
+
+export class ApiError extends Error {
+  constructor(
+    readonly code: ApiErrorCode,
+    message: string = apiErrors[code].description,
+    readonly issues?: ValidationIssue[]
+  ) {
+    super(message);
+  }
+}
@@ -0,0 +1,112 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { dataDirectory, writeFileAtomic } from "@/lib/storage";
+
+export type ApiKeyRecord = {
+  id: string;
+  name: string;
+  preview: string;
+  hash: string;
+  rateLimit: number;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+};
+
+export type ApiKeySummary = Omit<ApiKeyRecord, "hash">;
+
+export const DEFAULT_RATE_LIMIT = 60;
+export const MAX_RATE_LIMIT = 6000;
+
+const KEY_PREFIX = "aur";
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+export class ApiKeyNotFoundError extends Error {
+  constructor(id: string) {
+    super(`API key ${id} was not found.`);
+  }
+}
+
+const keysPath = () => path.join(dataDirectory(), "api-keys.json");
+
+let queue: Promise<unknown> = Promise.resolve();
+
+const withLock = <T>(task: () => Promise<T>) => {
+  const next = queue.catch(() => undefined).then(task);
+  queue = next;
+  return next;
+};
+
+const readKeys = async (): Promise<ApiKeyRecord[]> => {
+  try {
+    return JSON.parse(await fs.readFile(keysPath(), "utf8")) as ApiKeyRecord[];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+};
+
+const writeKeys = (keys: ApiKeyRecord[]) => writeFileAtomic(keysPath(), JSON.stringify(keys, null, 2));
+
+const hashSecret = (secret: string) => createHash("sha256").update(secret).digest("hex");
+
+const summarize = ({ hash: _hash, ...key }: ApiKeyRecord): ApiKeySummary => key;
+
+export async function listApiKeys(): Promise<ApiKeySummary[]> {
+  return (await readKeys()).map(summarize).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// The plaintext key is only returned here; the store keeps a SHA-256 hash of the secret part.
+export function createApiKey(input: { name: string; rateLimit?: number }): Promise<{ key: string; summary: ApiKeySummary }> {
+  return withLock(async () => {
+    const id = randomUUID().replace(/-/g, "").slice(0, 12);
+    const secret = randomBytes(24).toString("base64url");
+    const key = `${KEY_PREFIX}_${id}_${secret}`;
+    const record: ApiKeyRecord = {
+      id,
+      name: input.name,
+      preview: `${KEY_PREFIX}_${id}_…${secret.slice(-4)}`,
+      hash: hashSecret(secret),
+      rateLimit: input.rateLimit ?? DEFAULT_RATE_LIMIT,
+      createdAt: new Date().toISOString(),
+      lastUsedAt: null,
+      revokedAt: null
+    };
+    await writeKeys([...(await readKeys()), record]);
+    return { key, summary: summarize(record) };
+  });
+}
+
+export function revokeApiKey(id: string): Promise<ApiKeySummary> {
+  return withLock(async () => {
+    const keys = await readKeys();
+    const record = keys.find((entry) => entry.id === id);
+    if (!record) throw new ApiKeyNotFoundError(id);
+    const revoked = { ...record, revokedAt: record.revokedAt ?? new Date().toISOString() };
+    await writeKeys(keys.map((entry) => (entry.id === id ? revoked : entry)));
+    return summarize(revoked);
+  });
+}
+
+export async function authenticateApiKey(key: string): Promise<ApiKeySummary | null> {
+  const match = /^([a-z]+)_([a-f0-9]{12})_([A-Za-z0-9_-]+)$/.exec(key.trim());
+  if (!match || match[1] !== KEY_PREFIX) return null;
+  const [, , id, secret] = match;
+
+  const record = (await readKeys()).find((entry) => entry.id === id);
+  if (!record || record.revokedAt) return null;
+  const expected = Buffer.from(record.hash, "hex");
+  const actual = Buffer.from(hashSecret(secret), "hex");
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  const now = new Date();
+  if (!record.lastUsedAt || now.getTime() - Date.parse(record.lastUsedAt) > LAST_USED_RESOLUTION_MS) {
+    const lastUsedAt = now.toISOString();
+    void withLock(async () => {
+      const keys = await readKeys();
+      await writeKeys(keys.map((entry) => (entry.id === id ? { ...entry, lastUsedAt } : entry)));
+    }).catch((error) => console.error("API key usage update error", error));
+  }
+  return summarize(record);
+}
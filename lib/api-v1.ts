@@ -0,0 +1,127 @@
+import { NextResponse } from "next/server";
+import { createHash, randomUUID } from "crypto";
+import { ApiError, apiErrors, type ApiErrorBody } from "@/lib/api-errors";
+import { authenticateApiKey, type ApiKeySummary } from "@/lib/api-keys";
+import { CohortNotFoundError } from "@/lib/benchmark-store";
+import { consumeRateLimit, type RateLimitResult } from "@/lib/rate-limit";
+import { WorkspaceNotFoundError } from "@/lib/workspaces";
+
+export type ApiContext = {
+  requestId: string;
+  apiKey: ApiKeySummary;
+};
+
+type StoredResponse = {
+  fingerprint: string;
+  status: number;
+  body: unknown;
+  expiresAt: number;
+};
+
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_STORED_RESPONSES = 1000;
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+const storedResponses = new Map<string, StoredResponse>();
+
+const remember = (key: string, response: StoredResponse) => {
+  const now = Date.now();
+  storedResponses.forEach((entry, existing) => {
+    if (entry.expiresAt <= now) storedResponses.delete(existing);
+  });
+  while (storedResponses.size >= MAX_STORED_RESPONSES) {
+    storedResponses.delete(storedResponses.keys().next().value as string);
+  }
+  storedResponses.set(key, response);
+};
+
+const rateLimitHeaders = (limit: RateLimitResult): Record<string, string> => ({
+  "X-RateLimit-Limit": `${limit.limit}`,
+  "X-RateLimit-Remaining": `${limit.remaining}`,
+  "X-RateLimit-Reset": `${limit.resetSeconds}`
+});
+
+const errorBody = (requestId: string, error: ApiError): ApiErrorBody => ({
+  requestId,
+  error: { code: error.code, message: error.message, ...(error.issues ? { issues: error.issues } : {}) }
+});
+
+const toApiError = (error: unknown) => {
+  if (error instanceof ApiError) return error;
+  if (error instanceof WorkspaceNotFoundError) return new ApiError("workspace_not_found", error.message);
+  if (error instanceof CohortNotFoundError) return new ApiError("cohort_not_found", error.message);
+  console.error("API v1 error", error);
+  return new ApiError("internal_error");
+};
+
+const readApiKey = (request: Request) => {
+  const authorization = request.headers.get("authorization");
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  return bearer ?? request.headers.get("x-api-key");
+};
+
+const parseBody = (raw: string) => {
+  let body: unknown;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    throw new ApiError("invalid_json");
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) throw new ApiError("invalid_body");
+  return body as Record<string, unknown>;
+};
+
+// Wraps a v1 JSON handler with API-key auth, per-key rate limiting, request-id echo and
+// idempotent replay. A repeated request id with the same body returns the stored response
+// without running the handler or spending rate limit.
+export const withApiKey =
+  (handler: (body: Record<string, unknown>, context: ApiContext) => Promise<unknown>) =>
+  async (request: Request) => {
+    const suppliedId = request.headers.get("idempotency-key") ?? request.headers.get("x-request-id");
+    const requestId = suppliedId !== null && REQUEST_ID_PATTERN.test(suppliedId) ? suppliedId : randomUUID();
+    const headers: Record<string, string> = { "X-Request-Id": requestId };
+    const respond = (body: unknown, status: number) => NextResponse.json(body, { status, headers });
+    const fail = (error: ApiError) => {
+      if (error.code === "rate_limited") headers["Retry-After"] = headers["X-RateLimit-Reset"];
+      return respond(errorBody(requestId, error), apiErrors[error.code].status);
+    };
+
+    try {
+      if (suppliedId !== null && !REQUEST_ID_PATTERN.test(suppliedId)) throw new ApiError("invalid_request_id");
+
+      const token = readApiKey(request);
+      if (!token) throw new ApiError("missing_api_key");
+      const apiKey = await authenticateApiKey(token);
+      if (!apiKey) throw new ApiError("invalid_api_key");
+
+      const raw = await request.text();
+      const fingerprint = createHash("sha256").update(raw).digest("hex");
+      const storageKey = `${apiKey.id}:${requestId}`;
+      const stored = suppliedId ? storedResponses.get(storageKey) : undefined;
+      if (stored && stored.expiresAt > Date.now()) {
+        if (stored.fingerprint !== fingerprint) throw new ApiError("idempotency_conflict");
+        headers["Idempotent-Replayed"] = "true";
+        return respond(stored.body, stored.status);
+      }
+
+      const limit = consumeRateLimit(apiKey.id, apiKey.rateLimit);
+      Object.assign(headers, rateLimitHeaders(limit));
+      if (!limit.allowed) throw new ApiError("rate_limited", `Rate limit of ${limit.limit} requests per minute exceeded.`);
+
+      let status = 200;
+      let body: unknown;
+      try {
+        body = { requestId, data: await handler(parseBody(raw), { requestId, apiKey }) };
+      } catch (error) {
+        const apiError = toApiError(error);
+        if (apiError.code === "internal_error") throw apiError;
+        status = apiErrors[apiError.code].status;
+        body = errorBody(requestId, apiError);
+      }
+
+      if (suppliedId) remember(storageKey, { fingerprint, status, body, expiresAt: Date.now() + IDEMPOTENCY_TTL_MS });
+      return respond(body, status);
+    } catch (error) {
+      return fail(toApiError(error));
+    }
+  };
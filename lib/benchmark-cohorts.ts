@@ -0,0 +1,93 @@
+import { cohortId, cohortName, type BenchmarkCohort, type CohortQuantiles } from "@/lib/benchmarks";
+
+const q = (p10: number, p25: number, p50: number, p75: number, p90: number): CohortQuantiles => ({ p10, p25, p50, p75, p90 });
+
+const cohort = (
+  industry: string,
+  stage: string,
+  revenueBand: string,
+  metrics: Record<string, CohortQuantiles>
+): BenchmarkCohort => ({
+  id: cohortId(industry, stage, revenueBand),
+  name: cohortName({ industry, stage, revenueBand }),
+  industry,
+  stage,
+  revenueBand,
+  source: "bundled",
+  metrics
+});
+
+// Illustrative reference distributions so benchmarking works out of the box; drop CSV/JSON
+// files into the data directory's benchmarks folder to rank against real peer sets.
+export const bundledCohorts: BenchmarkCohort[] = [
+  cohort("SaaS", "Seed", "<$1M", {
+    "metrics.cagr": q(0.2, 0.6, 1.2, 2, 3),
+    "metrics.netMargin": q(-1.5, -0.9, -0.5, -0.25, -0.05),
+    "metrics.grossMargin": q(0.55, 0.65, 0.72, 0.78, 0.84),
+    "metrics.operatingMargin": q(-1.4, -0.85, -0.45, -0.2, 0),
+    "metrics.burnMultiple": q(1.2, 1.8, 2.6, 4, 6),
+    "metrics.liquidityRatio": q(0.8, 1.5, 2.5, 4, 6),
+    "metrics.leverageRatio": q(0.1, 0.2, 0.3, 0.45, 0.6),
+    "healthScores.overall": q(30, 40, 50, 60, 70),
+    "healthScores.growth": q(45, 60, 75, 88, 95),
+    "healthScores.profitability": q(5, 12, 22, 35, 48),
+    "healthScores.liquidity": q(30, 45, 60, 75, 88),
+    "healthScores.leverage": q(40, 55, 68, 80, 90)
+  }),
+  cohort("SaaS", "Series A", "$1-10M", {
+    "metrics.cagr": q(0.3, 0.6, 1, 1.6, 2.3),
+    "metrics.netMargin": q(-0.9, -0.55, -0.3, -0.12, 0),
+    "metrics.grossMargin": q(0.6, 0.68, 0.74, 0.8, 0.85),
+    "metrics.operatingMargin": q(-0.8, -0.5, -0.28, -0.1, 0.02),
+    "metrics.burnMultiple": q(0.9, 1.4, 2, 3, 4.5),
+    "metrics.liquidityRatio": q(0.9, 1.4, 2.2, 3.4, 5),
+    "metrics.leverageRatio": q(0.15, 0.25, 0.35, 0.5, 0.65),
+    "healthScores.overall": q(35, 45, 55, 64, 72),
+    "healthScores.growth": q(45, 58, 70, 82, 92),
+    "healthScores.profitability": q(10, 20, 30, 42, 55),
+    "healthScores.liquidity": q(35, 48, 60, 72, 84),
+    "healthScores.leverage": q(38, 50, 62, 74, 85)
+  }),
+  cohort("SaaS", "Series B", "$10-50M", {
+    "metrics.cagr": q(0.2, 0.35, 0.6, 0.9, 1.3),
+    "metrics.netMargin": q(-0.5, -0.3, -0.15, -0.04, 0.05),
+    "metrics.grossMargin": q(0.62, 0.7, 0.76, 0.81, 0.86),
+    "metrics.operatingMargin": q(-0.45, -0.28, -0.12, -0.02, 0.08),
+    "metrics.burnMultiple": q(0.7, 1.1, 1.6, 2.4, 3.5),
+    "metrics.liquidityRatio": q(1, 1.5, 2.1, 3, 4.2),
+    "metrics.leverageRatio": q(0.2, 0.3, 0.4, 0.52, 0.65),
+    "healthScores.overall": q(40, 50, 58, 67, 75),
+    "healthScores.growth": q(40, 52, 64, 76, 87),
+    "healthScores.profitability": q(18, 28, 38, 50, 62),
+    "healthScores.liquidity": q(38, 50, 62, 73, 84),
+    "healthScores.leverage": q(35, 48, 60, 70, 80)
+  }),
+  cohort("Retail", "Growth", "$10-50M", {
+    "metrics.cagr": q(0.02, 0.06, 0.12, 0.2, 0.3),
+    "metrics.netMargin": q(-0.02, 0.01, 0.03, 0.05, 0.08),
+    "metrics.grossMargin": q(0.25, 0.32, 0.4, 0.48, 0.55),
+    "metrics.operatingMargin": q(-0.01, 0.02, 0.05, 0.08, 0.11),
+    "metrics.burnMultiple": q(0, 0, 0.5, 1.2, 2.5),
+    "metrics.liquidityRatio": q(0.3, 0.5, 0.8, 1.2, 1.8),
+    "metrics.leverageRatio": q(0.35, 0.45, 0.55, 0.65, 0.75),
+    "healthScores.overall": q(38, 46, 54, 62, 70),
+    "healthScores.growth": q(25, 35, 45, 56, 66),
+    "healthScores.profitability": q(35, 45, 54, 62, 70),
+    "healthScores.liquidity": q(25, 35, 46, 58, 70),
+    "healthScores.leverage": q(25, 35, 45, 55, 65)
+  }),
+  cohort("Manufacturing", "Mature", "$50M+", {
+    "metrics.cagr": q(-0.02, 0.02, 0.05, 0.08, 0.12),
+    "metrics.netMargin": q(0.01, 0.03, 0.06, 0.09, 0.13),
+    "metrics.grossMargin": q(0.18, 0.24, 0.3, 0.37, 0.44),
+    "metrics.operatingMargin": q(0.02, 0.05, 0.08, 0.12, 0.16),
+    "metrics.burnMultiple": q(0, 0, 0, 0.4, 1.2),
+    "metrics.liquidityRatio": q(0.3, 0.5, 0.8, 1.1, 1.6),
+    "metrics.leverageRatio": q(0.35, 0.45, 0.55, 0.65, 0.72),
+    "healthScores.overall": q(42, 50, 57, 64, 71),
+    "healthScores.growth": q(20, 30, 40, 50, 60),
+    "healthScores.profitability": q(40, 50, 58, 66, 75),
+    "healthScores.liquidity": q(25, 36, 48, 58, 68),
+    "healthScores.leverage": q(28, 38, 46, 56, 66)
+  })
+];
@@ -0,0 +1,66 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { bundledCohorts } from "@/lib/benchmark-cohorts";
+import { parseCohortCsv, parseCohortJson, type BenchmarkCohort, type CohortParseResult } from "@/lib/benchmarks";
+import { dataDirectory, writeFileAtomic } from "@/lib/storage";
+
+export type BenchmarkFormat = "csv" | "json";
+
+export class CohortNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Benchmark cohort ${id} was not found.`);
+  }
+}
+
+const benchmarkDirectory = () => path.join(dataDirectory(), "benchmarks");
+
+export const parseCohortFile = (content: string, format: BenchmarkFormat): CohortParseResult => {
+  if (format === "csv") return parseCohortCsv(content);
+  try {
+    return parseCohortJson(JSON.parse(content));
+  } catch {
+    return { cohorts: [], issues: ["File is not valid JSON."] };
+  }
+};
+
+const formatOf = (fileName: string): BenchmarkFormat | null => {
+  const extension = path.extname(fileName).toLowerCase();
+  return extension === ".csv" ? "csv" : extension === ".json" ? "json" : null;
+};
+
+export async function listCohorts(): Promise<CohortParseResult> {
+  const files = await fs.readdir(benchmarkDirectory()).catch(() => [] as string[]);
+  const cohorts = new Map(bundledCohorts.map((cohort) => [cohort.id, cohort]));
+  const issues: string[] = [];
+
+  for (const file of files.sort()) {
+    const format = formatOf(file);
+    if (!format) continue;
+    const parsed = parseCohortFile(await fs.readFile(path.join(benchmarkDirectory(), file), "utf8"), format);
+    issues.push(...parsed.issues.map((issue) => `${file}: ${issue}`));
+    for (const cohort of parsed.cohorts) cohorts.set(cohort.id, cohort);
+  }
+
+  return { cohorts: Array.from(cohorts.values()), issues };
+}
+
+export async function getCohort(id: string): Promise<BenchmarkCohort> {
+  const { cohorts } = await listCohorts();
+  const cohort = cohorts.find((entry) => entry.id === id);
+  if (!cohort) throw new CohortNotFoundError(id);
+  return cohort;
+}
+
+export async function saveCohortFile(fileName: string, content: string): Promise<CohortParseResult> {
+  const format = formatOf(fileName);
+  if (!format) return { cohorts: [], issues: ["Benchmark files must be .csv or .json."] };
+
+  const parsed = parseCohortFile(content, format);
+  if (parsed.issues.length || !parsed.cohorts.length) {
+    return { cohorts: [], issues: parsed.issues.length ? parsed.issues : ["File does not contain any cohort rows."] };
+  }
+
+  const safeName = path.basename(fileName).replace(/[^a-zA-Z0-9._-]+/g, "-");
+  await writeFileAtomic(path.join(benchmarkDirectory(), safeName), content);
+  return parsed;
+}
@@ -0,0 +1,215 @@
+import type { AnalysisPayload } from "@/lib/analysis";
+import { parseDelimited } from "@/lib/statement-import";
+
+export type CohortQuantiles = { p10: number; p25: number; p50: number; p75: number; p90: number };
+
+export type MetricDirection = "higher" | "lower";
+
+export type BenchmarkCohort = {
+  id: string;
+  name: string;
+  industry: string;
+  stage: string;
+  revenueBand: string;
+  source: "bundled" | "file" | "inline";
+  metrics: Record<string, CohortQuantiles>;
+  directions?: Record<string, MetricDirection>;
+};
+
+export type CohortBand = "top decile" | "top quartile" | "above median" | "below median" | "bottom quartile" | "bottom decile";
+
+export type MetricRank = {
+  key: string;
+  value: number;
+  percentile: number;
+  direction: MetricDirection;
+  band: CohortBand;
+  median: number;
+  quantiles: CohortQuantiles;
+};
+
+export type BenchmarkResult = {
+  cohort: Omit<BenchmarkCohort, "metrics" | "directions">;
+  ranks: Record<string, MetricRank>;
+};
+
+export type CohortParseResult = { cohorts: BenchmarkCohort[]; issues: string[] };
+
+export const quantileKeys = ["p10", "p25", "p50", "p75", "p90"] as const;
+
+const quantilePoints: [keyof CohortQuantiles, number][] = [
+  ["p10", 10],
+  ["p25", 25],
+  ["p50", 50],
+  ["p75", 75],
+  ["p90", 90]
+];
+
+export const defaultDirections: Record<string, MetricDirection> = {
+  "metrics.burnMultiple": "lower",
+  "metrics.leverageRatio": "lower"
+};
+
+export const cohortId = (industry: string, stage: string, revenueBand: string) =>
+  [industry, stage, revenueBand]
+    .join("-")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+export const cohortName = (cohort: Pick<BenchmarkCohort, "industry" | "stage" | "revenueBand">) =>
+  `${cohort.stage} ${cohort.industry} (${cohort.revenueBand})`;
+
+// Linear interpolation between the published quantiles; the tails extend the nearest segment's
+// slope so values beyond p10/p90 still rank, clamped to 0-100.
+export const percentileOf = (value: number, quantiles: CohortQuantiles) => {
+  const points = quantilePoints.map(([key, rank]) => [quantiles[key], rank] as const);
+  const segment = (index: number) => {
+    const [x0, y0] = points[index];
+    const [x1, y1] = points[index + 1];
+    return x1 === x0 ? (value >= x1 ? y1 : y0) : y0 + ((value - x0) * (y1 - y0)) / (x1 - x0);
+  };
+
+  let rank: number;
+  if (value <= points[0][0]) rank = segment(0);
+  else if (value >= points[points.length - 1][0]) rank = segment(points.length - 2);
+  else rank = segment(points.findIndex(([x], index) => value >= x && value <= points[index + 1][0]));
+  return Math.min(100, Math.max(0, rank));
+};
+
+export const bandFor = (percentile: number): CohortBand => {
+  if (percentile >= 90) return "top decile";
+  if (percentile >= 75) return "top quartile";
+  if (percentile >= 50) return "above median";
+  if (percentile > 25) return "below median";
+  if (percentile > 10) return "bottom quartile";
+  return "bottom decile";
+};
+
+export const rankAgainstCohort = (analysis: AnalysisPayload, cohort: BenchmarkCohort): BenchmarkResult => {
+  const values: Record<string, number> = {};
+  for (const [key, value] of Object.entries(analysis.metrics)) values[`metrics.${key}`] = value;
+  for (const [key, value] of Object.entries(analysis.healthScores)) values[`healthScores.${key}`] = value;
+
+  const ranks = Object.entries(cohort.metrics).flatMap(([key, quantiles]): [string, MetricRank][] => {
+    const value = values[key];
+    if (typeof value !== "number" || !Number.isFinite(value)) return [];
+    const direction = cohort.directions?.[key] ?? defaultDirections[key] ?? "higher";
+    const raw = percentileOf(value, quantiles);
+    const percentile = direction === "lower" ? 100 - raw : raw;
+    return [[key, { key, value, percentile, direction, band: bandFor(percentile), median: quantiles.p50, quantiles }]];
+  });
+
+  const { id, name, industry, stage, revenueBand, source } = cohort;
+  return { cohort: { id, name, industry, stage, revenueBand, source }, ranks: Object.fromEntries(ranks) };
+};
+
+const normalizeMetricKey = (raw: string) => {
+  const key = raw.trim();
+  return key.includes(".") ? key : `metrics.${key}`;
+};
+
+const parseQuantile = (raw: unknown) => {
+  if (typeof raw === "number") return Number.isFinite(raw) ? raw : null;
+  if (typeof raw !== "string" || !raw.trim()) return null;
+  const percent = raw.trim().endsWith("%");
+  const parsed = Number(raw.trim().replace(/[%,\s]/g, ""));
+  if (!Number.isFinite(parsed)) return null;
+  return percent ? parsed / 100 : parsed;
+};
+
+type CohortRow = Record<string, unknown>;
+
+const collectRows = (rows: CohortRow[], source: BenchmarkCohort["source"]): CohortParseResult => {
+  const issues: string[] = [];
+  const cohorts = new Map<string, BenchmarkCohort>();
+
+  rows.forEach((row, index) => {
+    const text = (key: string) => (typeof row[key] === "string" ? (row[key] as string).trim() : "");
+    const industry = text("industry");
+    const stage = text("stage");
+    const revenueBand = text("revenueBand");
+    const metric = text("metric");
+    if (!industry || !stage || !revenueBand || !metric) {
+      issues.push(`Row ${index + 1}: industry, stage, revenueBand and metric are required.`);
+      return;
+    }
+
+    const parsed = quantileKeys.map((key) => parseQuantile(row[key]));
+    const missing = quantileKeys.filter((_, position) => parsed[position] === null);
+    if (missing.length) {
+      issues.push(`Row ${index + 1}: ${missing.join(", ")} must be numbers.`);
+      return;
+    }
+    const values = parsed as number[];
+    if (values.some((value, position) => position > 0 && value < values[position - 1])) {
+      issues.push(`Row ${index + 1}: quantiles for ${metric} must be non-decreasing from p10 to p90.`);
+      return;
+    }
+
+    const id = cohortId(industry, stage, revenueBand);
+    const cohort = cohorts.get(id) ?? {
+      id,
+      name: cohortName({ industry, stage, revenueBand }),
+      industry,
+      stage,
+      revenueBand,
+      source,
+      metrics: {}
+    };
+    const key = normalizeMetricKey(metric);
+    cohort.metrics[key] = Object.fromEntries(quantileKeys.map((name, position) => [name, values[position]])) as CohortQuantiles;
+    const direction = text("direction").toLowerCase();
+    if (direction === "higher" || direction === "lower") cohort.directions = { ...cohort.directions, [key]: direction };
+    cohorts.set(id, cohort);
+  });
+
+  return { cohorts: Array.from(cohorts.values()), issues };
+};
+
+const headerAliases: Record<string, string> = {
+  industry: "industry",
+  sector: "industry",
+  stage: "stage",
+  revenueband: "revenueBand",
+  band: "revenueBand",
+  metric: "metric",
+  direction: "direction",
+  p10: "p10",
+  p25: "p25",
+  p50: "p50",
+  median: "p50",
+  p75: "p75",
+  p90: "p90"
+};
+
+export const parseCohortCsv = (text: string, source: BenchmarkCohort["source"] = "file"): CohortParseResult => {
+  const [header = [], ...body] = parseDelimited(text).filter((row) => row.some((cell) => cell.trim()));
+  const columns = header.map((cell) => headerAliases[cell.toLowerCase().replace(/[^a-z0-9]/g, "")] ?? null);
+  const missing = ["industry", "stage", "revenueBand", "metric", ...quantileKeys].filter((key) => !columns.includes(key));
+  if (missing.length) return { cohorts: [], issues: [`Missing column(s): ${missing.join(", ")}.`] };
+
+  const rows = body.map((cells) =>
+    Object.fromEntries(columns.flatMap((column, index) => (column ? [[column, cells[index] ?? ""]] : [])))
+  );
+  return collectRows(rows, source);
+};
+
+// Accepts either flat rows (the CSV shape) or nested cohorts with a `metrics` map of quantiles.
+export const parseCohortJson = (raw: unknown, source: BenchmarkCohort["source"] = "file"): CohortParseResult => {
+  const entries = Array.isArray(raw) ? raw : raw && typeof raw === "object" ? [raw] : null;
+  if (!entries) return { cohorts: [], issues: ["Benchmark JSON must be an object or an array."] };
+
+  const rows = entries.flatMap((entry): CohortRow[] => {
+    if (!entry || typeof entry !== "object") return [{}];
+    const { metrics, directions, ...rest } = entry as CohortRow;
+    if (!metrics || typeof metrics !== "object") return [rest];
+    return Object.entries(metrics as Record<string, CohortRow>).map(([metric, quantiles]) => ({
+      ...rest,
+      ...quantiles,
+      metric,
+      direction: (directions as Record<string, unknown> | undefined)?.[metric] ?? quantiles?.direction
+    }));
+  });
+  return collectRows(rows, source);
+};
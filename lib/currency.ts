@@ -0,0 +1,55 @@
+import { lineItemFields, periodFields, type DatedPeriod } from "@/lib/period-fields";
+
+export type UnitScale = "units" | "thousands" | "millions";
+
+export type DatasetUnits = {
+  currency: string;
+  scale: UnitScale;
+};
+
+// Rates are quoted as reporting-currency units per one unit of the keyed currency, e.g. with a
+// USD reporting currency `{ EUR: 1.08 }` means 1 EUR = 1.08 USD.
+export type ReportingOptions = DatasetUnits & {
+  rates: Record<string, number>;
+};
+
+export type CurrencyConversion = {
+  from: DatasetUnits;
+  to: DatasetUnits;
+  rate: number;
+  factor: number;
+};
+
+export const unitScales: Record<UnitScale, { factor: number; label: string }> = {
+  units: { factor: 1, label: "Units" },
+  thousands: { factor: 1_000, label: "Thousands" },
+  millions: { factor: 1_000_000, label: "Millions" }
+};
+
+export const commonCurrencies = ["USD", "EUR", "GBP", "JPY", "CHF", "CAD", "AUD", "SEK", "NOK", "DKK", "INR", "BRL", "CNY"];
+
+export const defaultDatasetUnits: DatasetUnits = { currency: "USD", scale: "units" };
+
+export const sameUnits = (a: DatasetUnits, b: DatasetUnits) => a.currency === b.currency && a.scale === b.scale;
+
+// Returns null when the rate table has no quote for the dataset currency.
+export const resolveConversion = (from: DatasetUnits, reporting: ReportingOptions | null): CurrencyConversion | null => {
+  const to = reporting ? { currency: reporting.currency, scale: reporting.scale } : from;
+  const rate = from.currency === to.currency ? 1 : reporting?.rates[from.currency];
+  if (rate === undefined) return null;
+  return { from, to, rate, factor: (rate * unitScales[from.scale].factor) / unitScales[to.scale].factor };
+};
+
+const monetaryFields = [...periodFields, ...lineItemFields].map(({ key }) => key);
+
+export const convertPeriods = (periods: DatedPeriod[], factor: number): DatedPeriod[] =>
+  factor === 1
+    ? periods
+    : periods.map((period) => {
+        const converted = { ...period };
+        for (const key of monetaryFields) {
+          const value = period[key];
+          if (value !== undefined) converted[key] = value * factor;
+        }
+        return converted;
+      });
@@ -0,0 +1,211 @@
+import type { AnalysisPayload, FinancialPeriod } from "@/lib/analysis";
+
+export type TraceInput = {
+  name: string;
+  value: number;
+  period: string | null;
+  field: keyof FinancialPeriod | null;
+};
+
+export type TraceStep = { label: string; value: number };
+
+export type TraceWeight = { key: string; weight: number; value: number; contribution: number };
+
+export type MetricTrace = {
+  key: string;
+  kind: "metric" | "healthScore";
+  label: string;
+  value: number;
+  formula: string;
+  inputs: TraceInput[];
+  steps: TraceStep[];
+  weights: TraceWeight[];
+  recomputed: number | null;
+  reconciled: boolean | null;
+};
+
+export type AnalysisTrace = Record<string, MetricTrace>;
+
+type Recipe = {
+  label: string;
+  formula: string;
+  compute: (periods: FinancialPeriod[]) => { inputs: TraceInput[]; steps: TraceStep[]; value: number } | null;
+};
+
+const RECONCILE_TOLERANCE = 1e-6;
+
+const input = (period: FinancialPeriod, field: keyof FinancialPeriod, name = String(field)): TraceInput => ({
+  name,
+  value: Number(period[field]) || 0,
+  period: period.label || null,
+  field
+});
+
+const ratioRecipe = (
+  label: string,
+  formula: string,
+  numerator: (period: FinancialPeriod) => { inputs: TraceInput[]; value: number },
+  denominator: keyof FinancialPeriod
+): Recipe => ({
+  label,
+  formula,
+  compute: (periods) => {
+    const latest = periods[periods.length - 1];
+    if (!latest) return null;
+    const top = numerator(latest);
+    const bottom = input(latest, denominator);
+    return {
+      inputs: top.inputs.some((entry) => entry.name === bottom.name) ? top.inputs : [...top.inputs, bottom],
+      steps: top.inputs.length > 1 ? [{ label: "Numerator", value: top.value }] : [],
+      value: bottom.value ? top.value / bottom.value : 0
+    };
+  }
+});
+
+const single = (field: keyof FinancialPeriod) => (period: FinancialPeriod) => {
+  const value = input(period, field);
+  return { inputs: [value], value: value.value };
+};
+
+const metricRecipes: Record<string, Recipe> = {
+  cagr: {
+    label: "Revenue CAGR",
+    formula: "(revenue_last / revenue_first) ^ (1 / (periods - 1)) - 1",
+    compute: (periods) => {
+      const first = periods[0];
+      const last = periods[periods.length - 1];
+      if (!first || !last || periods.length < 2) return null;
+      const growthMultiple = first.revenue > 0 ? last.revenue / first.revenue : 0;
+      return {
+        inputs: [input(first, "revenue", "revenue_first"), input(last, "revenue", "revenue_last")],
+        steps: [
+          { label: "Growth multiple", value: growthMultiple },
+          { label: "Compounding periods", value: periods.length - 1 }
+        ],
+        value: growthMultiple > 0 ? growthMultiple ** (1 / (periods.length - 1)) - 1 : 0
+      };
+    }
+  },
+  netMargin: ratioRecipe("Net Margin", "netIncome / revenue (latest period)", single("netIncome"), "revenue"),
+  grossMargin: ratioRecipe(
+    "Gross Margin",
+    "(revenue - cogs) / revenue (latest period)",
+    (period) => {
+      const inputs = [input(period, "revenue"), input(period, "cogs")];
+      return { inputs, value: period.revenue - period.cogs };
+    },
+    "revenue"
+  ),
+  operatingMargin: ratioRecipe(
+    "Operating Margin",
+    "(revenue - cogs - operatingExpenses) / revenue (latest period)",
+    (period) => {
+      const inputs = [input(period, "revenue"), input(period, "cogs"), input(period, "operatingExpenses")];
+      return { inputs, value: period.revenue - period.cogs - period.operatingExpenses };
+    },
+    "revenue"
+  ),
+  burnMultiple: {
+    label: "Burn Multiple",
+    formula: "-freeCashFlow / (revenue_last - revenue_prior) when free cash flow is negative, otherwise 0",
+    compute: (periods) => {
+      const last = periods[periods.length - 1];
+      const prior = periods[periods.length - 2];
+      if (!last || !prior) return null;
+      const netNewRevenue = last.revenue - prior.revenue;
+      const burn = Math.max(0, -last.freeCashFlow);
+      return {
+        inputs: [input(last, "freeCashFlow"), input(prior, "revenue", "revenue_prior"), input(last, "revenue", "revenue_last")],
+        steps: [
+          { label: "Net burn", value: burn },
+          { label: "Net new revenue", value: netNewRevenue }
+        ],
+        value: burn && netNewRevenue > 0 ? burn / netNewRevenue : 0
+      };
+    }
+  },
+  liquidityRatio: ratioRecipe("Liquidity Ratio", "cash / liabilities (latest period)", single("cash"), "liabilities"),
+  leverageRatio: ratioRecipe("Leverage Ratio", "liabilities / assets (latest period)", single("liabilities"), "assets")
+};
+
+const scoreDrivers: Record<string, string[]> = {
+  growth: ["cagr"],
+  profitability: ["netMargin", "grossMargin", "operatingMargin"],
+  liquidity: ["liquidityRatio", "burnMultiple"],
+  leverage: ["leverageRatio"]
+};
+
+const humanize = (key: string) => key.replace(/([A-Z])/g, " $1").replace(/^./, (char) => char.toUpperCase());
+
+const reconcile = (value: number, recomputed: number | null) =>
+  recomputed === null ? null : Math.abs(value - recomputed) <= RECONCILE_TOLERANCE * Math.max(1, Math.abs(value));
+
+const traceMetric = (key: string, value: number, periods: FinancialPeriod[]): MetricTrace => {
+  const recipe = metricRecipes[key];
+  const computed = recipe?.compute(periods) ?? null;
+  return {
+    key: `metrics.${key}`,
+    kind: "metric",
+    label: recipe?.label ?? humanize(key),
+    value,
+    formula: recipe?.formula ?? "Reported by the analysis engine without a published formula.",
+    inputs: computed?.inputs ?? [],
+    steps: computed?.steps ?? [],
+    weights: [],
+    recomputed: computed?.value ?? null,
+    reconciled: reconcile(value, computed?.value ?? null)
+  };
+};
+
+// Component scores are engine-internal; the trace lists the metrics that drive them and, for
+// `overall`, checks the equal-weighted blend of the component scores against the reported value.
+const traceScore = (key: string, value: number, analysis: AnalysisPayload): MetricTrace => {
+  const components = Object.entries(analysis.healthScores).filter(([name]) => name !== "overall");
+  const metrics: Record<string, number> = analysis.metrics;
+
+  if (key === "overall" && components.length) {
+    const weight = 1 / components.length;
+    const weights = components.map(([name, score]) => ({ key: name, weight, value: score, contribution: score * weight }));
+    const recomputed = weights.reduce((sum, entry) => sum + entry.contribution, 0);
+    return {
+      key: `healthScores.${key}`,
+      kind: "healthScore",
+      label: "Overall Score",
+      value,
+      formula: `Σ weight × component score across ${components.map(([name]) => name).join(", ")}`,
+      inputs: [],
+      steps: [],
+      weights,
+      recomputed,
+      reconciled: reconcile(value, recomputed)
+    };
+  }
+
+  const drivers = scoreDrivers[key] ?? [];
+  return {
+    key: `healthScores.${key}`,
+    kind: "healthScore",
+    label: `${humanize(key)} Score`,
+    value,
+    formula: drivers.length
+      ? `Engine score on a 0-100 scale driven by ${drivers.map((driver) => metricRecipes[driver]?.label ?? driver).join(", ")}.`
+      : "Engine score on a 0-100 scale.",
+    inputs: [],
+    steps: drivers
+      .filter((driver) => typeof metrics[driver] === "number")
+      .map((driver) => ({ label: metricRecipes[driver]?.label ?? humanize(driver), value: metrics[driver] })),
+    weights: [],
+    recomputed: null,
+    reconciled: null
+  };
+};
+
+export const explainAnalysis = (periods: FinancialPeriod[], analysis: AnalysisPayload): AnalysisTrace => {
+  const metrics: Record<string, number> = analysis.metrics;
+  const scores: Record<string, number> = analysis.healthScores;
+  const traces = [
+    ...Object.entries(metrics).map(([key, value]) => traceMetric(key, value, periods)),
+    ...Object.entries(scores).map(([key, value]) => traceScore(key, value, analysis))
+  ];
+  return Object.fromEntries(traces.map((trace) => [trace.key, trace]));
+};
@@ -0,0 +1,236 @@
+import type { DatedPeriod } from "@/lib/period-fields";
+import { monthsPerPeriod, parseIsoDate, periodLabel, resolveTimeline, type FlowMetric } from "@/lib/periodicity";
+
+export type ForecastMethod = "linear" | "holt" | "holtWinters" | "logLinear";
+
+export type BacktestScore = {
+  method: ForecastMethod;
+  wape: number;
+  mae: number;
+};
+
+export type ForecastPoint = {
+  label: string;
+  startDate: string;
+  value: number;
+  lower80: number;
+  upper80: number;
+  lower95: number;
+  upper95: number;
+};
+
+export type MetricForecast = {
+  method: ForecastMethod;
+  backtestError: number;
+  holdout: number;
+  candidates: BacktestScore[];
+  points: ForecastPoint[];
+};
+
+export type StatisticalForecast = {
+  granularity: DatedPeriod["granularity"];
+  steps: number;
+  metrics: Record<FlowMetric, MetricForecast>;
+};
+
+type FittedModel = {
+  fitted: (number | null)[];
+  project: (steps: number) => number[];
+  spread: (step: number, sigma: number) => number;
+  logScale?: boolean;
+};
+
+export const forecastMethodLabels: Record<ForecastMethod, string> = {
+  linear: "Linear trend",
+  holt: "Holt linear",
+  holtWinters: "Holt-Winters",
+  logLinear: "Log-linear growth"
+};
+
+const Z80 = 1.2816;
+const Z95 = 1.96;
+const MIN_PERIODS = 4;
+const GRID = [0.1, 0.3, 0.5, 0.7, 0.9];
+
+// Standard error of an h-step smoothing forecast from its squared innovation weights.
+const smoothingSpread = (weight: (lead: number) => number) => (step: number, sigma: number) => {
+  let total = 1;
+  for (let lead = 1; lead < step; lead++) total += weight(lead) ** 2;
+  return sigma * Math.sqrt(total);
+};
+
+const mean = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length;
+
+const regression = (values: number[]) => {
+  const xs = values.map((_, index) => index);
+  const meanX = mean(xs);
+  const meanY = mean(values);
+  const sxx = xs.reduce((total, x) => total + (x - meanX) ** 2, 0);
+  const slope = sxx ? xs.reduce((total, x, index) => total + (x - meanX) * (values[index] - meanY), 0) / sxx : 0;
+  return { intercept: meanY - slope * meanX, slope, meanX, sxx, n: values.length };
+};
+
+const fitLinear = (values: number[]): FittedModel => {
+  const { intercept, slope, meanX, sxx, n } = regression(values);
+  return {
+    fitted: values.map((_, index) => intercept + slope * index),
+    project: (steps) => Array.from({ length: steps }, (_, step) => intercept + slope * (n + step)),
+    spread: (step, sigma) => sigma * Math.sqrt(1 + 1 / n + (sxx ? (n - 1 + step - meanX) ** 2 / sxx : 0))
+  };
+};
+
+const fitLogLinear = (values: number[]): FittedModel | null => {
+  if (values.some((value) => value <= 0)) return null;
+  const model = fitLinear(values.map(Math.log));
+  return { ...model, logScale: true };
+};
+
+const squaredError = (values: number[], fitted: (number | null)[]) =>
+  fitted.reduce<number>((total, value, index) => total + (value === null ? 0 : (values[index] - value) ** 2), 0);
+
+const runHolt = (values: number[], alpha: number, beta: number) => {
+  let level = values[0];
+  let trend = values[1] - values[0];
+  const fitted: (number | null)[] = [null];
+  for (let index = 1; index < values.length; index++) {
+    fitted.push(level + trend);
+    const previous = level;
+    level = alpha * values[index] + (1 - alpha) * (level + trend);
+    trend = beta * (level - previous) + (1 - beta) * trend;
+  }
+  return { fitted, level, trend };
+};
+
+const fitHolt = (values: number[]): FittedModel => {
+  let best: { sse: number; alpha: number; beta: number; run: ReturnType<typeof runHolt> } | null = null;
+  for (const alpha of GRID) {
+    for (const beta of GRID) {
+      const run = runHolt(values, alpha, beta);
+      const sse = squaredError(values, run.fitted);
+      if (!best || sse < best.sse) best = { sse, alpha, beta, run };
+    }
+  }
+  const { run, alpha, beta } = best as NonNullable<typeof best>;
+  return {
+    fitted: run.fitted,
+    project: (steps) => Array.from({ length: steps }, (_, step) => run.level + run.trend * (step + 1)),
+    spread: smoothingSpread((lead) => alpha * (1 + lead * beta))
+  };
+};
+
+const runHoltWinters = (values: number[], season: number, alpha: number, beta: number, gamma: number) => {
+  let level = mean(values.slice(0, season));
+  let trend = (mean(values.slice(season, season * 2)) - level) / season;
+  const seasonals = values.slice(0, season).map((value) => value - level);
+  const fitted: (number | null)[] = new Array(season).fill(null);
+  for (let index = season; index < values.length; index++) {
+    const seasonal = seasonals[index % season];
+    fitted.push(level + trend + seasonal);
+    const previous = level;
+    level = alpha * (values[index] - seasonal) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previous) + (1 - beta) * trend;
+    seasonals[index % season] = gamma * (values[index] - level) + (1 - gamma) * seasonal;
+  }
+  return { fitted, level, trend, seasonals };
+};
+
+const fitHoltWinters = (values: number[], season: number): FittedModel | null => {
+  if (season < 2 || values.length < season * 2) return null;
+  let best: { sse: number; alpha: number; beta: number; gamma: number; run: ReturnType<typeof runHoltWinters> } | null = null;
+  for (const alpha of GRID) {
+    for (const beta of GRID) {
+      for (const gamma of GRID) {
+        const run = runHoltWinters(values, season, alpha, beta, gamma);
+        const sse = squaredError(values, run.fitted);
+        if (!best || sse < best.sse) best = { sse, alpha, beta, gamma, run };
+      }
+    }
+  }
+  const { run, alpha, beta, gamma } = best as NonNullable<typeof best>;
+  return {
+    fitted: run.fitted,
+    project: (steps) =>
+      Array.from(
+        { length: steps },
+        (_, step) => run.level + run.trend * (step + 1) + run.seasonals[(values.length + step) % season]
+      ),
+    spread: smoothingSpread((lead) => alpha * (1 + lead * beta) + (lead % season === 0 ? gamma * (1 - alpha) : 0))
+  };
+};
+
+const fitMethod = (method: ForecastMethod, values: number[], season: number): FittedModel | null => {
+  if (method === "linear") return fitLinear(values);
+  if (method === "logLinear") return fitLogLinear(values);
+  if (method === "holt") return values.length >= 3 ? fitHolt(values) : null;
+  return fitHoltWinters(values, season);
+};
+
+const predict = (model: FittedModel, steps: number) =>
+  model.project(steps).map((value) => (model.logScale ? Math.exp(value) : value));
+
+const backtest = (method: ForecastMethod, values: number[], season: number, holdout: number): BacktestScore | null => {
+  const model = fitMethod(method, values.slice(0, values.length - holdout), season);
+  if (!model) return null;
+  const actual = values.slice(-holdout);
+  const predicted = predict(model, holdout);
+  const mae = mean(actual.map((value, index) => Math.abs(value - predicted[index])));
+  const scale = mean(actual.map(Math.abs));
+  return { method, mae, wape: scale > 0 ? mae / scale : mae === 0 ? 0 : Infinity };
+};
+
+const forecastMetric = (values: number[], season: number, steps: number, labels: { label: string; startDate: string }[]) => {
+  const holdout = Math.max(1, Math.min(season, Math.floor(values.length / 4)));
+  const methods: ForecastMethod[] = ["linear", "holt", "holtWinters", "logLinear"];
+  const candidates = methods
+    .map((method) => backtest(method, values, season, holdout))
+    .filter((score): score is BacktestScore => score !== null && Number.isFinite(score.wape))
+    .sort((a, b) => a.wape - b.wape || a.mae - b.mae);
+  const chosen = candidates[0]?.method ?? "linear";
+  const model = fitMethod(chosen, values, season) ?? fitLinear(values);
+
+  const target = model.logScale ? values.map(Math.log) : values;
+  const residuals = model.fitted.flatMap((value, index) => (value === null ? [] : [target[index] - value]));
+  const sigma = residuals.length ? Math.sqrt(mean(residuals.map((value) => value * value))) : 0;
+  const transform = (value: number) => (model.logScale ? Math.exp(value) : value);
+
+  return {
+    method: chosen,
+    backtestError: candidates[0]?.wape ?? 0,
+    holdout,
+    candidates,
+    points: model.project(steps).map((center, step) => {
+      const spread = model.spread(step + 1, sigma);
+      return {
+        ...labels[step],
+        value: transform(center),
+        lower80: transform(center - Z80 * spread),
+        upper80: transform(center + Z80 * spread),
+        lower95: transform(center - Z95 * spread),
+        upper95: transform(center + Z95 * spread)
+      };
+    })
+  } satisfies MetricForecast;
+};
+
+export const forecastPeriods = (input: DatedPeriod[], years = 3): StatisticalForecast | null => {
+  if (input.length < MIN_PERIODS) return null;
+  const { granularity, periods } = resolveTimeline(input);
+  const step = monthsPerPeriod[granularity];
+  const season = 12 / step;
+  const steps = years * season;
+  const lastStart = parseIsoDate(periods[periods.length - 1].startDate) as Date;
+  const labels = Array.from({ length: steps }, (_, index) => {
+    const start = new Date(Date.UTC(lastStart.getUTCFullYear(), lastStart.getUTCMonth() + (index + 1) * step, 1));
+    return { label: periodLabel(start, granularity), startDate: start.toISOString().slice(0, 10) };
+  });
+
+  return {
+    granularity,
+    steps,
+    metrics: {
+      revenue: forecastMetric(periods.map((period) => period.revenue), season, steps, labels),
+      netIncome: forecastMetric(periods.map((period) => period.netIncome), season, steps, labels),
+      freeCashFlow: forecastMetric(periods.map((period) => period.freeCashFlow), season, steps, labels)
+    }
+  };
+};
@@ -0,0 +1,159 @@
+import { runAnalysis, type AnalysisPayload, type FinancialPeriod, type ScenarioAssumptions } from "@/lib/analysis";
+import { scenarioMetrics } from "@/lib/scenarios";
+
+export type GoalTarget =
+  | { kind: "scenario"; metric: (typeof scenarioMetrics)[number]; yearIndex: number }
+  | { kind: "healthScore"; key: string }
+  | { kind: "metric"; key: string };
+
+export type AssumptionBounds = Partial<Record<keyof ScenarioAssumptions, [number, number]>>;
+
+export type GoalSeekRequest = {
+  target: GoalTarget;
+  value: number;
+  vary: (keyof ScenarioAssumptions)[];
+  bounds?: AssumptionBounds;
+};
+
+export type GoalSeekResult =
+  | {
+      status: "solved";
+      assumptions: ScenarioAssumptions;
+      shift: number;
+      achieved: number;
+      evaluations: number;
+    }
+  | {
+      status: "infeasible";
+      reason: string;
+      range: { min: number; max: number } | null;
+      evaluations: number;
+    };
+
+export const defaultAssumptionBounds: Record<keyof ScenarioAssumptions, [number, number]> = {
+  revenueGrowth: [-20, 20],
+  marginShift: [-10, 15],
+  efficiencyGain: [-20, 15],
+  cashConversion: [-20, 15]
+};
+
+const SCAN_STEPS = 48;
+const BISECTION_STEPS = 60;
+
+export const readTarget = (payload: AnalysisPayload, target: GoalTarget): number | null => {
+  if (target.kind === "scenario") {
+    const index = target.yearIndex < 0 ? payload.scenario.length + target.yearIndex : target.yearIndex;
+    const value = payload.scenario[index]?.[target.metric];
+    return typeof value === "number" && Number.isFinite(value) ? value : null;
+  }
+
+  const source: Record<string, number> = target.kind === "healthScore" ? payload.healthScores : payload.metrics;
+  const value = source[target.key];
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+};
+
+export const solveForTarget = (
+  periods: FinancialPeriod[],
+  base: ScenarioAssumptions,
+  request: GoalSeekRequest
+): GoalSeekResult => {
+  let evaluations = 0;
+  const bounds = { ...defaultAssumptionBounds, ...request.bounds };
+
+  if (!request.vary.length) {
+    return { status: "infeasible", reason: "Choose at least one assumption to vary.", range: null, evaluations };
+  }
+
+  // Every varied assumption moves by the same shift (in points), so a single scalar search covers any
+  // combination of fields. Only the shift is clamped, never the base: a base already outside its bounds
+  // stays put rather than jumping, which keeps apply(0) equal to the base.
+  const apply = (shift: number): ScenarioAssumptions => {
+    const next = { ...base };
+    for (const key of request.vary) {
+      const [min, max] = bounds[key];
+      next[key] = base[key] + Math.min(Math.max(0, max - base[key]), Math.max(Math.min(0, min - base[key]), shift));
+    }
+    return next;
+  };
+
+  const evaluate = (shift: number) => {
+    evaluations++;
+    const value = readTarget(runAnalysis(periods, apply(shift)), request.target);
+    return value === null ? null : value - request.value;
+  };
+
+  const initial = evaluate(0);
+  if (initial === null) {
+    return { status: "infeasible", reason: "The target metric is not available for this dataset.", range: null, evaluations };
+  }
+
+  const solved = (shift: number, gap: number): GoalSeekResult => ({
+    status: "solved",
+    assumptions: apply(shift),
+    shift,
+    achieved: gap + request.value,
+    evaluations
+  });
+
+  if (initial === 0) return solved(0, 0);
+
+  const maxUp = Math.max(...request.vary.map((key) => bounds[key][1] - base[key]), 0);
+  const maxDown = Math.min(...request.vary.map((key) => bounds[key][0] - base[key]), 0);
+  let low = initial;
+  let high = initial;
+  let best: { shift: number; gap: number } | null = null;
+
+  for (const limit of [maxUp, maxDown]) {
+    let previousShift = 0;
+    let previousGap = initial;
+    for (let step = 1; step <= SCAN_STEPS && limit !== 0; step++) {
+      const shift = (limit * step) / SCAN_STEPS;
+      const gap = evaluate(shift);
+      if (gap === null) continue;
+      low = Math.min(low, gap);
+      high = Math.max(high, gap);
+
+      if (Math.sign(gap) !== Math.sign(previousGap)) {
+        let inner = previousShift;
+        let outer = shift;
+        let innerGap = previousGap;
+        for (let iteration = 0; iteration < BISECTION_STEPS && gap !== 0; iteration++) {
+          const middle = (inner + outer) / 2;
+          const middleGap = evaluate(middle);
+          if (middleGap === null) break;
+          if (Math.sign(middleGap) === Math.sign(innerGap)) {
+            inner = middle;
+            innerGap = middleGap;
+          } else {
+            outer = middle;
+          }
+        }
+        const candidate = gap === 0 ? shift : outer;
+        if (!best || Math.abs(candidate) < Math.abs(best.shift)) best = { shift: candidate, gap: evaluate(candidate) ?? 0 };
+        break;
+      }
+      previousShift = shift;
+      previousGap = gap;
+    }
+  }
+
+  if (best) return solved(best.shift, best.gap);
+
+  if (high - low < 1e-9) {
+    return {
+      status: "infeasible",
+      reason: "The target does not respond to the selected assumptions.",
+      range: { min: low + request.value, max: high + request.value },
+      evaluations
+    };
+  }
+
+  return {
+    status: "infeasible",
+    reason: `Target is out of reach within the allowed assumption ranges (achievable ${(low + request.value).toFixed(
+      2
+    )} to ${(high + request.value).toFixed(2)}).`,
+    range: { min: low + request.value, max: high + request.value },
+    evaluations
+  };
+};
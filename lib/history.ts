@@ -0,0 +1,36 @@
+export type History<T> = {
+  past: T[];
+  present: T;
+  future: T[];
+  lastAt: number;
+};
+
+export const HISTORY_LIMIT = 100;
+
+// Changes closer together than this (a slider drag, typing a figure) collapse into one step.
+const COALESCE_MS = 750;
+
+export const createHistory = <T>(present: T): History<T> => ({ past: [], present, future: [], lastAt: 0 });
+
+export const recordHistory = <T>(history: History<T>, present: T, at: number): History<T> => {
+  if (present === history.present) return history;
+  const coalesce = at - history.lastAt < COALESCE_MS;
+  return {
+    past: coalesce ? history.past : [...history.past, history.present].slice(-HISTORY_LIMIT),
+    present,
+    future: [],
+    lastAt: at
+  };
+};
+
+export const undoHistory = <T>(history: History<T>): History<T> => {
+  const previous = history.past[history.past.length - 1];
+  if (previous === undefined) return history;
+  return { past: history.past.slice(0, -1), present: previous, future: [history.present, ...history.future], lastAt: 0 };
+};
+
+export const redoHistory = <T>(history: History<T>): History<T> => {
+  const [next, ...future] = history.future;
+  if (next === undefined) return history;
+  return { past: [...history.past, history.present], present: next, future, lastAt: 0 };
+};
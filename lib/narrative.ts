@@ -0,0 +1,218 @@
+import type { AnalysisPayload } from "@/lib/analysis";
+
+export type NarrativeInput = Pick<AnalysisPayload, "metrics" | "healthScores" | "riskSignals" | "narrative">;
+
+export type NarrativeProvider = {
+  id: string;
+  label: string;
+  generate: (input: NarrativeInput, signal?: AbortSignal) => AsyncIterable<string>;
+};
+
+export type ChatMessage = { role: "system" | "user"; content: string };
+
+export type OpenAiCompatibleConfig = {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  temperature?: number;
+};
+
+export type GroundingReport = {
+  grounded: boolean;
+  figures: string[];
+  unsupported: string[];
+};
+
+export type NarrativeEvent =
+  | { type: "start"; provider: string }
+  | { type: "delta"; text: string }
+  | { type: "done"; provider: string; text: string; grounding: GroundingReport }
+  | { type: "rejected"; provider: string; grounding: GroundingReport; fallback: string | null }
+  | { type: "error"; message: string };
+
+const figurePattern =
+  /(?<![\w.])[-−]?\$?[-−]?\d+(?:,\d{3})*(?:\.\d+)?(?:\s?(?:%|×)|\s?(?:pp|bps|x|k|m|mn|million|b|bn|billion|thousand)\b)?/gi;
+
+const suffixScale = (suffix: string) => {
+  const unit = suffix.trim().toLowerCase();
+  if (unit === "bps") return 0.01;
+  if (unit === "k" || unit === "thousand") return 1e3;
+  if (unit === "m" || unit === "mn" || unit === "million") return 1e6;
+  if (unit === "b" || unit === "bn" || unit === "billion") return 1e9;
+  return 1;
+};
+
+const percentUnits = new Set(["%", "pp", "bps"]);
+
+type Figure = { text: string; value: number; tolerance: number; percent: boolean };
+
+// The tolerance is half a unit in the last quoted digit, so "12%" covers 11.5–12.5 and "12.4%" covers 12.35–12.45.
+export const extractFigures = (text: string): Figure[] =>
+  Array.from(text.matchAll(figurePattern), ([match]) => {
+    const [, before = "", after = "", digits = "", suffix = ""] =
+      match.match(/^([-−]?)\$?([-−]?)([\d,]+(?:\.\d+)?)(.*)$/) ?? [];
+    const decimals = digits.split(".")[1]?.length ?? 0;
+    const scale = suffixScale(suffix);
+    const sign = before || after ? -1 : 1;
+    return {
+      text: match.trim(),
+      value: sign * Number(digits.replace(/,/g, "")) * scale,
+      tolerance: 0.5 * 10 ** -decimals * scale + 1e-9,
+      percent: percentUnits.has(suffix.trim().toLowerCase())
+    };
+  });
+
+// Ratios are stored as fractions but quoted as percentages, so percentage figures are checked against
+// each payload value scaled by 100 and every other figure against the value as-is. Signs are kept:
+// a margin of -4% does not ground a quoted 4%.
+const groundingValues = (input: NarrativeInput) => {
+  const values = [...Object.values(input.metrics), ...Object.values(input.healthScores)].filter(
+    (value): value is number => typeof value === "number" && Number.isFinite(value)
+  );
+  const quoted = input.riskSignals.flatMap((signal) => extractFigures(signal));
+  return {
+    plain: [...values, ...quoted.filter((figure) => !figure.percent).map((figure) => figure.value)],
+    percent: [...values.map((value) => value * 100), ...quoted.filter((figure) => figure.percent).map((figure) => figure.value)]
+  };
+};
+
+export const checkGrounding = (text: string, input: NarrativeInput): GroundingReport => {
+  const allowed = groundingValues(input);
+  const figures = extractFigures(text);
+  const unsupported = figures
+    .filter((figure) =>
+      !(figure.percent ? allowed.percent : allowed.plain).some((value) => Math.abs(value - figure.value) <= figure.tolerance)
+    )
+    .map((figure) => figure.text);
+  return { grounded: unsupported.length === 0, figures: figures.map((figure) => figure.text), unsupported };
+};
+
+const describe = (value: number) => `${Number(value.toFixed(4))} (${Number((value * 100).toFixed(2))}%)`;
+
+export const buildNarrativePrompt = (input: NarrativeInput): ChatMessage[] => [
+  {
+    role: "system",
+    content: [
+      "You are a financial analyst writing the strategic narrative for a board pack.",
+      "Write one paragraph of three to five sentences in plain prose, without headings or lists.",
+      "Only quote figures that appear in the data provided, rounded as given or to fewer decimals.",
+      "Do not introduce dates, years, counts, targets or any other number that is not in the data."
+    ].join(" ")
+  },
+  {
+    role: "user",
+    content: [
+      "Metrics (fractions, with the percentage equivalent in brackets):",
+      ...Object.entries(input.metrics).map(([key, value]) => `- ${key}: ${describe(value)}`),
+      "",
+      "Health scores (0-100):",
+      ...Object.entries(input.healthScores).map(([key, value]) => `- ${key}: ${Number(value.toFixed(1))}`),
+      "",
+      "Risk signals:",
+      ...(input.riskSignals.length ? input.riskSignals.map((signal) => `- ${signal}`) : ["- none"])
+    ].join("\n")
+  }
+];
+
+export const templateProvider: NarrativeProvider = {
+  id: "template",
+  label: "Template",
+  async *generate(input) {
+    for (const sentence of input.narrative.match(/[^.!?]+[.!?]*\s*/g) ?? []) yield sentence;
+  }
+};
+
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split("\n");
+    buffer = done ? "" : lines.pop() ?? "";
+    for (const line of lines) {
+      if (line.startsWith("data:")) yield line.slice(5).trim();
+    }
+    if (done) return;
+  }
+}
+
+export const createOpenAiCompatibleProvider = (config: OpenAiCompatibleConfig): NarrativeProvider => ({
+  id: "openai",
+  label: `LLM (${config.model})`,
+  async *generate(input, signal) {
+    const response = await fetch(`${config.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: config.model,
+        messages: buildNarrativePrompt(input),
+        temperature: config.temperature ?? 0.2,
+        stream: true
+      }),
+      signal
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Narrative endpoint responded with ${response.status}.`);
+    }
+
+    for await (const data of readServerSentEvents(response.body)) {
+      if (data === "[DONE]") return;
+      const chunk = JSON.parse(data) as { choices?: { delta?: { content?: string } }[] };
+      const text = chunk.choices?.[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+});
+
+export const narrativeProviders = (env: Record<string, string | undefined> = process.env): NarrativeProvider[] =>
+  env.AURORA_LLM_BASE_URL
+    ? [
+        templateProvider,
+        createOpenAiCompatibleProvider({
+          baseUrl: env.AURORA_LLM_BASE_URL,
+          model: env.AURORA_LLM_MODEL ?? "gpt-4o-mini",
+          apiKey: env.AURORA_LLM_API_KEY
+        })
+      ]
+    : [templateProvider];
+
+export const resolveNarrativeProvider = (id: string | undefined, env: Record<string, string | undefined> = process.env) => {
+  const providers = narrativeProviders(env);
+  const requested = id ?? env.AURORA_NARRATIVE_PROVIDER;
+  return providers.find((provider) => provider.id === requested) ?? providers[0];
+};
+
+export async function* streamNarrative(
+  provider: NarrativeProvider,
+  input: NarrativeInput,
+  signal?: AbortSignal
+): AsyncGenerator<NarrativeEvent> {
+  yield { type: "start", provider: provider.id };
+  let text = "";
+  try {
+    for await (const delta of provider.generate(input, signal)) {
+      text += delta;
+      yield { type: "delta", text: delta };
+    }
+  } catch (error) {
+    if (signal?.aborted) return;
+    yield { type: "error", message: error instanceof Error ? error.message : "Narrative generation failed." };
+    return;
+  }
+
+  const grounding = checkGrounding(text, input);
+  if (grounding.grounded) {
+    yield { type: "done", provider: provider.id, text, grounding };
+    return;
+  }
+
+  const fallback =
+    provider.id !== templateProvider.id && checkGrounding(input.narrative, input).grounded ? input.narrative : null;
+  yield { type: "rejected", provider: provider.id, grounding, fallback };
+}
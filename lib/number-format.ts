@@ -0,0 +1,139 @@
+import { unitScales, type DatasetUnits } from "@/lib/currency";
+
+export const DEFAULT_LOCALE = "en-US";
+
+export const LOCALE_STORAGE_KEY = "aurora.locale";
+
+export const supportedLocales: { locale: string; label: string }[] = [
+  { locale: "en-US", label: "English (US)" },
+  { locale: "en-GB", label: "English (UK)" },
+  { locale: "en-IN", label: "English (India)" },
+  { locale: "de-DE", label: "Deutsch" },
+  { locale: "de-CH", label: "Deutsch (Schweiz)" },
+  { locale: "fr-FR", label: "Français" },
+  { locale: "es-ES", label: "Español" },
+  { locale: "it-IT", label: "Italiano" },
+  { locale: "nl-NL", label: "Nederlands" },
+  { locale: "pt-BR", label: "Português (Brasil)" },
+  { locale: "sv-SE", label: "Svenska" },
+  { locale: "ja-JP", label: "日本語" }
+];
+
+const magnitudeSuffixes: Record<string, number> = {
+  k: 1_000,
+  m: 1_000_000,
+  mm: 1_000_000,
+  mn: 1_000_000,
+  mio: 1_000_000,
+  b: 1_000_000_000,
+  bn: 1_000_000_000,
+  mrd: 1_000_000_000
+};
+
+const separatorCache = new Map<string, { group: string; decimal: string }>();
+
+export const localeSeparators = (locale: string) => {
+  const cached = separatorCache.get(locale);
+  if (cached) return cached;
+  const parts = new Intl.NumberFormat(locale).formatToParts(1234567.5);
+  const separators = {
+    group: parts.find((part) => part.type === "group")?.value ?? ",",
+    decimal: parts.find((part) => part.type === "decimal")?.value ?? "."
+  };
+  separatorCache.set(locale, separators);
+  return separators;
+};
+
+export const matchLocale = (preferred: readonly string[]) =>
+  preferred
+    .map(
+      (tag) =>
+        supportedLocales.find(({ locale }) => locale === tag) ??
+        supportedLocales.find(({ locale }) => locale.split("-")[0] === tag.split("-")[0])
+    )
+    .find(Boolean)?.locale ?? DEFAULT_LOCALE;
+
+// Which of "." and "," is the decimal mark. When both appear the last one wins; a lone
+// separator follows the locale unless it is the locale's grouping character followed by
+// exactly three digits, so "1.234" is 1234 in de-DE but 1.5 stays 1.5 everywhere.
+const decimalMark = (value: string, locale: string) => {
+  const lastDot = value.lastIndexOf(".");
+  const lastComma = value.lastIndexOf(",");
+  if (lastDot >= 0 && lastComma >= 0) return lastDot > lastComma ? "." : ",";
+
+  const mark = lastDot >= 0 ? "." : lastComma >= 0 ? "," : null;
+  if (!mark || value.indexOf(mark) !== value.lastIndexOf(mark)) return null;
+  if (mark === localeSeparators(locale).decimal) return mark;
+  return value.length - value.lastIndexOf(mark) - 1 === 3 ? null : mark;
+};
+
+// Parses what people type or paste from statements: locale grouping and decimals, currency
+// symbols or codes, accounting negatives "(500)" and "500-", and k/m/bn (or Mio/Mrd) suffixes.
+export const parseLocaleNumber = (raw: string, locale = DEFAULT_LOCALE): number | null => {
+  let value = raw.replace(/\s/g, "").replace(/\u2212/g, "-");
+  if (!value || /^[-–—]+$/.test(value)) return null;
+
+  value = value.replace(/[$€£¥₹%'’]/g, "").replace(/^[A-Z]{3}/, "");
+  const code = /[A-Z]{3}$/.exec(value)?.[0];
+  if (code && !(code.toLowerCase() in magnitudeSuffixes)) value = value.slice(0, -3);
+
+  let negative = false;
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+  if (value.endsWith("-")) {
+    negative = !negative;
+    value = value.slice(0, -1);
+  }
+  if (value.startsWith("-") || value.startsWith("+")) {
+    if (value.startsWith("-")) negative = !negative;
+    value = value.slice(1);
+  }
+
+  let multiplier = 1;
+  const suffix = /^(.*?\d)(k|mm|mn|mio|m|bn|b|mrd)$/i.exec(value);
+  if (suffix) {
+    value = suffix[1];
+    multiplier = magnitudeSuffixes[suffix[2].toLowerCase()];
+  }
+
+  if (!/^[\d.,]*\d[\d.,]*$/.test(value)) return null;
+  const mark = decimalMark(value, locale);
+  const [whole, fraction = ""] = mark ? [value.slice(0, value.lastIndexOf(mark)), value.slice(value.lastIndexOf(mark) + 1)] : [value];
+  const parsed = Number(`${whole.replace(/[.,]/g, "") || "0"}.${fraction.replace(/[.,]/g, "") || "0"}`);
+  if (!Number.isFinite(parsed)) return null;
+  return (negative ? -parsed : parsed) * multiplier;
+};
+
+export type NumberFormatters = {
+  amount: (value: number) => string;
+  percent: (value: number) => string;
+  plain: (value: number) => string;
+};
+
+// `amount` takes values in the dataset's unit scale and shows them in full currency terms, so
+// 1,250 entered in thousands of EUR reads as €1.3M in en-US and 1,3 Mio. € in de-DE.
+export const createFormatters = (locale: string, units: DatasetUnits): NumberFormatters => {
+  const factor = unitScales[units.scale].factor;
+  const compact = new Intl.NumberFormat(locale, { notation: "compact", maximumFractionDigits: 1 });
+  let currency: Intl.NumberFormat | null = null;
+  try {
+    currency = new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency: units.currency,
+      notation: "compact",
+      maximumFractionDigits: 1
+    });
+  } catch {
+    currency = null;
+  }
+  const percent = new Intl.NumberFormat(locale, { style: "percent", maximumFractionDigits: 1 });
+  const plain = new Intl.NumberFormat(locale, { maximumFractionDigits: 6 });
+
+  return {
+    amount: (value) => (currency ? currency.format(value * factor) : `${compact.format(value * factor)} ${units.currency}`),
+    percent: (value) => percent.format(value),
+    plain: (value) => plain.format(value)
+  };
+};
@@ -0,0 +1,390 @@
+import { defaultAssumptions, defaultPeriods } from "@/lib/sample-data";
+import { apiErrors, type ApiErrorCode } from "@/lib/api-errors";
+import { bundledCohorts } from "@/lib/benchmark-cohorts";
+import { defaultDatasetUnits, unitScales } from "@/lib/currency";
+import { granularities, lineItemFields, periodFields, type DatedPeriod } from "@/lib/period-fields";
+import { defaultProjectionOptions } from "@/lib/periodicity";
+import { runAnalysisPipeline } from "@/lib/pipeline";
+import { defaultRiskRules, riskComparators, riskSeverities } from "@/lib/risk-rules";
+import { defaultRunwayOptions } from "@/lib/runway";
+import { assumptionKeys } from "@/lib/scenarios";
+import {
+  anomalyTreatments,
+  CURRENCY_CODE,
+  distributionFields,
+  normalizeAnalysisRequest,
+  projectionHorizonLimits,
+  runwayLimits,
+  terminalMethods,
+  valuationNumberFields
+} from "@/lib/validation";
+import { defaultValuationInputs } from "@/lib/valuation";
+
+export const API_VERSION = "1.0.0";
+
+type Schema = Record<string, unknown>;
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+
+const numbers = (keys: readonly string[], defaults: Record<string, unknown> = {}): Record<string, Schema> =>
+  Object.fromEntries(
+    keys.map((key) => [key, { type: "number", ...(defaults[key] !== undefined ? { default: defaults[key] } : {}) }])
+  );
+
+const nullableRef = (name: string, description: string): Schema => ({ allOf: [ref(name)], nullable: true, description });
+
+// Response shapes are inferred from live pipeline runs, so the document follows the code without a
+// parallel hand-written schema. A null only marks a field nullable; its type comes from a run
+// where the field is set (see mergeSchemas).
+const inferSchema = (value: unknown): Schema => {
+  if (value === null) return { nullable: true };
+  if (Array.isArray(value)) return { type: "array", items: value.length ? inferSchema(value[0]) : {} };
+  if (typeof value === "object") {
+    return {
+      type: "object",
+      properties: Object.fromEntries(Object.entries(value as Record<string, unknown>).map(([key, entry]) => [key, inferSchema(entry)]))
+    };
+  }
+  return { type: typeof value === "number" ? "number" : typeof value === "boolean" ? "boolean" : "string" };
+};
+
+const mergeSchemas = (a: Schema, b: Schema): Schema => {
+  if (!a.type) return a.nullable ? { ...b, nullable: true } : b;
+  if (!b.type) return b.nullable ? { ...a, nullable: true } : a;
+  const nullable = a.nullable || b.nullable ? { nullable: true } : {};
+  if (a.type === "array" && b.type === "array") {
+    return { ...a, items: mergeSchemas(a.items as Schema, b.items as Schema), ...nullable };
+  }
+  if (a.type === "object" && b.type === "object") {
+    const left = a.properties as Record<string, Schema>;
+    const right = b.properties as Record<string, Schema>;
+    const keys = Array.from(new Set([...Object.keys(left), ...Object.keys(right)]));
+    return {
+      ...a,
+      properties: Object.fromEntries(
+        keys.map((key) => [key, left[key] && right[key] ? mergeSchemas(left[key], right[key]) : left[key] ?? right[key]])
+      ),
+      ...nullable
+    };
+  }
+  return { ...a, ...nullable };
+};
+
+// Quarterly periods with every line item, a cash burn, an exclusion and a cohort, so fields that
+// stay null on the annual sample (forecast, runway dates, ratios, benchmark) are set here.
+const detailedRequest = () => {
+  const last = defaultPeriods[defaultPeriods.length - 1];
+  const periods: DatedPeriod[] = Array.from({ length: 8 }, (_, index) => {
+    const revenue = (last.revenue / 4) * (1 + index * 0.03);
+    return {
+      ...last,
+      label: `Q${(index % 4) + 1} ${2022 + Math.floor(index / 4)}`,
+      startDate: `${2022 + Math.floor(index / 4)}-${String((index % 4) * 3 + 1).padStart(2, "0")}-01`,
+      granularity: "quarter",
+      revenue,
+      cogs: revenue * 0.4,
+      operatingExpenses: revenue * 0.35,
+      netIncome: revenue * 0.05,
+      freeCashFlow: -revenue * 0.2,
+      cash: last.cash * (1 - index * 0.1),
+      ...Object.fromEntries(lineItemFields.map(({ key }) => [key, revenue * 0.1]))
+    };
+  });
+  return normalizeAnalysisRequest({
+    periods,
+    assumptions: defaultAssumptions,
+    valuation: { ...defaultValuationInputs, method: "multiple" },
+    runway: { ...defaultRunwayOptions, financing: { amount: 1_000_000, month: 6 } },
+    adjustments: { [periods[0].label]: "exclude" }
+  });
+};
+
+const sampleResponse = () => {
+  const annual = normalizeAnalysisRequest({
+    periods: defaultPeriods,
+    assumptions: defaultAssumptions,
+    valuation: defaultValuationInputs,
+    runway: { ...defaultRunwayOptions, financing: { amount: 1_000_000, month: 6 } }
+  });
+  const [first, second] = [
+    runAnalysisPipeline(annual, defaultRiskRules),
+    runAnalysisPipeline(detailedRequest(), defaultRiskRules, bundledCohorts[0] ?? null)
+  ].map(({ trace: _trace, riskContext: _riskContext, ...rest }) => inferSchema(rest));
+  const schema = mergeSchemas(first, second) as { properties: Record<string, Schema> };
+  schema.properties.trace = {
+    type: "object",
+    description: "Calculation trace per metric and score key.",
+    additionalProperties: { type: "object" }
+  };
+  schema.properties.riskContext = {
+    type: "object",
+    description: "Every metric available to risk rules, keyed by rule metric path.",
+    additionalProperties: { type: "number" }
+  };
+  return schema;
+};
+
+const requestSchemas = (): Record<string, Schema> => ({
+  Period: {
+    type: "object",
+    required: ["label", ...periodFields.map(({ key }) => key)],
+    properties: {
+      label: { type: "string", example: "FY2024" },
+      startDate: { type: "string", format: "date" },
+      endDate: { type: "string", format: "date" },
+      granularity: { type: "string", enum: granularities },
+      ...numbers(periodFields.map(({ key }) => key)),
+      ...numbers(lineItemFields.map(({ key }) => key))
+    }
+  },
+  ScenarioAssumptions: {
+    type: "object",
+    description: "Percentage-point adjustments applied to the historical trend.",
+    properties: numbers(assumptionKeys)
+  },
+  Scenario: {
+    type: "object",
+    required: ["name", "assumptions"],
+    properties: {
+      id: { type: "string" },
+      name: { type: "string" },
+      assumptions: ref("ScenarioAssumptions"),
+      distributions: {
+        type: "object",
+        description: "Optional distribution per assumption for simulation.",
+        properties: Object.fromEntries(assumptionKeys.map((key) => [key, ref("Distribution")]))
+      }
+    }
+  },
+  Distribution: {
+    oneOf: Object.entries(distributionFields).map(([kind, fields]) => ({
+      type: "object",
+      required: ["kind", ...fields],
+      properties: { kind: { type: "string", enum: [kind] }, ...numbers(Array.from(new Set([...fields, "min", "max"]))) }
+    }))
+  },
+  ValuationInputs: {
+    type: "object",
+    properties: {
+      ...numbers(valuationNumberFields, defaultValuationInputs),
+      method: { type: "string", enum: terminalMethods, default: defaultValuationInputs.method }
+    }
+  },
+  ProjectionOptions: {
+    type: "object",
+    properties: {
+      horizonMonths: {
+        type: "integer",
+        minimum: projectionHorizonLimits[0],
+        maximum: projectionHorizonLimits[1],
+        default: defaultProjectionOptions.horizonMonths
+      },
+      frequency: { type: "string", enum: granularities, default: defaultProjectionOptions.frequency }
+    }
+  },
+  RunwayOptions: {
+    type: "object",
+    properties: {
+      ...Object.fromEntries(
+        Object.entries(runwayLimits).map(([key, [minimum, maximum]]) => [
+          key,
+          { type: "number", minimum, maximum, default: defaultRunwayOptions[key as keyof typeof runwayLimits] }
+        ])
+      ),
+      financing: {
+        type: "object",
+        nullable: true,
+        required: ["amount", "month"],
+        properties: { amount: { type: "number", minimum: 0 }, month: { type: "integer", minimum: 1 } }
+      }
+    }
+  },
+  RiskRule: {
+    type: "object",
+    required: ["id", "metric", "comparator", "threshold", "severity", "message"],
+    properties: {
+      id: { type: "string" },
+      metric: { type: "string", example: "metrics.netMargin" },
+      comparator: { type: "string", enum: Object.keys(riskComparators) },
+      threshold: { type: "number" },
+      severity: { type: "string", enum: riskSeverities },
+      message: { type: "string" },
+      enabled: { type: "boolean", default: true }
+    }
+  },
+  DatasetUnits: {
+    type: "object",
+    required: ["currency"],
+    properties: {
+      currency: { type: "string", pattern: CURRENCY_CODE.source, default: defaultDatasetUnits.currency },
+      scale: { type: "string", enum: Object.keys(unitScales), default: defaultDatasetUnits.scale }
+    }
+  },
+  ReportingOptions: {
+    type: "object",
+    required: ["currency", "rates"],
+    properties: {
+      currency: { type: "string", pattern: CURRENCY_CODE.source },
+      scale: { type: "string", enum: Object.keys(unitScales), default: "units" },
+      rates: {
+        type: "object",
+        description: "Reporting-currency units per one unit of each keyed currency.",
+        additionalProperties: { type: "number", exclusiveMinimum: 0 },
+        example: { EUR: 1.08 }
+      }
+    }
+  },
+  AnalysisRequest: {
+    type: "object",
+    required: ["periods"],
+    properties: {
+      periods: { type: "array", items: ref("Period"), minItems: 1 },
+      units: ref("DatasetUnits"),
+      reporting: nullableRef("ReportingOptions", "Convert results into this currency; null or omitted keeps the dataset's."),
+      assumptions: ref("ScenarioAssumptions"),
+      scenarios: { type: "array", items: ref("Scenario") },
+      planId: { type: "string" },
+      valuation: nullableRef("ValuationInputs", "Run a DCF valuation; null or omitted skips it."),
+      projection: ref("ProjectionOptions"),
+      runway: ref("RunwayOptions"),
+      riskRules: { type: "array", items: ref("RiskRule") },
+      workspaceId: { type: "string", description: "Use this workspace's saved risk rules when riskRules is omitted." },
+      benchmark: {
+        description: "A saved cohort id or an inline cohort object; null or omitted skips benchmarking.",
+        nullable: true,
+        oneOf: [{ type: "string" }, { type: "object" }]
+      },
+      adjustments: {
+        type: "object",
+        description: "Per-period anomaly treatment keyed by period label.",
+        additionalProperties: { type: "string", enum: anomalyTreatments }
+      }
+    }
+  },
+  ValidationIssue: {
+    type: "object",
+    required: ["severity", "code", "message", "scope"],
+    properties: {
+      severity: { type: "string", enum: ["error", "warning"] },
+      code: { type: "string" },
+      message: { type: "string" },
+      scope: { type: "string" },
+      periodIndex: { type: "integer" },
+      scenarioId: { type: "string" },
+      field: { type: "string" }
+    }
+  },
+  Error: {
+    type: "object",
+    required: ["requestId", "error"],
+    properties: {
+      requestId: { type: "string" },
+      error: {
+        type: "object",
+        required: ["code", "message"],
+        properties: {
+          code: { type: "string", enum: Object.keys(apiErrors) },
+          message: { type: "string" },
+          issues: { type: "array", items: ref("ValidationIssue") }
+        }
+      }
+    }
+  }
+});
+
+const errorResponses = () => {
+  const byStatus = new Map<number, ApiErrorCode[]>();
+  for (const [code, { status }] of Object.entries(apiErrors) as [ApiErrorCode, { status: number }][]) {
+    byStatus.set(status, [...(byStatus.get(status) ?? []), code]);
+  }
+  return Object.fromEntries(
+    Array.from(byStatus.entries()).map(([status, codes]) => [
+      `${status}`,
+      {
+        description: codes.map((code) => `\`${code}\`: ${apiErrors[code].description}`).join("\n"),
+        headers: { "X-Request-Id": { $ref: "#/components/headers/RequestId" } },
+        content: { "application/json": { schema: ref("Error") } }
+      }
+    ])
+  );
+};
+
+export const buildOpenApiDocument = () => ({
+  openapi: "3.0.3",
+  info: {
+    title: "Aurora Financial Analysis API",
+    version: API_VERSION,
+    description:
+      "Authenticate with `Authorization: Bearer <key>` or `X-API-Key`. Send `Idempotency-Key` (or `X-Request-Id`) to retry safely: a repeated id with the same body replays the stored response for 24 hours."
+  },
+  servers: [{ url: "/" }],
+  security: [{ BearerAuth: [] }, { ApiKeyHeader: [] }],
+  paths: {
+    "/api/v1/analyze": {
+      post: {
+        operationId: "analyze",
+        summary: "Run the full analysis pipeline for a set of periods.",
+        parameters: [
+          { $ref: "#/components/parameters/IdempotencyKey" },
+          { $ref: "#/components/parameters/RequestId" }
+        ],
+        requestBody: { required: true, content: { "application/json": { schema: ref("AnalysisRequest") } } },
+        responses: {
+          "200": {
+            description: "Analysis result.",
+            headers: {
+              "X-Request-Id": { $ref: "#/components/headers/RequestId" },
+              "X-RateLimit-Limit": { schema: { type: "integer" }, description: "Requests allowed per minute." },
+              "X-RateLimit-Remaining": { schema: { type: "integer" } },
+              "X-RateLimit-Reset": { schema: { type: "integer" }, description: "Seconds until the allowance is full again." },
+              "Idempotent-Replayed": { schema: { type: "string", enum: ["true"] } }
+            },
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["requestId", "data"],
+                  properties: { requestId: { type: "string" }, data: ref("AnalysisResponse") }
+                }
+              }
+            }
+          },
+          ...errorResponses()
+        }
+      }
+    },
+    "/api/v1/openapi": {
+      get: {
+        operationId: "openapi",
+        summary: "This document.",
+        security: [],
+        responses: { "200": { description: "OpenAPI 3 document.", content: { "application/json": { schema: { type: "object" } } } } }
+      }
+    }
+  },
+  components: {
+    securitySchemes: {
+      BearerAuth: { type: "http", scheme: "bearer" },
+      ApiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" }
+    },
+    parameters: {
+      IdempotencyKey: {
+        name: "Idempotency-Key",
+        in: "header",
+        required: false,
+        schema: { type: "string", pattern: "^[A-Za-z0-9._:-]{1,128}$" }
+      },
+      RequestId: {
+        name: "X-Request-Id",
+        in: "header",
+        required: false,
+        description: "Used when Idempotency-Key is absent.",
+        schema: { type: "string", pattern: "^[A-Za-z0-9._:-]{1,128}$" }
+      }
+    },
+    headers: {
+      RequestId: { description: "The supplied or generated request id.", schema: { type: "string" } }
+    },
+    schemas: { ...requestSchemas(), AnalysisResponse: sampleResponse() }
+  }
+});
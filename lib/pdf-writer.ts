@@ -0,0 +1,207 @@
+export type PdfColor = [number, number, number];
+
+export type TextOptions = {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+  align?: "left" | "right" | "center";
+};
+
+export type ShapeOptions = {
+  stroke?: PdfColor;
+  fill?: PdfColor;
+  width?: number;
+  dash?: number[];
+};
+
+export type PdfCanvas = {
+  width: number;
+  height: number;
+  text: (x: number, y: number, value: string, options?: TextOptions) => void;
+  line: (x1: number, y1: number, x2: number, y2: number, options?: ShapeOptions) => void;
+  rect: (x: number, y: number, width: number, height: number, options?: ShapeOptions) => void;
+  polyline: (points: [number, number][], options?: ShapeOptions) => void;
+};
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+
+// Helvetica advance widths (1/1000 em) for printable ASCII, from the standard AFM metrics.
+const helveticaWidths = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584
+];
+
+const winAnsi: Record<string, number> = {
+  "€": 0x80,
+  "‚": 0x82,
+  "„": 0x84,
+  "…": 0x85,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "™": 0x99
+};
+
+const replacements: Record<string, string> = {
+  "−": "-",
+  "→": "->",
+  "←": "<-",
+  "≤": "<=",
+  "≥": ">=",
+  "≈": "~",
+  "σ": "s",
+  "×": "x",
+  "₹": "Rs"
+};
+
+export const toWinAnsi = (value: string) =>
+  Array.from(value)
+    .map((char) => replacements[char] ?? char)
+    .join("")
+    .split("")
+    .map((char) => {
+      const code = char.charCodeAt(0);
+      if (winAnsi[char]) return String.fromCharCode(winAnsi[char]);
+      return code < 256 ? char : "?";
+    })
+    .join("");
+
+export const measureText = (value: string, size: number, bold = false) => {
+  let total = 0;
+  for (const char of toWinAnsi(value)) {
+    const code = char.charCodeAt(0);
+    total += code >= 32 && code <= 126 ? helveticaWidths[code - 32] : 556;
+  }
+  return (total / 1000) * size * (bold ? 1.06 : 1);
+};
+
+export const wrapText = (value: string, maxWidth: number, size: number, bold = false) => {
+  const lines: string[] = [];
+  for (const paragraph of value.split(/\n/)) {
+    let current = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (current && measureText(candidate, size, bold) > maxWidth) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    }
+    lines.push(current);
+  }
+  return lines;
+};
+
+const escapeText = (value: string) => toWinAnsi(value).replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)");
+
+const num = (value: number) => (Math.round(value * 100) / 100).toString();
+
+const color = ([r, g, b]: PdfColor) => `${num(r / 255)} ${num(g / 255)} ${num(b / 255)}`;
+
+export const createPdfDocument = () => {
+  const pages: string[][] = [];
+
+  const addPage = (): PdfCanvas => {
+    const ops: string[] = [];
+    pages.push(ops);
+    const flip = (y: number) => PAGE_HEIGHT - y;
+
+    const applyShape = (options: ShapeOptions) => {
+      ops.push(`${num(options.width ?? 1)} w`);
+      ops.push(options.dash ? `[${options.dash.map(num).join(" ")}] 0 d` : "[] 0 d");
+      if (options.stroke) ops.push(`${color(options.stroke)} RG`);
+      if (options.fill) ops.push(`${color(options.fill)} rg`);
+    };
+
+    const paint = (options: ShapeOptions, closed: boolean) => {
+      if (options.fill && options.stroke) return closed ? "B" : "S";
+      if (options.fill) return "f";
+      return "S";
+    };
+
+    return {
+      width: PAGE_WIDTH,
+      height: PAGE_HEIGHT,
+      text: (x, y, value, options = {}) => {
+        const size = options.size ?? 10;
+        const width = measureText(value, size, options.bold);
+        const left = options.align === "right" ? x - width : options.align === "center" ? x - width / 2 : x;
+        ops.push(
+          `BT /${options.bold ? "F2" : "F1"} ${num(size)} Tf ${color(options.color ?? [15, 23, 42])} rg ${num(left)} ${num(
+            flip(y)
+          )} Td (${escapeText(value)}) Tj ET`
+        );
+      },
+      line: (x1, y1, x2, y2, options = {}) => {
+        ops.push("q");
+        applyShape({ stroke: [148, 163, 184], ...options });
+        ops.push(`${num(x1)} ${num(flip(y1))} m ${num(x2)} ${num(flip(y2))} l S`, "Q");
+      },
+      rect: (x, y, width, height, options = {}) => {
+        ops.push("q");
+        applyShape(options);
+        ops.push(`${num(x)} ${num(flip(y + height))} ${num(width)} ${num(height)} re ${paint(options, true)}`, "Q");
+      },
+      polyline: (points, options = {}) => {
+        if (points.length < 2) return;
+        ops.push("q");
+        applyShape({ stroke: [14, 110, 219], ...options });
+        const [first, ...rest] = points;
+        ops.push(
+          `${num(first[0])} ${num(flip(first[1]))} m ${rest.map(([x, y]) => `${num(x)} ${num(flip(y))} l`).join(" ")} S`,
+          "Q"
+        );
+      }
+    };
+  };
+
+  const toBytes = () => {
+    const objects: string[] = [];
+    const fontRegular = 3;
+    const fontBold = 4;
+    const pageIds = pages.map((_, index) => 5 + index * 2);
+
+    objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+    objects[fontRegular] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+    objects[fontBold] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+
+    pages.forEach((ops, index) => {
+      const pageId = pageIds[index];
+      const stream = ops.join("\n");
+      objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 ${fontRegular} 0 R /F2 ${fontBold} 0 R >> >> /Contents ${
+        pageId + 1
+      } 0 R >>`;
+      objects[pageId + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+    });
+
+    let output = "%PDF-1.4\n%âãÏÓ\n";
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xref = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${offsets[id].toString().padStart(10, "0")} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(output.length);
+    for (let index = 0; index < output.length; index++) bytes[index] = output.charCodeAt(index) & 0xff;
+    return bytes;
+  };
+
+  return { addPage, toBytes };
+};
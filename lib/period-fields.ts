@@ -0,0 +1,89 @@
+import type { FinancialPeriod } from "@/lib/analysis";
+
+export type PeriodField = Exclude<keyof FinancialPeriod, "label">;
+
+export type PeriodGranularity = "month" | "quarter" | "year";
+
+export type PeriodTiming = {
+  startDate: string;
+  endDate: string;
+  granularity: PeriodGranularity;
+};
+
+export type LineItemField =
+  | "receivables"
+  | "inventory"
+  | "payables"
+  | "currentDebt"
+  | "longTermDebt"
+  | "capex"
+  | "depreciation"
+  | "interestExpense"
+  | "taxes";
+
+export type StatementLineItems = Partial<Record<LineItemField, number>>;
+
+export type LineItemSection = {
+  id: "workingCapital" | "debt" | "cashFlow";
+  label: string;
+  fields: { key: LineItemField; label: string }[];
+};
+
+export type DatedPeriod = FinancialPeriod & StatementLineItems & Partial<PeriodTiming>;
+
+export const granularities: PeriodGranularity[] = ["month", "quarter", "year"];
+
+export const periodFields: { key: PeriodField; label: string }[] = [
+  { key: "revenue", label: "Revenue" },
+  { key: "cogs", label: "COGS" },
+  { key: "operatingExpenses", label: "OpEx" },
+  { key: "netIncome", label: "Net Income" },
+  { key: "assets", label: "Assets" },
+  { key: "liabilities", label: "Liabilities" },
+  { key: "cash", label: "Cash" },
+  { key: "freeCashFlow", label: "Free Cash Flow" }
+];
+
+export const lineItemSections: LineItemSection[] = [
+  {
+    id: "workingCapital",
+    label: "Working capital",
+    fields: [
+      { key: "receivables", label: "Receivables" },
+      { key: "inventory", label: "Inventory" },
+      { key: "payables", label: "Payables" }
+    ]
+  },
+  {
+    id: "debt",
+    label: "Debt & interest",
+    fields: [
+      { key: "currentDebt", label: "Current Debt" },
+      { key: "longTermDebt", label: "Long-term Debt" },
+      { key: "interestExpense", label: "Interest" }
+    ]
+  },
+  {
+    id: "cashFlow",
+    label: "Capex, D&A & tax",
+    fields: [
+      { key: "capex", label: "Capex" },
+      { key: "depreciation", label: "D&A" },
+      { key: "taxes", label: "Taxes" }
+    ]
+  }
+];
+
+export const lineItemFields = lineItemSections.flatMap((section) => section.fields);
+
+export const emptyPeriod = (): FinancialPeriod => ({
+  label: "",
+  revenue: 0,
+  cogs: 0,
+  operatingExpenses: 0,
+  netIncome: 0,
+  assets: 0,
+  liabilities: 0,
+  cash: 0,
+  freeCashFlow: 0
+});
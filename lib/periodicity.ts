@@ -0,0 +1,316 @@
+import type { ScenarioAssumptions } from "@/lib/analysis";
+import type { DatedPeriod, PeriodGranularity, PeriodTiming } from "@/lib/period-fields";
+
+export type TimedPeriod = DatedPeriod & PeriodTiming;
+
+export type FlowMetric = "revenue" | "netIncome" | "freeCashFlow";
+
+export type FlowGrowth = Record<FlowMetric, number | null>;
+
+export type PeriodRollups = {
+  granularity: PeriodGranularity;
+  latest: string;
+  ttm: Record<FlowMetric, number> & { netMargin: number; periods: number; complete: boolean };
+  qoq: FlowGrowth | null;
+  yoy: FlowGrowth | null;
+};
+
+export type ProjectionOptions = {
+  horizonMonths: number;
+  frequency: PeriodGranularity;
+};
+
+export type ProjectionPoint = Record<FlowMetric, number> & {
+  label: string;
+  startDate: string;
+  endDate: string;
+  partial: boolean;
+};
+
+export type SeasonalProjection = ProjectionOptions & {
+  granularity: PeriodGranularity;
+  annualGrowth: number;
+  seasonality: number[];
+  points: ProjectionPoint[];
+};
+
+export const defaultProjectionOptions: ProjectionOptions = { horizonMonths: 36, frequency: "year" };
+
+export const monthsPerPeriod: Record<PeriodGranularity, number> = { month: 1, quarter: 3, year: 12 };
+
+const flowMetrics: FlowMetric[] = ["revenue", "netIncome", "freeCashFlow"];
+
+const monthNames = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+
+const toIso = (date: Date) => date.toISOString().slice(0, 10);
+
+export const parseIsoDate = (value: string) => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return toIso(date) === value ? date : null;
+};
+
+const addMonths = (date: Date, months: number) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+
+export const periodEnd = (start: Date, granularity: PeriodGranularity) => {
+  const next = addMonths(start, monthsPerPeriod[granularity]);
+  return new Date(next.getTime() - 86_400_000);
+};
+
+export const periodLabel = (start: Date, granularity: PeriodGranularity) => {
+  const year = start.getUTCFullYear();
+  if (granularity === "year") return `FY${year}`;
+  if (granularity === "quarter") return `Q${Math.floor(start.getUTCMonth() / 3) + 1} ${year}`;
+  return `${monthNames[start.getUTCMonth()].charAt(0)}${monthNames[start.getUTCMonth()].slice(1).toLowerCase()} ${year}`;
+};
+
+export const inferTiming = (label: string, granularity?: PeriodGranularity): PeriodTiming | null => {
+  const normalized = label.toUpperCase();
+  const yearMatch = normalized.match(/((?:19|20)\d{2})|FY\s*(\d{2})\b/);
+  if (!yearMatch) return null;
+  const year = yearMatch[1] ? Number(yearMatch[1]) : 2000 + Number(yearMatch[2]);
+
+  const quarter = normalized.match(/\bQ([1-4])\b|\b([1-4])Q\b/);
+  const numericMonth = normalized.match(/(?:19|20)\d{2}[-/](\d{1,2})\b/);
+  const namedMonth = normalized.match(/\b(JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEP|OCT|NOV|DEC)/);
+
+  let resolved: PeriodGranularity = "year";
+  let month = 0;
+  if (quarter) {
+    resolved = "quarter";
+    month = (Number(quarter[1] ?? quarter[2]) - 1) * 3;
+  } else if (numericMonth && Number(numericMonth[1]) >= 1 && Number(numericMonth[1]) <= 12) {
+    resolved = "month";
+    month = Number(numericMonth[1]) - 1;
+  } else if (namedMonth) {
+    resolved = "month";
+    month = monthNames.indexOf(namedMonth[1]);
+  }
+
+  const target = granularity ?? resolved;
+  month -= month % monthsPerPeriod[target];
+  const start = new Date(Date.UTC(year, month, 1));
+  return { startDate: toIso(start), endDate: toIso(periodEnd(start, target)), granularity: target };
+};
+
+const granularityFromSpan = (startDate: string, endDate: string): PeriodGranularity | null => {
+  const start = parseIsoDate(startDate);
+  const end = parseIsoDate(endDate);
+  if (!start || !end) return null;
+  const days = (end.getTime() - start.getTime()) / 86_400_000 + 1;
+  if (days >= 27 && days <= 31) return "month";
+  if (days >= 88 && days <= 93) return "quarter";
+  if (days >= 364 && days <= 371) return "year";
+  return null;
+};
+
+export const resolveGranularity = (periods: DatedPeriod[]): PeriodGranularity => {
+  for (const period of periods) {
+    if (period.granularity) return period.granularity;
+    if (period.startDate && period.endDate) {
+      const fromSpan = granularityFromSpan(period.startDate, period.endDate);
+      if (fromSpan) return fromSpan;
+    }
+  }
+  for (const period of periods) {
+    const inferred = inferTiming(period.label);
+    if (inferred) return inferred.granularity;
+  }
+  return "year";
+};
+
+export const resolveTimeline = (periods: DatedPeriod[]): { granularity: PeriodGranularity; periods: TimedPeriod[] } => {
+  const granularity = resolveGranularity(periods);
+  const step = monthsPerPeriod[granularity];
+
+  const starts = periods.map((period) => {
+    const explicit = period.startDate ? parseIsoDate(period.startDate) : null;
+    if (explicit) return explicit;
+    const inferred = inferTiming(period.label, granularity);
+    return inferred ? (parseIsoDate(inferred.startDate) as Date) : null;
+  });
+
+  const anchorIndex = starts.findIndex(Boolean);
+  const now = new Date();
+  const anchor =
+    anchorIndex >= 0
+      ? { index: anchorIndex, start: starts[anchorIndex] as Date }
+      : {
+          index: periods.length - 1,
+          start: addMonths(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (now.getUTCMonth() % step), 1)), -step)
+        };
+
+  return {
+    granularity,
+    periods: periods.map((period, index) => {
+      const start = starts[index] ?? addMonths(anchor.start, (index - anchor.index) * step);
+      const end = period.endDate ? parseIsoDate(period.endDate) : null;
+      return {
+        ...period,
+        startDate: toIso(start),
+        endDate: toIso(end ?? periodEnd(start, granularity)),
+        granularity
+      };
+    })
+  };
+};
+
+const sum = (periods: DatedPeriod[], metric: FlowMetric) => periods.reduce((total, period) => total + period[metric], 0);
+
+const growth = (current: number, previous: number) => (previous !== 0 ? (current - previous) / Math.abs(previous) : null);
+
+const growthBetween = (current: DatedPeriod[], previous: DatedPeriod[]): FlowGrowth =>
+  Object.fromEntries(flowMetrics.map((metric) => [metric, growth(sum(current, metric), sum(previous, metric))])) as FlowGrowth;
+
+export const computeRollups = (input: DatedPeriod[]): PeriodRollups | null => {
+  if (!input.length) return null;
+  const { granularity, periods } = resolveTimeline(input);
+  const perYear = 12 / monthsPerPeriod[granularity];
+  const last = periods.length - 1;
+
+  const trailing = periods.slice(Math.max(0, periods.length - perYear));
+  const ttm = {
+    revenue: sum(trailing, "revenue"),
+    netIncome: sum(trailing, "netIncome"),
+    freeCashFlow: sum(trailing, "freeCashFlow")
+  };
+
+  const qoqWindow = granularity === "month" ? 3 : 1;
+  const qoq =
+    granularity !== "year" && periods.length >= qoqWindow * 2
+      ? growthBetween(periods.slice(-qoqWindow), periods.slice(-qoqWindow * 2, -qoqWindow))
+      : null;
+  const yoy = periods.length > perYear ? growthBetween([periods[last]], [periods[last - perYear]]) : null;
+
+  return {
+    granularity,
+    latest: periods[last].label,
+    ttm: {
+      ...ttm,
+      netMargin: ttm.revenue !== 0 ? ttm.netIncome / ttm.revenue : 0,
+      periods: trailing.length,
+      complete: trailing.length === perYear
+    },
+    qoq,
+    yoy
+  };
+};
+
+const slotOf = (startDate: string, granularity: PeriodGranularity) => {
+  const month = Number(startDate.slice(5, 7)) - 1;
+  return granularity === "month" ? month : granularity === "quarter" ? Math.floor(month / 3) : 0;
+};
+
+// Ratio-to-annual-mean per calendar slot, detrended by the observed growth so later slots
+// in each year are not mistaken for seasonal peaks.
+export const seasonalIndices = (periods: TimedPeriod[], granularity: PeriodGranularity, annualGrowth: number) => {
+  const perYear = 12 / monthsPerPeriod[granularity];
+  const totals = new Array<number>(perYear).fill(0);
+  const counts = new Array<number>(perYear).fill(0);
+  if (perYear === 1 || periods.length < perYear) return new Array<number>(perYear).fill(1);
+
+  for (let end = periods.length; end - perYear >= 0; end -= perYear) {
+    const block = periods.slice(end - perYear, end);
+    const mean = sum(block, "revenue") / perYear;
+    if (mean <= 0) continue;
+    block.forEach((period, position) => {
+      const trend = Math.pow(1 + annualGrowth, (position - (perYear - 1) / 2) / perYear);
+      const slot = slotOf(period.startDate, granularity);
+      totals[slot] += period.revenue / mean / trend;
+      counts[slot] += 1;
+    });
+  }
+
+  const raw = totals.map((total, slot) => (counts[slot] ? total / counts[slot] : 1));
+  const average = raw.reduce((total, value) => total + value, 0) / perYear;
+  return raw.map((value) => (average > 0 ? value / average : 1));
+};
+
+const historicalGrowth = (periods: TimedPeriod[], perYear: number) => {
+  if (periods.length >= perYear * 2) {
+    const current = sum(periods.slice(-perYear), "revenue");
+    const previous = sum(periods.slice(-perYear * 2, -perYear), "revenue");
+    return previous > 0 && current > 0 ? current / previous - 1 : 0;
+  }
+  if (periods.length > perYear) {
+    const years = (periods.length - perYear) / perYear;
+    const first = sum(periods.slice(0, perYear), "revenue");
+    const last = sum(periods.slice(-perYear), "revenue");
+    return first > 0 && last > 0 ? Math.pow(last / first, 1 / years) - 1 : 0;
+  }
+  return 0;
+};
+
+const bucketStart = (date: Date, frequency: PeriodGranularity) => {
+  const step = monthsPerPeriod[frequency];
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() - (date.getUTCMonth() % step), 1));
+};
+
+export const projectSeasonal = (
+  input: DatedPeriod[],
+  assumptions: ScenarioAssumptions,
+  options: ProjectionOptions = defaultProjectionOptions
+): SeasonalProjection => {
+  const { granularity, periods } = resolveTimeline(input);
+  const perYear = 12 / monthsPerPeriod[granularity];
+  const frequency = monthsPerPeriod[options.frequency] < monthsPerPeriod[granularity] ? granularity : options.frequency;
+  const trailing = periods.slice(-perYear);
+
+  const ttmRevenue = sum(trailing, "revenue");
+  const ttmOpex = trailing.reduce((total, period) => total + period.operatingExpenses, 0);
+  const baseMargin = ttmRevenue !== 0 ? sum(trailing, "netIncome") / ttmRevenue : 0;
+  const cashGap = ttmRevenue !== 0 ? (sum(trailing, "freeCashFlow") - sum(trailing, "netIncome")) / ttmRevenue : 0;
+  const margin =
+    baseMargin +
+    assumptions.marginShift / 100 +
+    (ttmRevenue !== 0 ? (assumptions.efficiencyGain / 100) * (ttmOpex / ttmRevenue) : 0);
+
+  const observedGrowth = historicalGrowth(periods, perYear);
+  const annualGrowth = observedGrowth + assumptions.revenueGrowth / 100;
+  const seasonality = seasonalIndices(periods, granularity, observedGrowth);
+  const level = ttmRevenue / Math.max(1, trailing.length);
+  const centerOffset = (trailing.length - 1) / 2;
+  const lastStart = parseIsoDate(periods[periods.length - 1].startDate) as Date;
+
+  const steps = Math.max(1, Math.ceil(options.horizonMonths / monthsPerPeriod[granularity]));
+  const native = Array.from({ length: steps }, (_, index) => {
+    const start = addMonths(lastStart, (index + 1) * monthsPerPeriod[granularity]);
+    const elapsed = (centerOffset + index + 1) / perYear;
+    const revenue =
+      level * Math.pow(Math.max(0, 1 + annualGrowth), elapsed) * seasonality[slotOf(toIso(start), granularity)];
+    const netIncome = revenue * margin;
+    const cashBase = netIncome + revenue * cashGap;
+    return { start, revenue, netIncome, freeCashFlow: cashBase + (Math.abs(cashBase) * assumptions.cashConversion) / 100 };
+  });
+
+  const buckets = new Map<string, { start: Date; revenue: number; netIncome: number; freeCashFlow: number; count: number }>();
+  for (const point of native) {
+    const start = bucketStart(point.start, frequency);
+    const key = toIso(start);
+    const bucket = buckets.get(key) ?? { start, revenue: 0, netIncome: 0, freeCashFlow: 0, count: 0 };
+    bucket.revenue += point.revenue;
+    bucket.netIncome += point.netIncome;
+    bucket.freeCashFlow += point.freeCashFlow;
+    bucket.count += 1;
+    buckets.set(key, bucket);
+  }
+
+  const expected = monthsPerPeriod[frequency] / monthsPerPeriod[granularity];
+  return {
+    horizonMonths: options.horizonMonths,
+    frequency,
+    granularity,
+    annualGrowth,
+    seasonality,
+    points: [...buckets.values()].map((bucket) => ({
+      label: periodLabel(bucket.start, frequency),
+      startDate: toIso(bucket.start),
+      endDate: toIso(periodEnd(bucket.start, frequency)),
+      revenue: bucket.revenue,
+      netIncome: bucket.netIncome,
+      freeCashFlow: bucket.freeCashFlow,
+      partial: bucket.count < expected
+    }))
+  };
+};
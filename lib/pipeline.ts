@@ -0,0 +1,110 @@
+import { runAnalysis, type AnalysisPayload } from "@/lib/analysis";
+import { applyAdjustments, detectAnomalies, type AnomalyReport } from "@/lib/anomalies";
+import { rankAgainstCohort, type BenchmarkCohort, type BenchmarkResult } from "@/lib/benchmarks";
+import { convertPeriods, resolveConversion, type CurrencyConversion } from "@/lib/currency";
+import { explainAnalysis, type AnalysisTrace } from "@/lib/explain";
+import { forecastPeriods, type StatisticalForecast } from "@/lib/forecast";
+import { computeRollups, projectSeasonal, type PeriodRollups, type SeasonalProjection } from "@/lib/periodicity";
+import { buildRiskContext, builtinSignals, evaluateRiskRules, sortSignals, type RiskRule, type RiskSignal } from "@/lib/risk-rules";
+import { projectRunway, runwaySignals, type RunwayResult } from "@/lib/runway";
+import { compareToPlan, evaluateScenarios, type ScenarioResult, type ScenarioVariance } from "@/lib/scenarios";
+import { deriveStatements, type DerivedStatement } from "@/lib/statements";
+import type { normalizeAnalysisRequest, ValidationIssue } from "@/lib/validation";
+import { runValuation, type ValuationResult } from "@/lib/valuation";
+
+export type NormalizedAnalysisRequest = ReturnType<typeof normalizeAnalysisRequest>;
+
+export type ForecastedPayload = AnalysisPayload & { forecast: StatisticalForecast | null };
+
+export type AnalysisResponse = {
+  data: ForecastedPayload;
+  trace: AnalysisTrace;
+  scenarios: ScenarioResult[];
+  planId: string;
+  variances: ScenarioVariance[];
+  valuation: ValuationResult | null;
+  rollups: PeriodRollups | null;
+  projection: SeasonalProjection | null;
+  statements: DerivedStatement[];
+  runway: RunwayResult | null;
+  anomalies: AnomalyReport;
+  currency: CurrencyConversion;
+  signals: RiskSignal[];
+  riskContext: Record<string, number>;
+  benchmark: BenchmarkResult | null;
+  warnings: ValidationIssue[];
+};
+
+type PeriodInputs = Pick<NormalizedAnalysisRequest, "periods" | "units" | "reporting" | "adjustments">;
+
+// The periods every engine sees: converted to the reporting currency, then with anomaly treatments
+// applied. Goal seek reuses this so it solves against the same figures the analysis shows.
+export const preparePeriods = ({ periods: source, units, reporting, adjustments }: PeriodInputs) => {
+  // Validation guarantees a rate exists; everything downstream sees reporting-currency amounts.
+  const currency = resolveConversion(units, reporting) as CurrencyConversion;
+  const reported = convertPeriods(source, currency.factor);
+  const flags = detectAnomalies(reported);
+  const periods = Object.keys(adjustments).length ? applyAdjustments(reported, flags, adjustments) : reported;
+  return { currency, reported, flags, periods };
+};
+
+export const runAnalysisPipeline = (
+  request: NormalizedAnalysisRequest,
+  rules: RiskRule[],
+  cohort: BenchmarkCohort | null = null
+): AnalysisResponse => {
+  const { scenarios, planId, assumptions, projection, adjustments, warnings } = request;
+  const { currency, reported, flags, periods } = preparePeriods(request);
+  // Net debt and financing are entered in the dataset's currency like the periods, so they convert too.
+  const valuation = request.valuation && { ...request.valuation, netDebt: request.valuation.netDebt * currency.factor };
+  const financing = request.runway.financing;
+  const runwayOptions = {
+    ...request.runway,
+    financing: financing && { ...financing, amount: financing.amount * currency.factor }
+  };
+  const analysis = runAnalysis(periods, assumptions);
+  const scenarioResults = evaluateScenarios(periods, scenarios);
+  const rollups = computeRollups(periods);
+  const benchmark = cohort ? rankAgainstCohort(analysis, cohort) : null;
+  const runway = projectRunway(periods, assumptions, runwayOptions);
+  const context = buildRiskContext(analysis, periods, rollups, benchmark);
+  if (runway && runway.base.runwayMonths !== null) context["runway.months"] = runway.base.runwayMonths;
+
+  const ruleWarnings: ValidationIssue[] = rules
+    .filter((rule) => rule.enabled !== false && context[rule.metric] === undefined)
+    .filter((rule) => benchmark || !rule.metric.startsWith("cohort."))
+    .map((rule) => ({
+      severity: "warning",
+      code: "rule.metric",
+      message: `Rule "${rule.id}" references ${rule.metric}, which is not available for this dataset.`,
+      scope: "rules",
+      field: rule.id
+    }));
+
+  return {
+    data: { ...analysis, forecast: forecastPeriods(periods, analysis.scenario.length || 3) },
+    trace: explainAnalysis(periods, analysis),
+    scenarios: scenarioResults,
+    planId,
+    variances: compareToPlan(scenarioResults, planId),
+    valuation: valuation ? runValuation(analysis.scenario, valuation) : null,
+    rollups,
+    projection: projectSeasonal(periods, assumptions, projection),
+    statements: deriveStatements(periods),
+    runway,
+    anomalies: {
+      flags,
+      adjustments,
+      reported: periods === reported ? null : runAnalysis(reported, assumptions)
+    },
+    currency,
+    signals: sortSignals([
+      ...evaluateRiskRules(rules, context, benchmark ? { cohort: benchmark.cohort.name } : {}),
+      ...builtinSignals(analysis),
+      ...runwaySignals(runway)
+    ]),
+    riskContext: context,
+    benchmark,
+    warnings: [...warnings, ...ruleWarnings]
+  };
+};
@@ -0,0 +1,184 @@
+import type { AnalysisPayload } from "@/lib/analysis";
+import type { BenchmarkResult } from "@/lib/benchmarks";
+import { sameUnits, type CurrencyConversion, type DatasetUnits } from "@/lib/currency";
+import type { AnalysisResponse, NormalizedAnalysisRequest } from "@/lib/pipeline";
+import { riskSeverities, type RiskSeverity, type RiskSignal } from "@/lib/risk-rules";
+import type { ValidationIssue, ValidationResult } from "@/lib/validation";
+import type { WorkspaceSnapshot } from "@/lib/workspaces";
+
+export const MAX_PORTFOLIO_COMPANIES = 100;
+
+export type PortfolioEntry = {
+  id: string;
+  name: string;
+  workspaceId: string | null;
+  body: Record<string, unknown>;
+};
+
+type CompanyIdentity = Pick<PortfolioEntry, "id" | "name" | "workspaceId">;
+
+export type PortfolioCompany = CompanyIdentity & {
+  status: "ok";
+  snapshot: WorkspaceSnapshot;
+  data: AnalysisPayload;
+  signals: RiskSignal[];
+  benchmark: BenchmarkResult | null;
+  currency: CurrencyConversion;
+  warnings: ValidationIssue[];
+};
+
+export type PortfolioFailure = CompanyIdentity & {
+  status: "invalid";
+  error: string;
+  issues: ValidationIssue[];
+};
+
+export type PortfolioResult = PortfolioCompany | PortfolioFailure;
+
+export type PortfolioSortKey = "overall" | "cagr" | "burnMultiple" | "signals";
+
+export type PortfolioStat = { mean: number; median: number; min: number; max: number };
+
+export type PortfolioAggregates = {
+  companyCount: number;
+  analyzedCount: number;
+  invalidCount: number;
+  stats: Record<PortfolioSortKey, PortfolioStat | null>;
+  signals: Record<RiskSeverity, number>;
+  companiesWithCritical: number;
+  latestRevenue: number | null;
+  units: DatasetUnits | null;
+};
+
+export const portfolioColumns: { key: PortfolioSortKey; label: string; higherIsBetter: boolean }[] = [
+  { key: "overall", label: "Overall score", higherIsBetter: true },
+  { key: "cagr", label: "CAGR", higherIsBetter: true },
+  { key: "burnMultiple", label: "Burn multiple", higherIsBetter: false },
+  { key: "signals", label: "Risk signals", higherIsBetter: false }
+];
+
+const slugify = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "company";
+
+export const normalizePortfolioEntries = (
+  raw: unknown,
+  shared: Record<string, unknown> = {}
+): ValidationResult<PortfolioEntry[]> => {
+  const fail = (message: string, field = "companies"): ValidationResult<PortfolioEntry[]> => ({
+    value: [],
+    issues: [{ severity: "error", code: "portfolio.invalid", message, scope: "portfolio", field }]
+  });
+
+  if (!Array.isArray(raw) || !raw.length) return fail("companies must be a non-empty array of company datasets.");
+  if (raw.length > MAX_PORTFOLIO_COMPANIES) {
+    return fail(`A portfolio can include at most ${MAX_PORTFOLIO_COMPANIES} companies, received ${raw.length}.`);
+  }
+
+  const issues: ValidationIssue[] = [];
+  const used = new Set<string>();
+  const entries = raw.flatMap((company, index): PortfolioEntry[] => {
+    const field = `companies[${index}]`;
+    if (!company || typeof company !== "object" || Array.isArray(company)) {
+      issues.push(...fail(`Company ${index + 1} must be an object.`, field).issues);
+      return [];
+    }
+
+    const source = company as Record<string, unknown>;
+    const name = typeof source.name === "string" ? source.name.trim() : "";
+    const workspaceId = typeof source.workspaceId === "string" && source.workspaceId.trim() ? source.workspaceId.trim() : null;
+    if (!name && !workspaceId) {
+      issues.push(...fail(`Company ${index + 1} needs a name or a workspaceId.`, field).issues);
+      return [];
+    }
+
+    const base = typeof source.id === "string" && source.id.trim() ? slugify(source.id) : slugify(name || workspaceId || "");
+    let id = base;
+    for (let suffix = 2; used.has(id); suffix += 1) id = `${base}-${suffix}`;
+    used.add(id);
+
+    const defaults = Object.fromEntries(Object.entries(shared).filter(([, value]) => value !== undefined));
+    return [{ id, name, workspaceId, body: { ...defaults, ...source } }];
+  });
+
+  return { value: entries, issues };
+};
+
+export const summarizeCompany = (
+  entry: CompanyIdentity,
+  request: NormalizedAnalysisRequest,
+  response: AnalysisResponse
+): PortfolioCompany => ({
+  ...entry,
+  status: "ok",
+  snapshot: {
+    periods: request.periods,
+    scenarios: request.scenarios,
+    planId: request.planId,
+    units: request.units,
+    adjustments: request.adjustments
+  },
+  data: response.data,
+  signals: response.signals,
+  benchmark: response.benchmark,
+  currency: response.currency,
+  warnings: response.warnings
+});
+
+export const portfolioValue = (company: PortfolioCompany, key: PortfolioSortKey) => {
+  if (key === "overall") return company.data.healthScores.overall;
+  if (key === "signals") return company.signals.length;
+  return company.data.metrics[key];
+};
+
+const describeStat = (values: number[]): PortfolioStat | null => {
+  const finite = values.filter(Number.isFinite).sort((a, b) => a - b);
+  if (!finite.length) return null;
+  const middle = Math.floor(finite.length / 2);
+  return {
+    mean: finite.reduce((sum, value) => sum + value, 0) / finite.length,
+    median: finite.length % 2 ? finite[middle] : (finite[middle - 1] + finite[middle]) / 2,
+    min: finite[0],
+    max: finite[finite.length - 1]
+  };
+};
+
+export const aggregatePortfolio = (results: PortfolioResult[]): PortfolioAggregates => {
+  const analyzed = results.filter((result): result is PortfolioCompany => result.status === "ok");
+  const signals = Object.fromEntries(riskSeverities.map((severity) => [severity, 0])) as Record<RiskSeverity, number>;
+  for (const company of analyzed) {
+    for (const signal of company.signals) signals[signal.severity] += 1;
+  }
+  // Revenue only adds up when every company reports in the same currency and scale, either
+  // natively or through a shared reporting currency.
+  const units = analyzed[0]?.currency.to ?? null;
+  const comparable = units !== null && analyzed.every((company) => sameUnits(company.currency.to, units));
+
+  return {
+    companyCount: results.length,
+    analyzedCount: analyzed.length,
+    invalidCount: results.length - analyzed.length,
+    stats: Object.fromEntries(
+      portfolioColumns.map(({ key }) => [key, describeStat(analyzed.map((company) => portfolioValue(company, key)))])
+    ) as Record<PortfolioSortKey, PortfolioStat | null>,
+    signals,
+    companiesWithCritical: analyzed.filter((company) => company.signals.some((signal) => signal.severity === "critical")).length,
+    latestRevenue: comparable
+      ? analyzed.reduce(
+          (sum, company) =>
+            sum + (company.snapshot.periods[company.snapshot.periods.length - 1]?.revenue ?? 0) * company.currency.factor,
+          0
+        )
+      : null,
+    units: comparable ? units : null
+  };
+};
+
+export const rankPortfolio = (results: PortfolioResult[], key: PortfolioSortKey, descending: boolean) => {
+  const analyzed = results.filter((result): result is PortfolioCompany => result.status === "ok");
+  const failed = results.filter((result): result is PortfolioFailure => result.status === "invalid");
+  const sorted = [...analyzed].sort((a, b) => {
+    const delta = portfolioValue(a, key) - portfolioValue(b, key);
+    return (descending ? -delta : delta) || a.name.localeCompare(b.name);
+  });
+  return [...sorted, ...failed];
+};
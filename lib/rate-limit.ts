@@ -0,0 +1,33 @@
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+};
+
+type Bucket = {
+  tokens: number;
+  updatedAt: number;
+};
+
+const WINDOW_MS = 60_000;
+
+const buckets = new Map<string, Bucket>();
+
+// Token bucket per key: the full per-minute allowance is available as a burst and refills
+// continuously, so a key never waits longer than one request's share of the minute.
+export const consumeRateLimit = (id: string, limit: number, now = Date.now()): RateLimitResult => {
+  const refillPerMs = limit / WINDOW_MS;
+  const previous = buckets.get(id);
+  const tokens = previous ? Math.min(limit, previous.tokens + (now - previous.updatedAt) * refillPerMs) : limit;
+  const allowed = tokens >= 1;
+  const remaining = allowed ? tokens - 1 : tokens;
+  buckets.set(id, { tokens: remaining, updatedAt: now });
+
+  return {
+    allowed,
+    limit,
+    remaining: Math.floor(remaining),
+    resetSeconds: Math.ceil((allowed ? limit - remaining : 1 - remaining) / refillPerMs / 1000)
+  };
+};
@@ -0,0 +1,285 @@
+import { periodFields } from "@/lib/period-fields";
+import { createPdfDocument, wrapText, type PdfCanvas, type PdfColor } from "@/lib/pdf-writer";
+import {
+  assumptionLabels,
+  currencyFormatter,
+  formatAssumption,
+  formatMetric,
+  humanizeKey,
+  reportStamp,
+  valuationRows,
+  type BoardReport
+} from "@/lib/report";
+import { assumptionKeys } from "@/lib/scenarios";
+
+const MARGIN = 48;
+const FOOTER = 36;
+
+const ink: PdfColor = [15, 23, 42];
+const muted: PdfColor = [100, 116, 139];
+const rule: PdfColor = [226, 232, 240];
+const brand: PdfColor = [14, 110, 219];
+const danger: PdfColor = [190, 18, 60];
+
+const seriesColors: PdfColor[] = [
+  [37, 99, 235],
+  [5, 150, 105],
+  [202, 138, 4],
+  [220, 38, 38],
+  [124, 58, 237],
+  [234, 88, 12]
+];
+
+type ChartSeries = { name: string; values: number[]; color: PdfColor; width?: number };
+
+const createLayout = (report: BoardReport) => {
+  const formatCurrency = currencyFormatter(report.units);
+  const document = createPdfDocument();
+  const pages: PdfCanvas[] = [];
+  let page = document.addPage();
+  pages.push(page);
+  let y = MARGIN;
+  const contentWidth = page.width - MARGIN * 2;
+
+  const ensure = (height: number) => {
+    if (y + height <= page.height - MARGIN - FOOTER) return;
+    page = document.addPage();
+    pages.push(page);
+    y = MARGIN;
+  };
+
+  const heading = (value: string) => {
+    ensure(40);
+    y += 14;
+    page.text(MARGIN, y, value, { size: 13, bold: true, color: brand });
+    y += 6;
+    page.line(MARGIN, y, MARGIN + contentWidth, y, { stroke: rule });
+    y += 14;
+  };
+
+  const paragraph = (value: string, options: { size?: number; color?: PdfColor; indent?: number } = {}) => {
+    const size = options.size ?? 10;
+    const indent = options.indent ?? 0;
+    for (const line of wrapText(value, contentWidth - indent, size)) {
+      ensure(size + 4);
+      page.text(MARGIN + indent, y, line, { size, color: options.color ?? ink });
+      y += size + 4;
+    }
+  };
+
+  const bullet = (value: string, color: PdfColor = ink) => {
+    const lines = wrapText(value, contentWidth - 14, 10);
+    ensure(lines.length * 14);
+    page.text(MARGIN + 2, y, "•", { color });
+    for (const line of lines) {
+      page.text(MARGIN + 14, y, line, { color });
+      y += 14;
+    }
+  };
+
+  const table = (header: string[], rows: string[][], widths?: number[]) => {
+    const columnWidths = widths ?? header.map(() => contentWidth / header.length);
+    const size = header.length > 6 ? 7.5 : 9;
+    const rowHeight = size + 7;
+    const drawRow = (cells: string[], bold: boolean) => {
+      let x = MARGIN;
+      cells.forEach((cell, index) => {
+        const width = columnWidths[index];
+        if (index === 0) page.text(x + 4, y, cell, { size, bold });
+        else page.text(x + width - 4, y, cell, { size, bold, align: "right" });
+        x += width;
+      });
+    };
+
+    ensure(rowHeight * 2);
+    page.rect(MARGIN, y - size - 3, contentWidth, rowHeight, { fill: [241, 245, 249] });
+    drawRow(header, true);
+    y += rowHeight;
+    for (const row of rows) {
+      if (y + rowHeight > page.height - MARGIN - FOOTER) {
+        ensure(rowHeight * 2);
+        page.rect(MARGIN, y - size - 3, contentWidth, rowHeight, { fill: [241, 245, 249] });
+        drawRow(header, true);
+        y += rowHeight;
+      }
+      drawRow(row, false);
+      page.line(MARGIN, y + 4, MARGIN + contentWidth, y + 4, { stroke: rule, width: 0.5 });
+      y += rowHeight;
+    }
+    y += 6;
+  };
+
+  const lineChart = (title: string, labels: string[], series: ChartSeries[]) => {
+    const height = 150;
+    ensure(height + 50);
+    page.text(MARGIN, y, title, { size: 10, bold: true });
+    y += 10;
+
+    const values = series.flatMap((entry) => entry.values).filter(Number.isFinite);
+    const max = Math.max(0, ...values);
+    const min = Math.min(0, ...values);
+    const span = max - min || 1;
+    const plotLeft = MARGIN + 52;
+    const plotWidth = contentWidth - 52;
+    const top = y;
+    const toY = (value: number) => top + height - ((value - min) / span) * height;
+    const toX = (index: number) => plotLeft + (labels.length > 1 ? (index / (labels.length - 1)) * plotWidth : plotWidth / 2);
+
+    for (let step = 0; step <= 4; step++) {
+      const value = min + (span * step) / 4;
+      page.line(plotLeft, toY(value), plotLeft + plotWidth, toY(value), { stroke: rule, width: 0.5 });
+      page.text(plotLeft - 6, toY(value) + 3, formatCurrency(value), { size: 7, color: muted, align: "right" });
+    }
+    if (min < 0) page.line(plotLeft, toY(0), plotLeft + plotWidth, toY(0), { stroke: muted, width: 0.75 });
+    labels.forEach((label, index) => {
+      page.text(toX(index), top + height + 12, label, { size: 7, color: muted, align: "center" });
+    });
+    for (const entry of series) {
+      page.polyline(
+        entry.values.map((value, index) => [toX(index), toY(value)] as [number, number]),
+        { stroke: entry.color, width: entry.width ?? 1.5 }
+      );
+    }
+
+    y = top + height + 26;
+    let legendX = MARGIN;
+    for (const entry of series) {
+      page.rect(legendX, y - 7, 8, 8, { fill: entry.color });
+      page.text(legendX + 12, y, entry.name, { size: 8, color: muted });
+      legendX += 24 + entry.name.length * 4.5;
+    }
+    y += 18;
+  };
+
+  const scoreBars = (scores: [string, number][]) => {
+    for (const [label, value] of scores) {
+      ensure(18);
+      const barWidth = contentWidth - 160;
+      page.text(MARGIN, y, label, { size: 9 });
+      page.rect(MARGIN + 120, y - 7, barWidth, 8, { fill: rule });
+      page.rect(MARGIN + 120, y - 7, (barWidth * Math.max(0, Math.min(100, value))) / 100, 8, { fill: brand });
+      page.text(MARGIN + contentWidth, y, value.toFixed(0), { size: 9, bold: true, align: "right" });
+      y += 16;
+    }
+  };
+
+  const header = () => {
+    page.text(MARGIN, y + 10, report.title, { size: 20, bold: true });
+    y += 28;
+    paragraph(reportStamp(report), { size: 8, color: muted });
+    y += 4;
+  };
+
+  const finish = () => {
+    pages.forEach((entry, index) => {
+      entry.line(MARGIN, entry.height - MARGIN, entry.width - MARGIN, entry.height - MARGIN, { stroke: rule, width: 0.5 });
+      entry.text(MARGIN, entry.height - MARGIN + 14, `Generated ${report.generatedAt}`, { size: 7, color: muted });
+      entry.text(entry.width - MARGIN, entry.height - MARGIN + 14, `Page ${index + 1} of ${pages.length}`, {
+        size: 7,
+        color: muted,
+        align: "right"
+      });
+    });
+    return document.toBytes();
+  };
+
+  return { contentWidth, heading, paragraph, bullet, table, lineChart, scoreBars, header, finish, space: (amount: number) => (y += amount) };
+};
+
+export const renderPdf = (report: BoardReport) => {
+  const layout = createLayout(report);
+  const { analysis } = report;
+  const formatCurrency = currencyFormatter(report.units);
+
+  layout.header();
+
+  layout.heading("Key Metrics");
+  layout.table(
+    ["Metric", "Value"],
+    Object.entries(analysis.metrics).map(([key, value]) => [humanizeKey(key), formatMetric(key, value)])
+  );
+
+  layout.heading("Health Scores");
+  layout.scoreBars(Object.entries(analysis.healthScores).map(([key, value]) => [humanizeKey(key), value]));
+
+  layout.heading("Momentum");
+  layout.lineChart(
+    "Trailing performance",
+    report.periods.map((period) => period.label),
+    [
+      { name: "Revenue", values: report.periods.map((period) => period.revenue), color: seriesColors[0] },
+      { name: "Net Income", values: report.periods.map((period) => period.netIncome), color: seriesColors[1] },
+      { name: "Free Cash Flow", values: report.periods.map((period) => period.freeCashFlow), color: seriesColors[2] }
+    ]
+  );
+  layout.lineChart(
+    "Forward net income by scenario",
+    report.scenarios[0]?.trajectory.map((year) => String(year.year)) ?? [],
+    report.scenarios.map((scenario, index) => ({
+      name: scenario.id === report.plan.id ? `${scenario.name} (plan)` : scenario.name,
+      values: scenario.trajectory.map((year) => year.netIncome),
+      color: seriesColors[index % seriesColors.length],
+      width: scenario.id === report.plan.id ? 2.5 : 1.25
+    }))
+  );
+
+  layout.heading("Strategic Narrative");
+  layout.paragraph(analysis.narrative);
+
+  layout.heading("Risk Signals");
+  if (report.signals.length) {
+    report.signals.forEach((signal) =>
+      layout.bullet(`${humanizeKey(signal.severity)}: ${signal.message}`, signal.severity === "info" ? ink : danger)
+    );
+  } else {
+    layout.paragraph("No acute risks detected. Maintain continuous monitoring cadence.", { color: muted });
+  }
+
+  if (report.valuation) {
+    layout.heading("Valuation");
+    layout.table(
+      ["Measure", "Value"],
+      valuationRows(report.valuation).map(([label, value]) => [label, value === null ? "n/a" : formatCurrency(value)])
+    );
+  }
+
+  layout.heading("Recommendations");
+  for (const section of analysis.recommendations) {
+    layout.paragraph(section.title, { size: 11 });
+    layout.paragraph(section.highlight, { size: 9, color: muted });
+    section.bullets.forEach((item) => layout.bullet(item));
+    layout.space(6);
+  }
+
+  layout.heading("Scenario Outlook");
+  layout.table(
+    ["Scenario", "Year", "Revenue", "Net Income", "Free Cash Flow", "NI vs Plan"],
+    report.variances.map((variance) => [
+      variance.id === report.plan.id ? `${variance.name} (plan)` : variance.name,
+      String(variance.year),
+      formatCurrency(variance.revenue),
+      formatCurrency(variance.netIncome),
+      formatCurrency(variance.freeCashFlow),
+      formatCurrency(variance.netIncomeDelta)
+    ])
+  );
+
+  layout.heading("Input Periods");
+  layout.table(
+    ["Period", ...periodFields.map(({ label }) => label)],
+    report.periods.map((period) => [period.label, ...periodFields.map(({ key }) => formatCurrency(period[key]))])
+  );
+
+  layout.heading("Assumptions");
+  const labelWidth = 110;
+  layout.table(
+    ["Scenario", ...assumptionKeys.map((key) => assumptionLabels[key])],
+    report.scenarios.map((scenario) => [
+      scenario.id === report.plan.id ? `${scenario.name} (plan)` : scenario.name,
+      ...assumptionKeys.map((key) => formatAssumption(scenario.assumptions[key]))
+    ]),
+    [labelWidth, ...assumptionKeys.map(() => (layout.contentWidth - labelWidth) / assumptionKeys.length)]
+  );
+
+  return layout.finish();
+};
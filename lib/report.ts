@@ -0,0 +1,233 @@
+import type { AnalysisPayload, FinancialPeriod, ScenarioAssumptions } from "@/lib/analysis";
+import { defaultDatasetUnits, unitScales, type DatasetUnits } from "@/lib/currency";
+import { createFormatters, DEFAULT_LOCALE } from "@/lib/number-format";
+import { periodFields } from "@/lib/period-fields";
+import { builtinSignals, type RiskSignal } from "@/lib/risk-rules";
+import {
+  assumptionKeys,
+  compareToPlan,
+  type NamedScenario,
+  type ScenarioResult,
+  type ScenarioVariance
+} from "@/lib/scenarios";
+import type { ValuationSummary } from "@/lib/valuation";
+import { writeWorkbook, type Sheet } from "@/lib/xlsx-writer";
+
+export type ReportFormat = "pdf" | "markdown" | "xlsx";
+
+export const reportFormats: ReportFormat[] = ["pdf", "markdown", "xlsx"];
+
+export type BoardReport = {
+  title: string;
+  generatedAt: string;
+  periods: FinancialPeriod[];
+  units: DatasetUnits;
+  analysis: AnalysisPayload;
+  plan: NamedScenario;
+  scenarios: ScenarioResult[];
+  variances: ScenarioVariance[];
+  signals: RiskSignal[];
+  valuation: ValuationSummary | null;
+};
+
+export const assumptionLabels: Record<keyof ScenarioAssumptions, string> = {
+  revenueGrowth: "Revenue Growth Delta",
+  marginShift: "Net Margin Shift",
+  efficiencyGain: "Operating Efficiency",
+  cashConversion: "Cash Conversion"
+};
+
+const percentFormatter = new Intl.NumberFormat("en-US", { style: "percent", maximumFractionDigits: 1 });
+
+// Report amounts are in the report's units, so a dataset kept in thousands of EUR prints as €1.3M.
+export const currencyFormatter = (units: DatasetUnits) => createFormatters(DEFAULT_LOCALE, units).amount;
+
+export const describeUnits = (units: DatasetUnits) =>
+  units.scale === "units" ? units.currency : `${units.currency} ${unitScales[units.scale].label.toLowerCase()}`;
+
+export const formatAssumption = (value: number) => `${value > 0 ? "+" : ""}${value.toFixed(1)}%`;
+
+export const humanizeKey = (key: string) =>
+  key
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .replace(/^cagr$/i, "CAGR")
+    .replace(/^./, (char) => char.toUpperCase());
+
+export const formatMetric = (key: string, value: number) => {
+  if (!Number.isFinite(value)) return "n/a";
+  if (/cagr|margin|growth|rate$/i.test(key)) return percentFormatter.format(value);
+  if (/multiple$/i.test(key)) return `${value.toFixed(1)}x`;
+  return value.toFixed(2);
+};
+
+export const buildReport = (input: {
+  title?: string;
+  periods: FinancialPeriod[];
+  units?: DatasetUnits;
+  scenarios: NamedScenario[];
+  planId: string;
+  analysis: AnalysisPayload;
+  scenarioResults: ScenarioResult[];
+  signals?: RiskSignal[];
+  valuation?: ValuationSummary | null;
+  generatedAt?: Date;
+}): BoardReport => ({
+  title: input.title?.trim() || "Aurora Analyst Board Report",
+  generatedAt: (input.generatedAt ?? new Date()).toISOString(),
+  periods: input.periods,
+  units: input.units ?? defaultDatasetUnits,
+  analysis: input.analysis,
+  plan: input.scenarios.find((scenario) => scenario.id === input.planId) ?? input.scenarios[0],
+  scenarios: input.scenarioResults,
+  variances: compareToPlan(input.scenarioResults, input.planId),
+  signals: input.signals ?? builtinSignals(input.analysis),
+  valuation: input.valuation ?? null
+});
+
+export const valuationRows = (valuation: ValuationSummary): [string, number | null][] => [
+  ["Enterprise Value", valuation.enterpriseValue],
+  ["Equity Value", valuation.equityValue],
+  ["Per Share Value", valuation.perShareValue]
+];
+
+export const reportStamp = (report: BoardReport) =>
+  `Generated ${report.generatedAt} · Amounts in ${describeUnits(report.units)} · Plan "${report.plan.name}" · ${assumptionKeys
+    .map((key) => `${assumptionLabels[key]} ${formatAssumption(report.plan.assumptions[key])}`)
+    .join(", ")}`;
+
+export const reportFileName = (report: BoardReport, format: ReportFormat) => {
+  const slug = report.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "report";
+  const extension = format === "markdown" ? "md" : format;
+  return `${slug}-${report.generatedAt.slice(0, 10)}.${extension}`;
+};
+
+const markdownTable = (header: string[], rows: string[][]) =>
+  [
+    `| ${header.join(" | ")} |`,
+    `| ${header.map((_, index) => (index === 0 ? "---" : "---:")).join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map((cell) => cell.replace(/\|/g, "\\|")).join(" | ")} |`)
+  ].join("\n");
+
+export const renderMarkdown = (report: BoardReport) => {
+  const { analysis } = report;
+  const formatCurrency = currencyFormatter(report.units);
+  const sections = [
+    `# ${report.title}`,
+    `_${reportStamp(report)}_`,
+    "## Key Metrics",
+    markdownTable(
+      ["Metric", "Value"],
+      Object.entries(analysis.metrics).map(([key, value]) => [humanizeKey(key), formatMetric(key, value)])
+    ),
+    "## Health Scores",
+    markdownTable(
+      ["Dimension", "Score"],
+      Object.entries(analysis.healthScores).map(([key, value]) => [humanizeKey(key), value.toFixed(0)])
+    ),
+    "## Strategic Narrative",
+    analysis.narrative,
+    "## Risk Signals",
+    report.signals.length
+      ? report.signals.map((signal) => `- **${signal.severity}** ${signal.message}`).join("\n")
+      : "No acute risks detected.",
+    ...(report.valuation
+      ? [
+          "## Valuation",
+          markdownTable(
+            ["Measure", "Value"],
+            valuationRows(report.valuation).map(([label, value]) => [label, value === null ? "n/a" : formatCurrency(value)])
+          )
+        ]
+      : []),
+    "## Recommendations",
+    analysis.recommendations
+      .map((section) => [`### ${section.title}`, section.highlight, section.bullets.map((bullet) => `- ${bullet}`).join("\n")].join("\n\n"))
+      .join("\n\n"),
+    "## Scenario Outlook",
+    markdownTable(
+      ["Scenario", "Year", "Revenue", "Net Income", "Free Cash Flow", "Δ Net Income vs Plan"],
+      report.variances.map((variance) => [
+        variance.id === report.plan.id ? `${variance.name} (plan)` : variance.name,
+        String(variance.year),
+        formatCurrency(variance.revenue),
+        formatCurrency(variance.netIncome),
+        formatCurrency(variance.freeCashFlow),
+        formatCurrency(variance.netIncomeDelta)
+      ])
+    ),
+    "## Input Periods",
+    markdownTable(
+      ["Period", ...periodFields.map(({ label }) => label)],
+      report.periods.map((period) => [period.label, ...periodFields.map(({ key }) => period[key].toLocaleString("en-US"))])
+    ),
+    "## Assumptions",
+    markdownTable(
+      ["Scenario", ...assumptionKeys.map((key) => assumptionLabels[key])],
+      report.scenarios.map((scenario) => [
+        scenario.id === report.plan.id ? `${scenario.name} (plan)` : scenario.name,
+        ...assumptionKeys.map((key) => formatAssumption(scenario.assumptions[key]))
+      ])
+    )
+  ];
+
+  return `${sections.join("\n\n")}\n`;
+};
+
+export const renderWorkbook = (report: BoardReport) => {
+  const sheets: Sheet[] = [
+    {
+      name: "Inputs",
+      rows: [
+        ["Period", ...periodFields.map(({ label }) => label)],
+        ...report.periods.map((period) => [period.label, ...periodFields.map(({ key }) => period[key])])
+      ]
+    },
+    {
+      name: "Metrics",
+      rows: [
+        ["Metric", "Value"],
+        ...Object.entries(report.analysis.metrics).map(([key, value]) => [humanizeKey(key), value]),
+        [],
+        ["Health Score", "Value"],
+        ...Object.entries(report.analysis.healthScores).map(([key, value]) => [humanizeKey(key), value]),
+        ...(report.valuation ? [[], ["Valuation", "Value"], ...valuationRows(report.valuation)] : []),
+        [],
+        ["Risk Signal", "Severity"],
+        ...report.signals.map((signal) => [signal.message, signal.severity])
+      ]
+    },
+    {
+      name: "Scenarios",
+      rows: [
+        ["Scenario", "Plan", "Year", "Revenue", "Net Income", "Free Cash Flow"],
+        ...report.scenarios.flatMap((scenario) =>
+          scenario.trajectory.map((year) => [
+            scenario.name,
+            scenario.id === report.plan.id ? "Yes" : "",
+            String(year.year),
+            year.revenue,
+            year.netIncome,
+            year.freeCashFlow
+          ])
+        )
+      ]
+    },
+    {
+      name: "Assumptions",
+      rows: [
+        ["Scenario", "Plan", ...assumptionKeys.map((key) => `${assumptionLabels[key]} (%)`)],
+        ...report.scenarios.map((scenario) => [
+          scenario.name,
+          scenario.id === report.plan.id ? "Yes" : "",
+          ...assumptionKeys.map((key) => scenario.assumptions[key])
+        ]),
+        [],
+        ["Report", report.title],
+        ["Generated", report.generatedAt],
+        ["Amounts in", describeUnits(report.units)]
+      ]
+    }
+  ];
+
+  return writeWorkbook(sheets);
+};
@@ -0,0 +1,207 @@
+import type { AnalysisPayload } from "@/lib/analysis";
+import type { BenchmarkResult } from "@/lib/benchmarks";
+import type { DatedPeriod } from "@/lib/period-fields";
+import type { PeriodRollups } from "@/lib/periodicity";
+import { deriveStatements } from "@/lib/statements";
+
+export type RiskSeverity = "info" | "warning" | "critical";
+
+export type RiskComparator = "lt" | "lte" | "gt" | "gte" | "eq" | "neq";
+
+export type RiskRule = {
+  id: string;
+  metric: string;
+  comparator: RiskComparator;
+  threshold: number;
+  severity: RiskSeverity;
+  message: string;
+  enabled?: boolean;
+};
+
+export type RiskSignal = {
+  ruleId: string;
+  source: "rule" | "builtin";
+  severity: RiskSeverity;
+  message: string;
+  metric: string | null;
+  comparator: RiskComparator | null;
+  observed: number | null;
+  threshold: number | null;
+};
+
+export const riskSeverities: RiskSeverity[] = ["critical", "warning", "info"];
+
+export const riskComparators: Record<RiskComparator, { symbol: string; test: (value: number, threshold: number) => boolean }> = {
+  lt: { symbol: "<", test: (value, threshold) => value < threshold },
+  lte: { symbol: "≤", test: (value, threshold) => value <= threshold },
+  gt: { symbol: ">", test: (value, threshold) => value > threshold },
+  gte: { symbol: "≥", test: (value, threshold) => value >= threshold },
+  eq: { symbol: "=", test: (value, threshold) => value === threshold },
+  neq: { symbol: "≠", test: (value, threshold) => value !== threshold }
+};
+
+export const defaultRiskRules: RiskRule[] = [
+  {
+    id: "negative-margin",
+    metric: "metrics.netMargin",
+    comparator: "lt",
+    threshold: 0,
+    severity: "critical",
+    message: "Net margin is {{value}}, below {{threshold}}."
+  },
+  {
+    id: "high-leverage",
+    metric: "ratios.liabilitiesToAssets",
+    comparator: "gt",
+    threshold: 0.6,
+    severity: "warning",
+    message: "Liabilities are {{value}} of assets (limit {{threshold}})."
+  },
+  {
+    id: "burn-multiple",
+    metric: "metrics.burnMultiple",
+    comparator: "gt",
+    threshold: 2,
+    severity: "warning",
+    message: "Burn multiple of {{value}} exceeds {{threshold}}."
+  },
+  {
+    id: "health-floor",
+    metric: "healthScores.overall",
+    comparator: "lt",
+    threshold: 50,
+    severity: "info",
+    message: "Overall health score {{value}} is under {{threshold}}."
+  },
+  {
+    id: "cohort-burn-multiple",
+    metric: "cohort.metrics.burnMultiple",
+    comparator: "lt",
+    threshold: 10,
+    severity: "warning",
+    message: "Burn multiple in bottom decile for {{cohort}} (percentile {{value}})."
+  },
+  {
+    id: "cohort-net-margin",
+    metric: "cohort.metrics.netMargin",
+    comparator: "lt",
+    threshold: 25,
+    severity: "info",
+    message: "Net margin in bottom quartile for {{cohort}} (percentile {{value}})."
+  }
+];
+
+const severityRank: Record<RiskSeverity, number> = { critical: 0, warning: 1, info: 2 };
+
+const flatten = (prefix: string, source: Record<string, unknown>, target: Record<string, number>) => {
+  for (const [key, value] of Object.entries(source)) {
+    if (typeof value === "number" && Number.isFinite(value)) target[`${prefix}.${key}`] = value;
+  }
+};
+
+export const buildRiskContext = (
+  analysis: AnalysisPayload,
+  periods: DatedPeriod[],
+  rollups: PeriodRollups | null = null,
+  benchmark: BenchmarkResult | null = null
+): Record<string, number> => {
+  const context: Record<string, number> = {};
+  flatten("metrics", analysis.metrics, context);
+  flatten("healthScores", analysis.healthScores, context);
+
+  const latest = periods[periods.length - 1];
+  if (latest) {
+    flatten("latest", latest, context);
+    if (latest.assets) {
+      context["ratios.liabilitiesToAssets"] = latest.liabilities / latest.assets;
+      context["ratios.cashToAssets"] = latest.cash / latest.assets;
+    }
+    if (latest.liabilities) context["ratios.cashToLiabilities"] = latest.cash / latest.liabilities;
+    if (latest.revenue) {
+      context["ratios.grossMargin"] = (latest.revenue - latest.cogs) / latest.revenue;
+      context["ratios.fcfMargin"] = latest.freeCashFlow / latest.revenue;
+    }
+    const statements = deriveStatements(periods);
+    flatten("statements", statements[statements.length - 1].values, context);
+  }
+
+  const final = analysis.scenario[analysis.scenario.length - 1];
+  if (final) flatten("scenario.final", final, context);
+
+  if (rollups) {
+    flatten("ttm", rollups.ttm, context);
+    if (rollups.qoq) flatten("qoq", rollups.qoq, context);
+    if (rollups.yoy) flatten("yoy", rollups.yoy, context);
+  }
+
+  for (const rank of Object.values(benchmark?.ranks ?? {})) context[`cohort.${rank.key}`] = rank.percentile;
+
+  return context;
+};
+
+const formatValue = (metric: string, value: number) => {
+  if (metric.startsWith("cohort.")) return String(Math.round(value));
+  if (/margin|ratios\.|qoq\.|yoy\.|cagr|growth/i.test(metric)) return `${(value * 100).toFixed(1)}%`;
+  if (Math.abs(value) >= 1000) return value.toLocaleString("en-US", { maximumFractionDigits: 0 });
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+};
+
+export const renderRuleMessage = (rule: RiskRule, observed: number, labels: Record<string, string> = {}) =>
+  rule.message
+    .replace(/\{\{\s*value\s*\}\}/g, formatValue(rule.metric, observed))
+    .replace(/\{\{\s*threshold\s*\}\}/g, formatValue(rule.metric, rule.threshold))
+    .replace(/\{\{\s*metric\s*\}\}/g, rule.metric)
+    .replace(/\{\{\s*comparator\s*\}\}/g, riskComparators[rule.comparator].symbol)
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) => labels[name] ?? placeholder);
+
+export const sortSignals = (signals: RiskSignal[]) =>
+  [...signals].sort((a, b) => severityRank[a.severity] - severityRank[b.severity]);
+
+export const evaluateRiskRules = (
+  rules: RiskRule[],
+  context: Record<string, number>,
+  labels: Record<string, string> = {}
+): RiskSignal[] =>
+  sortSignals(
+    rules.flatMap((rule) => {
+      const observed = context[rule.metric];
+      if (rule.enabled === false || observed === undefined) return [];
+      if (!riskComparators[rule.comparator].test(observed, rule.threshold)) return [];
+      return [
+        {
+          ruleId: rule.id,
+          source: "rule" as const,
+          severity: rule.severity,
+          message: renderRuleMessage(rule, observed, labels),
+          metric: rule.metric,
+          comparator: rule.comparator,
+          observed,
+          threshold: rule.threshold
+        }
+      ];
+    })
+  );
+
+// Built-in ids come from the message with its figures stripped, so a signal keeps its id across
+// runs even when other signals appear before it or its numbers move.
+const builtinId = (message: string) =>
+  `builtin-${message.toLowerCase().replace(/\d[\d.,]*[%kmbx]?(?![a-z])/g, "").replace(/[^a-z]+/g, "-").replace(/^-|-$/g, "") || "signal"}`;
+
+export const builtinSignals = (analysis: AnalysisPayload): RiskSignal[] => {
+  const seen = new Map<string, number>();
+  return analysis.riskSignals.map((message) => {
+    const id = builtinId(message);
+    const count = (seen.get(id) ?? 0) + 1;
+    seen.set(id, count);
+    return {
+      ruleId: count === 1 ? id : `${id}-${count}`,
+      source: "builtin",
+      severity: "warning",
+      message,
+      metric: null,
+      comparator: null,
+      observed: null,
+      threshold: null
+    };
+  });
+};
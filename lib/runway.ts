@@ -0,0 +1,198 @@
+import type { ScenarioAssumptions } from "@/lib/analysis";
+import type { DatedPeriod } from "@/lib/period-fields";
+import { monthsPerPeriod, parseIsoDate, periodLabel, resolveTimeline } from "@/lib/periodicity";
+import type { RiskSignal } from "@/lib/risk-rules";
+
+export type FinancingEvent = {
+  amount: number;
+  month: number;
+};
+
+export type RunwayOptions = {
+  horizonMonths: number;
+  bufferMonths: number;
+  alertMonths: number;
+  financing: FinancingEvent | null;
+};
+
+export type RunwayMonth = {
+  month: number;
+  label: string;
+  startDate: string;
+  opening: number;
+  operating: number;
+  financing: number;
+  closing: number;
+};
+
+export type RunwayProjection = {
+  months: RunwayMonth[];
+  runwayMonths: number | null;
+  zeroCashDate: string | null;
+  raiseByDate: string | null;
+};
+
+export type RunwayResult = {
+  options: RunwayOptions;
+  startingCash: number;
+  monthlyBurn: number;
+  burnTrend: number;
+  bufferAmount: number;
+  base: RunwayProjection;
+  financed: RunwayProjection | null;
+  // Null when there is no financing or either runway outlasts the horizon, since the gain is then open-ended.
+  extensionMonths: number | null;
+};
+
+export const defaultRunwayOptions: RunwayOptions = {
+  horizonMonths: 36,
+  bufferMonths: 6,
+  alertMonths: 12,
+  financing: null
+};
+
+const TREND_CAP_MONTHS = 12;
+const TREND_WINDOW = 4;
+
+const toIso = (date: Date) => date.toISOString().slice(0, 10);
+
+const addMonths = (date: Date, months: number) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+
+const slope = (points: { x: number; y: number }[]) => {
+  if (points.length < 2) return 0;
+  const meanX = points.reduce((total, point) => total + point.x, 0) / points.length;
+  const meanY = points.reduce((total, point) => total + point.y, 0) / points.length;
+  const spread = points.reduce((total, point) => total + (point.x - meanX) ** 2, 0);
+  return spread ? points.reduce((total, point) => total + (point.x - meanX) * (point.y - meanY), 0) / spread : 0;
+};
+
+const project = (
+  startingCash: number,
+  start: Date,
+  cashFlow: (month: number) => number,
+  options: RunwayOptions,
+  bufferAmount: number,
+  financing: FinancingEvent | null
+): RunwayProjection => {
+  const months: RunwayMonth[] = [];
+  let balance = startingCash;
+  let runwayMonths: number | null = null;
+  let zeroCashDate: string | null = null;
+  let raiseByDate: string | null = startingCash < bufferAmount ? toIso(start) : null;
+
+  for (let month = 1; month <= options.horizonMonths && runwayMonths === null; month++) {
+    const monthStart = addMonths(start, month - 1);
+    const operating = cashFlow(month);
+    const inflow = financing && financing.month === month ? financing.amount : 0;
+    const closing = balance + operating + inflow;
+    months.push({
+      month,
+      label: periodLabel(monthStart, "month"),
+      startDate: toIso(monthStart),
+      opening: balance,
+      operating,
+      financing: inflow,
+      closing
+    });
+
+    if (raiseByDate === null && closing < bufferAmount) raiseByDate = toIso(monthStart);
+    if (closing <= 0) {
+      const available = balance + inflow;
+      const fraction = operating < 0 ? Math.min(1, Math.max(0, available / -operating)) : 1;
+      runwayMonths = month - 1 + fraction;
+      const monthEnd = addMonths(monthStart, 1);
+      zeroCashDate = toIso(new Date(monthStart.getTime() + (monthEnd.getTime() - monthStart.getTime()) * fraction));
+    }
+    balance = closing;
+  }
+
+  return { months, runwayMonths, zeroCashDate, raiseByDate };
+};
+
+// Revenue compounds at the observed rate plus the scenario's growth delta; the free cash flow
+// margin starts at the latest period's level and follows its recent trend for up to a year.
+export const projectRunway = (
+  input: DatedPeriod[],
+  assumptions: ScenarioAssumptions,
+  options: RunwayOptions = defaultRunwayOptions
+): RunwayResult | null => {
+  if (!input.length) return null;
+  const { granularity, periods } = resolveTimeline(input);
+  const months = monthsPerPeriod[granularity];
+  const recent = periods.slice(-TREND_WINDOW);
+  const latest = recent[recent.length - 1];
+
+  const monthly = recent.map((period, index) => ({
+    x: index * months,
+    revenue: period.revenue / months,
+    cashFlow: period.freeCashFlow / months,
+    opex: period.operatingExpenses / months
+  }));
+  const current = monthly[monthly.length - 1];
+  const first = monthly[0];
+
+  const observedGrowth =
+    monthly.length > 1 && first.revenue > 0 && current.revenue > 0
+      ? Math.pow(current.revenue / first.revenue, 12 / (current.x - first.x)) - 1
+      : 0;
+  const growth = Math.max(-1, observedGrowth + assumptions.revenueGrowth / 100);
+  const burnTrend = slope(monthly.map((point) => ({ x: point.x, y: point.cashFlow })));
+  const marginTrend =
+    current.revenue > 0
+      ? slope(monthly.filter((point) => point.revenue > 0).map((point) => ({ x: point.x, y: point.cashFlow / point.revenue })))
+      : 0;
+  const efficiency = (current.opex * assumptions.efficiencyGain) / 100;
+
+  const cashFlow = (month: number) => {
+    const trendMonths = Math.min(month, TREND_CAP_MONTHS);
+    const operating =
+      current.revenue > 0
+        ? current.revenue *
+            Math.pow(1 + growth, month / 12) *
+            (current.cashFlow / current.revenue + assumptions.marginShift / 100 + marginTrend * trendMonths) +
+          efficiency
+        : current.cashFlow + burnTrend * trendMonths + efficiency;
+    return operating + (Math.abs(operating) * assumptions.cashConversion) / 100;
+  };
+
+  const end = parseIsoDate(latest.endDate) ?? new Date();
+  const start = addMonths(end, 1);
+  const monthlyBurn = Math.max(0, -cashFlow(1));
+  const bufferAmount = monthlyBurn * options.bufferMonths;
+  const base = project(latest.cash, start, cashFlow, options, bufferAmount, null);
+  const financed = options.financing
+    ? project(latest.cash, start, cashFlow, options, bufferAmount, options.financing)
+    : null;
+
+  return {
+    options,
+    startingCash: latest.cash,
+    monthlyBurn,
+    burnTrend,
+    bufferAmount,
+    base,
+    financed,
+    extensionMonths:
+      financed && financed.runwayMonths !== null && base.runwayMonths !== null
+        ? financed.runwayMonths - base.runwayMonths
+        : null
+  };
+};
+
+export const runwaySignals = (runway: RunwayResult | null): RiskSignal[] => {
+  const months = runway?.base.runwayMonths ?? null;
+  if (!runway || months === null || months >= runway.options.alertMonths) return [];
+  const raiseBy = runway.base.raiseByDate ? ` Raise by ${runway.base.raiseByDate} to keep a ${runway.options.bufferMonths}-month buffer.` : "";
+  return [
+    {
+      ruleId: "runway",
+      source: "builtin",
+      severity: months < runway.options.alertMonths / 2 ? "critical" : "warning",
+      message: `Cash runs out in ${months.toFixed(1)} months (${runway.base.zeroCashDate}).${raiseBy}`,
+      metric: "runway.months",
+      comparator: "lt",
+      observed: months,
+      threshold: runway.options.alertMonths
+    }
+  ];
+};
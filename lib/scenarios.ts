@@ -0,0 +1,97 @@
+import { runAnalysis, type AnalysisPayload, type FinancialPeriod, type ScenarioAssumptions } from "@/lib/analysis";
+import type { AssumptionDistributions } from "@/lib/simulation";
+
+export type NamedScenario = {
+  id: string;
+  name: string;
+  assumptions: ScenarioAssumptions;
+  distributions?: AssumptionDistributions;
+};
+
+export type ScenarioYear = AnalysisPayload["scenario"][number];
+
+export type ScenarioResult = {
+  id: string;
+  name: string;
+  assumptions: ScenarioAssumptions;
+  trajectory: ScenarioYear[];
+};
+
+export type ScenarioVariance = {
+  id: string;
+  name: string;
+  year: ScenarioYear["year"];
+  revenue: number;
+  netIncome: number;
+  freeCashFlow: number;
+  revenueDelta: number;
+  netIncomeDelta: number;
+  freeCashFlowDelta: number;
+};
+
+export const scenarioMetrics = ["revenue", "netIncome", "freeCashFlow"] as const;
+
+export const assumptionKeys: (keyof ScenarioAssumptions)[] = [
+  "revenueGrowth",
+  "marginShift",
+  "efficiencyGain",
+  "cashConversion"
+];
+
+export const createScenarioId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID().slice(0, 8)
+    : Math.random().toString(36).slice(2, 10);
+
+export const buildDefaultScenarios = (base: ScenarioAssumptions): NamedScenario[] => [
+  { id: "base", name: "Base", assumptions: { ...base } },
+  {
+    id: "bull",
+    name: "Bull",
+    assumptions: {
+      revenueGrowth: base.revenueGrowth + 5,
+      marginShift: base.marginShift + 2,
+      efficiencyGain: base.efficiencyGain + 2,
+      cashConversion: base.cashConversion + 3
+    }
+  },
+  {
+    id: "bear",
+    name: "Bear",
+    assumptions: {
+      revenueGrowth: base.revenueGrowth - 6,
+      marginShift: base.marginShift - 3,
+      efficiencyGain: base.efficiencyGain - 2,
+      cashConversion: base.cashConversion - 4
+    }
+  }
+];
+
+export const evaluateScenarios = (periods: FinancialPeriod[], scenarios: NamedScenario[]): ScenarioResult[] =>
+  scenarios.map((scenario) => ({
+    id: scenario.id,
+    name: scenario.name,
+    assumptions: scenario.assumptions,
+    trajectory: runAnalysis(periods, scenario.assumptions).scenario
+  }));
+
+export const compareToPlan = (results: ScenarioResult[], planId: string): ScenarioVariance[] => {
+  const plan = results.find((result) => result.id === planId) ?? results[0];
+  const planFinal = plan?.trajectory[plan.trajectory.length - 1];
+  if (!planFinal) return [];
+
+  return results.map((result) => {
+    const final = result.trajectory[result.trajectory.length - 1] ?? planFinal;
+    return {
+      id: result.id,
+      name: result.name,
+      year: final.year,
+      revenue: final.revenue,
+      netIncome: final.netIncome,
+      freeCashFlow: final.freeCashFlow,
+      revenueDelta: final.revenue - planFinal.revenue,
+      netIncomeDelta: final.netIncome - planFinal.netIncome,
+      freeCashFlowDelta: final.freeCashFlow - planFinal.freeCashFlow
+    };
+  });
+};
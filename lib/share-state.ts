@@ -0,0 +1,41 @@
+export const SHARE_HASH_KEY = "state";
+
+const SHARE_VERSION = 1;
+
+const pipe = async (bytes: BlobPart, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = "";
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (token: string) => {
+  const binary = atob(token.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+// Deflated JSON in base64url, small enough for a URL fragment so shared links never reach the server.
+export const encodeShareState = async (state: unknown) => {
+  const json = JSON.stringify({ version: SHARE_VERSION, state });
+  return toBase64Url(await pipe(new TextEncoder().encode(json), new CompressionStream("deflate-raw")));
+};
+
+export const decodeShareState = async (token: string): Promise<unknown> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(new TextDecoder().decode(await pipe(fromBase64Url(token), new DecompressionStream("deflate-raw"))));
+  } catch {
+    throw new Error("This share link is damaged or incomplete.");
+  }
+  const envelope = parsed as { version?: unknown; state?: unknown } | null;
+  if (envelope?.version !== SHARE_VERSION) throw new Error("This share link was created by an unsupported version.");
+  return envelope.state;
+};
+
+export const readShareToken = (hash: string) => new URLSearchParams(hash.replace(/^#/, "")).get(SHARE_HASH_KEY);
+
+export const shareUrl = (origin: string, token: string) => `${origin}/#${SHARE_HASH_KEY}=${token}`;
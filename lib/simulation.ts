@@ -0,0 +1,177 @@
+import { runAnalysis, type FinancialPeriod, type ScenarioAssumptions } from "@/lib/analysis";
+import { assumptionKeys, scenarioMetrics, type ScenarioYear } from "@/lib/scenarios";
+
+export type AssumptionKey = keyof ScenarioAssumptions;
+
+export type AssumptionDistribution =
+  | { kind: "normal"; mean: number; stdDev: number; min?: number; max?: number }
+  | { kind: "triangular"; min: number; mode: number; max: number }
+  | { kind: "uniform"; min: number; max: number };
+
+export type AssumptionDistributions = Partial<Record<AssumptionKey, AssumptionDistribution>>;
+
+export type PercentileBand = { p10: number; p50: number; p90: number };
+
+export type SimulationBand = {
+  year: ScenarioYear["year"];
+} & Record<(typeof scenarioMetrics)[number], PercentileBand>;
+
+export type SimulationResult = {
+  iterations: number;
+  seed: number;
+  bands: SimulationBand[];
+};
+
+export type TornadoBar = {
+  key: AssumptionKey;
+  low: number;
+  high: number;
+  netIncome: { low: number; high: number };
+  freeCashFlow: { low: number; high: number };
+  swing: number;
+};
+
+export const DEFAULT_ITERATIONS = 2000;
+export const DEFAULT_SEED = 42;
+const DEFAULT_SWING = 5;
+
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Acklam's rational approximation of the inverse standard normal CDF.
+const normalQuantile = (p: number) => {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  );
+};
+
+export const distributionQuantile = (distribution: AssumptionDistribution, p: number) => {
+  switch (distribution.kind) {
+    case "uniform":
+      return distribution.min + (distribution.max - distribution.min) * p;
+    case "triangular": {
+      const { min, mode, max } = distribution;
+      if (max <= min) return min;
+      const split = (mode - min) / (max - min);
+      return p < split
+        ? min + Math.sqrt(p * (max - min) * (mode - min))
+        : max - Math.sqrt((1 - p) * (max - min) * (max - mode));
+    }
+    case "normal": {
+      const value = distribution.mean + distribution.stdDev * normalQuantile(p);
+      return Math.min(distribution.max ?? Infinity, Math.max(distribution.min ?? -Infinity, value));
+    }
+  }
+};
+
+export const percentile = (sorted: number[], p: number) => {
+  if (!sorted.length) return 0;
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const toBand = (values: number[]): PercentileBand => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return { p10: percentile(sorted, 0.1), p50: percentile(sorted, 0.5), p90: percentile(sorted, 0.9) };
+};
+
+export const runSimulation = (
+  periods: FinancialPeriod[],
+  assumptions: ScenarioAssumptions,
+  distributions: AssumptionDistributions,
+  { iterations = DEFAULT_ITERATIONS, seed = DEFAULT_SEED }: { iterations?: number; seed?: number } = {}
+): SimulationResult => {
+  const random = createRandom(seed);
+  const samples: ScenarioYear[][] = [];
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const sampled = { ...assumptions };
+    for (const key of assumptionKeys) {
+      const distribution = distributions[key];
+      if (distribution) sampled[key] = distributionQuantile(distribution, random());
+    }
+    samples.push(runAnalysis(periods, sampled).scenario);
+  }
+
+  const years = samples[0] ?? runAnalysis(periods, assumptions).scenario;
+  const bands = years.map((point, index) => ({
+    year: point.year,
+    ...(Object.fromEntries(
+      scenarioMetrics.map((metric) => [metric, toBand(samples.map((trajectory) => trajectory[index]?.[metric] ?? 0))])
+    ) as Record<(typeof scenarioMetrics)[number], PercentileBand>)
+  }));
+
+  return { iterations, seed, bands };
+};
+
+const finalYear = (periods: FinancialPeriod[], assumptions: ScenarioAssumptions) => {
+  const trajectory = runAnalysis(periods, assumptions).scenario;
+  return trajectory[trajectory.length - 1];
+};
+
+export type TornadoResult = {
+  base: { netIncome: number; freeCashFlow: number };
+  bars: TornadoBar[];
+};
+
+export const runTornado = (
+  periods: FinancialPeriod[],
+  assumptions: ScenarioAssumptions,
+  distributions: AssumptionDistributions
+): TornadoResult => {
+  const base = finalYear(periods, assumptions);
+  const bars = assumptionKeys
+    .map((key) => {
+      const distribution = distributions[key];
+      const low = distribution ? distributionQuantile(distribution, 0.1) : assumptions[key] - DEFAULT_SWING;
+      const high = distribution ? distributionQuantile(distribution, 0.9) : assumptions[key] + DEFAULT_SWING;
+      const atLow = finalYear(periods, { ...assumptions, [key]: low });
+      const atHigh = finalYear(periods, { ...assumptions, [key]: high });
+
+      return {
+        key,
+        low,
+        high,
+        netIncome: { low: atLow?.netIncome ?? 0, high: atHigh?.netIncome ?? 0 },
+        freeCashFlow: { low: atLow?.freeCashFlow ?? 0, high: atHigh?.freeCashFlow ?? 0 },
+        swing:
+          Math.abs((atHigh?.netIncome ?? 0) - (atLow?.netIncome ?? 0)) +
+          Math.abs((atHigh?.freeCashFlow ?? 0) - (atLow?.freeCashFlow ?? 0))
+      } satisfies TornadoBar;
+    })
+    .sort((a, b) => b.swing - a.swing);
+
+  return {
+    base: { netIncome: base?.netIncome ?? 0, freeCashFlow: base?.freeCashFlow ?? 0 },
+    bars
+  };
+};
@@ -0,0 +1,332 @@
+import { DEFAULT_LOCALE, parseLocaleNumber } from "@/lib/number-format";
+import { emptyPeriod, type DatedPeriod, type LineItemField, type PeriodField } from "@/lib/period-fields";
+
+export type ImportOrientation = "rows" | "columns";
+
+export type ImportTarget = PeriodField | LineItemField | "label";
+
+export type ImportSeries = {
+  header: string;
+  values: string[];
+};
+
+export type ImportPreview = {
+  orientation: ImportOrientation;
+  periodLabels: string[];
+  series: ImportSeries[];
+  mapping: (ImportTarget | null)[];
+};
+
+const fieldAliases: Record<ImportTarget, string[]> = {
+  label: ["period", "label", "year", "fiscal year", "fy", "quarter", "month", "date", "period ending", "period end"],
+  revenue: ["revenue", "revenues", "total revenue", "net revenue", "sales", "net sales", "total sales", "turnover"],
+  cogs: [
+    "cogs",
+    "cost of goods sold",
+    "cost of sales",
+    "cost of revenue",
+    "cost of revenues",
+    "direct costs",
+    "total cost of revenue"
+  ],
+  operatingExpenses: [
+    "opex",
+    "operating expenses",
+    "total operating expenses",
+    "sg and a",
+    "sga",
+    "selling general and administrative",
+    "selling general and administrative expenses",
+    "operating costs",
+    "overheads"
+  ],
+  netIncome: [
+    "net income",
+    "net profit",
+    "net earnings",
+    "net income loss",
+    "net profit loss",
+    "net loss",
+    "loss for the year",
+    "loss for the period",
+    "loss after tax",
+    "profit after tax",
+    "profit for the year",
+    "profit for the period"
+  ],
+  assets: ["assets", "total assets"],
+  liabilities: ["liabilities", "total liabilities"],
+  cash: ["cash", "cash and cash equivalents", "cash and equivalents", "cash equivalents", "cash at bank"],
+  freeCashFlow: ["free cash flow", "fcf", "unlevered free cash flow", "levered free cash flow"],
+  receivables: ["receivables", "accounts receivable", "trade receivables", "trade and other receivables", "debtors"],
+  inventory: ["inventory", "inventories", "stock"],
+  payables: ["payables", "accounts payable", "trade payables", "trade and other payables", "creditors"],
+  currentDebt: [
+    "current debt",
+    "short term debt",
+    "short term borrowings",
+    "current borrowings",
+    "current portion of long term debt"
+  ],
+  longTermDebt: ["long term debt", "long term borrowings", "non current borrowings", "term loan"],
+  capex: [
+    "capex",
+    "capital expenditure",
+    "capital expenditures",
+    "purchase of property plant and equipment",
+    "purchases of property and equipment"
+  ],
+  depreciation: [
+    "d and a",
+    "depreciation",
+    "depreciation and amortization",
+    "depreciation and amortisation",
+    "depreciation amortization"
+  ],
+  interestExpense: ["interest", "interest expense", "finance costs", "net interest expense"],
+  taxes: ["tax", "taxes", "income tax", "income taxes", "income tax expense", "provision for income taxes", "taxation"]
+};
+
+const normalizeHeader = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/\([^)]*\)/g, " ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .replace(/\s+/g, " ");
+
+// Rows labelled as a loss carry the magnitude, so a "Net loss" of 30 or (30) is a net income of -30.
+const lossAliases = new Set(["net loss", "loss for the year", "loss for the period", "loss after tax"]);
+
+// Tax and interest phrases also appear inside unrelated lines ("Income before income taxes",
+// "Deferred income taxes", "Interest paid"), so these fields only map on an exact label.
+const exactOnlyTargets = new Set<ImportTarget>(["interestExpense", "taxes"]);
+
+// Check totals such as "Total liabilities and equity" contain a liabilities phrase but are not liabilities.
+const combinedTotal = / and (?:shareholders |stockholders |owners |members )?(?:equity|capital|net worth|funds)\b/;
+
+type AliasMatch = { target: ImportTarget; exact: boolean; negate: boolean };
+
+const matchAlias = (header: string): AliasMatch | null => {
+  const normalized = normalizeHeader(header);
+  if (!normalized || combinedTotal.test(normalized)) return null;
+
+  const stripped = normalized.replace(/^total /, "");
+  let best: { target: ImportTarget; alias: string } | null = null;
+
+  for (const [target, aliases] of Object.entries(fieldAliases) as [ImportTarget, string[]][]) {
+    for (const alias of aliases) {
+      if (alias === normalized || alias === stripped) return { target, exact: true, negate: lossAliases.has(alias) };
+      const isPhrase = alias.includes(" ") && !exactOnlyTargets.has(target);
+      if (isPhrase && ` ${normalized} `.includes(` ${alias} `) && (!best || alias.length > best.alias.length)) {
+        best = { target, alias };
+      }
+    }
+  }
+
+  return best ? { target: best.target, exact: false, negate: lossAliases.has(best.alias) } : null;
+};
+
+export const matchField = (header: string): ImportTarget | null => matchAlias(header)?.target ?? null;
+
+export const parseDelimited = (text: string): string[][] => {
+  const lines = text.replace(/\r\n?/g, "\n");
+  const firstLine = lines.split("\n", 1)[0] ?? "";
+  const delimiter = firstLine.includes("\t")
+    ? "\t"
+    : (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0)
+      ? ";"
+      : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let index = 0; index < lines.length; index++) {
+    const char = lines[index];
+
+    if (quoted) {
+      if (char === '"' && lines[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && !cell.trim()) {
+      quoted = true;
+      cell = "";
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = "";
+    } else if (char === "\n") {
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell.length || row.length) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value.length));
+};
+
+const isFilled = (value: string | undefined) => Boolean(value && value.trim().length);
+
+const trimGrid = (grid: string[][]) => {
+  const rows = grid.filter((cells) => cells.some(isFilled));
+  const headerIndex = rows.findIndex((cells) => cells.filter(isFilled).length >= 2);
+  return headerIndex > 0 ? rows.slice(headerIndex) : rows;
+};
+
+export const detectOrientation = (grid: string[][]): ImportOrientation => {
+  const rows = trimGrid(grid);
+  if (!rows.length) return "rows";
+
+  const headerMatches = rows[0].filter((cell) => {
+    const target = matchField(cell);
+    return target !== null && target !== "label";
+  }).length;
+  const columnMatches = rows.filter((cells) => {
+    const target = matchField(cells[0] ?? "");
+    return target !== null && target !== "label";
+  }).length;
+
+  return columnMatches > headerMatches ? "columns" : "rows";
+};
+
+const mostlyText = (values: string[]) => {
+  const filled = values.filter(isFilled);
+  return filled.length > 0 && filled.filter((value) => parseLocaleNumber(value) === null).length > filled.length / 2;
+};
+
+export const buildImportPreview = (grid: string[][], orientation = detectOrientation(grid)): ImportPreview => {
+  const rows = trimGrid(grid);
+  if (!rows.length) {
+    return { orientation, periodLabels: [], series: [], mapping: [] };
+  }
+
+  const width = Math.max(...rows.map((cells) => cells.length));
+  const series: ImportSeries[] = [];
+  let periodLabels: string[];
+
+  if (orientation === "rows") {
+    const [header, ...body] = rows;
+    for (let column = 0; column < width; column++) {
+      series.push({
+        header: header[column] ?? "",
+        values: body.map((cells) => cells[column] ?? "")
+      });
+    }
+    periodLabels = body.map((_, index) => `Period ${index + 1}`);
+  } else {
+    const [header, ...body] = rows;
+    periodLabels = Array.from({ length: width - 1 }, (_, index) => header[index + 1] ?? "");
+    for (const cells of body) {
+      series.push({
+        header: cells[0] ?? "",
+        values: periodLabels.map((_, index) => cells[index + 1] ?? "")
+      });
+    }
+  }
+
+  const used = new Set<ImportTarget>();
+  const mapping = series.map((entry) => {
+    const target = matchField(entry.header);
+    if (target === "label" && used.has("label")) return null;
+    if (target) used.add(target);
+    return target;
+  });
+
+  if (orientation === "rows" && !used.has("label")) {
+    const labelIndex = series.findIndex((entry, index) => mapping[index] === null && mostlyText(entry.values));
+    if (labelIndex >= 0) mapping[labelIndex] = "label";
+  }
+
+  return { orientation, periodLabels, series, mapping };
+};
+
+export type ImportDuplicate = {
+  target: ImportTarget;
+  kept: string;
+  ignored: string[];
+};
+
+// When several rows map to the same field the exact alias match wins, otherwise the first one.
+// The others are reported rather than summed, so subtotals are never counted twice.
+export const resolveImportSources = (preview: ImportPreview, mapping = preview.mapping) => {
+  const grouped = new Map<ImportTarget, number[]>();
+  mapping.forEach((target, index) => {
+    if (target) grouped.set(target, [...(grouped.get(target) ?? []), index]);
+  });
+
+  const header = (index: number) => {
+    const name = preview.series[index].header;
+    if (name && preview.series.filter((entry) => entry.header === name).length === 1) return name;
+    // Positions count from the header, so row-wise series start on row 2 of the table.
+    return `${name || "Unnamed"} (${preview.orientation === "rows" ? `column ${index + 1}` : `row ${index + 2}`})`;
+  };
+  const sources = new Map<ImportTarget, number>();
+  const duplicates: ImportDuplicate[] = [];
+  grouped.forEach((indexes, target) => {
+    const exact = indexes.find((index) => {
+      const match = matchAlias(preview.series[index].header);
+      return match?.target === target && match.exact;
+    });
+    const kept = exact ?? indexes[0];
+    sources.set(target, kept);
+    if (indexes.length > 1) {
+      duplicates.push({ target, kept: header(kept), ignored: indexes.filter((index) => index !== kept).map(header) });
+    }
+  });
+
+  return { sources, duplicates };
+};
+
+export const applyImportMapping = (
+  preview: ImportPreview,
+  mapping = preview.mapping,
+  locale = DEFAULT_LOCALE
+): DatedPeriod[] => {
+  const { sources } = resolveImportSources(preview, mapping);
+  const labelIndex = sources.get("label");
+  const labelSeries = labelIndex === undefined ? undefined : preview.series[labelIndex];
+  const losses = new Set(
+    Array.from(sources)
+      .filter(([target, seriesIndex]) => {
+        const match = matchAlias(preview.series[seriesIndex].header);
+        return match?.negate && match.target === target;
+      })
+      .map(([, seriesIndex]) => seriesIndex)
+  );
+
+  return preview.periodLabels
+    .map((fallbackLabel, periodIndex) => {
+      const period: DatedPeriod = emptyPeriod();
+      let hasValue = false;
+
+      sources.forEach((seriesIndex, target) => {
+        if (target === "label") return;
+        const parsed = parseLocaleNumber(preview.series[seriesIndex].values[periodIndex] ?? "", locale);
+        if (parsed === null) return;
+        period[target] = parsed === 0 ? 0 : losses.has(seriesIndex) ? -Math.abs(parsed) : parsed;
+        hasValue = true;
+      });
+
+      period.label = (labelSeries?.values[periodIndex] ?? fallbackLabel).trim();
+      return hasValue ? period : null;
+    })
+    .filter(Boolean) as DatedPeriod[];
+};
@@ -0,0 +1,102 @@
+import type { DatedPeriod } from "@/lib/period-fields";
+import { parseIsoDate, resolveTimeline } from "@/lib/periodicity";
+
+export type StatementMeasure =
+  | "ebitda"
+  | "freeCashFlow"
+  | "currentRatio"
+  | "quickRatio"
+  | "dso"
+  | "dio"
+  | "dpo"
+  | "cashConversionCycle"
+  | "interestCoverage"
+  | "netDebtToEbitda";
+
+export type MeasureFormat = "currency" | "ratio" | "days" | "multiple";
+
+export type DerivedStatement = {
+  label: string;
+  days: number;
+  values: Record<StatementMeasure, number | null>;
+};
+
+export const statementMeasures: { key: StatementMeasure; label: string; format: MeasureFormat }[] = [
+  { key: "ebitda", label: "EBITDA", format: "currency" },
+  { key: "freeCashFlow", label: "FCF (derived)", format: "currency" },
+  { key: "currentRatio", label: "Current Ratio", format: "ratio" },
+  { key: "quickRatio", label: "Quick Ratio", format: "ratio" },
+  { key: "dso", label: "DSO", format: "days" },
+  { key: "dio", label: "DIO", format: "days" },
+  { key: "dpo", label: "DPO", format: "days" },
+  { key: "cashConversionCycle", label: "Cash Cycle", format: "days" },
+  { key: "interestCoverage", label: "Interest Cover", format: "multiple" },
+  { key: "netDebtToEbitda", label: "Net Debt / EBITDA", format: "multiple" }
+];
+
+const DAYS_PER_YEAR = 365;
+
+const ratio = (numerator: number, denominator: number | null | undefined) =>
+  denominator !== null && denominator !== undefined && denominator > 0 ? numerator / denominator : null;
+
+const spanDays = (startDate: string, endDate: string) => {
+  const start = parseIsoDate(startDate);
+  const end = parseIsoDate(endDate);
+  return start && end ? Math.max(1, (end.getTime() - start.getTime()) / 86_400_000 + 1) : DAYS_PER_YEAR;
+};
+
+const netWorkingCapital = (period: DatedPeriod) =>
+  period.receivables === undefined && period.inventory === undefined && period.payables === undefined
+    ? null
+    : (period.receivables ?? 0) + (period.inventory ?? 0) - (period.payables ?? 0);
+
+// Capex is accepted with either sign and always treated as an outflow.
+export const deriveFreeCashFlow = (period: DatedPeriod, previous?: DatedPeriod) => {
+  if (period.capex === undefined) return null;
+  const current = netWorkingCapital(period);
+  const prior = previous ? netWorkingCapital(previous) : null;
+  const change = current !== null && prior !== null ? current - prior : 0;
+  return period.netIncome + (period.depreciation ?? 0) - change - Math.abs(period.capex);
+};
+
+export const deriveStatements = (periods: DatedPeriod[]): DerivedStatement[] => {
+  if (!periods.length) return [];
+  const { periods: timed } = resolveTimeline(periods);
+
+  return timed.map((period, index) => {
+    const days = spanDays(period.startDate, period.endDate);
+    const operatingIncome = period.revenue - period.cogs - period.operatingExpenses;
+    const ebitda = period.depreciation === undefined ? null : operatingIncome + period.depreciation;
+    const currentLiabilities =
+      period.payables === undefined && period.currentDebt === undefined
+        ? null
+        : (period.payables ?? 0) + (period.currentDebt ?? 0);
+    const netDebt =
+      period.currentDebt === undefined && period.longTermDebt === undefined
+        ? null
+        : (period.currentDebt ?? 0) + (period.longTermDebt ?? 0) - period.cash;
+
+    const dso = period.receivables === undefined ? null : ratio(period.receivables * days, period.revenue);
+    const dio = period.inventory === undefined ? null : ratio(period.inventory * days, period.cogs);
+    const dpo = period.payables === undefined ? null : ratio(period.payables * days, period.cogs);
+
+    return {
+      label: period.label,
+      days,
+      values: {
+        ebitda,
+        freeCashFlow: deriveFreeCashFlow(period, timed[index - 1]),
+        currentRatio: ratio(period.cash + (period.receivables ?? 0) + (period.inventory ?? 0), currentLiabilities),
+        quickRatio: ratio(period.cash + (period.receivables ?? 0), currentLiabilities),
+        dso,
+        dio,
+        dpo,
+        cashConversionCycle: dso !== null && dio !== null && dpo !== null ? dso + dio - dpo : null,
+        interestCoverage:
+          period.interestExpense === undefined ? null : ratio(operatingIncome, Math.abs(period.interestExpense)),
+        netDebtToEbitda:
+          netDebt === null || ebitda === null ? null : ratio(netDebt, (ebitda * DAYS_PER_YEAR) / days)
+      }
+    };
+  });
+};
@@ -0,0 +1,11 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+export const dataDirectory = () => process.env.AURORA_DATA_DIR ?? path.join(process.cwd(), "data");
+
+export const writeFileAtomic = async (target: string, contents: string) => {
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  const temporary = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(temporary, contents, "utf8");
+  await fs.rename(temporary, target);
+};
@@ -0,0 +1,934 @@
+import type { ScenarioAssumptions } from "@/lib/analysis";
+import type { AnomalyAdjustments, AnomalyTreatment } from "@/lib/anomalies";
+import { parseCohortJson, type BenchmarkCohort } from "@/lib/benchmarks";
+import {
+  defaultDatasetUnits,
+  resolveConversion,
+  unitScales,
+  type DatasetUnits,
+  type ReportingOptions,
+  type UnitScale
+} from "@/lib/currency";
+import { granularities, lineItemFields, periodFields, type DatedPeriod, type PeriodGranularity } from "@/lib/period-fields";
+import { defaultProjectionOptions, parseIsoDate, type ProjectionOptions } from "@/lib/periodicity";
+import { defaultRunwayOptions, type RunwayOptions } from "@/lib/runway";
+import { riskComparators, riskSeverities, type RiskComparator, type RiskRule, type RiskSeverity } from "@/lib/risk-rules";
+import { assumptionKeys, createScenarioId, type NamedScenario } from "@/lib/scenarios";
+import type { AssumptionDistribution, AssumptionDistributions } from "@/lib/simulation";
+import { deriveFreeCashFlow } from "@/lib/statements";
+import { defaultValuationInputs, type TerminalMethod, type ValuationInputs } from "@/lib/valuation";
+import {
+  MAX_CADENCE_MINUTES,
+  MIN_CADENCE_MINUTES,
+  watchConditionKinds,
+  type WatchCondition,
+  type WatchConditionKind
+} from "@/lib/watch-conditions";
+import type { WatchInput } from "@/lib/watchlists";
+
+export type IssueSeverity = "error" | "warning";
+
+export type ValidationIssue = {
+  severity: IssueSeverity;
+  code: string;
+  message: string;
+  scope: "payload" | "period" | "assumptions" | "scenario" | "valuation" | "rules" | "benchmark" | "portfolio" | "runway" | "anomalies" | "watchlist" | "currency";
+  periodIndex?: number;
+  scenarioId?: string;
+  field?: string;
+};
+
+export type ValidationResult<T> = {
+  value: T;
+  issues: ValidationIssue[];
+};
+
+const NET_INCOME_TOLERANCE = 0.15;
+
+const FREE_CASH_FLOW_TOLERANCE = 0.15;
+
+export const parseNumeric = (value: unknown): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string" && value.trim().length) {
+    const parsed = Number(value.trim());
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+const describe = (value: unknown) => (typeof value === "string" ? `"${value}"` : String(value));
+
+const normalizeTiming = (source: Record<string, unknown>, periodIndex: number, issues: ValidationIssue[]) => {
+  const timing: Partial<Pick<DatedPeriod, "startDate" | "endDate" | "granularity">> = {};
+  const fail = (field: string, message: string) =>
+    issues.push({ severity: "error", code: "timing.invalid", message, scope: "period", periodIndex, field });
+
+  for (const field of ["startDate", "endDate"] as const) {
+    const value = source[field];
+    if (value === undefined || value === null || value === "") continue;
+    if (typeof value === "string" && parseIsoDate(value)) timing[field] = value;
+    else fail(field, `${field} must be an ISO date (YYYY-MM-DD), received ${describe(value)}.`);
+  }
+
+  if (source.granularity !== undefined && source.granularity !== null && source.granularity !== "") {
+    if (granularities.includes(source.granularity as PeriodGranularity)) {
+      timing.granularity = source.granularity as PeriodGranularity;
+    } else {
+      fail("granularity", `granularity must be one of ${granularities.join(", ")}.`);
+    }
+  }
+
+  if (timing.startDate && timing.endDate && timing.endDate < timing.startDate) {
+    fail("endDate", "End date is before the start date.");
+  }
+
+  return timing;
+};
+
+export const normalizePeriods = (raw: unknown): ValidationResult<DatedPeriod[]> => {
+  const issues: ValidationIssue[] = [];
+
+  if (!Array.isArray(raw)) {
+    issues.push({
+      severity: "error",
+      code: "periods.type",
+      message: "periods must be an array of financial periods.",
+      scope: "payload",
+      field: "periods"
+    });
+    return { value: [], issues };
+  }
+
+  if (!raw.length) {
+    issues.push({
+      severity: "error",
+      code: "periods.empty",
+      message: "No financial periods supplied.",
+      scope: "payload",
+      field: "periods"
+    });
+    return { value: [], issues };
+  }
+
+  let previous: DatedPeriod | undefined;
+  const periods = raw.map((row, periodIndex) => {
+    if (typeof row !== "object" || row === null) {
+      issues.push({
+        severity: "error",
+        code: "period.type",
+        message: "Period must be an object.",
+        scope: "period",
+        periodIndex
+      });
+      return null;
+    }
+
+    const source = row as Record<string, unknown>;
+    const label = typeof source.label === "string" ? source.label.trim() : "";
+    if (!label) {
+      issues.push({
+        severity: "error",
+        code: "label.required",
+        message: "Label is required.",
+        scope: "period",
+        periodIndex,
+        field: "label"
+      });
+    }
+
+    const period = { label, ...normalizeTiming(source, periodIndex, issues) } as DatedPeriod;
+    const derivesCashFlow = (source.freeCashFlow === undefined || source.freeCashFlow === "") && parseNumeric(source.capex) !== null;
+    for (const { key, label: fieldLabel } of periodFields) {
+      if (key === "freeCashFlow" && derivesCashFlow) continue;
+      const parsed = parseNumeric(source[key]);
+      if (parsed === null) {
+        issues.push({
+          severity: "error",
+          code: source[key] === undefined || source[key] === "" ? "value.required" : "value.invalid",
+          message:
+            source[key] === undefined || source[key] === ""
+              ? `${fieldLabel} is required.`
+              : `${fieldLabel} must be a number, received ${describe(source[key])}.`,
+          scope: "period",
+          periodIndex,
+          field: key
+        });
+      }
+      period[key] = parsed ?? 0;
+    }
+
+    for (const { key, label: fieldLabel } of lineItemFields) {
+      if (source[key] === undefined || source[key] === null || source[key] === "") continue;
+      const parsed = parseNumeric(source[key]);
+      if (parsed === null) {
+        issues.push({
+          severity: "error",
+          code: "value.invalid",
+          message: `${fieldLabel} must be a number, received ${describe(source[key])}.`,
+          scope: "period",
+          periodIndex,
+          field: key
+        });
+        continue;
+      }
+      period[key] = parsed;
+    }
+
+    if (derivesCashFlow) period.freeCashFlow = deriveFreeCashFlow(period, previous) ?? 0;
+    previous = period;
+    return period;
+  });
+
+  return { value: periods.filter(Boolean) as DatedPeriod[], issues };
+};
+
+export const normalizeAssumptions = (raw: unknown): ValidationResult<ScenarioAssumptions> => {
+  const value: ScenarioAssumptions = { revenueGrowth: 0, marginShift: 0, efficiencyGain: 0, cashConversion: 0 };
+  const issues: ValidationIssue[] = [];
+
+  if (raw === undefined || raw === null) return { value, issues };
+  if (typeof raw !== "object") {
+    issues.push({
+      severity: "error",
+      code: "assumptions.type",
+      message: "assumptions must be an object.",
+      scope: "payload",
+      field: "assumptions"
+    });
+    return { value, issues };
+  }
+
+  const source = raw as Record<string, unknown>;
+  for (const key of assumptionKeys) {
+    if (source[key] === undefined) continue;
+    const parsed = parseNumeric(source[key]);
+    if (parsed === null) {
+      issues.push({
+        severity: "error",
+        code: "value.invalid",
+        message: `${key} must be a number, received ${describe(source[key])}.`,
+        scope: "assumptions",
+        field: key
+      });
+    } else {
+      value[key] = parsed;
+    }
+  }
+
+  return { value, issues };
+};
+
+export const distributionFields: Record<AssumptionDistribution["kind"], string[]> = {
+  normal: ["mean", "stdDev"],
+  triangular: ["min", "mode", "max"],
+  uniform: ["min", "max"]
+};
+
+export const normalizeDistributions = (raw: unknown): ValidationResult<AssumptionDistributions> => {
+  const value: AssumptionDistributions = {};
+  const issues: ValidationIssue[] = [];
+  if (raw === undefined || raw === null) return { value, issues };
+
+  const source = typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  for (const key of assumptionKeys) {
+    const entry = source[key];
+    if (entry === undefined || entry === null) continue;
+    const fail = (message: string) =>
+      issues.push({ severity: "error", code: "distribution.invalid", message, scope: "assumptions", field: `distributions.${key}` });
+
+    const spec = typeof entry === "object" ? (entry as Record<string, unknown>) : {};
+    const kind = spec.kind as AssumptionDistribution["kind"];
+    if (typeof kind !== "string" || !Object.hasOwn(distributionFields, kind)) {
+      fail(`${key} distribution must be normal, triangular or uniform.`);
+      continue;
+    }
+
+    const numbers: Record<string, number> = {};
+    const required = distributionFields[kind];
+    for (const field of [...required, "min", "max"]) {
+      const parsed = parseNumeric(spec[field]);
+      if (parsed !== null) numbers[field] = parsed;
+      else if (required.includes(field)) fail(`${key} ${kind} distribution needs a numeric ${field}.`);
+    }
+    if (required.some((field) => numbers[field] === undefined)) continue;
+
+    if (kind === "normal") {
+      if (numbers.stdDev < 0) fail(`${key} standard deviation cannot be negative.`);
+      else if (numbers.min > numbers.max) fail(`${key} normal min cannot exceed max.`);
+      else value[key] = { kind, mean: numbers.mean, stdDev: numbers.stdDev, min: numbers.min, max: numbers.max };
+    } else if (kind === "triangular") {
+      if (!(numbers.min <= numbers.mode && numbers.mode <= numbers.max)) fail(`${key} triangular bounds must satisfy min ≤ mode ≤ max.`);
+      else value[key] = { kind, min: numbers.min, mode: numbers.mode, max: numbers.max };
+    } else if (numbers.min > numbers.max) {
+      fail(`${key} uniform min cannot exceed max.`);
+    } else {
+      value[key] = { kind, min: numbers.min, max: numbers.max };
+    }
+  }
+
+  return { value, issues };
+};
+
+export const normalizeScenarios = (raw: unknown): ValidationResult<NamedScenario[]> => {
+  const issues: ValidationIssue[] = [];
+
+  if (!Array.isArray(raw) || !raw.length) {
+    issues.push({
+      severity: "error",
+      code: "scenarios.type",
+      message: "scenarios must be a non-empty array of named assumption sets.",
+      scope: "payload",
+      field: "scenarios"
+    });
+    return { value: [], issues };
+  }
+
+  const ids = new Set<string>();
+  const scenarios = raw.map((entry, index) => {
+    const source = entry && typeof entry === "object" ? (entry as Record<string, unknown>) : {};
+    let id = typeof source.id === "string" && source.id.trim() ? source.id.trim() : createScenarioId();
+    if (ids.has(id)) id = `${id}-${index + 1}`;
+    ids.add(id);
+
+    const name = typeof source.name === "string" ? source.name.trim() : "";
+    if (!name) {
+      issues.push({
+        severity: "error",
+        code: "scenario.name",
+        message: `Scenario ${index + 1} needs a name.`,
+        scope: "scenario",
+        scenarioId: id,
+        field: "name"
+      });
+    }
+
+    const assumptions = normalizeAssumptions(source.assumptions);
+    const distributions = normalizeDistributions(source.distributions);
+    issues.push(
+      ...[...assumptions.issues, ...distributions.issues].map((issue) => ({
+        ...issue,
+        scope: "scenario" as const,
+        scenarioId: id
+      }))
+    );
+
+    return { id, name, assumptions: assumptions.value, distributions: distributions.value } satisfies NamedScenario;
+  });
+
+  return { value: scenarios, issues };
+};
+
+export const terminalMethods: TerminalMethod[] = ["perpetuity", "multiple"];
+
+export const valuationNumberFields = ["wacc", "terminalGrowth", "exitMultiple", "netDebt", "sharesOutstanding"] as const;
+
+export const normalizeValuation = (raw: unknown): ValidationResult<ValuationInputs> => {
+  const value: ValuationInputs = { ...defaultValuationInputs };
+  const issues: ValidationIssue[] = [];
+  const fail = (field: string, message: string) =>
+    issues.push({ severity: "error", code: "valuation.invalid", message, scope: "valuation", field });
+
+  if (typeof raw !== "object" || raw === null) {
+    issues.push({
+      severity: "error",
+      code: "valuation.type",
+      message: "valuation must be an object.",
+      scope: "payload",
+      field: "valuation"
+    });
+    return { value, issues };
+  }
+
+  const source = raw as Record<string, unknown>;
+  if (source.method !== undefined) {
+    if (terminalMethods.includes(source.method as TerminalMethod)) value.method = source.method as TerminalMethod;
+    else fail("method", `valuation method must be ${terminalMethods.join(" or ")}.`);
+  }
+
+  for (const key of valuationNumberFields) {
+    if (source[key] === undefined) continue;
+    const parsed = parseNumeric(source[key]);
+    if (parsed === null) fail(key, `${key} must be a number, received ${describe(source[key])}.`);
+    else value[key] = parsed;
+  }
+
+  if (value.wacc <= 0) fail("wacc", "WACC must be greater than 0%.");
+  if (value.sharesOutstanding < 0) fail("sharesOutstanding", "Share count cannot be negative.");
+  if (value.method === "multiple" && value.exitMultiple <= 0) fail("exitMultiple", "Exit multiple must be positive.");
+  if (value.method === "perpetuity" && value.terminalGrowth >= value.wacc) {
+    fail("terminalGrowth", "Terminal growth must be below WACC.");
+  }
+
+  return { value, issues };
+};
+
+export const projectionHorizonLimits = [1, 120] as const;
+
+export const normalizeProjection = (raw: unknown): ValidationResult<ProjectionOptions> => {
+  const value: ProjectionOptions = { ...defaultProjectionOptions };
+  const issues: ValidationIssue[] = [];
+  if (raw === undefined || raw === null) return { value, issues };
+
+  const source = typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const horizon = parseNumeric(source.horizonMonths);
+  if (source.horizonMonths !== undefined) {
+    const [min, max] = projectionHorizonLimits;
+    if (horizon === null || horizon < min || horizon > max) {
+      issues.push({
+        severity: "error",
+        code: "projection.horizon",
+        message: `horizonMonths must be between ${min} and ${max}.`,
+        scope: "payload",
+        field: "projection.horizonMonths"
+      });
+    } else {
+      value.horizonMonths = Math.round(horizon);
+    }
+  }
+
+  if (source.frequency !== undefined) {
+    if (granularities.includes(source.frequency as PeriodGranularity)) value.frequency = source.frequency as PeriodGranularity;
+    else
+      issues.push({
+        severity: "error",
+        code: "projection.frequency",
+        message: `projection frequency must be one of ${granularities.join(", ")}.`,
+        scope: "payload",
+        field: "projection.frequency"
+      });
+  }
+
+  return { value, issues };
+};
+
+export const runwayLimits = { horizonMonths: [1, 120], bufferMonths: [0, 36], alertMonths: [0, 60] } as const;
+
+export const normalizeRunway = (raw: unknown): ValidationResult<RunwayOptions> => {
+  const value: RunwayOptions = { ...defaultRunwayOptions };
+  const issues: ValidationIssue[] = [];
+  const fail = (field: string, message: string) =>
+    issues.push({ severity: "error", code: "runway.invalid", message, scope: "runway", field: `runway.${field}` });
+  if (raw === undefined || raw === null) return { value, issues };
+
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    fail("type", "runway must be an object.");
+    return { value, issues };
+  }
+
+  const source = raw as Record<string, unknown>;
+  for (const [key, [min, max]] of Object.entries(runwayLimits) as [keyof typeof runwayLimits, readonly [number, number]][]) {
+    if (source[key] === undefined) continue;
+    const parsed = parseNumeric(source[key]);
+    if (parsed === null || parsed < min || parsed > max) fail(key, `${key} must be between ${min} and ${max}.`);
+    else value[key] = key === "horizonMonths" ? Math.round(parsed) : parsed;
+  }
+
+  if (source.financing !== undefined && source.financing !== null) {
+    const financing = typeof source.financing === "object" ? (source.financing as Record<string, unknown>) : {};
+    const amount = parseNumeric(financing.amount);
+    const month = parseNumeric(financing.month);
+    if (amount === null || amount < 0) fail("financing.amount", "Financing amount must be a non-negative number.");
+    if (month === null || month < 1 || month > value.horizonMonths || !Number.isInteger(month)) {
+      fail("financing.month", `Financing month must be a whole month between 1 and ${value.horizonMonths}.`);
+    }
+    if (amount !== null && month !== null) value.financing = { amount, month };
+  }
+
+  return { value, issues };
+};
+
+export const anomalyTreatments: AnomalyTreatment[] = ["exclude", "normalize"];
+
+export const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+const normalizeUnitFields = (
+  source: Record<string, unknown>,
+  fallback: DatasetUnits,
+  fail: (field: string, message: string) => void
+): DatasetUnits => {
+  const currency = typeof source.currency === "string" ? source.currency.trim().toUpperCase() : fallback.currency;
+  if (!CURRENCY_CODE.test(currency)) fail("currency", `currency must be a three-letter ISO code, received ${describe(source.currency)}.`);
+  const scale = (source.scale ?? fallback.scale) as UnitScale;
+  if (!Object.hasOwn(unitScales, scale)) fail("scale", `scale must be one of ${Object.keys(unitScales).join(", ")}.`);
+  return { currency, scale };
+};
+
+export const normalizeUnits = (raw: unknown): ValidationResult<DatasetUnits> => {
+  const issues: ValidationIssue[] = [];
+  const fail = (field: string, message: string) =>
+    issues.push({ severity: "error", code: "units.invalid", message, scope: "currency", field: `units.${field}` });
+  if (raw === undefined || raw === null) return { value: defaultDatasetUnits, issues };
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    fail("type", "units must be an object with currency and scale.");
+    return { value: defaultDatasetUnits, issues };
+  }
+  return { value: normalizeUnitFields(raw as Record<string, unknown>, defaultDatasetUnits, fail), issues };
+};
+
+export const normalizeReporting = (raw: unknown): ValidationResult<ReportingOptions | null> => {
+  const issues: ValidationIssue[] = [];
+  const fail = (field: string, message: string) =>
+    issues.push({ severity: "error", code: "reporting.invalid", message, scope: "currency", field: `reporting.${field}` });
+  if (raw === undefined || raw === null) return { value: null, issues };
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    fail("type", "reporting must be an object with currency, scale and rates.");
+    return { value: null, issues };
+  }
+
+  const source = raw as Record<string, unknown>;
+  const units = normalizeUnitFields(source, defaultDatasetUnits, fail);
+  const rates: Record<string, number> = {};
+  if (source.rates !== undefined && (!source.rates || typeof source.rates !== "object" || Array.isArray(source.rates))) {
+    fail("rates", "rates must map currency codes to the value of one unit in the reporting currency.");
+  } else {
+    for (const [code, value] of Object.entries((source.rates ?? {}) as Record<string, unknown>)) {
+      const rate = parseNumeric(value);
+      if (!CURRENCY_CODE.test(code.toUpperCase())) fail(`rates.${code}`, `"${code}" is not a three-letter currency code.`);
+      else if (rate === null || rate <= 0) fail(`rates.${code}`, `Rate for ${code} must be a positive number, received ${describe(value)}.`);
+      else rates[code.toUpperCase()] = rate;
+    }
+  }
+
+  return { value: { ...units, rates }, issues };
+};
+
+export const normalizeAdjustments = (raw: unknown, periods: DatedPeriod[]): ValidationResult<AnomalyAdjustments> => {
+  const value: AnomalyAdjustments = {};
+  const issues: ValidationIssue[] = [];
+  const fail = (field: string, message: string) =>
+    issues.push({ severity: "error", code: "adjustments.invalid", message, scope: "anomalies", field: `adjustments.${field}` });
+  if (raw === undefined || raw === null) return { value, issues };
+
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    fail("type", "adjustments must be an object mapping period labels to exclude or normalize.");
+    return { value, issues };
+  }
+
+  const labels = new Set(periods.map((period) => period.label));
+  for (const [label, treatment] of Object.entries(raw as Record<string, unknown>)) {
+    if (!labels.has(label)) fail(label, `No period is labelled "${label}".`);
+    else if (!anomalyTreatments.includes(treatment as AnomalyTreatment))
+      fail(label, `Adjustment for ${label} must be one of ${anomalyTreatments.join(", ")}.`);
+    else value[label] = treatment as AnomalyTreatment;
+  }
+
+  if (periods.length && periods.every((period) => value[period.label] === "exclude")) {
+    fail("exclude", "At least one period must remain after exclusions.");
+  }
+
+  return { value, issues };
+};
+
+export const normalizeRiskRules = (raw: unknown): ValidationResult<RiskRule[]> => {
+  const issues: ValidationIssue[] = [];
+  if (!Array.isArray(raw)) {
+    issues.push({
+      severity: "error",
+      code: "rules.type",
+      message: "riskRules must be an array of rule objects.",
+      scope: "payload",
+      field: "riskRules"
+    });
+    return { value: [], issues };
+  }
+
+  const ids = new Set<string>();
+  const rules = raw.flatMap((entry, index) => {
+    const fail = (field: string, message: string) =>
+      issues.push({ severity: "error", code: "rule.invalid", message: `Rule ${index + 1}: ${message}`, scope: "rules", field });
+    if (!entry || typeof entry !== "object") {
+      fail("rule", "must be an object.");
+      return [];
+    }
+
+    const source = entry as Record<string, unknown>;
+    const id = typeof source.id === "string" && source.id.trim() ? source.id.trim() : `rule-${index + 1}`;
+    if (ids.has(id)) fail("id", `duplicate id "${id}".`);
+    ids.add(id);
+
+    const metric = typeof source.metric === "string" ? source.metric.trim() : "";
+    if (!metric) fail("metric", "metric is required (e.g. metrics.netMargin).");
+
+    const comparator = source.comparator as RiskComparator;
+    if (!Object.hasOwn(riskComparators, comparator)) fail("comparator", `comparator must be one of ${Object.keys(riskComparators).join(", ")}.`);
+
+    const threshold = parseNumeric(source.threshold);
+    if (threshold === null) fail("threshold", `threshold must be a number, received ${describe(source.threshold)}.`);
+
+    const severity = (source.severity ?? "warning") as RiskSeverity;
+    if (!riskSeverities.includes(severity)) fail("severity", `severity must be one of ${riskSeverities.join(", ")}.`);
+
+    if (source.message !== undefined && typeof source.message !== "string") fail("message", "message must be a string.");
+    const message =
+      typeof source.message === "string" && source.message.trim()
+        ? source.message.trim()
+        : "{{metric}} is {{value}} ({{comparator}} {{threshold}}).";
+
+    return [
+      {
+        id,
+        metric,
+        comparator,
+        threshold: threshold ?? 0,
+        severity,
+        message,
+        enabled: source.enabled !== false
+      } satisfies RiskRule
+    ];
+  });
+
+  return { value: rules, issues };
+};
+
+export const normalizeWatchConditions = (raw: unknown): ValidationResult<WatchCondition[]> => {
+  const issues: ValidationIssue[] = [];
+  if (!Array.isArray(raw)) {
+    issues.push({
+      severity: "error",
+      code: "conditions.type",
+      message: "conditions must be an array of condition objects.",
+      scope: "payload",
+      field: "conditions"
+    });
+    return { value: [], issues };
+  }
+
+  const ids = new Set<string>();
+  const conditions = raw.flatMap((entry, index): WatchCondition[] => {
+    const fail = (field: string, message: string) =>
+      issues.push({ severity: "error", code: "condition.invalid", message: `Condition ${index + 1}: ${message}`, scope: "watchlist", field });
+    if (!entry || typeof entry !== "object") {
+      fail("condition", "must be an object.");
+      return [];
+    }
+
+    const source = entry as Record<string, unknown>;
+    const id = typeof source.id === "string" && source.id.trim() ? source.id.trim() : `condition-${index + 1}`;
+    if (ids.has(id)) fail("id", `duplicate id "${id}".`);
+    ids.add(id);
+
+    const kind = source.kind as WatchConditionKind;
+    if (!watchConditionKinds.some((entry) => entry.kind === kind)) {
+      fail("kind", `kind must be one of ${watchConditionKinds.map((entry) => entry.kind).join(", ")}.`);
+      return [];
+    }
+
+    if (kind === "newSignal") {
+      const severity = (source.severity ?? "warning") as RiskSeverity;
+      if (!riskSeverities.includes(severity)) fail("severity", `severity must be one of ${riskSeverities.join(", ")}.`);
+      return [{ id, kind, severity }];
+    }
+
+    const metric = typeof source.metric === "string" ? source.metric.trim() : "";
+    if (!metric) fail("metric", "metric is required (e.g. healthScores.overall).");
+
+    if (kind === "drop") {
+      const amount = parseNumeric(source.amount);
+      if (amount === null || amount <= 0) fail("amount", `amount must be a positive number, received ${describe(source.amount)}.`);
+      return [{ id, kind, metric, amount: amount ?? 0 }];
+    }
+
+    const comparator = source.comparator as RiskComparator;
+    if (!Object.hasOwn(riskComparators, comparator)) fail("comparator", `comparator must be one of ${Object.keys(riskComparators).join(", ")}.`);
+    const threshold = parseNumeric(source.threshold);
+    if (threshold === null) fail("threshold", `threshold must be a number, received ${describe(source.threshold)}.`);
+    return [{ id, kind, metric, comparator, threshold: threshold ?? 0 }];
+  });
+
+  return { value: conditions, issues };
+};
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Set to 1 in local development so the built-in test receiver on localhost can be used.
+export const PRIVATE_WEBHOOKS_ENV = "AURORA_ALLOW_PRIVATE_WEBHOOKS";
+
+export const privateWebhooksAllowed = () => process.env[PRIVATE_WEBHOOKS_ENV] === "1";
+
+const privateIpv4 = [
+  /^0\./,
+  /^10\./,
+  /^127\./,
+  /^169\.254\./,
+  /^172\.(?:1[6-9]|2\d|3[01])\./,
+  /^192\.168\./,
+  /^100\.(?:6[4-9]|[7-9]\d|1[01]\d|12[0-7])\./,
+  /^(?:22[4-9]|2[3-5]\d)\./
+];
+
+// Webhooks are posted from the server, so hosts on its loopback or private networks are refused.
+// Takes a URL hostname or a resolved address; IPv4-mapped IPv6 addresses are checked as IPv4.
+export const isPrivateHost = (hostname: string): boolean => {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  if (host === "localhost" || host.endsWith(".localhost")) return true;
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(host)) return privateIpv4.some((range) => range.test(host));
+  if (!host.includes(":")) return false;
+
+  const mapped = host.match(/^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/);
+  if (mapped?.[1]) return isPrivateHost(mapped[1]);
+  if (mapped) {
+    const [high, low] = [parseInt(mapped[2], 16), parseInt(mapped[3], 16)];
+    return isPrivateHost([high >> 8, high & 255, low >> 8, low & 255].join("."));
+  }
+  return host === "::" || host === "::1" || /^f[cd]/.test(host) || /^fe[89ab]/.test(host);
+};
+
+export const normalizeWebhookTargets = (raw: unknown): ValidationResult<{ id: string | null; url: string }[]> => {
+  const issues: ValidationIssue[] = [];
+  const fail = (field: string, message: string) =>
+    issues.push({ severity: "error", code: "webhook.invalid", message, scope: "watchlist", field });
+  if (!Array.isArray(raw)) {
+    fail("webhooks", "webhooks must be an array of { url } objects.");
+    return { value: [], issues };
+  }
+
+  const targets = raw.flatMap((entry, index) => {
+    const source: Record<string, unknown> = entry && typeof entry === "object" ? (entry as Record<string, unknown>) : { url: entry };
+    const url = typeof source.url === "string" ? source.url.trim() : "";
+    if (!isHttpUrl(url)) {
+      fail(`webhooks.${index}`, `Webhook ${index + 1}: url must be an absolute http or https URL, received ${describe(source.url)}.`);
+      return [];
+    }
+    if (!privateWebhooksAllowed() && isPrivateHost(new URL(url).hostname)) {
+      fail(
+        `webhooks.${index}`,
+        `Webhook ${index + 1}: ${new URL(url).hostname} is a local or private address. Set ${PRIVATE_WEBHOOKS_ENV}=1 to allow it in development.`
+      );
+      return [];
+    }
+    return [{ id: typeof source.id === "string" ? source.id : null, url }];
+  });
+
+  return { value: targets, issues };
+};
+
+// Only the fields present in the body are returned, so the same normalizer serves create and PATCH.
+export const normalizeWatchInput = (source: Record<string, unknown>): ValidationResult<WatchInput> => {
+  const value: WatchInput = {};
+  const issues: ValidationIssue[] = [];
+  const fail = (field: string, message: string) =>
+    issues.push({ severity: "error", code: "watch.invalid", message, scope: "watchlist", field });
+
+  if (source.name !== undefined) {
+    if (typeof source.name === "string" && source.name.trim()) value.name = source.name.trim();
+    else fail("name", "name must be a non-empty string.");
+  }
+  if (source.enabled !== undefined) {
+    if (typeof source.enabled === "boolean") value.enabled = source.enabled;
+    else fail("enabled", "enabled must be true or false.");
+  }
+  if (source.cadenceMinutes !== undefined) {
+    const cadence = source.cadenceMinutes === null ? null : parseNumeric(source.cadenceMinutes);
+    if (cadence === null && source.cadenceMinutes !== null) {
+      fail("cadenceMinutes", `cadenceMinutes must be a number or null, received ${describe(source.cadenceMinutes)}.`);
+    } else if (cadence !== null && (!Number.isInteger(cadence) || cadence < MIN_CADENCE_MINUTES || cadence > MAX_CADENCE_MINUTES)) {
+      fail("cadenceMinutes", `cadenceMinutes must be a whole number between ${MIN_CADENCE_MINUTES} and ${MAX_CADENCE_MINUTES}.`);
+    } else {
+      value.cadenceMinutes = cadence;
+    }
+  }
+  if (source.conditions !== undefined) {
+    const conditions = normalizeWatchConditions(source.conditions);
+    value.conditions = conditions.value;
+    issues.push(...conditions.issues);
+  }
+  if (source.webhooks !== undefined) {
+    const webhooks = normalizeWebhookTargets(source.webhooks);
+    value.webhooks = webhooks.value;
+    issues.push(...webhooks.issues);
+  }
+
+  return { value, issues };
+};
+
+export const normalizeBenchmark = (
+  raw: unknown
+): ValidationResult<{ cohortId: string | null; cohort: BenchmarkCohort | null }> => {
+  if (typeof raw === "string" && raw.trim()) return { value: { cohortId: raw.trim(), cohort: null }, issues: [] };
+
+  const parsed = raw && typeof raw === "object" && !Array.isArray(raw) ? parseCohortJson(raw, "inline") : null;
+  const cohort = parsed?.cohorts.length === 1 ? parsed.cohorts[0] : null;
+  const messages = !parsed
+    ? ["must be a cohort id or a cohort object."]
+    : parsed.issues.length || cohort
+      ? parsed.issues
+      : ["must describe exactly one cohort."];
+
+  return {
+    value: { cohortId: cohort?.id ?? null, cohort },
+    issues: messages.map((message) => ({
+      severity: "error",
+      code: "benchmark.invalid",
+      message: `Benchmark: ${message}`,
+      scope: "benchmark",
+      field: "benchmark"
+    }))
+  };
+};
+
+const periodSortKey = (label: string): number | null => {
+  const normalized = label.toUpperCase();
+  const year = normalized.match(/(?:FY\s*)?((?:19|20)\d{2})|FY\s*(\d{2})\b/);
+  if (!year) return null;
+
+  const fullYear = year[1] ? Number(year[1]) : 2000 + Number(year[2]);
+  const quarter = normalized.match(/\bQ([1-4])\b|\b([1-4])Q\b/);
+  const half = normalized.match(/\bH([12])\b/);
+  const month = normalized.match(/(?:19|20)\d{2}[-/](\d{1,2})\b/);
+  const monthName = normalized.match(/\b(JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEP|OCT|NOV|DEC)/);
+
+  let offset = 0;
+  if (quarter) offset = Number(quarter[1] ?? quarter[2]) * 3;
+  else if (half) offset = Number(half[1]) * 6;
+  else if (month) offset = Number(month[1]);
+  else if (monthName) offset = "JANFEBMARAPRMAYJUNJULAUGSEPOCTNOVDEC".indexOf(monthName[1]) / 3 + 1;
+
+  return fullYear * 100 + offset;
+};
+
+export const consistencyWarnings = (periods: DatedPeriod[]): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const seen = new Map<string, number>();
+
+  periods.forEach((period, periodIndex) => {
+    const warn = (code: string, field: string, message: string) =>
+      issues.push({ severity: "warning", code, message, scope: "period", periodIndex, field });
+
+    const formula =
+      period.interestExpense !== undefined || period.taxes !== undefined
+        ? "revenue − COGS − OpEx − interest − taxes"
+        : "revenue − COGS − OpEx";
+    const implied =
+      period.revenue - period.cogs - period.operatingExpenses - Math.abs(period.interestExpense ?? 0) - (period.taxes ?? 0);
+    const tolerance = Math.abs(period.revenue) * NET_INCOME_TOLERANCE;
+    if (period.revenue !== 0 && Math.abs(period.netIncome - implied) > tolerance) {
+      warn(
+        "consistency.netIncome",
+        "netIncome",
+        `Net income differs from ${formula} (${implied.toLocaleString("en-US")}) by more than ${
+          NET_INCOME_TOLERANCE * 100
+        }% of revenue.`
+      );
+    }
+
+    const derivedCashFlow = deriveFreeCashFlow(period, periods[periodIndex - 1]);
+    if (
+      derivedCashFlow !== null &&
+      period.revenue !== 0 &&
+      Math.abs(period.freeCashFlow - derivedCashFlow) > Math.abs(period.revenue) * FREE_CASH_FLOW_TOLERANCE
+    ) {
+      warn(
+        "consistency.freeCashFlow",
+        "freeCashFlow",
+        `Free cash flow differs from net income + D&A − Δ working capital − capex (${derivedCashFlow.toLocaleString(
+          "en-US"
+        )}) by more than ${FREE_CASH_FLOW_TOLERANCE * 100}% of revenue.`
+      );
+    }
+
+    if (period.cash > period.assets) {
+      warn("consistency.cash", "cash", "Cash exceeds total assets.");
+    }
+
+    if (period.liabilities > period.assets) {
+      warn("consistency.liabilities", "liabilities", "Liabilities exceed total assets.");
+    }
+
+    const key = period.label.trim().toLowerCase();
+    if (key) {
+      const first = seen.get(key);
+      if (first !== undefined) {
+        warn("consistency.duplicateLabel", "label", `Duplicate of period ${first + 1} (${periods[first].label}).`);
+      } else {
+        seen.set(key, periodIndex);
+      }
+    }
+  });
+
+  const keys = periods.map((period) => periodSortKey(period.label));
+  if (keys.every((key) => key !== null)) {
+    for (let index = 1; index < keys.length; index++) {
+      if ((keys[index] as number) < (keys[index - 1] as number)) {
+        issues.push({
+          severity: "warning",
+          code: "consistency.order",
+          message: `Period is earlier than ${periods[index - 1].label}; periods should run oldest to newest.`,
+          scope: "period",
+          periodIndex: index,
+          field: "label"
+        });
+      }
+    }
+  }
+
+  return issues;
+};
+
+const singleScenario = (raw: unknown): ValidationResult<NamedScenario[]> => {
+  const assumptions = normalizeAssumptions(raw);
+  return { value: [{ id: "base", name: "Base", assumptions: assumptions.value }], issues: assumptions.issues };
+};
+
+export const normalizeAnalysisRequest = (body: unknown) => {
+  const source = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+  const periods = normalizePeriods(source.periods);
+  const scenarios =
+    source.scenarios === undefined ? singleScenario(source.assumptions) : normalizeScenarios(source.scenarios);
+  const plan = scenarios.value.find((scenario) => scenario.id === source.planId) ?? scenarios.value[0];
+  const valuation = source.valuation === undefined || source.valuation === null ? null : normalizeValuation(source.valuation);
+  const projection = normalizeProjection(source.projection);
+  const riskRules = source.riskRules === undefined ? null : normalizeRiskRules(source.riskRules);
+  const benchmark = source.benchmark === undefined || source.benchmark === null ? null : normalizeBenchmark(source.benchmark);
+  const runway = normalizeRunway(source.runway);
+  const adjustments = normalizeAdjustments(source.adjustments, periods.value);
+  const units = normalizeUnits(source.units);
+  const reporting = normalizeReporting(source.reporting);
+  const conversionIssues: ValidationIssue[] =
+    units.issues.length || reporting.issues.length || resolveConversion(units.value, reporting.value)
+      ? []
+      : [
+          {
+            severity: "error",
+            code: "reporting.rate",
+            message: `No FX rate for ${units.value.currency} into ${reporting.value?.currency}; add it to reporting.rates.`,
+            scope: "currency",
+            field: `reporting.rates.${units.value.currency}`
+          }
+        ];
+  const errors = [
+    ...periods.issues,
+    ...scenarios.issues,
+    ...(valuation?.issues ?? []),
+    ...projection.issues,
+    ...(riskRules?.issues ?? []),
+    ...(benchmark?.issues ?? []),
+    ...runway.issues,
+    ...adjustments.issues,
+    ...units.issues,
+    ...reporting.issues,
+    ...conversionIssues
+  ];
+
+  return {
+    periods: periods.value,
+    scenarios: scenarios.value,
+    planId: plan?.id ?? "base",
+    assumptions: plan?.assumptions ?? normalizeAssumptions(undefined).value,
+    valuation: valuation?.value ?? null,
+    projection: projection.value,
+    riskRules: riskRules?.value ?? null,
+    benchmark: benchmark?.value ?? null,
+    runway: runway.value,
+    adjustments: adjustments.value,
+    units: units.value,
+    reporting: reporting.value,
+    errors,
+    warnings: errors.length ? [] : consistencyWarnings(periods.value)
+  };
+};
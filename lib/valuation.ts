@@ -0,0 +1,126 @@
+import type { ScenarioYear } from "@/lib/scenarios";
+
+export type TerminalMethod = "perpetuity" | "multiple";
+
+export type ValuationInputs = {
+  wacc: number;
+  method: TerminalMethod;
+  terminalGrowth: number;
+  exitMultiple: number;
+  netDebt: number;
+  sharesOutstanding: number;
+};
+
+export type DiscountedCashFlow = {
+  year: ScenarioYear["year"];
+  freeCashFlow: number;
+  discountFactor: number;
+  presentValue: number;
+};
+
+export type ValuationSummary = {
+  enterpriseValue: number;
+  equityValue: number;
+  perShareValue: number | null;
+};
+
+export type SensitivityGrid = {
+  waccs: number[];
+  terminalGrowths: number[];
+  cells: (ValuationSummary | null)[][];
+};
+
+export type ValuationResult = ValuationSummary & {
+  inputs: ValuationInputs;
+  cashFlows: DiscountedCashFlow[];
+  presentValueOfCashFlows: number;
+  terminalValue: number;
+  presentValueOfTerminal: number;
+  terminalShare: number;
+  impliedExitMultiple: number | null;
+  impliedTerminalGrowth: number | null;
+  sensitivity: SensitivityGrid;
+};
+
+export const defaultValuationInputs: ValuationInputs = {
+  wacc: 10,
+  method: "perpetuity",
+  terminalGrowth: 2.5,
+  exitMultiple: 12,
+  netDebt: 0,
+  sharesOutstanding: 10_000_000
+};
+
+const WACC_STEPS = [-2, -1, 0, 1, 2];
+const GROWTH_STEPS = [-1, -0.5, 0, 0.5, 1];
+
+const discount = (trajectory: ScenarioYear[], wacc: number) =>
+  trajectory.map((year, index) => {
+    const discountFactor = 1 / Math.pow(1 + wacc / 100, index + 1);
+    return { year: year.year, freeCashFlow: year.freeCashFlow, discountFactor, presentValue: year.freeCashFlow * discountFactor };
+  });
+
+const summarize = (enterpriseValue: number, inputs: ValuationInputs): ValuationSummary => {
+  const equityValue = enterpriseValue - inputs.netDebt;
+  return {
+    enterpriseValue,
+    equityValue,
+    perShareValue: inputs.sharesOutstanding > 0 ? equityValue / inputs.sharesOutstanding : null
+  };
+};
+
+const perpetuityValue = (finalCashFlow: number, wacc: number, growth: number) =>
+  (finalCashFlow * (1 + growth / 100)) / ((wacc - growth) / 100);
+
+const gordonValue = (trajectory: ScenarioYear[], inputs: ValuationInputs, wacc: number, growth: number) => {
+  if (wacc <= growth || wacc <= -100) return null;
+  const cashFlows = discount(trajectory, wacc);
+  const final = cashFlows[cashFlows.length - 1];
+  const presentValue = cashFlows.reduce((total, entry) => total + entry.presentValue, 0);
+  return summarize(presentValue + perpetuityValue(final.freeCashFlow, wacc, growth) * final.discountFactor, inputs);
+};
+
+export const buildSensitivityGrid = (trajectory: ScenarioYear[], inputs: ValuationInputs): SensitivityGrid => {
+  const waccs = WACC_STEPS.map((step) => inputs.wacc + step);
+  const terminalGrowths = GROWTH_STEPS.map((step) => inputs.terminalGrowth + step);
+  return {
+    waccs,
+    terminalGrowths,
+    cells: waccs.map((wacc) => terminalGrowths.map((growth) => gordonValue(trajectory, inputs, wacc, growth)))
+  };
+};
+
+export const runValuation = (trajectory: ScenarioYear[], inputs: ValuationInputs): ValuationResult => {
+  if (!trajectory.length) throw new Error("Valuation needs at least one projected year.");
+  if (inputs.method === "perpetuity" && inputs.wacc <= inputs.terminalGrowth) {
+    throw new Error("WACC must exceed terminal growth for a perpetuity terminal value.");
+  }
+
+  const cashFlows = discount(trajectory, inputs.wacc);
+  const final = cashFlows[cashFlows.length - 1];
+  const presentValueOfCashFlows = cashFlows.reduce((total, entry) => total + entry.presentValue, 0);
+  const terminalValue =
+    inputs.method === "perpetuity"
+      ? perpetuityValue(final.freeCashFlow, inputs.wacc, inputs.terminalGrowth)
+      : final.freeCashFlow * inputs.exitMultiple;
+  const presentValueOfTerminal = terminalValue * final.discountFactor;
+  const enterpriseValue = presentValueOfCashFlows + presentValueOfTerminal;
+
+  const impliedTerminalGrowth =
+    inputs.method === "multiple" && final.freeCashFlow + terminalValue !== 0
+      ? ((terminalValue * inputs.wacc) / 100 - final.freeCashFlow) / (terminalValue + final.freeCashFlow) * 100
+      : null;
+
+  return {
+    ...summarize(enterpriseValue, inputs),
+    inputs,
+    cashFlows,
+    presentValueOfCashFlows,
+    terminalValue,
+    presentValueOfTerminal,
+    terminalShare: enterpriseValue !== 0 ? presentValueOfTerminal / enterpriseValue : 0,
+    impliedExitMultiple: inputs.method === "perpetuity" && final.freeCashFlow !== 0 ? terminalValue / final.freeCashFlow : null,
+    impliedTerminalGrowth,
+    sensitivity: buildSensitivityGrid(trajectory, inputs)
+  };
+};
@@ -0,0 +1,108 @@
+import { riskComparators, riskSeverities, type RiskComparator, type RiskSeverity, type RiskSignal } from "@/lib/risk-rules";
+
+export type WatchCondition =
+  | { id: string; kind: "drop"; metric: string; amount: number }
+  | { id: string; kind: "threshold"; metric: string; comparator: RiskComparator; threshold: number }
+  | { id: string; kind: "newSignal"; severity: RiskSeverity };
+
+export type WatchConditionKind = WatchCondition["kind"];
+
+export type WatchObservation = {
+  version: number;
+  ranAt: string;
+  context: Record<string, number>;
+  signals: Pick<RiskSignal, "ruleId" | "severity" | "message">[];
+};
+
+export type WatchAlert = {
+  conditionId: string;
+  kind: WatchConditionKind;
+  message: string;
+  metric: string | null;
+  previous: number | null;
+  current: number | null;
+};
+
+export const MIN_CADENCE_MINUTES = 5;
+export const MAX_CADENCE_MINUTES = 7 * 24 * 60;
+
+export const watchConditionKinds: { kind: WatchConditionKind; label: string }[] = [
+  { kind: "drop", label: "Drops by more than" },
+  { kind: "threshold", label: "Crosses threshold" },
+  { kind: "newSignal", label: "New risk signal" }
+];
+
+export const defaultWatchConditions: WatchCondition[] = [
+  { id: "overall-drop", kind: "drop", metric: "healthScores.overall", amount: 10 },
+  { id: "new-critical", kind: "newSignal", severity: "critical" },
+  { id: "negative-margin", kind: "threshold", metric: "metrics.netMargin", comparator: "lt", threshold: 0 }
+];
+
+const formatNumber = (value: number) => (Number.isInteger(value) ? `${value}` : value.toFixed(3).replace(/0+$/, ""));
+
+export const describeCondition = (condition: WatchCondition) => {
+  if (condition.kind === "drop") return `${condition.metric} drops by more than ${formatNumber(condition.amount)}`;
+  if (condition.kind === "threshold") {
+    return `${condition.metric} ${riskComparators[condition.comparator].symbol} ${formatNumber(condition.threshold)}`;
+  }
+  return condition.severity === "critical" ? "New critical risk signal" : `New ${condition.severity} or higher risk signal`;
+};
+
+// Threshold conditions fire when the condition starts holding, not on every run while it holds;
+// the first observation counts as a change so an already-breached watch reports once.
+export const evaluateConditions = (
+  conditions: WatchCondition[],
+  previous: WatchObservation | null,
+  current: WatchObservation
+): WatchAlert[] =>
+  conditions.flatMap((condition): WatchAlert[] => {
+    if (condition.kind === "newSignal") {
+      const rank = riskSeverities.indexOf(condition.severity);
+      // Keyed by rule and severity: figures in messages move every run, but an escalation is news.
+      const key = (signal: WatchObservation["signals"][number]) => `${signal.ruleId}:${signal.severity}`;
+      const seen = new Set(previous?.signals.map(key) ?? []);
+      return current.signals
+        .filter((signal) => riskSeverities.indexOf(signal.severity) <= rank && !seen.has(key(signal)))
+        .map((signal) => ({
+          conditionId: condition.id,
+          kind: condition.kind,
+          message: `New ${signal.severity} signal: ${signal.message}`,
+          metric: null,
+          previous: null,
+          current: null
+        }));
+    }
+
+    const value = current.context[condition.metric];
+    const before = previous?.context[condition.metric];
+    if (value === undefined) return [];
+
+    if (condition.kind === "drop") {
+      if (before === undefined || before - value <= condition.amount) return [];
+      return [
+        {
+          conditionId: condition.id,
+          kind: condition.kind,
+          message: `${condition.metric} fell by ${formatNumber(before - value)} (from ${formatNumber(before)} to ${formatNumber(value)}).`,
+          metric: condition.metric,
+          previous: before,
+          current: value
+        }
+      ];
+    }
+
+    const test = riskComparators[condition.comparator].test;
+    if (!test(value, condition.threshold) || (before !== undefined && test(before, condition.threshold))) return [];
+    return [
+      {
+        conditionId: condition.id,
+        kind: condition.kind,
+        message: `${condition.metric} is now ${formatNumber(value)} (${riskComparators[condition.comparator].symbol} ${formatNumber(
+          condition.threshold
+        )}).`,
+        metric: condition.metric,
+        previous: before ?? null,
+        current: value
+      }
+    ];
+  });
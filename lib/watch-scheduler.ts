@@ -0,0 +1,38 @@
+import { deliverPending, listWatches, pendingRunReason, runWatch } from "@/lib/watchlists";
+
+const DEFAULT_TICK_MS = 60_000;
+
+type SchedulerState = { timer: ReturnType<typeof setInterval> | null; ticking: boolean };
+
+// Kept on globalThis because Next.js may load this module once per route bundle; a single
+// timer per process is what we want.
+const state = ((globalThis as typeof globalThis & { auroraWatchScheduler?: SchedulerState }).auroraWatchScheduler ??= {
+  timer: null,
+  ticking: false
+});
+
+export const tickWatches = async (now = new Date()) => {
+  if (state.ticking) return;
+  state.ticking = true;
+  try {
+    for (const watch of await listWatches()) {
+      try {
+        const reason = await pendingRunReason(watch, now);
+        if (reason) await runWatch(watch.id, reason, now);
+        await deliverPending(watch.id, now);
+      } catch (error) {
+        console.error("Watch scheduler error", watch.id, error);
+      }
+    }
+  } finally {
+    state.ticking = false;
+  }
+};
+
+// Polls every AURORA_WATCH_TICK_MS (default one minute; 0 disables). Safe to call repeatedly.
+export const startWatchScheduler = () => {
+  const tickMs = Number(process.env.AURORA_WATCH_TICK_MS ?? DEFAULT_TICK_MS);
+  if (state.timer || !(tickMs > 0)) return;
+  state.timer = setInterval(() => void tickWatches(), tickMs);
+  state.timer.unref?.();
+};
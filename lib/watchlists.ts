@@ -0,0 +1,325 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { createHash, randomUUID } from "crypto";
+import { runAnalysisPipeline } from "@/lib/pipeline";
+import { defaultRiskRules, type RiskRule } from "@/lib/risk-rules";
+import { dataDirectory, writeFileAtomic } from "@/lib/storage";
+import { normalizeAnalysisRequest } from "@/lib/validation";
+import { evaluateConditions, type WatchAlert, type WatchCondition, type WatchObservation } from "@/lib/watch-conditions";
+import { attemptDelivery, createWebhookSecret, type WebhookDelivery, type WebhookEvent, type WebhookTarget } from "@/lib/webhooks";
+import { findVersion, getWorkspace } from "@/lib/workspaces";
+
+export type WatchRunReason = "manual" | "change" | "schedule";
+
+export type WatchRun = {
+  reason: WatchRunReason;
+  rulesHash: string;
+  observation: WatchObservation;
+  alerts: WatchAlert[];
+};
+
+export type Watch = {
+  id: string;
+  workspaceId: string;
+  name: string;
+  enabled: boolean;
+  cadenceMinutes: number | null;
+  conditions: WatchCondition[];
+  webhooks: WebhookTarget[];
+  createdAt: string;
+  updatedAt: string;
+  lastRun: WatchRun | null;
+  lastError: string | null;
+  deliveries: WebhookDelivery[];
+};
+
+// What the API returns: signing secrets are only ever sent once, when they are issued.
+export type PublicWatch = Omit<Watch, "webhooks"> & { webhooks: Omit<WebhookTarget, "secret">[] };
+
+export type IssuedSecret = { webhookId: string; secret: string };
+
+export type WatchInput = {
+  name?: string;
+  enabled?: boolean;
+  cadenceMinutes?: number | null;
+  conditions?: WatchCondition[];
+  webhooks?: { id: string | null; url: string }[];
+};
+
+const MAX_DELIVERIES = 50;
+
+export class WatchNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Watch ${id} was not found.`);
+  }
+}
+
+const watchDirectory = () => path.join(dataDirectory(), "watchlists");
+
+const watchPath = (id: string) => {
+  if (!/^[a-zA-Z0-9_-]+$/.test(id)) throw new WatchNotFoundError(id);
+  return path.join(watchDirectory(), `${id}.json`);
+};
+
+const queues = new Map<string, Promise<unknown>>();
+
+const withLock = <T>(id: string, task: () => Promise<T>) => {
+  const previous = queues.get(id) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  queues.set(id, next);
+  return next.finally(() => {
+    if (queues.get(id) === next) queues.delete(id);
+  });
+};
+
+// Deliveries being sent right now, so an overlapping scheduler tick and manual run never
+// post the same delivery twice.
+const inFlight = new Set<string>();
+
+const writeWatch = (watch: Watch) => writeFileAtomic(watchPath(watch.id), JSON.stringify(watch, null, 2));
+
+const hashRules = (rules: RiskRule[]) => createHash("sha256").update(JSON.stringify(rules)).digest("hex").slice(0, 16);
+
+// A webhook re-submitted by id with the same URL keeps its secret. A changed URL gets a fresh
+// one, so knowing a webhook's id is not enough to redirect correctly signed deliveries.
+const mergeWebhooks = (current: WebhookTarget[], targets: { id: string | null; url: string }[]) =>
+  targets.map((target) => {
+    const existing = current.find((webhook) => webhook.id === target.id);
+    if (existing?.url === target.url) return existing;
+    return { id: existing?.id ?? randomUUID(), url: target.url, secret: createWebhookSecret() };
+  });
+
+export const redactWatch = ({ webhooks, ...watch }: Watch): PublicWatch => ({
+  ...watch,
+  webhooks: webhooks.map(({ id, url }) => ({ id, url }))
+});
+
+export const issuedSecrets = (before: WebhookTarget[], after: WebhookTarget[]): IssuedSecret[] =>
+  after
+    .filter((webhook) => !before.some((previous) => previous.secret === webhook.secret))
+    .map(({ id, secret }) => ({ webhookId: id, secret }));
+
+const queueDeliveries = (watch: Watch, event: WebhookEvent, payload: Record<string, unknown>, now: Date) => {
+  const deliveries = watch.webhooks.map((webhook): WebhookDelivery => {
+    const id = randomUUID();
+    return {
+      id,
+      event,
+      webhookId: webhook.id,
+      url: webhook.url,
+      body: JSON.stringify({ id, event, createdAt: now.toISOString(), watch: { id: watch.id, name: watch.name }, ...payload }),
+      status: "pending",
+      attempts: 0,
+      createdAt: now.toISOString(),
+      lastAttemptAt: null,
+      nextAttemptAt: now.toISOString(),
+      responseStatus: null,
+      error: null
+    };
+  });
+  return [...deliveries, ...watch.deliveries].slice(0, MAX_DELIVERIES);
+};
+
+export async function getWatch(id: string): Promise<Watch> {
+  try {
+    return JSON.parse(await fs.readFile(watchPath(id), "utf8")) as Watch;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") throw new WatchNotFoundError(id);
+    throw error;
+  }
+}
+
+export async function listWatches(workspaceId?: string): Promise<Watch[]> {
+  const files = await fs.readdir(watchDirectory()).catch(() => [] as string[]);
+  const watches = await Promise.all(
+    files.filter((file) => file.endsWith(".json")).map((file) => getWatch(file.replace(/\.json$/, "")).catch(() => null))
+  );
+
+  return watches
+    .filter((watch): watch is Watch => watch !== null && (!workspaceId || watch.workspaceId === workspaceId))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function createWatch(workspaceId: string, input: WatchInput): Promise<Watch> {
+  const workspace = await getWorkspace(workspaceId);
+  const now = new Date().toISOString();
+  const watch: Watch = {
+    id: randomUUID(),
+    workspaceId: workspace.id,
+    name: input.name ?? workspace.name,
+    enabled: input.enabled ?? true,
+    cadenceMinutes: input.cadenceMinutes === undefined ? 60 : input.cadenceMinutes,
+    conditions: input.conditions ?? [],
+    webhooks: mergeWebhooks([], input.webhooks ?? []),
+    createdAt: now,
+    updatedAt: now,
+    lastRun: null,
+    lastError: null,
+    deliveries: []
+  };
+
+  await writeWatch(watch);
+  return watch;
+}
+
+// Also returns the secrets issued by this update, the only time they leave the server.
+export function updateWatch(id: string, input: WatchInput): Promise<{ watch: Watch; secrets: IssuedSecret[] }> {
+  return withLock(id, async () => {
+    const watch = await getWatch(id);
+    const updated: Watch = {
+      ...watch,
+      name: input.name ?? watch.name,
+      enabled: input.enabled ?? watch.enabled,
+      cadenceMinutes: input.cadenceMinutes === undefined ? watch.cadenceMinutes : input.cadenceMinutes,
+      conditions: input.conditions ?? watch.conditions,
+      webhooks: input.webhooks ? mergeWebhooks(watch.webhooks, input.webhooks) : watch.webhooks,
+      updatedAt: new Date().toISOString()
+    };
+    await writeWatch(updated);
+    return { watch: updated, secrets: issuedSecrets(watch.webhooks, updated.webhooks) };
+  });
+}
+
+export function deleteWatch(id: string): Promise<void> {
+  return withLock(id, async () => {
+    try {
+      await fs.unlink(watchPath(id));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") throw new WatchNotFoundError(id);
+      throw error;
+    }
+  });
+}
+
+// Re-runs the pipeline on the workspace's latest version with its saved rules, compares the
+// result with the previous run and queues one delivery per webhook when any condition fires.
+// Failures (a deleted workspace, a version that no longer validates) are kept on the watch.
+export function runWatch(id: string, reason: WatchRunReason, now = new Date()): Promise<Watch> {
+  return withLock(id, async () => {
+    const watch = await getWatch(id);
+    let updated: Watch;
+
+    try {
+      const workspace = await getWorkspace(watch.workspaceId);
+      const version = findVersion(workspace, "latest");
+      if (!version) throw new Error(`Workspace ${workspace.name} has no saved versions.`);
+
+      const request = normalizeAnalysisRequest({
+        periods: version.periods,
+        scenarios: version.scenarios,
+        planId: version.planId,
+        units: version.units,
+        adjustments: version.adjustments
+      });
+      if (request.errors.length) {
+        throw new Error(`Version ${version.version} failed validation: ${request.errors[0].message}`);
+      }
+
+      const rules = workspace.riskRules ?? defaultRiskRules;
+      const result = runAnalysisPipeline(request, rules);
+      const observation: WatchObservation = {
+        version: version.version,
+        ranAt: now.toISOString(),
+        context: result.riskContext,
+        signals: result.signals.map(({ ruleId, severity, message }) => ({ ruleId, severity, message }))
+      };
+      const alerts = evaluateConditions(watch.conditions, watch.lastRun?.observation ?? null, observation);
+
+      updated = {
+        ...watch,
+        lastRun: { reason, rulesHash: hashRules(rules), observation, alerts },
+        lastError: null,
+        deliveries: alerts.length
+          ? queueDeliveries(
+              watch,
+              "watch.alert",
+              {
+                reason,
+                workspace: { id: workspace.id, name: workspace.name, company: workspace.company, version: version.version },
+                alerts
+              },
+              now
+            )
+          : watch.deliveries
+      };
+    } catch (error) {
+      updated = { ...watch, lastError: error instanceof Error ? error.message : "Watch run failed." };
+    }
+
+    await writeWatch(updated);
+    return updated;
+  });
+}
+
+export function queueTestDelivery(id: string, now = new Date()): Promise<Watch> {
+  return withLock(id, async () => {
+    const watch = await getWatch(id);
+    const updated = {
+      ...watch,
+      deliveries: queueDeliveries(watch, "watch.test", { message: "Test delivery from Aurora watchlists." }, now)
+    };
+    await writeWatch(updated);
+    return updated;
+  });
+}
+
+// Sends every pending delivery whose retry time has come. Network calls happen outside the
+// lock; each result is merged back into the freshly read watch.
+export async function deliverPending(id: string, now = new Date()): Promise<Watch> {
+  const watch = await getWatch(id);
+  const due = watch.deliveries.filter(
+    (delivery) =>
+      delivery.status === "pending" &&
+      !inFlight.has(delivery.id) &&
+      (!delivery.nextAttemptAt || Date.parse(delivery.nextAttemptAt) <= now.getTime())
+  );
+  if (!due.length) return watch;
+
+  due.forEach((delivery) => inFlight.add(delivery.id));
+  try {
+    const results = await Promise.all(
+      due.map((delivery): Promise<WebhookDelivery> => {
+        const webhook = watch.webhooks.find((entry) => entry.id === delivery.webhookId);
+        return webhook
+          ? attemptDelivery(delivery, webhook.secret, now)
+          : Promise.resolve({ ...delivery, status: "failed", nextAttemptAt: null, error: "Webhook was removed from the watch." });
+      })
+    );
+
+    return await withLock(id, async () => {
+      const latest = await getWatch(id);
+      const updated = {
+        ...latest,
+        deliveries: latest.deliveries.map((delivery) => results.find((result) => result.id === delivery.id) ?? delivery)
+      };
+      await writeWatch(updated);
+      return updated;
+    });
+  } finally {
+    due.forEach((delivery) => inFlight.delete(delivery.id));
+  }
+}
+
+// Why a watch should run now, if at all: its workspace gained a version or changed its rules
+// since the last run, or its cadence has elapsed.
+export const pendingRunReason = async (watch: Watch, now = new Date()): Promise<WatchRunReason | null> => {
+  if (!watch.enabled) return null;
+  if (!watch.lastRun) return "change";
+
+  const workspace = await getWorkspace(watch.workspaceId).catch(() => null);
+  if (!workspace) return null;
+  if (findVersion(workspace, "latest")?.version !== watch.lastRun.observation.version) return "change";
+  if (hashRules(workspace.riskRules ?? defaultRiskRules) !== watch.lastRun.rulesHash) return "change";
+
+  if (watch.cadenceMinutes === null) return null;
+  const elapsed = now.getTime() - Date.parse(watch.lastRun.observation.ranAt);
+  return elapsed >= watch.cadenceMinutes * 60_000 ? "schedule" : null;
+};
+
+export async function runWorkspaceWatches(workspaceId: string): Promise<void> {
+  const watches = (await listWatches(workspaceId)).filter((watch) => watch.enabled);
+  for (const watch of watches) {
+    await runWatch(watch.id, "change");
+    await deliverPending(watch.id);
+  }
+}
@@ -0,0 +1,106 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { lookup } from "dns/promises";
+import { isPrivateHost, privateWebhooksAllowed } from "@/lib/validation";
+
+export type WebhookEvent = "watch.alert" | "watch.test";
+
+export type WebhookTarget = {
+  id: string;
+  url: string;
+  secret: string;
+};
+
+export type DeliveryStatus = "pending" | "delivered" | "failed";
+
+export type WebhookDelivery = {
+  id: string;
+  event: WebhookEvent;
+  webhookId: string;
+  url: string;
+  body: string;
+  status: DeliveryStatus;
+  attempts: number;
+  createdAt: string;
+  lastAttemptAt: string | null;
+  nextAttemptAt: string | null;
+  responseStatus: number | null;
+  error: string | null;
+};
+
+export const SIGNATURE_HEADER = "X-Aurora-Signature";
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+// Delay before each retry; a delivery is abandoned once every delay has been used.
+export const RETRY_DELAYS_MS = [30_000, 120_000, 600_000, 3_600_000];
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export const createWebhookSecret = () => `whsec_${randomBytes(24).toString("base64url")}`;
+
+const digest = (secret: string, timestamp: number, body: string) =>
+  createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+// Same scheme as most webhook providers: the timestamp is signed with the body so a captured
+// request cannot be replayed outside the tolerance window.
+export const signPayload = (secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)) =>
+  `t=${timestamp},v1=${digest(secret, timestamp, body)}`;
+
+export const verifySignature = (secret: string, body: string, header: string | null, now = Date.now()) => {
+  const parts = Object.fromEntries((header ?? "").split(",").map((part) => part.trim().split("=", 2) as [string, string]));
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) return false;
+  if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+  const expected = Buffer.from(digest(secret, timestamp, body), "hex");
+  const actual = Buffer.from(parts.v1, "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+export const attemptDelivery = async (delivery: WebhookDelivery, secret: string, now = new Date()): Promise<WebhookDelivery> => {
+  const attempts = delivery.attempts + 1;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    // Checked again at send time because a public hostname can resolve to a private address.
+    if (!privateWebhooksAllowed()) {
+      const addresses = await lookup(new URL(delivery.url).hostname, { all: true });
+      if (addresses.some(({ address }) => isPrivateHost(address))) throw new Error("Webhook host resolves to a private address.");
+    }
+    const response = await fetch(delivery.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Aurora-Webhooks/1",
+        "X-Aurora-Event": delivery.event,
+        "X-Aurora-Delivery": delivery.id,
+        [SIGNATURE_HEADER]: signPayload(secret, delivery.body, Math.floor(now.getTime() / 1000))
+      },
+      body: delivery.body,
+      redirect: "manual",
+      signal: controller.signal
+    });
+    responseStatus = response.status;
+    if (!response.ok) error = `Receiver responded with HTTP ${response.status}.`;
+  } catch (err) {
+    error = controller.signal.aborted
+      ? `No response within ${REQUEST_TIMEOUT_MS / 1000} seconds.`
+      : err instanceof Error
+        ? err.message
+        : "Request failed.";
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  const retryDelay = error ? RETRY_DELAYS_MS[attempts - 1] : undefined;
+  return {
+    ...delivery,
+    attempts,
+    status: !error ? "delivered" : retryDelay === undefined ? "failed" : "pending",
+    lastAttemptAt: now.toISOString(),
+    nextAttemptAt: retryDelay === undefined ? null : new Date(now.getTime() + retryDelay).toISOString(),
+    responseStatus,
+    error
+  };
+};
@@ -0,0 +1,149 @@
+import { lineItemFields, periodFields, type DatedPeriod } from "@/lib/period-fields";
+import { builtinSignals, type RiskSignal } from "@/lib/risk-rules";
+import { assumptionKeys } from "@/lib/scenarios";
+import type { WorkspaceVersion } from "@/lib/workspaces";
+
+export type InputChange = {
+  kind: "period.added" | "period.removed" | "period.changed" | "scenario.added" | "scenario.removed" | "scenario.changed" | "plan.changed";
+  target: string;
+  field?: string;
+  from?: number | string;
+  to?: number | string;
+};
+
+export type ValueMovement = {
+  key: string;
+  from: number;
+  to: number;
+  delta: number;
+};
+
+export type SignalEntry = Pick<RiskSignal, "ruleId" | "severity" | "message">;
+
+// A signal that still fires under the same rule and severity but whose message (and so its
+// figures) moved.
+export type SignalChange = Pick<RiskSignal, "ruleId" | "severity"> & { from: string; to: string };
+
+export type VersionDiff = {
+  from: number;
+  to: number;
+  inputs: InputChange[];
+  healthScores: ValueMovement[];
+  metrics: ValueMovement[];
+  riskSignals: { added: SignalEntry[]; removed: SignalEntry[]; changed: SignalChange[] };
+};
+
+const movements = (from: Record<string, number>, to: Record<string, number>) =>
+  Array.from(new Set([...Object.keys(from), ...Object.keys(to)])).map((key) => ({
+    key,
+    from: from[key] ?? 0,
+    to: to[key] ?? 0,
+    delta: (to[key] ?? 0) - (from[key] ?? 0)
+  }));
+
+const periodChanges = (from: WorkspaceVersion, to: WorkspaceVersion): InputChange[] => {
+  const changes: InputChange[] = [];
+  const before = new Map<string, DatedPeriod>(from.periods.map((period) => [period.label, period]));
+  const after = new Map<string, DatedPeriod>(to.periods.map((period) => [period.label, period]));
+
+  for (const [label, period] of after) {
+    const previous = before.get(label);
+    if (!previous) {
+      changes.push({ kind: "period.added", target: label });
+      continue;
+    }
+    for (const { key } of [...periodFields, ...lineItemFields]) {
+      if (previous[key] !== period[key]) {
+        changes.push({ kind: "period.changed", target: label, field: key, from: previous[key], to: period[key] });
+      }
+    }
+  }
+
+  for (const label of before.keys()) {
+    if (!after.has(label)) changes.push({ kind: "period.removed", target: label });
+  }
+
+  return changes;
+};
+
+const scenarioChanges = (from: WorkspaceVersion, to: WorkspaceVersion): InputChange[] => {
+  const changes: InputChange[] = [];
+  const before = new Map(from.scenarios.map((scenario) => [scenario.id, scenario]));
+  const after = new Map(to.scenarios.map((scenario) => [scenario.id, scenario]));
+
+  for (const [id, scenario] of after) {
+    const previous = before.get(id);
+    if (!previous) {
+      changes.push({ kind: "scenario.added", target: scenario.name });
+      continue;
+    }
+    if (previous.name !== scenario.name) {
+      changes.push({ kind: "scenario.changed", target: scenario.name, field: "name", from: previous.name, to: scenario.name });
+    }
+    for (const key of assumptionKeys) {
+      if (previous.assumptions[key] !== scenario.assumptions[key]) {
+        changes.push({
+          kind: "scenario.changed",
+          target: scenario.name,
+          field: key,
+          from: previous.assumptions[key],
+          to: scenario.assumptions[key]
+        });
+      }
+    }
+  }
+
+  for (const [id, scenario] of before) {
+    if (!after.has(id)) changes.push({ kind: "scenario.removed", target: scenario.name });
+  }
+
+  if (from.planId !== to.planId) {
+    const name = (version: WorkspaceVersion) =>
+      version.scenarios.find((scenario) => scenario.id === version.planId)?.name ?? version.planId;
+    changes.push({ kind: "plan.changed", target: "plan", from: name(from), to: name(to) });
+  }
+
+  return changes;
+};
+
+// Signal messages embed formatted figures, so signals are matched by rule and severity; an
+// escalation counts as one signal removed and another added. Older versions only kept the
+// engine's built-in messages, which get the same ids the pipeline gives them.
+const signalsByKey = (version: WorkspaceVersion) =>
+  new Map(
+    (version.signals ?? builtinSignals(version.analysis)).map(({ ruleId, severity, message }): [string, SignalEntry] => [
+      `${ruleId}:${severity}`,
+      { ruleId, severity, message }
+    ])
+  );
+
+const signalChanges = (from: WorkspaceVersion, to: WorkspaceVersion): VersionDiff["riskSignals"] => {
+  const before = signalsByKey(from);
+  const after = signalsByKey(to);
+  const changed: SignalChange[] = [];
+
+  for (const [key, signal] of after) {
+    const previous = before.get(key);
+    if (previous && previous.message !== signal.message) {
+      changed.push({ ruleId: signal.ruleId, severity: signal.severity, from: previous.message, to: signal.message });
+    }
+  }
+
+  return {
+    added: [...after].filter(([key]) => !before.has(key)).map(([, signal]) => signal),
+    removed: [...before].filter(([key]) => !after.has(key)).map(([, signal]) => signal),
+    changed
+  };
+};
+
+export const diffVersions = (from: WorkspaceVersion, to: WorkspaceVersion): VersionDiff => {
+
+  return {
+    from: from.version,
+    to: to.version,
+    inputs: [...periodChanges(from, to), ...scenarioChanges(from, to)],
+    healthScores: movements(from.analysis.healthScores, to.analysis.healthScores),
+    metrics: movements(from.analysis.metrics, to.analysis.metrics),
+    riskSignals: signalChanges(from, to)
+  };
+};
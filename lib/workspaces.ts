@@ -0,0 +1,189 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { AnalysisPayload, FinancialPeriod } from "@/lib/analysis";
+import type { AnomalyAdjustments } from "@/lib/anomalies";
+import type { DatasetUnits } from "@/lib/currency";
+import type { RiskRule, RiskSignal } from "@/lib/risk-rules";
+import type { NamedScenario } from "@/lib/scenarios";
+import { dataDirectory, writeFileAtomic } from "@/lib/storage";
+
+export type WorkspaceSnapshot = {
+  periods: FinancialPeriod[];
+  scenarios: NamedScenario[];
+  planId: string;
+  units?: DatasetUnits;
+  // Anomaly treatments by period label; absent on versions saved before they were stored.
+  adjustments?: AnomalyAdjustments;
+};
+
+export type WorkspaceVersion = WorkspaceSnapshot & {
+  version: number;
+  createdAt: string;
+  note: string;
+  analysis: AnalysisPayload;
+  // Pipeline signals (rules, built-in and runway); absent on versions saved before they were stored.
+  signals?: RiskSignal[];
+};
+
+export type Workspace = {
+  id: string;
+  name: string;
+  company: string;
+  createdAt: string;
+  updatedAt: string;
+  riskRules?: RiskRule[];
+  versions: WorkspaceVersion[];
+};
+
+export type WorkspaceSummary = Omit<Workspace, "versions"> & {
+  latestVersion: number;
+};
+
+export class WorkspaceNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Workspace ${id} was not found.`);
+  }
+}
+
+const workspaceDirectory = () => path.join(dataDirectory(), "workspaces");
+
+const workspacePath = (id: string) => {
+  if (!/^[a-zA-Z0-9_-]+$/.test(id)) throw new WorkspaceNotFoundError(id);
+  return path.join(workspaceDirectory(), `${id}.json`);
+};
+
+const queues = new Map<string, Promise<unknown>>();
+
+const withLock = <T>(id: string, task: () => Promise<T>) => {
+  const previous = queues.get(id) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  queues.set(id, next);
+  return next.finally(() => {
+    if (queues.get(id) === next) queues.delete(id);
+  });
+};
+
+const writeWorkspace = (workspace: Workspace) =>
+  writeFileAtomic(workspacePath(workspace.id), JSON.stringify(workspace, null, 2));
+
+const summarize = ({ versions, ...workspace }: Workspace): WorkspaceSummary => ({
+  ...workspace,
+  latestVersion: versions[versions.length - 1]?.version ?? 0
+});
+
+export async function getWorkspace(id: string): Promise<Workspace> {
+  try {
+    return JSON.parse(await fs.readFile(workspacePath(id), "utf8")) as Workspace;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") throw new WorkspaceNotFoundError(id);
+    throw error;
+  }
+}
+
+export async function listWorkspaces(): Promise<WorkspaceSummary[]> {
+  const files = await fs.readdir(workspaceDirectory()).catch(() => [] as string[]);
+  const workspaces = await Promise.all(
+    files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => getWorkspace(file.replace(/\.json$/, "")).catch(() => null))
+  );
+
+  return workspaces
+    .filter((workspace): workspace is Workspace => workspace !== null)
+    .map(summarize)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function createWorkspace(input: {
+  name: string;
+  company: string;
+  snapshot: WorkspaceSnapshot;
+  analysis: AnalysisPayload;
+  signals: RiskSignal[];
+  note?: string;
+}): Promise<Workspace> {
+  const now = new Date().toISOString();
+  const workspace: Workspace = {
+    id: randomUUID(),
+    name: input.name,
+    company: input.company,
+    createdAt: now,
+    updatedAt: now,
+    versions: [
+      {
+        ...input.snapshot,
+        version: 1,
+        createdAt: now,
+        note: input.note ?? "Initial version",
+        analysis: input.analysis,
+        signals: input.signals
+      }
+    ]
+  };
+
+  await writeWorkspace(workspace);
+  return workspace;
+}
+
+export function appendVersion(
+  id: string,
+  snapshot: WorkspaceSnapshot,
+  analysis: AnalysisPayload,
+  signals: RiskSignal[],
+  note = ""
+): Promise<WorkspaceVersion> {
+  return withLock(id, async () => {
+    const workspace = await getWorkspace(id);
+    const now = new Date().toISOString();
+    const version: WorkspaceVersion = {
+      ...snapshot,
+      version: (workspace.versions[workspace.versions.length - 1]?.version ?? 0) + 1,
+      createdAt: now,
+      note,
+      analysis,
+      signals
+    };
+
+    await writeWorkspace({ ...workspace, updatedAt: now, versions: [...workspace.versions, version] });
+    return version;
+  });
+}
+
+export function updateWorkspaceDetails(id: string, details: { name?: string; company?: string }): Promise<WorkspaceSummary> {
+  return withLock(id, async () => {
+    const workspace = await getWorkspace(id);
+    const updated = {
+      ...workspace,
+      name: details.name ?? workspace.name,
+      company: details.company ?? workspace.company,
+      updatedAt: new Date().toISOString()
+    };
+    await writeWorkspace(updated);
+    return summarize(updated);
+  });
+}
+
+export function updateWorkspaceRules(id: string, riskRules: RiskRule[]): Promise<RiskRule[]> {
+  return withLock(id, async () => {
+    const workspace = await getWorkspace(id);
+    await writeWorkspace({ ...workspace, riskRules, updatedAt: new Date().toISOString() });
+    return riskRules;
+  });
+}
+
+export function deleteWorkspace(id: string): Promise<void> {
+  return withLock(id, async () => {
+    try {
+      await fs.unlink(workspacePath(id));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") throw new WorkspaceNotFoundError(id);
+      throw error;
+    }
+  });
+}
+
+export const findVersion = (workspace: Workspace, version: number | "latest") =>
+  version === "latest"
+    ? workspace.versions[workspace.versions.length - 1]
+    : workspace.versions.find((entry) => entry.version === version);
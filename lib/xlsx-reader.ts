@@ -0,0 +1,183 @@
+type ZipEntry = {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+};
+
+const decodeXml = (value: string) =>
+  value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+
+const readCentralDirectory = (view: DataView): ZipEntry[] => {
+  let end = -1;
+  for (let offset = view.byteLength - 22; offset >= Math.max(0, view.byteLength - 65557); offset--) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) throw new Error("File is not a valid XLSX workbook.");
+
+  const count = view.getUint16(end + 10, true);
+  let cursor = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  for (let index = 0; index < count; index++) {
+    if (view.getUint32(cursor, true) !== 0x02014b50) break;
+    const nameLength = view.getUint16(cursor + 28, true);
+    const extraLength = view.getUint16(cursor + 30, true);
+    const commentLength = view.getUint16(cursor + 32, true);
+    entries.push({
+      method: view.getUint16(cursor + 10, true),
+      compressedSize: view.getUint32(cursor + 20, true),
+      localHeaderOffset: view.getUint32(cursor + 42, true),
+      name: decoder.decode(new Uint8Array(view.buffer, view.byteOffset + cursor + 46, nameLength))
+    });
+    cursor += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+const inflate = async (data: ArrayBuffer) => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const readEntry = async (buffer: ArrayBuffer, entry: ZipEntry) => {
+  const view = new DataView(buffer);
+  const offset = entry.localHeaderOffset;
+  const nameLength = view.getUint16(offset + 26, true);
+  const extraLength = view.getUint16(offset + 28, true);
+  const start = offset + 30 + nameLength + extraLength;
+  const data = buffer.slice(start, start + entry.compressedSize);
+
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method === 8) return new TextDecoder().decode(await inflate(data));
+  throw new Error(`Unsupported XLSX compression method ${entry.method}.`);
+};
+
+const columnIndex = (reference: string) => {
+  const letters = reference.replace(/\d+$/, "").toUpperCase();
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+const readText = (xml: string) =>
+  Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g))
+    .map((match) => decodeXml(match[1]))
+    .join("");
+
+const parseSharedStrings = (xml: string) =>
+  Array.from(xml.matchAll(/<si>([\s\S]*?)<\/si>/g)).map((match) => readText(match[1]));
+
+// Built-in number formats that render a date (ids 14-17 and 22, plus the CJK date formats).
+const builtinDateFormats = new Set([14, 15, 16, 17, 22, 27, 28, 29, 30, 31, 34, 35, 36, 50, 51, 52, 53, 54, 55, 56, 57, 58]);
+
+// A custom format is a date when it has day or year tokens outside quoted text, escapes and
+// [colour]/[$-locale] sections; "m" alone is ambiguous with minutes, so time formats stay numeric.
+const isDateFormatCode = (code: string) => /[dy]/i.test(code.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, ""));
+
+// Style index (the cell's s attribute) -> whether that style formats the value as a date.
+const parseDateStyles = (xml: string | undefined) => {
+  if (!xml) return [];
+  const custom = new Map(
+    Array.from(xml.matchAll(/<numFmt\b([^>]*)>/g), ([, attributes]) => [
+      Number(attributes.match(/\bnumFmtId="(\d+)"/)?.[1]),
+      isDateFormatCode(decodeXml(attributes.match(/\bformatCode="([^"]*)"/)?.[1] ?? ""))
+    ])
+  );
+  const cellXfs = xml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] ?? "";
+  return Array.from(cellXfs.matchAll(/<xf\b([^>]*)>/g), (match) => {
+    const id = Number(match[1].match(/\bnumFmtId="(\d+)"/)?.[1] ?? 0);
+    return custom.get(id) ?? builtinDateFormats.has(id);
+  });
+};
+
+const DAY_MS = 86_400_000;
+
+// Serial day numbers count from 1899-12-30 (which absorbs Excel's phantom 1900-02-29) or, for
+// workbooks using the 1904 date system, from 1904-01-01.
+const serialToIsoDate = (serial: number, date1904: boolean) => {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  return new Date(epoch + Math.round(serial * DAY_MS)).toISOString().slice(0, 10);
+};
+
+const resolveFirstSheet = (workbook: string | undefined, rels: string | undefined) => {
+  const firstSheet = workbook?.match(/<sheet\b[^>]*\br:id="([^"]+)"/);
+  if (!firstSheet || !rels) return "xl/worksheets/sheet1.xml";
+
+  const relationship = Array.from(rels.matchAll(/<Relationship\b[^>]*>/g))
+    .map((match) => match[0])
+    .find((tag) => tag.includes(`Id="${firstSheet[1]}"`));
+  const target = relationship?.match(/Target="([^"]+)"/)?.[1];
+  if (!target) return "xl/worksheets/sheet1.xml";
+
+  return target.startsWith("/") ? target.slice(1) : `xl/${target.replace(/^\.\//, "")}`;
+};
+
+export async function readWorkbook(buffer: ArrayBuffer): Promise<string[][]> {
+  const view = new DataView(buffer);
+  const entries = readCentralDirectory(view);
+  const find = (name: string) => entries.find((entry) => entry.name === name);
+  const load = async (name: string) => {
+    const entry = find(name);
+    return entry ? readEntry(buffer, entry) : undefined;
+  };
+
+  const [workbook, rels, sharedXml, stylesXml] = await Promise.all([
+    load("xl/workbook.xml"),
+    load("xl/_rels/workbook.xml.rels"),
+    load("xl/sharedStrings.xml"),
+    load("xl/styles.xml")
+  ]);
+  const sheetXml = await load(resolveFirstSheet(workbook, rels));
+  if (!sheetXml) throw new Error("Workbook does not contain a readable worksheet.");
+
+  const sharedStrings = sharedXml ? parseSharedStrings(sharedXml) : [];
+  const dateStyles = parseDateStyles(stylesXml);
+  const date1904 = /<workbookPr\b[^>]*\bdate1904="(?:1|true)"/.test(workbook ?? "");
+  const grid: string[][] = [];
+
+  // Empty rows may be written self-closing (<row r="3"/>), so they must not run on to the next </row>.
+  for (const row of sheetXml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(row[1].match(/\br="(\d+)"/)?.[1] ?? grid.length + 1);
+    const cells: string[] = [];
+
+    for (const cell of (row[2] ?? "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cell[1];
+      const body = cell[2] ?? "";
+      const reference = attributes.match(/\br="([A-Z]+\d+)"/)?.[1];
+      const type = attributes.match(/\bt="([^"]+)"/)?.[1];
+      const style = Number(attributes.match(/\bs="(\d+)"/)?.[1] ?? 0);
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = "";
+      if (type === "s" && raw !== undefined) value = sharedStrings[Number(raw)] ?? "";
+      else if (type === "inlineStr") value = readText(body);
+      else if (raw !== undefined && (type === undefined || type === "n") && dateStyles[style] && Number.isFinite(Number(raw))) {
+        value = serialToIsoDate(Number(raw), date1904);
+      } else if (raw !== undefined) value = decodeXml(raw);
+
+      const column = reference ? columnIndex(reference) : cells.length;
+      while (cells.length < column) cells.push("");
+      cells[column] = value;
+    }
+
+    while (grid.length < rowNumber - 1) grid.push([]);
+    grid[rowNumber - 1] = cells;
+  }
+
+  return grid;
+}
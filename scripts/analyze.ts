@@ -0,0 +1,248 @@
+#!/usr/bin/env -S npx tsx
+import { readFile, writeFile } from "node:fs/promises";
+import { extname } from "node:path";
+import { parseArgs } from "node:util";
+import { runAnalysis, type AnalysisPayload } from "@/lib/analysis";
+import { DEFAULT_LOCALE, parseLocaleNumber } from "@/lib/number-format";
+import { periodFields, type DatedPeriod } from "@/lib/period-fields";
+import { assumptionLabels, buildReport, formatMetric, humanizeKey, renderMarkdown } from "@/lib/report";
+import {
+  buildRiskContext,
+  builtinSignals,
+  defaultRiskRules,
+  evaluateRiskRules,
+  riskSeverities,
+  sortSignals,
+  type RiskSeverity,
+  type RiskSignal
+} from "@/lib/risk-rules";
+import { assumptionKeys, evaluateScenarios, type NamedScenario } from "@/lib/scenarios";
+import { applyImportMapping, buildImportPreview, parseDelimited, resolveImportSources } from "@/lib/statement-import";
+import {
+  consistencyWarnings,
+  normalizeAssumptions,
+  normalizePeriods,
+  normalizeRiskRules,
+  type ValidationIssue
+} from "@/lib/validation";
+
+const EXIT_OK = 0;
+const EXIT_SIGNALS = 1;
+const EXIT_INVALID = 2;
+const EXIT_USAGE = 64;
+const EXIT_ERROR = 70;
+
+type OutputFormat = "json" | "markdown" | "table";
+
+const outputFormats: OutputFormat[] = ["json", "markdown", "table"];
+
+const usage = `Usage: analyze [periods] [options]
+
+Runs the Aurora analysis engine on a dataset without the web app.
+
+Arguments:
+  periods                 JSON or CSV file with the periods; "-" or omitted reads stdin.
+                          JSON may be an array of periods or { periods, assumptions, riskRules }.
+
+Options:
+  -a, --assumptions FILE  JSON object or two-column CSV (assumption,value); overrides the input's.
+  -r, --rules FILE        JSON array of risk rules; defaults to the built-in rule set.
+  -f, --format FORMAT     json (default), markdown or table.
+  -o, --output FILE       Write the result to FILE instead of stdout.
+      --fail-on LEVEL     Exit 1 when a signal at or above LEVEL fires: critical (default),
+                          warning, info or none.
+      --locale LOCALE     Locale used to read CSV numbers (default ${DEFAULT_LOCALE}).
+  -h, --help              Show this help.
+
+Exit codes: 0 passed, 1 risk signals at or above --fail-on, 2 validation failed, 64 usage error,
+70 unexpected error.
+`;
+
+class UsageError extends Error {}
+
+const readStdin = async () => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf8");
+};
+
+const readSource = async (path: string) => {
+  if (path === "-") {
+    if (process.stdin.isTTY) throw new UsageError("No input file given and nothing piped to stdin.");
+    return { text: await readStdin(), extension: "" };
+  }
+  try {
+    return { text: await readFile(path, "utf8"), extension: extname(path).toLowerCase() };
+  } catch {
+    throw new UsageError(`Cannot read ${path}.`);
+  }
+};
+
+// Extension wins; stdin and unknown extensions are sniffed from the first character.
+const isJson = (text: string, extension: string) =>
+  extension === ".json" || (![".csv", ".tsv", ".txt"].includes(extension) && /^\s*[[{]/.test(text));
+
+const parseJson = (text: string, path: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new UsageError(`${path === "-" ? "stdin" : path} is not valid JSON.`);
+  }
+};
+
+const readPeriodsInput = async (path: string, locale: string) => {
+  const { text, extension } = await readSource(path);
+  if (!isJson(text, extension)) {
+    const preview = buildImportPreview(parseDelimited(text));
+    for (const duplicate of resolveImportSources(preview).duplicates) {
+      process.stderr.write(`warning: ${duplicate.target}: using "${duplicate.kept}", ignoring ${duplicate.ignored.join(", ")}.\n`);
+    }
+    return { periods: applyImportMapping(preview, undefined, locale) as unknown };
+  }
+  const parsed = parseJson(text, path);
+  if (Array.isArray(parsed)) return { periods: parsed as unknown };
+  const source = (parsed ?? {}) as Record<string, unknown>;
+  return { periods: source.periods, assumptions: source.assumptions, riskRules: source.riskRules };
+};
+
+const assumptionAliases = new Map(
+  assumptionKeys.flatMap((key) => [
+    [key.toLowerCase(), key],
+    [assumptionLabels[key].toLowerCase(), key]
+  ])
+);
+
+const readAssumptionsInput = async (path: string, locale: string): Promise<unknown> => {
+  const { text, extension } = await readSource(path);
+  if (isJson(text, extension)) return parseJson(text, path);
+  return Object.fromEntries(
+    parseDelimited(text)
+      .filter(([name, value]) => name?.trim() && value !== undefined)
+      .map(([name, value]) => [
+        assumptionAliases.get(name.trim().toLowerCase()) ?? name.trim(),
+        parseLocaleNumber(value, locale) ?? value
+      ])
+  );
+};
+
+const textTable = (header: string[], rows: string[][]) => {
+  const widths = header.map((cell, column) => Math.max(cell.length, ...rows.map((row) => row[column]?.length ?? 0)));
+  const line = (cells: string[]) =>
+    cells.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))).join("  ");
+  return [line(header), widths.map((width) => "-".repeat(width)).join("  "), ...rows.map(line)].join("\n");
+};
+
+const renderTable = (analysis: AnalysisPayload, periods: DatedPeriod[], signals: RiskSignal[]) =>
+  [
+    textTable(
+      ["Period", ...periodFields.map(({ label }) => label)],
+      periods.map((period) => [period.label, ...periodFields.map(({ key }) => period[key].toLocaleString("en-US"))])
+    ),
+    textTable(
+      ["Metric", "Value"],
+      Object.entries(analysis.metrics).map(([key, value]) => [humanizeKey(key), formatMetric(key, value)])
+    ),
+    textTable(
+      ["Health score", "Score"],
+      Object.entries(analysis.healthScores).map(([key, value]) => [humanizeKey(key), value.toFixed(0)])
+    ),
+    signals.length
+      ? signals.map((signal) => `${signal.severity.toUpperCase().padEnd(8)}  ${signal.message}`).join("\n")
+      : "No risk signals."
+  ].join("\n\n") + "\n";
+
+const describeIssue = (issue: ValidationIssue) => {
+  const location =
+    issue.periodIndex !== undefined ? `periods[${issue.periodIndex}]${issue.field ? `.${issue.field}` : ""}` : issue.field;
+  return `${issue.severity}: ${location ? `${location}: ` : ""}${issue.message}`;
+};
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      assumptions: { type: "string", short: "a" },
+      rules: { type: "string", short: "r" },
+      format: { type: "string", short: "f", default: "json" },
+      output: { type: "string", short: "o" },
+      "fail-on": { type: "string", default: "critical" },
+      locale: { type: "string", default: DEFAULT_LOCALE },
+      help: { type: "boolean", short: "h", default: false }
+    }
+  });
+
+  if (values.help) {
+    process.stdout.write(usage);
+    return EXIT_OK;
+  }
+
+  const format = values.format as OutputFormat;
+  if (!outputFormats.includes(format)) throw new UsageError(`--format must be one of ${outputFormats.join(", ")}.`);
+  const failOn = values["fail-on"] as RiskSeverity | "none";
+  if (failOn !== "none" && !riskSeverities.includes(failOn)) {
+    throw new UsageError(`--fail-on must be one of ${[...riskSeverities, "none"].join(", ")}.`);
+  }
+  if (positionals.length > 1) throw new UsageError("Pass a single periods file.");
+  const periodsPath = positionals[0] ?? "-";
+  if (periodsPath === "-" && values.assumptions === "-") throw new UsageError("Only one input can come from stdin.");
+
+  const input = await readPeriodsInput(periodsPath, values.locale);
+  const periods = normalizePeriods(input.periods);
+  const assumptions = normalizeAssumptions(
+    values.assumptions ? await readAssumptionsInput(values.assumptions, values.locale) : input.assumptions
+  );
+  const rulesRaw = values.rules ? parseJson((await readSource(values.rules)).text, values.rules) : input.riskRules;
+  const rules = rulesRaw === undefined ? { value: defaultRiskRules, issues: [] } : normalizeRiskRules(rulesRaw);
+
+  const errors = [...periods.issues, ...assumptions.issues, ...rules.issues];
+  const warnings = errors.length ? [] : consistencyWarnings(periods.value);
+  for (const issue of [...errors, ...warnings]) process.stderr.write(`${describeIssue(issue)}\n`);
+  if (errors.length) return EXIT_INVALID;
+
+  const analysis = runAnalysis(periods.value, assumptions.value);
+  const signals = sortSignals([
+    ...evaluateRiskRules(rules.value, buildRiskContext(analysis, periods.value)),
+    ...builtinSignals(analysis)
+  ]);
+
+  let output: string;
+  if (format === "json") {
+    output = `${JSON.stringify({ analysis, signals, warnings }, null, 2)}\n`;
+  } else if (format === "table") {
+    output = renderTable(analysis, periods.value, signals);
+  } else {
+    const scenarios: NamedScenario[] = [{ id: "base", name: "Base", assumptions: assumptions.value }];
+    const report = buildReport({
+      periods: periods.value,
+      scenarios,
+      planId: "base",
+      analysis,
+      scenarioResults: evaluateScenarios(periods.value, scenarios),
+      signals
+    });
+    output = renderMarkdown(report);
+  }
+
+  if (values.output) await writeFile(values.output, output);
+  else process.stdout.write(output);
+
+  if (failOn === "none") return EXIT_OK;
+  const threshold = riskSeverities.indexOf(failOn);
+  const failing = signals.filter((signal) => riskSeverities.indexOf(signal.severity) <= threshold);
+  if (failing.length) {
+    process.stderr.write(`${failing.length} risk signal(s) at or above ${failOn}.\n`);
+    return EXIT_SIGNALS;
+  }
+  return EXIT_OK;
+};
+
+main()
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error: unknown) => {
+    const usageError = error instanceof UsageError || (error as { code?: string })?.code?.startsWith("ERR_PARSE_ARGS");
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+    if (usageError) process.stderr.write(`\n${usage}`);
+    process.exitCode = usageError ? EXIT_USAGE : EXIT_ERROR;
+  });
@@ -0,0 +1,34 @@
+#!/usr/bin/env -S npx tsx
+import { spawnSync } from "node:child_process";
+import { readdir } from "node:fs/promises";
+import { join } from "node:path";
+
+// Runs tests/**/*.test.ts once with Node's built-in test runner, loading TypeScript through tsx.
+// Arguments narrow the run to files whose path contains any of them: `test.ts import webhooks`.
+const TEST_DIRECTORY = "tests";
+
+const main = async () => {
+  const filters = process.argv.slice(2);
+  const files = (await readdir(TEST_DIRECTORY, { recursive: true }))
+    .filter((file) => file.endsWith(".test.ts"))
+    .map((file) => join(TEST_DIRECTORY, file))
+    .filter((file) => !filters.length || filters.some((filter) => file.includes(filter)))
+    .sort();
+
+  if (!files.length) {
+    process.stderr.write(`No test files${filters.length ? ` matching ${filters.join(", ")}` : ""} under ${TEST_DIRECTORY}/.\n`);
+    return 1;
+  }
+
+  const result = spawnSync(process.execPath, ["--import", "tsx", "--test", ...files], { stdio: "inherit" });
+  return result.status ?? 1;
+};
+
+main()
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error: unknown) => {
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+    process.exitCode = 1;
+  });
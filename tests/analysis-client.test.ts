@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { AnalysisValidationError, createWorkerEngine } from "@/lib/analysis-client";
+import { defaultPeriods } from "@/lib/sample-data";
+
+// Stands in for a worker whose script fails to load: every message is answered with an error event.
+class BrokenWorker {
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: { preventDefault: () => void }) => void) | null = null;
+  onmessageerror: (() => void) | null = null;
+  terminated = false;
+
+  postMessage() {
+    setTimeout(() => this.onerror?.({ preventDefault: () => undefined }), 0);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+const globals = globalThis as { Worker?: unknown };
+const originalWorker = globals.Worker;
+
+afterEach(() => {
+  globals.Worker = originalWorker;
+});
+
+describe("worker analysis engine", () => {
+  it("re-runs waiting requests on the main thread when the worker fails", async () => {
+    globals.Worker = BrokenWorker;
+    const engine = createWorkerEngine();
+    const signal = new AbortController().signal;
+
+    const [first, second] = await Promise.all([
+      engine.run({ periods: defaultPeriods }, 1, signal),
+      engine.run({ periods: defaultPeriods }, 2, signal)
+    ]);
+
+    assert.ok(first.data.healthScores);
+    assert.deepEqual(second.data, first.data);
+    engine.dispose();
+  });
+
+  it("keeps reporting validation errors after falling back", async () => {
+    globals.Worker = BrokenWorker;
+    const engine = createWorkerEngine();
+    const signal = new AbortController().signal;
+
+    await engine.run({ periods: defaultPeriods }, 1, signal);
+    await assert.rejects(engine.run({ periods: [] }, 2, signal), AnalysisValidationError);
+    engine.dispose();
+  });
+});
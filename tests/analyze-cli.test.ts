@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, describe, it } from "node:test";
+
+const directory = mkdtempSync(join(tmpdir(), "analyze-cli-"));
+after(() => rmSync(directory, { recursive: true, force: true }));
+
+const period = (label: string, revenue: number, netIncome: number) => ({
+  label,
+  revenue,
+  cogs: revenue * 0.4,
+  operatingExpenses: revenue * 0.6 - netIncome,
+  netIncome,
+  assets: 2000,
+  liabilities: 600,
+  cash: 500,
+  freeCashFlow: netIncome
+});
+
+const writeInput = (name: string, value: unknown) => {
+  const path = join(directory, name);
+  writeFileSync(path, JSON.stringify(value));
+  return path;
+};
+
+const analyze = (...args: string[]) =>
+  spawnSync(process.execPath, ["--import", "tsx", join("scripts", "analyze.ts"), ...args], {
+    encoding: "utf8",
+    input: "",
+    timeout: 60_000
+  });
+
+const profitable = writeInput("profitable.json", [period("FY2022", 1000, 150), period("FY2023", 1200, 200)]);
+const lossMaking = writeInput("loss.json", [period("FY2022", 1000, -50), period("FY2023", 1100, -80)]);
+const alwaysFires = writeInput("rules.json", [
+  { id: "always", metric: "metrics.netMargin", comparator: "gt", threshold: -1000, severity: "info", message: "Always fires." }
+]);
+
+describe("analyze CLI exit codes", () => {
+  it("exits 0 when no signal reaches --fail-on", () => {
+    const result = analyze(lossMaking, "--fail-on", "none");
+
+    assert.equal(result.status, 0, result.stderr);
+    assert.ok(Array.isArray(JSON.parse(result.stdout).signals));
+  });
+
+  it("exits 1 when a signal at or above --fail-on fires", () => {
+    assert.equal(analyze(lossMaking).status, 1);
+    assert.equal(analyze(profitable, "--rules", alwaysFires, "--fail-on", "info").status, 1);
+    assert.equal(analyze(profitable, "--rules", alwaysFires, "--fail-on", "critical").status, 0);
+  });
+
+  it("exits 2 and reports the field when the periods fail validation", () => {
+    const invalid = writeInput("invalid.json", [{ ...period("FY2023", 1000, 100), revenue: "abc" }]);
+    const result = analyze(invalid);
+
+    assert.equal(result.status, 2);
+    assert.match(result.stderr, /periods\[0\]\.revenue/);
+    assert.equal(result.stdout, "");
+  });
+
+  it("exits 64 on usage errors", () => {
+    assert.equal(analyze(profitable, "--format", "xml").status, 64);
+    assert.equal(analyze(profitable, "--fail-on", "severe").status, 64);
+    assert.equal(analyze(profitable, "--unknown").status, 64);
+    assert.equal(analyze(join(directory, "missing.json")).status, 64);
+  });
+});
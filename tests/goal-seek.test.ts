@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { runAnalysis } from "@/lib/analysis";
+import { readTarget, solveForTarget, type GoalTarget } from "@/lib/goal-seek";
+import { defaultAssumptions, defaultPeriods } from "@/lib/sample-data";
+
+const finalRevenue: GoalTarget = { kind: "scenario", metric: "revenue", yearIndex: -1 };
+
+const revenueAt = (revenueGrowth: number) =>
+  readTarget(runAnalysis(defaultPeriods, { ...defaultAssumptions, revenueGrowth }), finalRevenue) ?? Number.NaN;
+
+describe("goal seek", () => {
+  it("converges on a reachable target", () => {
+    const value = revenueAt(defaultAssumptions.revenueGrowth + 3);
+    const result = solveForTarget(defaultPeriods, defaultAssumptions, { target: finalRevenue, value, vary: ["revenueGrowth"] });
+
+    assert.equal(result.status, "solved");
+    if (result.status !== "solved") return;
+    assert.ok(Math.abs(result.achieved - value) <= Math.abs(value) * 1e-6);
+    assert.ok(Math.abs(result.shift - 3) < 1e-3);
+    assert.equal(result.assumptions.marginShift, defaultAssumptions.marginShift);
+  });
+
+  it("returns the base assumptions when the target is already met", () => {
+    const value = revenueAt(defaultAssumptions.revenueGrowth);
+    const result = solveForTarget(defaultPeriods, defaultAssumptions, { target: finalRevenue, value, vary: ["revenueGrowth"] });
+
+    assert.equal(result.status, "solved");
+    if (result.status === "solved") assert.equal(result.shift, 0);
+  });
+
+  it("keeps a base outside the bounds as it is instead of clamping it", () => {
+    const base = { ...defaultAssumptions, revenueGrowth: 30 };
+    const value = revenueAt(30);
+    const result = solveForTarget(defaultPeriods, base, { target: finalRevenue, value, vary: ["revenueGrowth"] });
+
+    assert.equal(result.status, "solved");
+    if (result.status !== "solved") return;
+    assert.equal(result.shift, 0);
+    assert.deepEqual(result.assumptions, base);
+  });
+
+  it("only moves an out-of-bounds base back towards its bounds", () => {
+    const base = { ...defaultAssumptions, revenueGrowth: 30 };
+    const result = solveForTarget(defaultPeriods, base, { target: finalRevenue, value: revenueAt(40), vary: ["revenueGrowth"] });
+
+    assert.equal(result.status, "infeasible");
+    if (result.status !== "infeasible") return;
+    assert.ok(result.range);
+    assert.ok(Math.abs(result.range.max - revenueAt(30)) <= Math.abs(revenueAt(30)) * 1e-9);
+  });
+
+  it("reports the achievable range when the target is out of reach", () => {
+    const ceiling = revenueAt(20);
+    const result = solveForTarget(defaultPeriods, defaultAssumptions, {
+      target: finalRevenue,
+      value: ceiling * 2,
+      vary: ["revenueGrowth"]
+    });
+
+    assert.equal(result.status, "infeasible");
+    if (result.status !== "infeasible") return;
+    assert.ok(result.range);
+    assert.ok(Math.abs(result.range.max - ceiling) <= Math.abs(ceiling) * 1e-9);
+  });
+
+  it("asks for at least one assumption to vary", () => {
+    const result = solveForTarget(defaultPeriods, defaultAssumptions, { target: finalRevenue, value: 1, vary: [] });
+
+    assert.deepEqual(result, { status: "infeasible", reason: "Choose at least one assumption to vary.", range: null, evaluations: 0 });
+  });
+});
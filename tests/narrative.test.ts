@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { checkGrounding, type NarrativeInput } from "@/lib/narrative";
+
+const input: NarrativeInput = {
+  metrics: {
+    cagr: 0.124,
+    netMargin: -0.042,
+    burnMultiple: 1.8,
+    grossMargin: 0.61,
+    operatingMargin: -0.015,
+    liquidityRatio: 2.35,
+    leverageRatio: 0.48
+  },
+  healthScores: { overall: 64.2, growth: 74.8, profitability: 38, liquidity: 71, leverage: 52 },
+  riskSignals: ["Net margin is -4.2%, below 0.0%."],
+  narrative: ""
+};
+
+describe("narrative grounding", () => {
+  it("accepts figures quoted with their sign at or below the payload precision", () => {
+    const report = checkGrounding("Revenue grew 12.4% a year, but the net margin is -4.2% and the overall score is 64.", input);
+
+    assert.deepEqual(report.unsupported, []);
+    assert.equal(report.grounded, true);
+  });
+
+  it("rejects a negative figure quoted as positive", () => {
+    assert.deepEqual(checkGrounding("The business runs a 4.2% net margin.", input).unsupported, ["4.2%"]);
+  });
+
+  it("holds each figure to its own stated precision", () => {
+    assert.deepEqual(checkGrounding("Growth was 12% on a 12.5% base.", input).unsupported, ["12.5%"]);
+  });
+
+  it("checks bare numbers against payload values, not their percentage form", () => {
+    assert.deepEqual(checkGrounding("Liquidity covers 2.35 times liabilities across 48 branches.", input).unsupported, [
+      "48"
+    ]);
+  });
+
+  it("does not read hyphenated ranges as negative figures", () => {
+    assert.deepEqual(checkGrounding("Scores of 71-74.8 are healthy.", input).unsupported, []);
+  });
+});
@@ -0,0 +1,29 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultRunwayOptions, projectRunway } from "@/lib/runway";
+import { defaultPeriods } from "@/lib/sample-data";
+
+// Pre-revenue and burning a flat 10,000 a month, so cash lasts exactly six months.
+const periods = defaultPeriods.map((period) => ({ ...period, revenue: 0, cash: 60_000, freeCashFlow: -120_000 }));
+const assumptions = { revenueGrowth: 0, marginShift: 0, efficiencyGain: 0, cashConversion: 0 };
+
+const withFinancing = (amount: number) =>
+  projectRunway(periods, assumptions, { ...defaultRunwayOptions, financing: { amount, month: 1 } });
+
+describe("runway extension", () => {
+  it("measures the months a raise adds when both runways end inside the horizon", () => {
+    const result = withFinancing(30_000);
+
+    assert.equal(result?.base.runwayMonths, 6);
+    assert.equal(result?.financed?.runwayMonths, 9);
+    assert.equal(result?.extensionMonths, 3);
+  });
+
+  it("leaves the extension open-ended when the financed runway outlasts the horizon", () => {
+    const result = withFinancing(1_000_000);
+
+    assert.equal(result?.base.runwayMonths, 6);
+    assert.equal(result?.financed?.runwayMonths, null);
+    assert.equal(result?.extensionMonths, null);
+  });
+});
@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultAssumptions, defaultPeriods } from "@/lib/sample-data";
+import { createRandom, distributionQuantile, runSimulation, type AssumptionDistributions } from "@/lib/simulation";
+import { normalizeDistributions } from "@/lib/validation";
+
+const distributions: AssumptionDistributions = {
+  revenueGrowth: { kind: "normal", mean: 4, stdDev: 3 },
+  marginShift: { kind: "triangular", min: -2, mode: 1.5, max: 4 },
+  cashConversion: { kind: "uniform", min: -5, max: 8 }
+};
+
+describe("seeded random numbers", () => {
+  it("repeats the same sequence for the same seed and stays within [0, 1)", () => {
+    const first = createRandom(7);
+    const second = createRandom(7);
+    const values = Array.from({ length: 500 }, () => first());
+
+    assert.deepEqual(values, Array.from({ length: 500 }, () => second()));
+    assert.ok(values.every((value) => value >= 0 && value < 1));
+    assert.notDeepEqual(values.slice(0, 10), Array.from({ length: 10 }, createRandom(8)));
+  });
+});
+
+describe("monte carlo simulation", () => {
+  it("reproduces identical bands for the same seed", () => {
+    const run = (seed: number) => runSimulation(defaultPeriods, defaultAssumptions, distributions, { iterations: 200, seed });
+
+    assert.deepEqual(run(7), run(7));
+    assert.notDeepEqual(run(7).bands, run(8).bands);
+  });
+
+  it("orders every percentile band", () => {
+    const { bands } = runSimulation(defaultPeriods, defaultAssumptions, distributions, { iterations: 200, seed: 7 });
+
+    assert.ok(bands.length > 0);
+    for (const band of bands) {
+      assert.ok(band.revenue.p10 <= band.revenue.p50 && band.revenue.p50 <= band.revenue.p90);
+      assert.ok(band.netIncome.p10 <= band.netIncome.p50 && band.netIncome.p50 <= band.netIncome.p90);
+    }
+  });
+
+  it("keeps sampled values inside the distribution bounds", () => {
+    const normal = { kind: "normal" as const, mean: 0, stdDev: 10, min: -1, max: 1 };
+
+    assert.equal(distributionQuantile(normal, 0.001), -1);
+    assert.equal(distributionQuantile(normal, 0.999), 1);
+    assert.equal(distributionQuantile({ kind: "triangular", min: 0, mode: 5, max: 10 }, 0.5), 5);
+    assert.equal(distributionQuantile({ kind: "uniform", min: 2, max: 4 }, 0.25), 2.5);
+  });
+});
+
+describe("distribution validation", () => {
+  const fields = (raw: unknown) => normalizeDistributions(raw).issues.map((issue) => issue.field);
+
+  it("rejects kinds that are not distributions, including inherited object keys", () => {
+    assert.deepEqual(fields({ revenueGrowth: { kind: "toString", min: 0, max: 1 } }), ["distributions.revenueGrowth"]);
+    assert.deepEqual(fields({ marginShift: { kind: "constructor" } }), ["distributions.marginShift"]);
+    assert.deepEqual(fields({ efficiencyGain: "uniform" }), ["distributions.efficiencyGain"]);
+  });
+
+  it("rejects inverted bounds", () => {
+    assert.deepEqual(fields({ revenueGrowth: { kind: "uniform", min: 5, max: 1 } }), ["distributions.revenueGrowth"]);
+    assert.deepEqual(fields({ revenueGrowth: { kind: "normal", mean: 3, stdDev: 1, min: 5, max: 1 } }), [
+      "distributions.revenueGrowth"
+    ]);
+    assert.deepEqual(fields({ revenueGrowth: { kind: "triangular", min: 0, mode: 6, max: 5 } }), [
+      "distributions.revenueGrowth"
+    ]);
+  });
+
+  it("accepts well-formed distributions and numeric strings", () => {
+    const { value, issues } = normalizeDistributions({
+      revenueGrowth: { kind: "normal", mean: "4", stdDev: 2 },
+      cashConversion: { kind: "uniform", min: -1, max: "3" }
+    });
+
+    assert.deepEqual(issues, []);
+    assert.deepEqual(value, {
+      revenueGrowth: { kind: "normal", mean: 4, stdDev: 2, min: undefined, max: undefined },
+      cashConversion: { kind: "uniform", min: -1, max: 3 }
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { applyImportMapping, buildImportPreview, matchField, parseDelimited, resolveImportSources } from "@/lib/statement-import";
+
+const importCsv = (text: string) => {
+  const preview = buildImportPreview(parseDelimited(text));
+  return { preview, periods: applyImportMapping(preview), duplicates: resolveImportSources(preview).duplicates };
+};
+
+describe("statement import mapping", () => {
+  it("keeps the exact alias match and reports the other rows instead of summing them", () => {
+    const { periods, duplicates } = importCsv(
+      ["Line item,FY2023", "Revenue,100", "Liabilities,50", "Total liabilities,200"].join("\n")
+    );
+
+    assert.equal(periods[0].liabilities, 50);
+    assert.deepEqual(duplicates, [{ target: "liabilities", kept: "Liabilities", ignored: ["Total liabilities"] }]);
+  });
+
+  it("keeps the first row when no duplicate is an exact match", () => {
+    const { periods, duplicates } = importCsv(
+      ["Line item,FY2023", "Total revenues,120", "Net sales,110"].join("\n")
+    );
+
+    assert.equal(periods[0].revenue, 120);
+    assert.equal(duplicates[0].kept, "Total revenues");
+  });
+
+  it("names repeated headers by position", () => {
+    const { duplicates } = importCsv(["Line item,FY2023", "Total liabilities,10", "Total liabilities,20"].join("\n"));
+
+    assert.deepEqual(duplicates[0].ignored, ["Total liabilities (row 3)"]);
+    assert.equal(duplicates[0].kept, "Total liabilities (row 2)");
+  });
+
+  it("does not map combined liabilities and equity subtotals", () => {
+    assert.equal(matchField("Total liabilities and equity"), null);
+    assert.equal(matchField("Total liabilities and shareholders' equity"), null);
+    assert.equal(matchField("Total liabilities"), "liabilities");
+
+    const { periods } = importCsv(["Line item,FY2023", "Total liabilities and equity,250", "Total liabilities,50"].join("\n"));
+    assert.equal(periods[0].liabilities, 50);
+  });
+
+  it("negates loss rows so a reported loss becomes negative net income", () => {
+    const { periods } = importCsv(["Line item,FY2022,FY2023", "Revenue,100,90", "Net loss,30,0"].join("\n"));
+
+    assert.equal(periods[0].netIncome, -30);
+    assert.equal(Object.is(periods[1].netIncome, 0), true);
+  });
+
+  it("keeps a parenthesised loss negative", () => {
+    const { periods } = importCsv(["Line item,FY2023", "Revenue,100", 'Net loss,"(30)"'].join("\n"));
+
+    assert.equal(periods[0].netIncome, -30);
+  });
+
+  it("maps tax and interest only from their own lines", () => {
+    for (const label of ["Income before income taxes", "Deferred income taxes", "Cash paid for income taxes", "Interest paid"]) {
+      assert.equal(matchField(label), null, label);
+    }
+    assert.equal(matchField("Provision for income taxes"), "taxes");
+    assert.equal(matchField("Total income tax expense"), "taxes");
+    assert.equal(matchField("Interest expense"), "interestExpense");
+  });
+});
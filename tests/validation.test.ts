@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { normalizeAnalysisRequest, normalizePeriods, normalizeRiskRules, normalizeUnits, normalizeWatchConditions } from "@/lib/validation";
+
+const period = (overrides: Record<string, unknown> = {}) => ({
+  label: "FY2023",
+  revenue: 1000,
+  cogs: 400,
+  operatingExpenses: 300,
+  netIncome: 300,
+  assets: 2000,
+  liabilities: 800,
+  cash: 500,
+  freeCashFlow: 250,
+  ...overrides
+});
+
+const codes = (issues: { code: string }[]) => issues.map((issue) => issue.code);
+
+describe("period validation", () => {
+  it("rejects a missing or empty periods array", () => {
+    assert.deepEqual(codes(normalizePeriods({}).issues), ["periods.type"]);
+    assert.deepEqual(codes(normalizePeriods([]).issues), ["periods.empty"]);
+  });
+
+  it("accepts numeric strings and reports the field and period of bad values", () => {
+    const { value, issues } = normalizePeriods([period({ revenue: " 1200 " }), period({ label: "FY2024", cash: "12k" })]);
+
+    assert.equal(value[0].revenue, 1200);
+    assert.equal(issues.length, 1);
+    assert.deepEqual(
+      { code: issues[0].code, periodIndex: issues[0].periodIndex, field: issues[0].field },
+      { code: "value.invalid", periodIndex: 1, field: "cash" }
+    );
+  });
+
+  it("distinguishes missing values from invalid ones", () => {
+    const { issues } = normalizePeriods([period({ label: " ", netIncome: undefined, liabilities: "" })]);
+
+    assert.deepEqual(codes(issues).sort(), ["label.required", "value.required", "value.required"]);
+  });
+
+  it("rejects non-finite numbers and non-object rows", () => {
+    const { issues } = normalizePeriods([period({ revenue: Number.NaN }), "FY2024"]);
+
+    assert.deepEqual(codes(issues), ["value.invalid", "period.type"]);
+  });
+
+  it("checks ISO dates and their order", () => {
+    const { issues } = normalizePeriods([
+      period({ startDate: "2023-13-01" }),
+      period({ label: "FY2024", startDate: "2024-12-31", endDate: "2024-01-01" })
+    ]);
+
+    assert.deepEqual(
+      issues.map(({ periodIndex, field }) => `${periodIndex}.${field}`),
+      ["0.startDate", "1.endDate"]
+    );
+  });
+});
+
+describe("analysis request validation", () => {
+  it("normalizes a valid request without errors", () => {
+    const request = normalizeAnalysisRequest({ periods: [period()] });
+
+    assert.deepEqual(request.errors, []);
+    assert.equal(request.planId, "base");
+    assert.equal(request.valuation, null);
+  });
+
+  it("treats an explicit null valuation as no valuation", () => {
+    const request = normalizeAnalysisRequest({ periods: [period()], valuation: null });
+
+    assert.deepEqual(request.errors, []);
+    assert.equal(request.valuation, null);
+  });
+
+  it("warns, without failing, when net income does not reconcile", () => {
+    const request = normalizeAnalysisRequest({ periods: [period({ netIncome: 900 })] });
+
+    assert.deepEqual(request.errors, []);
+    assert.deepEqual(codes(request.warnings), ["consistency.netIncome"]);
+  });
+
+  it("collects errors from every section of the payload", () => {
+    const request = normalizeAnalysisRequest({
+      periods: [period()],
+      assumptions: { revenueGrowth: "fast" },
+      projection: { horizonMonths: 500 }
+    });
+
+    assert.deepEqual(codes(request.errors).sort(), ["projection.horizon", "value.invalid"]);
+    assert.deepEqual(request.warnings, []);
+  });
+});
+
+describe("risk rule validation", () => {
+  const rule = (overrides: Record<string, unknown> = {}) => ({
+    metric: "metrics.netMargin",
+    comparator: "lt",
+    threshold: 0,
+    ...overrides
+  });
+
+  it("accepts a rule with a known comparator", () => {
+    const { value, issues } = normalizeRiskRules([rule()]);
+
+    assert.deepEqual(issues, []);
+    assert.equal(value[0].comparator, "lt");
+  });
+
+  it("rejects comparators inherited from Object.prototype", () => {
+    for (const comparator of ["toString", "constructor", "__proto__"]) {
+      const { issues } = normalizeRiskRules([rule({ comparator })]);
+      assert.deepEqual(issues.map((issue) => issue.field), ["comparator"], comparator);
+    }
+  });
+});
+
+describe("unit validation", () => {
+  it("accepts a known scale and upper-cases the currency", () => {
+    assert.deepEqual(normalizeUnits({ currency: "eur", scale: "thousands" }), {
+      value: { currency: "EUR", scale: "thousands" },
+      issues: []
+    });
+  });
+
+  it("rejects scales inherited from Object.prototype", () => {
+    for (const scale of ["toString", "constructor", "hasOwnProperty"]) {
+      const { issues } = normalizeUnits({ currency: "USD", scale });
+      assert.deepEqual(issues.map((issue) => issue.field), ["units.scale"], scale);
+    }
+  });
+});
+
+describe("watch condition validation", () => {
+  it("rejects threshold comparators inherited from Object.prototype", () => {
+    const { issues } = normalizeWatchConditions([
+      { kind: "threshold", metric: "metrics.netMargin", comparator: "toString", threshold: 0 }
+    ]);
+
+    assert.deepEqual(issues.map((issue) => issue.field), ["comparator"]);
+  });
+});
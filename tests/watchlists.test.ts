@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { isPrivateHost, normalizeWebhookTargets } from "@/lib/validation";
+import { issuedSecrets, redactWatch, updateWatch, type Watch } from "@/lib/watchlists";
+
+const watch: Watch = {
+  id: "watch-1",
+  workspaceId: "workspace-1",
+  name: "Acme",
+  enabled: true,
+  cadenceMinutes: 60,
+  conditions: [],
+  webhooks: [
+    { id: "hook-1", url: "https://example.com/a", secret: "whsec_a" },
+    { id: "hook-2", url: "https://example.com/b", secret: "whsec_b" }
+  ],
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  lastRun: null,
+  lastError: null,
+  deliveries: []
+};
+
+describe("watch responses", () => {
+  it("never include webhook secrets", () => {
+    const redacted = redactWatch(watch);
+
+    assert.deepEqual(redacted.webhooks, [
+      { id: "hook-1", url: "https://example.com/a" },
+      { id: "hook-2", url: "https://example.com/b" }
+    ]);
+    assert.doesNotMatch(JSON.stringify(redacted), /whsec_/);
+  });
+
+  it("report only the secrets issued by a change", () => {
+    const next = [watch.webhooks[0], { id: "hook-3", url: "https://example.com/c", secret: "whsec_c" }];
+
+    assert.deepEqual(issuedSecrets(watch.webhooks, next), [{ webhookId: "hook-3", secret: "whsec_c" }]);
+    assert.deepEqual(issuedSecrets([], watch.webhooks).map(({ webhookId }) => webhookId), ["hook-1", "hook-2"]);
+  });
+});
+
+describe("webhook updates", () => {
+  let directory = "";
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), "watchlists-"));
+    process.env.AURORA_DATA_DIR = directory;
+    await mkdir(join(directory, "watchlists"));
+    await writeFile(join(directory, "watchlists", `${watch.id}.json`), JSON.stringify(watch));
+  });
+
+  after(async () => {
+    delete process.env.AURORA_DATA_DIR;
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("keeps the secret when a webhook is re-submitted unchanged", async () => {
+    const { watch: updated, secrets } = await updateWatch(watch.id, {
+      webhooks: watch.webhooks.map(({ id, url }) => ({ id, url }))
+    });
+
+    assert.deepEqual(updated.webhooks, watch.webhooks);
+    assert.deepEqual(secrets, []);
+  });
+
+  it("issues a new secret when a known id points at a new URL", async () => {
+    const { watch: updated, secrets } = await updateWatch(watch.id, {
+      webhooks: [{ id: "hook-1", url: "https://attacker.example/collect" }]
+    });
+
+    assert.equal(updated.webhooks[0].id, "hook-1");
+    assert.notEqual(updated.webhooks[0].secret, "whsec_a");
+    assert.deepEqual(secrets, [{ webhookId: "hook-1", secret: updated.webhooks[0].secret }]);
+  });
+});
+
+describe("webhook URL validation", () => {
+  it("refuses loopback, private and link-local hosts", () => {
+    const urls = [
+      "http://localhost:3000/api/webhooks/receiver",
+      "http://127.0.0.1/",
+      "http://10.0.0.8/hook",
+      "http://172.20.1.1/",
+      "http://192.168.1.10/",
+      "http://169.254.169.254/latest/meta-data",
+      "http://[::1]/",
+      "http://[::ffff:127.0.0.1]/",
+      "http://[fd00::1]/",
+      "http://2130706433/"
+    ];
+    const { value, issues } = normalizeWebhookTargets(urls.map((url) => ({ url })));
+
+    assert.deepEqual(value, []);
+    assert.equal(issues.length, urls.length);
+  });
+
+  it("accepts public hosts", () => {
+    assert.deepEqual(normalizeWebhookTargets([{ url: "https://hooks.example.com/aurora" }]).issues, []);
+    assert.equal(isPrivateHost("172.32.0.1"), false);
+    assert.equal(isPrivateHost("8.8.8.8"), false);
+  });
+});
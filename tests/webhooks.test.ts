@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { SIGNATURE_TOLERANCE_SECONDS, signPayload, verifySignature } from "@/lib/webhooks";
+
+const secret = "whsec_test";
+const body = JSON.stringify({ event: "watch.alert", id: "evt_1" });
+const timestamp = 1_700_000_000;
+const now = timestamp * 1000;
+
+describe("webhook signatures", () => {
+  it("verifies a payload signed with the same secret", () => {
+    const header = signPayload(secret, body, timestamp);
+
+    assert.match(header, /^t=1700000000,v1=[0-9a-f]{64}$/);
+    assert.equal(verifySignature(secret, body, header, now), true);
+  });
+
+  it("rejects a tampered body, a different secret or a malformed header", () => {
+    const header = signPayload(secret, body, timestamp);
+
+    assert.equal(verifySignature(secret, `${body} `, header, now), false);
+    assert.equal(verifySignature("whsec_other", body, header, now), false);
+    assert.equal(verifySignature(secret, body, null, now), false);
+    assert.equal(verifySignature(secret, body, `v1=${header.split("v1=")[1]}`, now), false);
+    assert.equal(verifySignature(secret, body, `t=${timestamp},v1=abc`, now), false);
+  });
+
+  it("accepts timestamps within the tolerance window and rejects replays outside it", () => {
+    const header = signPayload(secret, body, timestamp);
+    const tolerance = SIGNATURE_TOLERANCE_SECONDS * 1000;
+
+    assert.equal(verifySignature(secret, body, header, now + tolerance), true);
+    assert.equal(verifySignature(secret, body, header, now - tolerance), true);
+    assert.equal(verifySignature(secret, body, header, now + tolerance + 1000), false);
+    assert.equal(verifySignature(secret, body, header, now - tolerance - 1000), false);
+  });
+});
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { runAnalysis } from "@/lib/analysis";
+import type { RiskSignal } from "@/lib/risk-rules";
+import { defaultAssumptions, defaultPeriods } from "@/lib/sample-data";
+import { diffVersions } from "@/lib/workspace-diff";
+import type { WorkspaceVersion } from "@/lib/workspaces";
+
+const signal = (ruleId: string, severity: RiskSignal["severity"], message: string): RiskSignal => ({
+  ruleId,
+  source: "rule",
+  severity,
+  message,
+  metric: null,
+  comparator: null,
+  observed: null,
+  threshold: null
+});
+
+const version = (number: number, signals: RiskSignal[]): WorkspaceVersion => ({
+  version: number,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  note: "",
+  periods: defaultPeriods,
+  scenarios: [{ id: "base", name: "Base", assumptions: defaultAssumptions }],
+  planId: "base",
+  analysis: runAnalysis(defaultPeriods, defaultAssumptions),
+  signals
+});
+
+describe("version signal diff", () => {
+  it("reports a signal whose figures moved under the same rule as changed, not added and removed", () => {
+    const diff = diffVersions(
+      version(1, [signal("negative-margin", "critical", "Net margin is -4.0%, below 0.0%.")]),
+      version(2, [signal("negative-margin", "critical", "Net margin is -6.5%, below 0.0%.")])
+    );
+
+    assert.deepEqual(diff.riskSignals, {
+      added: [],
+      removed: [],
+      changed: [
+        {
+          ruleId: "negative-margin",
+          severity: "critical",
+          from: "Net margin is -4.0%, below 0.0%.",
+          to: "Net margin is -6.5%, below 0.0%."
+        }
+      ]
+    });
+  });
+
+  it("leaves identical signals out and treats an escalation as a new signal", () => {
+    const steady = signal("low-runway", "warning", "Runway is 9 months.");
+    const diff = diffVersions(
+      version(1, [steady, signal("high-leverage", "warning", "Liabilities are 65% of assets.")]),
+      version(2, [steady, signal("high-leverage", "critical", "Liabilities are 80% of assets.")])
+    );
+
+    assert.deepEqual(diff.riskSignals.changed, []);
+    assert.deepEqual(diff.riskSignals.added.map(({ ruleId, severity }) => `${ruleId}:${severity}`), ["high-leverage:critical"]);
+    assert.deepEqual(diff.riskSignals.removed.map(({ ruleId, severity }) => `${ruleId}:${severity}`), ["high-leverage:warning"]);
+  });
+});